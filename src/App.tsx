@@ -2,81 +2,115 @@
 // Basic App component to get Kairos started
 
 import React from 'react';
+import { BrowserRouter, NavLink, Outlet, Route, Routes } from 'react-router-dom';
 import { ThemeProvider } from './styles/ThemeProvider';
 import { ThemeSwitcher } from './components/theme/ThemeSwitcher';
+import Rules from './pages/Rules';
+import RuleEditor from './pages/RuleEditor';
 import './App.css';
 
-function App() {
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `text-sm font-medium ${isActive ? 'text-primary' : 'text-text-secondary hover:text-text'}`;
+
+function Layout() {
   return (
-    <ThemeProvider>
-      <div className="min-h-screen bg-background text-text">
-        {/* Header */}
-        <header className="border-b border-border bg-surface">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="flex justify-between items-center h-16">
-              <div className="flex items-center">
-                <h1 className="text-xl font-semibold text-primary">
-                  ⏰ Kairos
-                </h1>
-                <span className="ml-2 text-sm text-text-muted">
-                  The Perfect Moment
-                </span>
-              </div>
-              <ThemeSwitcher />
+    <div className="min-h-screen bg-background text-text">
+      {/* Header */}
+      <header className="border-b border-border bg-surface">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-primary">
+                ⏰ Kairos
+              </h1>
+              <span className="ml-2 text-sm text-text-muted">
+                The Perfect Moment
+              </span>
+              <nav className="ml-8 flex items-center space-x-6">
+                <NavLink to="/" end className={navLinkClass}>Home</NavLink>
+                <NavLink to="/rules" className={navLinkClass}>Rules</NavLink>
+              </nav>
             </div>
+            <ThemeSwitcher />
           </div>
-        </header>
+        </div>
+      </header>
 
-        {/* Main Content */}
-        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <div className="text-center">
-            <h2 className="text-3xl font-bold mb-4">
-              Welcome to Kairos
-            </h2>
-            <p className="text-lg text-text-secondary mb-8">
-              The perfect moment delivery interface is ready for development.
-            </p>
-            
-            {/* Demo Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
-              <div className="kairos-card p-6">
-                <h3 className="text-lg font-semibold mb-2">Theme System</h3>
-                <p className="text-text-secondary">
-                  Switch between themes using the theme switcher in the header.
-                </p>
-              </div>
-              
-              <div className="kairos-card p-6">
-                <h3 className="text-lg font-semibold mb-2">Components</h3>
-                <p className="text-text-secondary">
-                  Pre-built components with consistent styling across themes.
-                </p>
-                <button className="kairos-button mt-4">
-                  Sample Button
-                </button>
-              </div>
-              
-              <div className="kairos-card p-6">
-                <h3 className="text-lg font-semibold mb-2">Ready to Build</h3>
-                <p className="text-text-secondary">
-                  Start building your perfect moment delivery interface.
-                </p>
-              </div>
-            </div>
-          </div>
-        </main>
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Outlet />
+      </main>
 
-        {/* Footer */}
-        <footer className="border-t border-border bg-surface mt-16">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-            <p className="text-center text-text-muted text-sm">
-              Kairos - Delivering the perfect moment, every time.
-            </p>
-          </div>
-        </footer>
+      {/* Footer */}
+      <footer className="border-t border-border bg-surface mt-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <p className="text-center text-text-muted text-sm">
+            Kairos - Delivering the perfect moment, every time.
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+function Welcome() {
+  return (
+    <div className="text-center">
+      <h2 className="text-3xl font-bold mb-4">
+        Welcome to Kairos
+      </h2>
+      <p className="text-lg text-text-secondary mb-8">
+        The perfect moment delivery interface is ready for development.
+      </p>
+
+      {/* Demo Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
+        <div className="kairos-card p-6">
+          <h3 className="text-lg font-semibold mb-2">Theme System</h3>
+          <p className="text-text-secondary">
+            Switch between themes using the theme switcher in the header.
+          </p>
+        </div>
+
+        <div className="kairos-card p-6">
+          <h3 className="text-lg font-semibold mb-2">Components</h3>
+          <p className="text-text-secondary">
+            Pre-built components with consistent styling across themes.
+          </p>
+          <button className="kairos-button mt-4">
+            Sample Button
+          </button>
+        </div>
+
+        <div className="kairos-card p-6">
+          <h3 className="text-lg font-semibold mb-2">Ready to Build</h3>
+          <p className="text-text-secondary">
+            Start building your perfect moment delivery interface.
+          </p>
+        </div>
       </div>
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <ThemeProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route element={<Layout />}>
+            <Route path="/" element={<Welcome />} />
+            <Route path="/rules" element={<Rules />} />
+          </Route>
+
+          {/* The builder is a full-screen workspace, so it renders outside the page layout.
+              One key for both routes: a new rule's first save moves it to /rules/:ruleId without remounting the editor */}
+          <Route path="/rules/new" element={<RuleEditor key="rule-editor" />} />
+          <Route path="/rules/:ruleId" element={<RuleEditor key="rule-editor" />} />
+        </Routes>
+      </BrowserRouter>
     </ThemeProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
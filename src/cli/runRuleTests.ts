@@ -0,0 +1,98 @@
+// src/cli/runRuleTests.ts
+// Command line entry for running exported rules against their scenario files without a browser
+// Usage: npm run test:rules -- [--format tap|junit] [--output report.xml] <rule file> <scenario file> [...]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import {
+  RuleTestReportFormat,
+  RuleTestSuite,
+  formatRuleTestReport,
+  isFailingSuite,
+  loadRuleSuite,
+  runRuleSuite
+} from '../services/RuleTestRunner';
+
+interface CliOptions {
+  format: RuleTestReportFormat;
+  output?: string;
+  pairs: Array<{ ruleFile: string; scenarioFile: string }>;
+}
+
+const USAGE = 'Usage: runRuleTests [--format tap|junit] [--output <file>] <rule file> <scenario file> [<rule file> <scenario file> ...]';
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { format: 'tap', pairs: [] };
+  const files: string[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--format') {
+      const format = argv[++index];
+      if (format !== 'tap' && format !== 'junit') throw new UsageError(`Unknown format "${format ?? ''}"`);
+      options.format = format;
+    } else if (arg === '--output') {
+      options.output = argv[++index];
+      if (!options.output) throw new UsageError('--output needs a file name');
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Unknown option "${arg}"`);
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0 || files.length % 2 !== 0) {
+    throw new UsageError('Expected pairs of rule and scenario files');
+  }
+  for (let index = 0; index < files.length; index += 2) {
+    options.pairs.push({ ruleFile: files[index], scenarioFile: files[index + 1] });
+  }
+  return options;
+};
+
+// An unreadable file fails its suite like an invalid one, so the other pairs still run and get reported
+const loadSuite = (ruleFile: string, scenarioFile: string): RuleTestSuite => {
+  const errors: string[] = [];
+  const read = (file: string): string | null => {
+    try {
+      return readFileSync(file, 'utf8');
+    } catch (error) {
+      errors.push(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  };
+
+  const ruleContent = read(ruleFile);
+  const scenarioContent = read(scenarioFile);
+  if (ruleContent === null || scenarioContent === null) {
+    return { name: basename(ruleFile), rule: null, scenarios: [], errors };
+  }
+  return loadRuleSuite({ content: ruleContent, fileName: basename(ruleFile) }, scenarioContent);
+};
+
+// Returns the process exit code: 0 when every scenario passed, 1 on failures, 2 on usage errors
+const main = (argv: string[]): number => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n${USAGE}`);
+    return 2;
+  }
+
+  const results = options.pairs.map(({ ruleFile, scenarioFile }) => runRuleSuite(loadSuite(ruleFile, scenarioFile)));
+
+  const report = formatRuleTestReport(results, options.format);
+  if (options.output) {
+    writeFileSync(options.output, report);
+  } else {
+    process.stdout.write(report);
+  }
+
+  return results.some(isFailingSuite) ? 1 : 0;
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,120 @@
+// src/components/RuleBuilder/AtomCommandPalette.tsx
+// Keyboard command palette for inserting atoms without drag-and-drop
+// Filters the same atoms as AtomPalette and inserts the chosen one under the focused atom
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { getPaletteAtoms, atomMatchesSearch } from './AtomPalette';
+
+interface AtomCommandPaletteProps {
+  // Name of the atom that receives the insert; absent when the canvas is empty
+  parentName?: string | null;
+  onInsert: (atomType: string) => void;
+  onClose: () => void;
+}
+
+export const AtomCommandPalette: React.FC<AtomCommandPaletteProps> = ({ parentName, onInsert, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const atoms = useMemo(getPaletteAtoms, []);
+  const matches = useMemo(() => atoms.filter(atom => atomMatchesSearch(atom, searchTerm)), [atoms, searchTerm]);
+
+  useEffect(() => setActiveIndex(0), [searchTerm]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, matches.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (matches[activeIndex]) onInsert(matches[activeIndex].type);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        event.stopPropagation();
+        onClose();
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `atom-command-option-${index}`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-30 flex items-start justify-center z-50 p-4 pt-24"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Insert atom"
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center px-4 border-b border-gray-200">
+          <Search className="w-4 h-4 text-gray-400" aria-hidden="true" />
+          <input
+            autoFocus
+            type="text"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="atom-command-options"
+            aria-activedescendant={matches.length > 0 ? optionId(activeIndex) : undefined}
+            aria-label="Search atoms"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1 px-3 py-3 text-sm focus:outline-none"
+            placeholder={parentName ? `Insert an atom under ${parentName}...` : 'Insert the first atom...'}
+          />
+        </div>
+
+        <ul
+          ref={listRef}
+          id="atom-command-options"
+          role="listbox"
+          aria-label="Atoms"
+          className="max-h-80 overflow-y-auto py-1"
+        >
+          {matches.map((atom, index) => (
+            <li
+              key={atom.type}
+              id={optionId(index)}
+              data-index={index}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onInsert(atom.type)}
+              className={`px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">{atom.name}</span>
+                <span className="text-xs text-gray-500 capitalize">{atom.category}</span>
+              </div>
+              <p className="text-xs text-gray-500 truncate">{atom.description}</p>
+            </li>
+          ))}
+
+          {matches.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm text-gray-500">No atoms found matching your search.</li>
+          )}
+        </ul>
+
+        <div className="px-4 py-2 border-t border-gray-200 bg-gray-50 text-xs text-gray-500">
+          ↑↓ to choose · Enter to insert · Esc to close
+        </div>
+      </div>
+    </div>
+  );
+};
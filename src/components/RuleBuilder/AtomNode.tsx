@@ -4,12 +4,19 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useDrag } from 'react-dnd';
-import { AtomInstance, AtomDefinition, ParameterValue } from '../../types/RuleTypes';
+import { AtomInstance, AtomDefinition, ParameterValue, ValidationIssue, AtomParameter } from '../../types/RuleTypes';
 import { getAtomDefinition } from '../../services/AtomRegistry';
+import { validateParameterValue } from '../../services/ParameterValidation';
+import { ExpressionContext, analyzeExpression } from '../../services/ExpressionTypeChecker';
+import { checkFieldReference, getLookupContext } from '../../services/InputSchema';
+import { ExpressionInput } from './ExpressionInput';
+import { DebugFrameKind } from '../../services/RuleDebugger';
+import { getCategoryColor } from '../../utils/categoryColors';
 import { 
   Settings, 
   Trash2, 
   Copy, 
+  Clipboard,
   AlertTriangle, 
   AlertCircle, 
   CheckCircle,
@@ -23,55 +30,99 @@ interface AtomNodeProps {
   isSelected: boolean;
   hasErrors?: boolean;
   hasWarnings?: boolean;
-  onSelect: (atomId: string) => void;
+  issues?: ValidationIssue[];
+  // additive is true for shift/ctrl/cmd-click, which toggles the atom in a multi-selection
+  onSelect: (atomId: string, additive?: boolean) => void;
   onUpdate: (atomId: string, updates: Partial<AtomInstance>) => void;
   onDelete: (atomId: string) => void;
+  onDuplicate?: (atomId: string) => void;
+  onCopy?: (atomId: string) => void;
   zoom: number;
+  // The canvas renders atoms flat, so tree structure reaches screen readers through ARIA
+  treeLevel?: number;
+  treePosition?: number;
+  treeSetSize?: number;
+  // Roving tabindex: only one atom in the tree sits in the tab order
+  isFocusTarget?: boolean;
+  // Fields and loop variables available to expression parameters
+  expressionContext?: ExpressionContext;
+  hasBreakpoint?: boolean;
+  // Breakpoints can only be set when the builder provides a debugger
+  onToggleBreakpoint?: (atomId: string) => void;
+  // Set while the debugger is paused on this atom
+  debugFrameKind?: DebugFrameKind;
+  // Set after a full test run; uncovered atoms are shaded
+  coverage?: { hits: number; missedBranches: string[] };
 }
 
+const DEBUG_STYLES: Record<DebugFrameKind, { ring: string; badge: string; label: string }> = {
+  enter: { ring: 'ring-4 ring-amber-400', badge: 'bg-amber-400 text-amber-950', label: 'Paused' },
+  exit: { ring: 'ring-4 ring-emerald-400', badge: 'bg-emerald-400 text-emerald-950', label: 'Finished' },
+  error: { ring: 'ring-4 ring-red-500', badge: 'bg-red-500 text-white', label: 'Error' }
+};
+
 interface ParameterEditModalProps {
   atom: AtomInstance;
   definition: AtomDefinition;
+  initialErrors?: ValidationIssue[];
   onSave: (parameters: Record<string, ParameterValue>) => void;
   onClose: () => void;
+  title?: string;
+  // Bulk edits leave fields blank where the selected atoms disagree, so blanks skip validation
+  allowBlank?: boolean;
+  expressionContext?: ExpressionContext;
 }
 
 // Parameter editing modal
-const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
+export const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
   atom,
   definition,
+  initialErrors,
   onSave,
-  onClose
+  onClose,
+  title,
+  allowBlank = false,
+  expressionContext
 }) => {
   const [parameters, setParameters] = useState(atom.parameters);
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (initialErrors || []).filter(issue => issue.parameter).map(issue => [issue.parameter as string, issue.message])
+    )
+  );
 
-  const validateParameter = (param: any, value: ParameterValue): string | null => {
-    if (param.required && (value === undefined || value === null || value === '')) {
-      return 'This parameter is required';
-    }
+  const parameterInputId = (name: string) => `parameter-${atom.id}-${name}`;
 
-    if (value !== undefined && value !== null && value !== '') {
-      switch (param.type) {
-        case 'number':
-          if (isNaN(Number(value))) return 'Must be a valid number';
-          if (param.min !== undefined && Number(value) < param.min) return `Must be at least ${param.min}`;
-          if (param.max !== undefined && Number(value) > param.max) return `Must be at most ${param.max}`;
-          break;
-        case 'string':
-          if (param.minLength && String(value).length < param.minLength) {
-            return `Must be at least ${param.minLength} characters`;
-          }
-          if (param.maxLength && String(value).length > param.maxLength) {
-            return `Must be at most ${param.maxLength} characters`;
-          }
-          break;
-        case 'array':
-          if (!Array.isArray(value)) return 'Must be an array';
-          break;
-      }
+  const validateParameter = (param: AtomParameter, value: ParameterValue): string | null => {
+    const issue = validateParameterValue(param, value);
+    if (issue) return issue.message;
+
+    if (param.fieldReference && value !== undefined && value !== '') {
+      return fieldReferenceError(param, value);
     }
+    if (!param.expression || typeof value !== 'string' || value.trim() === '') return null;
 
+    // Only errors block saving; warnings are shown inline by ExpressionInput
+    const error = analyzeExpression(value, expressionContext, param.expression).diagnostics
+      .find(diagnostic => diagnostic.severity === 'error');
+    return error ? `Column ${error.start + 1}: ${error.message}` : null;
+  };
+
+  // Lookup fields are relative to the record picked by the `source` parameter being edited alongside
+  const fieldContextFor = (param: AtomParameter): ExpressionContext | null =>
+    param.fieldReference === 'lookup'
+      ? getLookupContext(String(parameters.source ?? ''), expressionContext?.schema)
+      : expressionContext ?? {};
+
+  const fieldReferenceError = (param: AtomParameter, value: ParameterValue): string | null => {
+    const context = fieldContextFor(param);
+    if (!context) return `Source "${parameters.source}" is not declared in the input schema`;
+
+    const paths = Array.isArray(value) ? value.map(String) : [String(value)];
+    for (const path of paths) {
+      const [diagnostic] = checkFieldReference(path, context);
+      if (diagnostic) return diagnostic.message;
+    }
     return null;
   };
 
@@ -81,7 +132,7 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
     // Validate
     const param = definition.parameters?.find(p => p.name === paramName);
     if (param) {
-      const error = validateParameter(param, value);
+      const error = allowBlank && (value === undefined || value === '') ? null : validateParameter(param, value);
       setErrors(prev => ({ ...prev, [paramName]: error || '' }));
     }
   };
@@ -90,7 +141,9 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
     // Validate all parameters
     const newErrors: Record<string, string> = {};
     definition.parameters?.forEach(param => {
-      const error = validateParameter(param, parameters[param.name]);
+      const value = parameters[param.name];
+      if (allowBlank && (value === undefined || value === '')) return;
+      const error = validateParameter(param, value);
       if (error) newErrors[param.name] = error;
     });
 
@@ -105,11 +158,42 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
   const renderParameterInput = (param: any) => {
     const value = parameters[param.name];
     const error = errors[param.name];
+    const inputId = parameterInputId(param.name);
+
+    if (param.expression) {
+      return (
+        <ExpressionInput
+          id={inputId}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(text) => handleParameterChange(param.name, text)}
+          expected={param.expression}
+          context={expressionContext}
+          invalid={!!error}
+          placeholder={param.placeholder || (param.expression === 'array' ? 'e.g. order.items' : 'e.g. user.age >= 18')}
+        />
+      );
+    }
+
+    // Single field paths get field autocomplete from the same input
+    if (param.fieldReference === 'path' && param.type === 'string') {
+      return (
+        <ExpressionInput
+          id={inputId}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(text) => handleParameterChange(param.name, text)}
+          context={expressionContext}
+          invalid={!!error}
+          placeholder={param.placeholder || 'e.g. user.email'}
+        />
+      );
+    }
 
     switch (param.type) {
       case 'string':
         return (
           <input
+            id={inputId}
+            aria-invalid={!!error}
             type="text"
             value={value || ''}
             onChange={(e) => handleParameterChange(param.name, e.target.value)}
@@ -123,6 +207,8 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
       case 'number':
         return (
           <input
+            id={inputId}
+            aria-invalid={!!error}
             type="number"
             value={value || ''}
             onChange={(e) => handleParameterChange(param.name, parseFloat(e.target.value) || '')}
@@ -139,6 +225,8 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
       case 'boolean':
         return (
           <select
+            id={inputId}
+            aria-invalid={!!error}
             value={value?.toString() || 'false'}
             onChange={(e) => handleParameterChange(param.name, e.target.value === 'true')}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500"
@@ -151,6 +239,8 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
       case 'select':
         return (
           <select
+            id={inputId}
+            aria-invalid={!!error}
             value={value?.toString() || ''}
             onChange={(e) => handleParameterChange(param.name, e.target.value)}
             className={`w-full px-3 py-2 border rounded-md ${
@@ -169,6 +259,8 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
       case 'array':
         return (
           <textarea
+            id={inputId}
+            aria-invalid={!!error}
             value={Array.isArray(value) ? value.join('\n') : ''}
             onChange={(e) => handleParameterChange(param.name, e.target.value.split('\n').filter(Boolean))}
             rows={3}
@@ -182,6 +274,8 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
       default:
         return (
           <input
+            id={inputId}
+            aria-invalid={!!error}
             type="text"
             value={value?.toString() || ''}
             onChange={(e) => handleParameterChange(param.name, e.target.value)}
@@ -196,10 +290,21 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`parameters-title-${atom.id}`}
+        className="bg-white rounded-lg max-w-2xl w-full max-h-[80vh] overflow-y-auto"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation();
+            onClose();
+          }
+        }}
+      >
         <div className="p-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-bold text-gray-900">Configure {definition.name}</h2>
+            <h2 id={`parameters-title-${atom.id}`} className="text-xl font-bold text-gray-900">{title ?? `Configure ${definition.name}`}</h2>
             <button
               onClick={onClose}
               className="text-gray-400 hover:text-gray-600"
@@ -211,7 +316,7 @@ const ParameterEditModal: React.FC<ParameterEditModalProps> = ({
           <div className="space-y-4">
             {definition.parameters?.map(param => (
               <div key={param.name}>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
+                <label htmlFor={parameterInputId(param.name)} className="block text-sm font-medium text-gray-700 mb-1">
                   {param.name}
                   {param.required && <span className="text-red-500 ml-1">*</span>}
                 </label>
@@ -254,10 +359,22 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
   isSelected,
   hasErrors,
   hasWarnings,
+  issues = [],
   onSelect,
   onUpdate,
   onDelete,
-  zoom
+  onDuplicate,
+  onCopy,
+  zoom,
+  treeLevel,
+  treePosition,
+  treeSetSize,
+  isFocusTarget = false,
+  expressionContext,
+  hasBreakpoint = false,
+  onToggleBreakpoint,
+  debugFrameKind,
+  coverage
 }) => {
   const [showMenu, setShowMenu] = useState(false);
   const [showParameters, setShowParameters] = useState(false);
@@ -266,6 +383,9 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
   
   const nodeRef = useRef<HTMLDivElement>(null);
   const definition = getAtomDefinition(atom.type);
+  const hasParameters = !!definition?.parameters && definition.parameters.length > 0;
+  const parameterCount = Object.keys(atom.parameters).length;
+  const parameterErrors = issues.filter(issue => issue.parameter && issue.severity === 'error');
 
   // Drag functionality
   const [{ isDragging }, drag] = useDrag({
@@ -294,17 +414,6 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      'condition': 'bg-blue-500',
-      'action': 'bg-green-500',
-      'computation': 'bg-purple-500',
-      'flow': 'bg-orange-500',
-      'data': 'bg-indigo-500',
-    };
-    return colors[category as keyof typeof colors] || 'bg-gray-500';
-  };
-
   const getStatusIcon = () => {
     if (hasErrors) return <AlertTriangle className="w-4 h-4 text-red-500" />;
     if (hasWarnings) return <AlertCircle className="w-4 h-4 text-yellow-500" />;
@@ -320,17 +429,38 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
     onUpdate(atom.id, { parameters });
   };
 
+  // Keys on the focused node itself; arrow navigation is handled by the canvas
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget) return;
+
+    if (event.key === 'Enter' && hasParameters) {
+      event.preventDefault();
+      setShowParameters(true);
+    } else if (event.key === 'F2') {
+      event.preventDefault();
+      setIsEditing(true);
+    } else if (event.key === 'ContextMenu' || (event.shiftKey && event.key === 'F10')) {
+      event.preventDefault();
+      setShowMenu(true);
+    } else if (event.key === 'F9' && onToggleBreakpoint) {
+      event.preventDefault();
+      onToggleBreakpoint(atom.id);
+    }
+  };
+
+  const closeParameters = () => {
+    setShowParameters(false);
+    nodeRef.current?.focus();
+  };
+
   const handleDuplicate = () => {
-    // Create a copy with new ID
-    const copy = {
-      ...atom,
-      id: `${atom.id}_copy_${Date.now()}`,
-      position: {
-        x: atom.position.x + 20,
-        y: atom.position.y + 20
-      }
-    };
-    // This would need to be handled at the canvas level
+    // Fresh ids are assigned at the canvas level
+    onDuplicate?.(atom.id);
+    setShowMenu(false);
+  };
+
+  const handleCopy = () => {
+    onCopy?.(atom.id);
     setShowMenu(false);
   };
 
@@ -343,8 +473,10 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
     );
   }
 
-  const hasParameters = definition.parameters && definition.parameters.length > 0;
-  const parameterCount = Object.keys(atom.parameters).length;
+  const isUncovered = coverage?.hits === 0;
+  const status = `${hasErrors ? ', has errors' : hasWarnings ? ', has warnings' : ''}${isUncovered ? ', not covered by tests' : ''}`;
+  const debugStatus = `${hasBreakpoint ? ', breakpoint' : ''}${debugFrameKind ? `, debugger ${DEBUG_STYLES[debugFrameKind].label.toLowerCase()} here` : ''}`;
+  const ariaLabel = `${definition.name}${atom.label ? `: ${atom.label}` : ''}${status}${debugStatus}`;
 
   return (
     <>
@@ -352,26 +484,63 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
         ref={nodeRef}
         className={`
           relative group cursor-pointer transition-all duration-200
+          focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-300 focus-visible:ring-offset-2
           ${isDragging ? 'opacity-50 scale-95' : 'opacity-100 scale-100'}
           ${isSelected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
+          ${debugFrameKind ? `${DEBUG_STYLES[debugFrameKind].ring} ring-offset-2` : ''}
         `}
         style={{
           transform: `translate(${atom.position.x}px, ${atom.position.y}px)`,
           minWidth: Math.max(160, 160 / zoom),
         }}
-        onClick={() => onSelect(atom.id)}
+        onClick={(e) => onSelect(atom.id, e.shiftKey || e.ctrlKey || e.metaKey)}
+        onKeyDown={handleKeyDown}
+        role="treeitem"
+        tabIndex={isFocusTarget ? 0 : -1}
+        aria-label={ariaLabel}
+        aria-selected={isSelected}
+        aria-level={treeLevel}
+        aria-posinset={treePosition}
+        aria-setsize={treeSetSize}
+        aria-expanded={atom.children.length > 0 ? true : undefined}
+        aria-invalid={hasErrors || undefined}
       >
+        {/* Breakpoint gutter */}
+        {onToggleBreakpoint && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleBreakpoint(atom.id);
+            }}
+            tabIndex={-1}
+            className={`absolute -left-5 top-3 w-3 h-3 rounded-full border-2 transition-opacity ${
+              hasBreakpoint
+                ? 'bg-red-500 border-red-600 opacity-100'
+                : 'bg-red-200 border-red-300 opacity-0 group-hover:opacity-100'
+            }`}
+            title={hasBreakpoint ? 'Remove breakpoint (F9)' : 'Add breakpoint (F9)'}
+            aria-label={hasBreakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+          />
+        )}
+
+        {debugFrameKind && (
+          <span className={`absolute -top-3 right-2 z-10 px-1.5 py-0.5 text-[10px] font-medium rounded shadow ${DEBUG_STYLES[debugFrameKind].badge}`}>
+            {DEBUG_STYLES[debugFrameKind].label}
+          </span>
+        )}
+
         {/* Main Node */}
         <div className={`
           bg-white border-2 rounded-lg shadow-sm hover:shadow-md transition-shadow
           ${isSelected ? 'border-blue-500' : 'border-gray-300'}
+          ${isUncovered ? 'opacity-50 grayscale border-dashed' : ''}
           ${hasErrors ? 'border-red-500 bg-red-50' : ''}
           ${hasWarnings ? 'border-yellow-500 bg-yellow-50' : ''}
         `}>
           {/* Header */}
           <div className={`
             flex items-center justify-between p-3 rounded-t-lg
-            ${getCategoryColor(definition.category)} text-white
+            ${getCategoryColor(definition.category).header} text-white
           `}>
             <div className="flex items-center space-x-2 min-w-0 flex-1">
               <div className="w-2 h-2 bg-white rounded-full opacity-80" />
@@ -385,6 +554,9 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
                   setShowMenu(!showMenu);
                 }}
                 className="p-1 hover:bg-white hover:bg-opacity-20 rounded"
+                aria-label={`Actions for ${definition.name}`}
+                aria-haspopup="menu"
+                aria-expanded={showMenu}
               >
                 <MoreVertical className="w-4 h-4" />
               </button>
@@ -422,6 +594,17 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
               )}
             </div>
 
+            {/* Parameter Errors */}
+            {parameterErrors.length > 0 && (
+              <ul className="text-xs text-red-600 mb-2 space-y-0.5">
+                {parameterErrors.map(issue => (
+                  <li key={issue.parameter}>
+                    <span className="font-medium">{issue.parameter}:</span> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {/* Parameters Summary */}
             {hasParameters && (
               <div className="text-xs text-gray-500 mb-2">
@@ -435,6 +618,16 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
               </div>
             )}
 
+            {/* Test Coverage */}
+            {coverage && (
+              <div className="text-xs text-gray-500 mb-2">
+                {isUncovered ? 'Not covered by tests' : `Ran ${coverage.hits}× in tests`}
+                {!isUncovered && coverage.missedBranches.length > 0 && (
+                  <span className="text-orange-600"> · untested: {coverage.missedBranches.join(', ')}</span>
+                )}
+              </div>
+            )}
+
             {/* Connection Points */}
             <div className="flex justify-between items-center text-xs text-gray-400">
               <div className="flex items-center space-x-1">
@@ -453,14 +646,26 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
 
         {/* Context Menu */}
         {showMenu && (
-          <div className="absolute top-full left-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10 min-w-[150px]">
+          <div
+            role="menu"
+            aria-label={`${definition.name} actions`}
+            className="absolute top-full left-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10 min-w-[150px]"
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                e.stopPropagation();
+                setShowMenu(false);
+                nodeRef.current?.focus();
+              }
+            }}
+          >
             {hasParameters && (
               <button
                 onClick={() => {
                   setShowParameters(true);
                   setShowMenu(false);
                 }}
-                className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center space-x-2"
+                role="menuitem"
+              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center space-x-2"
               >
                 <Settings className="w-4 h-4" />
                 <span>Configure</span>
@@ -468,16 +673,26 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
             )}
             <button
               onClick={handleDuplicate}
+              role="menuitem"
               className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center space-x-2"
             >
               <Copy className="w-4 h-4" />
               <span>Duplicate</span>
             </button>
+            <button
+              onClick={handleCopy}
+              role="menuitem"
+              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center space-x-2"
+            >
+              <Clipboard className="w-4 h-4" />
+              <span>Copy</span>
+            </button>
             <button
               onClick={() => {
                 onDelete(atom.id);
                 setShowMenu(false);
               }}
+              role="menuitem"
               className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
             >
               <Trash2 className="w-4 h-4" />
@@ -496,8 +711,10 @@ export const AtomNode: React.FC<AtomNodeProps> = ({
         <ParameterEditModal
           atom={atom}
           definition={definition}
+          initialErrors={parameterErrors}
           onSave={handleParameterSave}
-          onClose={() => setShowParameters(false)}
+          onClose={closeParameters}
+          expressionContext={expressionContext}
         />
       )}
     </>
@@ -7,6 +7,19 @@ import { useDrag } from 'react-dnd';
 import { Search, Filter, ChevronDown, ChevronRight, Info } from 'lucide-react';
 import { AtomDefinition, AtomCategory } from '../../types/RuleTypes';
 import { getAtomDefinitions } from '../../services/AtomRegistry';
+import { getCategoryColor } from '../../utils/categoryColors';
+
+// Atoms offered to rule authors; internal atoms such as placeholders stay hidden
+export const getPaletteAtoms = (): AtomDefinition[] => getAtomDefinitions().filter(atom => !atom.internal);
+
+// Shared by the palette search box and the keyboard command palette
+export const atomMatchesSearch = (atom: AtomDefinition, searchTerm: string): boolean => {
+  const term = searchTerm.trim().toLowerCase();
+  return term === '' ||
+    atom.name.toLowerCase().includes(term) ||
+    atom.description.toLowerCase().includes(term) ||
+    !!atom.tags?.some(tag => tag.toLowerCase().includes(term));
+};
 
 // Draggable atom item component
 const AtomItem: React.FC<{ 
@@ -21,17 +34,6 @@ const AtomItem: React.FC<{
     }),
   });
 
-  const getCategoryColor = (category: AtomCategory) => {
-    const colors = {
-      'condition': 'bg-blue-100 text-blue-800 border-blue-200',
-      'action': 'bg-green-100 text-green-800 border-green-200',
-      'computation': 'bg-purple-100 text-purple-800 border-purple-200',
-      'flow': 'bg-orange-100 text-orange-800 border-orange-200',
-      'data': 'bg-indigo-100 text-indigo-800 border-indigo-200',
-    };
-    return colors[category] || 'bg-gray-100 text-gray-800 border-gray-200';
-  };
-
   const getComplexityColor = (complexity: number) => {
     if (complexity <= 3) return 'text-green-600';
     if (complexity <= 6) return 'text-yellow-600';
@@ -54,7 +56,7 @@ const AtomItem: React.FC<{
             <h4 className="font-medium text-gray-900 truncate">{atom.name}</h4>
             <span className={`
               px-2 py-0.5 text-xs font-medium rounded-full border
-              ${getCategoryColor(atom.category)}
+              ${getCategoryColor(atom.category).badge}
             `}>
               {atom.category}
             </span>
@@ -82,7 +84,8 @@ const AtomItem: React.FC<{
         {/* Info Button */}
         <button
           onClick={() => onInfo(atom)}
-          className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-gray-600 transition-opacity"
+          className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-1 text-gray-400 hover:text-gray-600 transition-opacity"
+          aria-label={`About ${atom.name}`}
         >
           <Info className="w-4 h-4" />
         </button>
@@ -248,16 +251,12 @@ export const AtomPalette: React.FC = () => {
   );
   const [selectedAtom, setSelectedAtom] = useState<AtomDefinition | null>(null);
 
-  const atoms = useMemo(() => getAtomDefinitions(), []);
+  const atoms = useMemo(getPaletteAtoms, []);
 
   // Filter atoms based on search and category
   const filteredAtoms = useMemo(() => {
     return atoms.filter((atom) => {
-      const matchesSearch = searchTerm === '' || 
-        atom.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        atom.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        atom.tags?.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
-      
+      const matchesSearch = atomMatchesSearch(atom, searchTerm);
       const matchesCategory = selectedCategory === 'all' || atom.category === selectedCategory;
       
       return matchesSearch && matchesCategory;
@@ -361,8 +360,8 @@ export const AtomPalette: React.FC = () => {
         {/* Usage Hint */}
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <p className="text-sm text-gray-600">
-            💡 <strong>Tip:</strong> Drag atoms to the canvas to build your rule. 
-            Click the info icon for detailed documentation.
+            💡 <strong>Tip:</strong> Drag atoms to the canvas to build your rule, or press
+            Ctrl/Cmd + K to insert one with the keyboard. Click the info icon for detailed documentation.
           </p>
         </div>
       </div>
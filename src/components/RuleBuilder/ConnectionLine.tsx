@@ -3,6 +3,7 @@
 // Provides clear visual hierarchy and flow indication
 
 import React from 'react';
+import { LayoutDirection, getConnectionPath } from '../../utils/treeLayout';
 
 interface ConnectionLineProps {
   startX?: number;
@@ -11,15 +12,21 @@ interface ConnectionLineProps {
   endY?: number;
   type?: 'parent' | 'child' | 'sibling';
   isActive?: boolean;
+  // Curves leave the parent and enter the child along the layout's main axis
+  direction?: LayoutDirection;
 }
 
+// Room around the curve for the stroke and the connection point circles
+const PADDING = 4;
+
 export const ConnectionLine: React.FC<ConnectionLineProps> = ({
   startX = 0,
   startY = 0,
   endX = 0,
   endY = 20,
   type = 'child',
-  isActive = false
+  isActive = false,
+  direction = 'top-down'
 }) => {
   const getLineStyle = () => {
     const baseStyle = {
@@ -40,84 +47,33 @@ export const ConnectionLine: React.FC<ConnectionLineProps> = ({
     }
   };
 
-  // Simple vertical line for basic connections
-  if (startX === endX) {
-    return (
-      <svg 
-        className="absolute pointer-events-none" 
-        style={{ 
-          top: Math.min(startY, endY), 
-          left: startX - 1, 
-          width: 2, 
-          height: Math.abs(endY - startY) 
-        }}
-      >
-        <line
-          x1="1"
-          y1="0"
-          x2="1"
-          y2={Math.abs(endY - startY)}
-          {...getLineStyle()}
-        />
-      </svg>
-    );
-  }
+  const left = Math.min(startX, endX) - PADDING;
+  const top = Math.min(startY, endY) - PADDING;
+  const x1 = startX - left;
+  const y1 = startY - top;
+  const x2 = endX - left;
+  const y2 = endY - top;
+
+  const path = getConnectionPath({ x: x1, y: y1 }, { x: x2, y: y2 }, direction);
 
-  // L-shaped connection for more complex layouts
-  const midY = startY + (endY - startY) / 2;
+  const lineStyle = getLineStyle();
 
   return (
-    <svg 
-      className="absolute pointer-events-none" 
-      style={{ 
-        top: Math.min(startY, endY), 
-        left: Math.min(startX, endX) - 1, 
-        width: Math.abs(endX - startX) + 2, 
-        height: Math.abs(endY - startY) + 2 
+    <svg
+      aria-hidden="true"
+      className="absolute pointer-events-none overflow-visible"
+      style={{
+        top,
+        left,
+        width: Math.abs(endX - startX) + PADDING * 2,
+        height: Math.abs(endY - startY) + PADDING * 2
       }}
     >
-      {/* Vertical line from start */}
-      <line
-        x1={startX - Math.min(startX, endX) + 1}
-        y1="1"
-        x2={startX - Math.min(startX, endX) + 1}
-        y2={midY - Math.min(startY, endY) + 1}
-        {...getLineStyle()}
-      />
-      
-      {/* Horizontal line */}
-      <line
-        x1={startX - Math.min(startX, endX) + 1}
-        y1={midY - Math.min(startY, endY) + 1}
-        x2={endX - Math.min(startX, endX) + 1}
-        y2={midY - Math.min(startY, endY) + 1}
-        {...getLineStyle()}
-      />
-      
-      {/* Vertical line to end */}
-      <line
-        x1={endX - Math.min(startX, endX) + 1}
-        y1={midY - Math.min(startY, endY) + 1}
-        x2={endX - Math.min(startX, endX) + 1}
-        y2={Math.abs(endY - startY) + 1}
-        {...getLineStyle()}
-      />
-      
+      <path d={path} fill="none" {...lineStyle} />
+
       {/* Connection points */}
-      <circle
-        cx={startX - Math.min(startX, endX) + 1}
-        cy="1"
-        r="3"
-        fill={getLineStyle().stroke}
-        className="opacity-60"
-      />
-      <circle
-        cx={endX - Math.min(startX, endX) + 1}
-        cy={Math.abs(endY - startY) + 1}
-        r="3"
-        fill={getLineStyle().stroke}
-        className="opacity-60"
-      />
+      <circle cx={x1} cy={y1} r="3" fill={lineStyle.stroke} className="opacity-60" />
+      <circle cx={x2} cy={y2} r="3" fill={lineStyle.stroke} className="opacity-60" />
     </svg>
   );
 };
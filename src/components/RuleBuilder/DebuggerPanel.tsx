@@ -0,0 +1,374 @@
+// src/components/RuleBuilder/DebuggerPanel.tsx
+// Step-through debugger for the local interpreter with breakpoints, call stack and variables
+// The run is recorded up front, so stepping can also go backwards; the canvas highlights the active atom
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Rule } from '../../types/RuleTypes';
+import { getAtomDefinition } from '../../services/AtomRegistry';
+import { generateSampleInput } from '../../services/InputSchema';
+import { findAtomById } from '../../utils/atomTree';
+import {
+  DebugFrame,
+  DebugFrameKind,
+  DebugHighlight,
+  DebugRecording,
+  continueToBreakpoint,
+  getCallStack,
+  isAtEnd,
+  recordExecution,
+  startPosition,
+  stepBack,
+  stepInto,
+  stepOut,
+  stepOver
+} from '../../services/RuleDebugger';
+import {
+  Bug,
+  X,
+  Play,
+  FastForward,
+  Redo2,
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  StepBack,
+  Square,
+  CircleDot,
+  AlertTriangle
+} from 'lucide-react';
+
+interface DebuggerPanelProps {
+  rule: Rule;
+  breakpoints: ReadonlySet<string>;
+  onToggleBreakpoint: (atomId: string) => void;
+  onClearBreakpoints: () => void;
+  // Reports the atom the debugger is paused on, or null when no session is running
+  onHighlightChange: (highlight: DebugHighlight | null) => void;
+  onClose: () => void;
+}
+
+const FRAME_LABELS: Record<DebugFrameKind, string> = {
+  enter: 'Entering',
+  exit: 'Finished',
+  error: 'Threw an error in'
+};
+
+const formatJson = (value: any) => (value === undefined ? 'undefined' : JSON.stringify(value, null, 2));
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <div className="text-xs font-medium text-gray-700 mb-1">{title}</div>
+    {children}
+  </div>
+);
+
+const JsonBlock: React.FC<{ value: any }> = ({ value }) => (
+  <pre className="bg-gray-100 rounded p-2 text-xs font-mono overflow-x-auto max-h-40 overflow-y-auto">
+    {formatJson(value)}
+  </pre>
+);
+
+export const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  rule,
+  breakpoints,
+  onToggleBreakpoint,
+  onClearBreakpoints,
+  onHighlightChange,
+  onClose
+}) => {
+  const [input, setInput] = useState(() =>
+    JSON.stringify(rule.inputSchema ? generateSampleInput(rule.inputSchema) : { userId: 123, action: 'test' }, null, 2)
+  );
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [session, setSession] = useState<{ recording: DebugRecording; rule: Rule } | null>(null);
+  const [position, setPosition] = useState(0);
+
+  const recording = session?.recording ?? null;
+  const frame: DebugFrame | null = recording?.frames[position] ?? null;
+  const callStack = useMemo(() => (recording ? getCallStack(recording, position) : []), [recording, position]);
+
+  const describeAtom = useCallback((atomId: string) => {
+    const atom = findAtomById(session?.rule.rootAtom ?? rule.rootAtom, atomId);
+    if (!atom) return atomId;
+    return atom.label || getAtomDefinition(atom.type)?.name || atom.type;
+  }, [session, rule.rootAtom]);
+
+  useEffect(() => {
+    onHighlightChange(frame ? { atomId: frame.atomId, kind: frame.kind } : null);
+  }, [frame, onHighlightChange]);
+
+  // Leaving the debugger removes the highlight from the canvas
+  useEffect(() => () => onHighlightChange(null), [onHighlightChange]);
+
+  const start = () => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      setInputError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    setInputError(null);
+    const next = recordExecution(rule, parsed);
+    setSession({ recording: next, rule });
+    setPosition(startPosition(next, breakpoints));
+  };
+
+  const stop = () => {
+    setSession(null);
+    setPosition(0);
+  };
+
+  const canStep = !!recording && recording.frames.length > 0;
+  const atEnd = !recording || isAtEnd(recording, position);
+
+  // Moves the session with one of the stepping functions; they are pure, so moving back and forth is free
+  const move = useCallback((next: (recording: DebugRecording, position: number) => number) => {
+    if (recording) setPosition(p => next(recording, p));
+  }, [recording]);
+
+  const handleContinue = useCallback(() => move((r, p) => continueToBreakpoint(r, p, breakpoints)), [move, breakpoints]);
+  const handleStepOver = useCallback(() => move((r, p) => stepOver(r, p, breakpoints)), [move, breakpoints]);
+  const handleStepInto = useCallback(() => move(stepInto), [move]);
+  const handleStepOut = useCallback(() => move((r, p) => stepOut(r, p, breakpoints)), [move, breakpoints]);
+
+  // Debugger keys familiar from IDEs, active while a session is running
+  useEffect(() => {
+    if (!canStep) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const actions: Record<string, (() => void) | undefined> = {
+        F5: handleContinue,
+        F10: event.shiftKey ? undefined : handleStepOver,
+        F11: event.shiftKey ? handleStepOut : handleStepInto
+      };
+      const action = actions[event.key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canStep, handleContinue, handleStepOver, handleStepInto, handleStepOut]);
+
+  const breakpointList = Array.from(breakpoints);
+  const isStale = !!session && session.rule !== rule;
+  const result = recording?.result;
+
+  const controls = [
+    { label: 'Continue (F5)', icon: FastForward, onClick: handleContinue },
+    { label: 'Step Over (F10)', icon: Redo2, onClick: handleStepOver },
+    { label: 'Step Into (F11)', icon: ArrowDownToLine, onClick: handleStepInto },
+    { label: 'Step Out (Shift+F11)', icon: ArrowUpFromLine, onClick: handleStepOut }
+  ];
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Bug className="w-4 h-4 text-gray-600" />
+            <h3 className="font-semibold text-gray-900">Debugger</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Runs the rule locally and pauses on each atom. Set breakpoints from an atom's dot or with F9.
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Input */}
+        <div>
+          <label htmlFor="debugger-input" className="block text-sm font-medium text-gray-700 mb-1">
+            Input (JSON)
+          </label>
+          <textarea
+            id="debugger-input"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={4}
+            spellCheck={false}
+            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-md focus:ring-blue-500"
+          />
+          {inputError && <p className="text-xs text-red-600 mt-1">{inputError}</p>}
+          <div className="flex items-center space-x-2 mt-2">
+            <button
+              onClick={start}
+              disabled={!rule.rootAtom}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              <Play className="w-4 h-4" />
+              <span>{session ? 'Restart' : 'Start Debugging'}</span>
+            </button>
+            {session && (
+              <button
+                onClick={stop}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <Square className="w-4 h-4" />
+                <span>Stop</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isStale && (
+          <div className="flex items-start space-x-2 p-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>The rule changed since this run started. Restart to debug the current version.</span>
+          </div>
+        )}
+
+        {/* Controls */}
+        {recording && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-1" role="toolbar" aria-label="Debugger controls">
+              <button
+                onClick={() => setPosition(stepBack)}
+                disabled={position === 0}
+                className="p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:text-gray-300"
+                title="Step Back"
+                aria-label="Step Back"
+              >
+                <StepBack className="w-4 h-4" />
+              </button>
+              {controls.map(({ label, icon: Icon, onClick }) => (
+                <button
+                  key={label}
+                  onClick={onClick}
+                  disabled={atEnd}
+                  className="p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:text-gray-300"
+                  title={label}
+                  aria-label={label}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-gray-500">
+              Step {recording.frames.length > 0 ? position + 1 : 0} of {recording.frames.length}
+            </span>
+          </div>
+        )}
+
+        {/* Current frame */}
+        {recording && (
+          <div aria-live="polite" className="text-sm">
+            {frame ? (
+              <div className={`p-2 rounded border ${frame.kind === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-900'}`}>
+                {FRAME_LABELS[frame.kind]} <span className="font-medium">{describeAtom(frame.atomId)}</span>
+                {frame.delayMs > 0 && <span className="text-xs opacity-75"> (delayed {frame.delayMs}ms)</span>}
+              </div>
+            ) : (
+              <div className="p-2 rounded border bg-gray-50 border-gray-200 text-gray-700">
+                Nothing was executed.
+              </div>
+            )}
+            {atEnd && result && (
+              <div className={`mt-2 text-xs ${result.status === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+                Run {result.status === 'success' ? `finished: result ${String(result.output?.result)}` : `ended with ${result.status}: ${result.error}`}
+              </div>
+            )}
+          </div>
+        )}
+
+        {frame && recording && (
+          <>
+            <Section title="Call Stack">
+              <ol className="text-xs border border-gray-200 rounded divide-y divide-gray-100">
+                {[...callStack].reverse().map(entry => (
+                  <li key={entry.callId}>
+                    <button
+                      onClick={() => setPosition(recording.frames.indexOf(entry))}
+                      className={`w-full text-left px-2 py-1 hover:bg-gray-50 ${entry.callId === frame.callId ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+                    >
+                      {describeAtom(entry.atomId)}
+                      <span className="text-gray-400"> · {entry.atomId}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </Section>
+
+            <Section title="Parameters">
+              <JsonBlock value={frame.parameters} />
+            </Section>
+
+            {frame.kind === 'exit' && (
+              <Section title={`Output (${frame.passed ? 'passed' : 'did not pass'})`}>
+                <JsonBlock value={frame.output} />
+              </Section>
+            )}
+
+            {frame.kind === 'error' && (
+              <Section title="Error">
+                <div className="bg-red-100 border border-red-200 rounded p-2 text-xs text-red-800">{frame.error}</div>
+              </Section>
+            )}
+
+            {Object.keys(frame.scope).length > 0 && (
+              <Section title="Loop Variables">
+                <JsonBlock value={frame.scope} />
+              </Section>
+            )}
+
+            <Section title="Variables">
+              {Object.keys(frame.variables).length > 0
+                ? <JsonBlock value={frame.variables} />
+                : <p className="text-xs text-gray-500">No variables computed yet.</p>}
+            </Section>
+
+            <Section title={`Actions Emitted (${frame.actionCount})`}>
+              {frame.actionCount > 0
+                ? <JsonBlock value={recording.actions.slice(0, frame.actionCount)} />
+                : <p className="text-xs text-gray-500">None yet.</p>}
+            </Section>
+
+            <Section title="Rule Input">
+              <JsonBlock value={recording.input} />
+            </Section>
+          </>
+        )}
+
+        {/* Breakpoints */}
+        <div className="pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-700">Breakpoints</span>
+            {breakpointList.length > 0 && (
+              <button onClick={onClearBreakpoints} className="text-xs text-blue-600 hover:text-blue-800">
+                Clear all
+              </button>
+            )}
+          </div>
+          {breakpointList.length === 0 ? (
+            <p className="text-xs text-gray-500">No breakpoints. Without any, debugging pauses on the first atom.</p>
+          ) : (
+            <ul className="space-y-1">
+              {breakpointList.map(atomId => (
+                <li key={atomId} className="flex items-center justify-between text-xs">
+                  <span className="flex items-center space-x-1">
+                    <CircleDot className="w-3 h-3 text-red-500" />
+                    <span>{describeAtom(atomId)}</span>
+                    <span className="text-gray-400">· {atomId}</span>
+                  </span>
+                  <button
+                    onClick={() => onToggleBreakpoint(atomId)}
+                    className="p-0.5 text-gray-400 hover:text-gray-600"
+                    aria-label={`Remove breakpoint on ${describeAtom(atomId)}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,537 @@
+// src/components/RuleBuilder/DecisionTableView.tsx
+// Spreadsheet-like view of a rule read as a decision table: input columns, one row per case, actions last
+// Every edit is written straight back into the atom tree; trees that aren't tables explain why instead
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AtomInstance, DecisionTable, ParameterValue, Rule, RuleChange, ValidationResult } from '../../types/RuleTypes';
+import { getAtomDefinition, getAtomDefinitions } from '../../services/AtomRegistry';
+import {
+  ANY_TEST,
+  DecisionTableError,
+  buildDecisionTree,
+  getCellTestError,
+  getInputError,
+  isActionAtom,
+  normalizeCellTest,
+  readDecisionTable
+} from '../../services/DecisionTable';
+import { getRuleExpressionContext } from '../../services/InputSchema';
+import { getAllIssues } from '../../services/ValidationIssues';
+import { ParameterEditModal } from './AtomNode';
+import { layoutAtomTree } from '../../utils/treeLayout';
+import { lastAtomNumber, nextAtomId } from '../../utils/atomTree';
+import { getCategoryColor } from '../../utils/categoryColors';
+import { AlertCircle, AlertTriangle, ArrowDown, ArrowUp, Plus, Trash2, Workflow, X } from 'lucide-react';
+
+interface DecisionTableViewProps {
+  rule: Rule;
+  onRuleUpdate: (updates: Partial<Rule>, change: RuleChange) => void;
+  validation?: ValidationResult | null;
+  onShowCanvas: () => void;
+}
+
+// Row index, or 'default' for the actions that run when no row matches
+type RowKey = number | 'default';
+
+const LAYOUT_ORIGIN = { x: 32, y: 32 };
+
+const formatValue = (value: ParameterValue): string =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Set parameters as `name: value`, for the chips in the actions column
+const describeParameters = (atom: AtomInstance): string =>
+  Object.entries(atom.parameters)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}: ${formatValue(value)}`)
+    .join(', ');
+
+// Text field that keeps its draft until Enter or blur, so half-typed tests never reach the tree
+const DraftInput: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  validate?: (value: string) => string | null;
+  placeholder?: string;
+  ariaLabel: string;
+  className?: string;
+}> = ({ value, onCommit, validate, placeholder, ariaLabel, className = '' }) => {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  // Undo/redo and edits elsewhere replace the value underneath the field
+  useEffect(() => {
+    setDraft(value);
+    setError(null);
+  }, [value]);
+
+  const commit = () => {
+    if (draft === value) return;
+    const problem = validate?.(draft) ?? null;
+    setError(problem);
+    if (!problem) onCommit(draft);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      aria-label={ariaLabel}
+      aria-invalid={!!error}
+      title={error ?? undefined}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        if (error) setError(validate?.(e.target.value) ?? null);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit();
+        } else if (e.key === 'Escape') {
+          setDraft(value);
+          setError(null);
+        }
+      }}
+      className={`w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 ${
+        error ? 'border-red-400 bg-red-50 focus:ring-red-500' : 'border-transparent hover:border-gray-300 focus:ring-blue-500'
+      } ${className}`}
+    />
+  );
+};
+
+export const DecisionTableView: React.FC<DecisionTableViewProps> = ({ rule, onRuleUpdate, validation, onShowCanvas }) => {
+  const reading = useMemo(() => readDecisionTable(rule.rootAtom), [rule.rootAtom]);
+  // Column order as the user left it; the tree only knows which inputs rows test, in order of first mention
+  const [pendingInputs, setPendingInputs] = useState<string[]>([]);
+  const [newInput, setNewInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ row: RowKey; index: number } | null>(null);
+
+  const table: DecisionTable | null = useMemo(() => {
+    if (!reading.table) return null;
+    const read = new Map(reading.table.inputs.map((input, column) => [input.expression, column]));
+    // Columns no row tests yet stay in place; inputs new to the tree (e.g. from canvas edits) go last
+    const order = [...pendingInputs, ...[...read.keys()].filter(expression => !pendingInputs.includes(expression))];
+    return {
+      ...reading.table,
+      inputs: order.map(expression => reading.table!.inputs[read.get(expression) ?? -1] ?? { expression }),
+      rows: reading.table.rows.map(row => ({
+        ...row,
+        tests: order.map(expression => (read.has(expression) ? row.tests[read.get(expression)!] : ANY_TEST))
+      }))
+    };
+  }, [reading, pendingInputs]);
+
+  const actionDefinitions = useMemo(() => getAtomDefinitions().filter(definition => !definition.internal && isActionAtom(definition)), []);
+  const expressionContext = useMemo(() => getRuleExpressionContext(rule), [rule.rootAtom, rule.inputSchema]);
+
+  // Rows and actions with validation problems, by atom id
+  const issueCounts = useMemo(() => {
+    const counts = new Map<string, { errors: number; warnings: number }>();
+    getAllIssues(validation).forEach(issue => {
+      if (!issue.atomId) return;
+      const count = counts.get(issue.atomId) ?? { errors: 0, warnings: 0 };
+      if (issue.severity === 'error') count.errors++;
+      else if (issue.severity === 'warning') count.warnings++;
+      counts.set(issue.atomId, count);
+    });
+    return counts;
+  }, [validation]);
+
+  // Structural edits re-lay out the tree so new atoms don't pile up at the origin on the canvas
+  const commitTable = (next: DecisionTable, change: RuleChange, relayout = false) => {
+    try {
+      const rootAtom = buildDecisionTree(next, rule.rootAtom, lastAtomNumber(rule));
+      setPendingInputs(next.inputs.map(input => input.expression));
+      setError(null);
+      onRuleUpdate({ rootAtom: rootAtom && relayout ? layoutAtomTree(rootAtom, { origin: LAYOUT_ORIGIN }) : rootAtom }, change);
+    } catch (buildError) {
+      if (!(buildError instanceof DecisionTableError)) throw buildError;
+      setError(buildError.message);
+    }
+  };
+
+  if (!table) {
+    return (
+      <div className="flex-1 overflow-auto p-8 bg-gray-50">
+        <div className="max-w-2xl mx-auto bg-white border border-gray-200 rounded-lg p-6">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            <h2 className="text-lg font-semibold text-gray-900">This rule can't be shown as a decision table</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            A table is a chain of If-Then-Else atoms linked through their else branch. Each condition compares
+            inputs with values using <code>and</code>, and each then branch runs actions one after another.
+          </p>
+          <ul className="space-y-2 mb-4">
+            {reading.issues.map((issue, index) => (
+              <li key={index} className="flex items-start space-x-2 text-sm text-gray-800">
+                <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onShowCanvas}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Workflow className="w-4 h-4" />
+            <span>Edit on the canvas</span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const rowName = (row: RowKey) => (row === 'default' ? 'otherwise' : `row ${row + 1}`);
+
+  const updateCell = (rowIndex: number, column: number, text: string) => {
+    const rows = table.rows.map((row, index) =>
+      index === rowIndex ? { ...row, tests: row.tests.map((test, i) => (i === column ? normalizeCellTest(text) : test)) } : row
+    );
+    commitTable({ ...table, rows }, { label: `Edit ${rowName(rowIndex)} of the decision table`, coalesceKey: `table-cell:${rowIndex}:${column}` });
+  };
+
+  const renameInput = (column: number, expression: string) => {
+    const trimmed = expression.trim();
+    const inputs = table.inputs.map((input, index) => (index === column ? { expression: trimmed } : input));
+    commitTable({ ...table, inputs }, { label: `Rename input ${trimmed}` });
+  };
+
+  const addInput = () => {
+    const expression = newInput.trim();
+    const problem = table.inputs.some(input => input.expression === expression)
+      ? `${expression} is already a column`
+      : getInputError(expression);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setPendingInputs(prev => [...prev, expression]);
+    setNewInput('');
+    setError(null);
+  };
+
+  const removeInput = (column: number) => {
+    const expression = table.inputs[column].expression;
+    commitTable({
+      ...table,
+      inputs: table.inputs.filter((_input, index) => index !== column),
+      rows: table.rows.map(row => ({ ...row, tests: row.tests.filter((_test, index) => index !== column) }))
+    }, { label: `Remove input ${expression}` });
+  };
+
+  const addRow = () => {
+    commitTable({
+      ...table,
+      rows: [...table.rows, { tests: table.inputs.map(() => ANY_TEST), actions: [] }]
+    }, { label: 'Add decision table row' }, true);
+  };
+
+  const moveRow = (rowIndex: number, offset: -1 | 1) => {
+    const rows = [...table.rows];
+    [rows[rowIndex], rows[rowIndex + offset]] = [rows[rowIndex + offset], rows[rowIndex]];
+    commitTable({ ...table, rows }, { label: `Move ${rowName(rowIndex)} ${offset < 0 ? 'up' : 'down'}` }, true);
+  };
+
+  const removeRow = (rowIndex: number) => {
+    commitTable({ ...table, rows: table.rows.filter((_row, index) => index !== rowIndex) }, { label: `Remove ${rowName(rowIndex)}` }, true);
+  };
+
+  const renameRow = (rowIndex: number, label: string) => {
+    const rows = table.rows.map((row, index) => (index === rowIndex ? { ...row, label: label.trim() || undefined } : row));
+    commitTable({ ...table, rows }, { label: `Rename ${rowName(rowIndex)}`, coalesceKey: `table-label:${rowIndex}` });
+  };
+
+  const actionsOf = (row: RowKey) => (row === 'default' ? table.defaultActions : table.rows[row].actions);
+
+  const setActions = (row: RowKey, actions: AtomInstance[], change: RuleChange, relayout = false) => {
+    commitTable(
+      row === 'default'
+        ? { ...table, defaultActions: actions }
+        : { ...table, rows: table.rows.map((item, index) => (index === row ? { ...item, actions } : item)) },
+      change,
+      relayout
+    );
+  };
+
+  // New actions start from the definition's defaults and open straight into the parameter editor
+  const addAction = (row: RowKey, type: string) => {
+    const definition = getAtomDefinition(type);
+    const now = new Date().toISOString();
+    const action: AtomInstance = {
+      id: nextAtomId(rule),
+      type,
+      position: { x: 0, y: 0 },
+      parameters: Object.fromEntries(
+        (definition?.parameters ?? [])
+          .filter(parameter => parameter.defaultValue !== undefined)
+          .map(parameter => [parameter.name, parameter.defaultValue as ParameterValue])
+      ),
+      children: [],
+      metadata: { created: now, modified: now }
+    };
+    const actions = [...actionsOf(row), action];
+    setActions(row, actions, { label: `Add ${definition?.name ?? type} to ${rowName(row)}` }, true);
+    setEditing({ row, index: actions.length - 1 });
+  };
+
+  const removeAction = (row: RowKey, actionIndex: number) => {
+    const action = actionsOf(row)[actionIndex];
+    setActions(
+      row,
+      actionsOf(row).filter((_action, index) => index !== actionIndex),
+      { label: `Remove ${getAtomDefinition(action.type)?.name ?? action.type} from ${rowName(row)}` },
+      true
+    );
+  };
+
+  const saveParameters = (row: RowKey, actionIndex: number, parameters: Record<string, ParameterValue>) => {
+    const actions = actionsOf(row).map((action, index) =>
+      index === actionIndex
+        ? { ...action, parameters, metadata: { ...action.metadata, modified: new Date().toISOString() } }
+        : action
+    );
+    const action = actions[actionIndex];
+    setActions(row, actions, { label: `Edit ${getAtomDefinition(action.type)?.name ?? action.type} parameters` });
+  };
+
+  const editingAction = editing ? actionsOf(editing.row)[editing.index] : undefined;
+  const editingDefinition = editingAction ? getAtomDefinition(editingAction.type) : undefined;
+
+  const renderIssueBadge = (atomIds: string[]) => {
+    const totals = atomIds.reduce(
+      (sum, id) => {
+        const count = issueCounts.get(id);
+        return count ? { errors: sum.errors + count.errors, warnings: sum.warnings + count.warnings } : sum;
+      },
+      { errors: 0, warnings: 0 }
+    );
+    if (totals.errors > 0) {
+      return <span title={`${totals.errors} error${totals.errors === 1 ? '' : 's'}`}><AlertCircle className="w-4 h-4 text-red-500" /></span>;
+    }
+    if (totals.warnings > 0) {
+      return <span title={`${totals.warnings} warning${totals.warnings === 1 ? '' : 's'}`}><AlertTriangle className="w-4 h-4 text-amber-500" /></span>;
+    }
+    return null;
+  };
+
+  const renderActions = (row: RowKey) => (
+    <div className="flex flex-wrap items-center gap-1">
+      {actionsOf(row).map((action, actionIndex) => {
+        const definition = getAtomDefinition(action.type);
+        const summary = describeParameters(action);
+        return (
+          <span
+            key={action.id}
+            className="inline-flex items-center max-w-xs rounded border border-gray-200 bg-white text-xs"
+          >
+            <button
+              onClick={() => setEditing({ row, index: actionIndex })}
+              className="flex items-center space-x-1 px-2 py-1 min-w-0 hover:bg-gray-50 rounded-l"
+              title={summary ? `${definition?.name ?? action.type} (${summary})` : definition?.name ?? action.type}
+            >
+              <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getCategoryColor(definition?.category).badge}`} />
+              <span className="font-medium text-gray-900">{definition?.name ?? action.type}</span>
+              {summary && <span className="text-gray-500 truncate">{summary}</span>}
+            </button>
+            <button
+              onClick={() => removeAction(row, actionIndex)}
+              className="px-1 py-1 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${definition?.name ?? action.type}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+      <select
+        value=""
+        onChange={(e) => e.target.value && addAction(row, e.target.value)}
+        aria-label={`Add an action to ${rowName(row)}`}
+        className="text-xs text-gray-500 border border-dashed border-gray-300 rounded px-1 py-1 bg-transparent hover:border-gray-400"
+      >
+        <option value="">+ Action</option>
+        {actionDefinitions.map(definition => (
+          <option key={definition.type} value={definition.type}>{definition.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const columnCount = table.inputs.length + 5;
+
+  return (
+    <div className="flex-1 overflow-auto p-6 bg-gray-50">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Rows are tried from the top; the first row whose cells all match runs its actions.
+          Cells take values like <code>18</code>, <code>"gold"</code>, <code>&gt;= 18</code>, <code>[18..65)</code>, <code>"a", "b"</code> or <code>not(0)</code>; <code>-</code> matches anything.
+        </p>
+      </div>
+
+      {error && (
+        <div role="alert" className="mb-3 flex items-start space-x-2 px-3 py-2 text-sm text-red-800 bg-red-50 border border-red-200 rounded">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} aria-label="Dismiss" className="text-red-500 hover:text-red-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="w-10 px-2 py-2 text-left text-xs font-medium text-gray-500">#</th>
+              <th className="w-40 px-2 py-2 text-left text-xs font-medium text-gray-500">Case</th>
+              {table.inputs.map((input, column) => (
+                <th key={input.expression} className="min-w-[10rem] px-2 py-2 text-left border-l border-gray-200">
+                  <div className="flex items-center space-x-1">
+                    <DraftInput
+                      value={input.expression}
+                      onCommit={(expression) => renameInput(column, expression)}
+                      validate={(expression) => getInputError(expression)
+                        ?? (table.inputs.some((other, index) => index !== column && other.expression === expression.trim()) ? `${expression.trim()} is already a column` : null)}
+                      ariaLabel={`Input ${column + 1}`}
+                      className="font-mono font-medium text-gray-900"
+                    />
+                    <button
+                      onClick={() => removeInput(column)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove input ${input.expression}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+              <th className="min-w-[10rem] px-2 py-2 text-left border-l border-gray-200">
+                <form
+                  className="flex items-center space-x-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addInput();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={newInput}
+                    onChange={(e) => setNewInput(e.target.value)}
+                    placeholder="Add input, e.g. user.age"
+                    aria-label="New input column"
+                    className="w-full px-2 py-1 text-sm font-mono border border-dashed border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button type="submit" disabled={!newInput.trim()} className="p-1 text-gray-500 hover:text-blue-600 disabled:text-gray-300" aria-label="Add input column">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </form>
+              </th>
+              <th className="min-w-[16rem] px-2 py-2 text-left text-xs font-medium text-gray-500 border-l-2 border-gray-300">Actions</th>
+              <th className="w-24" />
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, rowIndex) => (
+              <tr key={row.id ?? rowIndex} className="border-b border-gray-100 hover:bg-gray-50">
+                <td className="px-2 py-1 text-xs text-gray-500">
+                  <div className="flex items-center space-x-1">
+                    <span>{rowIndex + 1}</span>
+                    {renderIssueBadge([...(row.id ? [row.id] : []), ...row.actions.map(action => action.id)])}
+                  </div>
+                </td>
+                <td className="px-1 py-1">
+                  <DraftInput
+                    value={row.label ?? ''}
+                    onCommit={(label) => renameRow(rowIndex, label)}
+                    placeholder="Unnamed"
+                    ariaLabel={`Name of row ${rowIndex + 1}`}
+                    className="text-gray-700"
+                  />
+                </td>
+                {row.tests.map((test, column) => (
+                  <td key={table.inputs[column].expression} className="px-1 py-1 border-l border-gray-100">
+                    <DraftInput
+                      value={test === ANY_TEST ? '' : test}
+                      onCommit={(text) => updateCell(rowIndex, column, text)}
+                      validate={getCellTestError}
+                      placeholder={ANY_TEST}
+                      ariaLabel={`Row ${rowIndex + 1}, ${table.inputs[column].expression}`}
+                      className="font-mono"
+                    />
+                  </td>
+                ))}
+                <td className="border-l border-gray-100" />
+                <td className="px-2 py-1 border-l-2 border-gray-200">{renderActions(rowIndex)}</td>
+                <td className="px-2 py-1">
+                  <div className="flex items-center justify-end space-x-1">
+                    <button
+                      onClick={() => moveRow(rowIndex, -1)}
+                      disabled={rowIndex === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:text-gray-200"
+                      aria-label={`Move row ${rowIndex + 1} up`}
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => moveRow(rowIndex, 1)}
+                      disabled={rowIndex === table.rows.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:text-gray-200"
+                      aria-label={`Move row ${rowIndex + 1} down`}
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => removeRow(rowIndex)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove row ${rowIndex + 1}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+
+            {table.rows.length === 0 && (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No rows yet. Add inputs to test, then add a row for each case.
+                </td>
+              </tr>
+            )}
+
+            <tr className="bg-gray-50">
+              <td className="px-2 py-2 text-xs text-gray-500">
+                {renderIssueBadge(table.defaultActions.map(action => action.id))}
+              </td>
+              <td colSpan={table.inputs.length + 2} className="px-3 py-2 text-sm italic text-gray-600">
+                Otherwise, when no row matches
+              </td>
+              <td className="px-2 py-1 border-l-2 border-gray-200">{renderActions('default')}</td>
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={addRow}
+        className="mt-3 flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-white"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add row</span>
+      </button>
+
+      {editing && editingAction && editingDefinition && (
+        <ParameterEditModal
+          atom={editingAction}
+          definition={editingDefinition}
+          expressionContext={expressionContext}
+          onSave={(parameters) => saveParameters(editing.row, editing.index, parameters)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
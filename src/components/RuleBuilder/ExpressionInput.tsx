@@ -0,0 +1,177 @@
+// src/components/RuleBuilder/ExpressionInput.tsx
+// Text input for expression parameters with autocomplete and inline warnings
+// Errors are reported by the surrounding form; this component lists the non-blocking warnings
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExpectedExpressionType, ExpressionContext, analyzeExpression } from '../../services/ExpressionTypeChecker';
+import { ExpressionCompletion, getExpressionCompletions } from '../../services/ExpressionCompletions';
+
+interface ExpressionInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Type the expression must have; without it the input only offers completions, e.g. for plain field paths
+  expected?: ExpectedExpressionType;
+  context?: ExpressionContext;
+  invalid?: boolean;
+  placeholder?: string;
+}
+
+const KIND_BADGES: Record<ExpressionCompletion['kind'], string> = {
+  field: 'bg-blue-100 text-blue-700',
+  variable: 'bg-purple-100 text-purple-700',
+  function: 'bg-green-100 text-green-700',
+  keyword: 'bg-gray-100 text-gray-600'
+};
+
+export const ExpressionInput: React.FC<ExpressionInputProps> = ({
+  id,
+  value,
+  onChange,
+  expected,
+  context,
+  invalid = false,
+  placeholder
+}) => {
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Caret position to restore after a completion rewrites the value
+  const pendingCursor = useRef<number | null>(null);
+
+  const completions = useMemo(
+    () => getExpressionCompletions(value, cursor, context),
+    [value, cursor, context]
+  );
+  const warnings = useMemo(
+    () => (expected && value.trim() ? analyzeExpression(value, context, expected).diagnostics : [])
+      .filter(diagnostic => diagnostic.severity === 'warning'),
+    [value, context, expected]
+  );
+
+  const showList = isOpen && completions.items.length > 0;
+  const listId = `${id}-completions`;
+  const optionId = (index: number) => `${id}-completion-${index}`;
+
+  useEffect(() => setActiveIndex(0), [completions]);
+
+  useEffect(() => {
+    if (pendingCursor.current === null || !inputRef.current) return;
+    inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const syncCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (item: ExpressionCompletion) => {
+    const next = value.slice(0, completions.from) + item.insertText + value.slice(completions.to);
+    const nextCursor = completions.from + item.insertText.length;
+    pendingCursor.current = nextCursor;
+    setCursor(nextCursor);
+    onChange(next);
+    // Keep suggesting after a function name, where arguments follow
+    setIsOpen(item.kind === 'function');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === ' ' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      syncCursor();
+      setIsOpen(true);
+      return;
+    }
+    if (!showList) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, completions.items.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault();
+        accept(completions.items[activeIndex]);
+        break;
+      case 'Escape':
+        // Close the list without closing the surrounding dialog
+        event.preventDefault();
+        event.stopPropagation();
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        id={id}
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList ? optionId(activeIndex) : undefined}
+        aria-invalid={invalid}
+        spellCheck={false}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setIsOpen(true);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') && syncCursor()}
+        onClick={syncCursor}
+        onBlur={() => setIsOpen(false)}
+        className={`w-full px-3 py-2 border rounded-md font-mono text-sm ${
+          invalid ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+        placeholder={placeholder}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Suggestions"
+          className="absolute z-10 left-0 right-0 mt-1 max-h-56 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg py-1"
+        >
+          {completions.items.map((item, index) => (
+            <li
+              key={`${item.kind}:${item.label}`}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Prevent the input from blurring before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(item)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-3 py-1.5 cursor-pointer text-sm ${
+                index === activeIndex ? 'bg-blue-50' : ''
+              }`}
+            >
+              <span className="font-mono text-gray-900">{item.label}</span>
+              <span className="flex items-center space-x-2 min-w-0 ml-3">
+                {item.detail && <span className="text-xs text-gray-500 truncate">{item.detail}</span>}
+                <span className={`px-1.5 py-0.5 text-[10px] rounded ${KIND_BADGES[item.kind]}`}>{item.kind}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {warnings.map((warning, index) => (
+        <p key={index} className="text-xs text-yellow-700 mt-1">
+          Column {warning.start + 1}: {warning.message}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+// src/components/RuleBuilder/InputSchemaPanel.tsx
+// Editor for the input schema a rule declares
+// Accepts a JSON Schema subset as text, or infers one from an example input
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { RuleInputSchema } from '../../types/RuleTypes';
+import { getInputSchemaErrors, inferInputSchema } from '../../services/InputSchema';
+import { Braces, X, Wand2, Trash2, Check } from 'lucide-react';
+
+interface InputSchemaPanelProps {
+  schema?: RuleInputSchema;
+  onChange: (schema: RuleInputSchema | undefined) => void;
+  onClose: () => void;
+}
+
+const formatSchema = (schema?: RuleInputSchema) => (schema ? JSON.stringify(schema, null, 2) : '');
+
+const EXAMPLE_PLACEHOLDER = '{\n  "user": { "age": 34, "country": "US" },\n  "orders": [{ "total": 120.5 }]\n}';
+
+const FieldList: React.FC<{ schema: RuleInputSchema; path?: string }> = ({ schema, path = '' }) => {
+  const entries = Object.entries(schema.properties ?? {});
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className={path ? 'ml-3 border-l border-gray-200 pl-2' : ''}>
+      {entries.map(([name, property]) => {
+        const fieldPath = path ? `${path}.${name}` : name;
+        const nested = property.type === 'array' ? property.items : property;
+        return (
+          <li key={fieldPath} className="py-0.5">
+            <div className="flex items-center justify-between text-xs">
+              <code className="text-gray-900">
+                {name}
+                {schema.required?.includes(name) && <span className="text-red-500">*</span>}
+              </code>
+              <span className="text-gray-500">
+                {property.type ?? 'any'}
+                {property.type === 'array' && property.items?.type ? ` of ${property.items.type}` : ''}
+                {property.enum ? ` (${property.enum.length} options)` : ''}
+              </span>
+            </div>
+            {nested && <FieldList schema={nested} path={property.type === 'array' ? `${fieldPath}[0]` : fieldPath} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export const InputSchemaPanel: React.FC<InputSchemaPanelProps> = ({ schema, onChange, onClose }) => {
+  const [draft, setDraft] = useState(() => formatSchema(schema));
+  const [example, setExample] = useState('');
+  const [exampleError, setExampleError] = useState<string | null>(null);
+
+  // Undo/redo or an import replaces the schema underneath the editor
+  useEffect(() => setDraft(formatSchema(schema)), [schema]);
+
+  const parsed = useMemo((): { schema?: RuleInputSchema; errors: string[] } => {
+    if (!draft.trim()) return { errors: [] };
+    try {
+      const value = JSON.parse(draft);
+      return { schema: value, errors: getInputSchemaErrors(value) };
+    } catch (error) {
+      return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+  }, [draft]);
+
+  const isDirty = draft !== formatSchema(schema);
+  const canApply = isDirty && parsed.errors.length === 0;
+
+  const handleInfer = () => {
+    try {
+      setDraft(formatSchema(inferInputSchema(JSON.parse(example))));
+      setExampleError(null);
+    } catch (error) {
+      setExampleError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Braces className="w-4 h-4 text-gray-600" />
+            <h3 className="font-semibold text-gray-900">Input Schema</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Fields the rule reads. Used to check conditions and field parameters and to generate test inputs.
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div>
+          <label htmlFor="input-schema-json" className="block text-sm font-medium text-gray-700 mb-1">
+            Schema (JSON)
+          </label>
+          <textarea
+            id="input-schema-json"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={12}
+            spellCheck={false}
+            aria-invalid={parsed.errors.length > 0}
+            className={`w-full px-3 py-2 text-xs font-mono border rounded-md ${
+              parsed.errors.length > 0 ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+            }`}
+            placeholder={'{\n  "type": "object",\n  "properties": { ... }\n}'}
+          />
+          {parsed.errors.map((error, index) => (
+            <p key={index} className="text-xs text-red-600 mt-1">{error}</p>
+          ))}
+
+          <div className="flex items-center space-x-2 mt-2">
+            <button
+              onClick={() => onChange(parsed.schema)}
+              disabled={!canApply}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              <Check className="w-4 h-4" />
+              <span>Apply</span>
+            </button>
+            {isDirty && (
+              <button
+                onClick={() => setDraft(formatSchema(schema))}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Reset
+              </button>
+            )}
+            {schema && (
+              <button
+                onClick={() => onChange(undefined)}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Remove</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {schema?.properties && (
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-1">Declared fields</div>
+            <FieldList schema={schema} />
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-gray-200">
+          <label htmlFor="input-schema-example" className="block text-sm font-medium text-gray-700 mb-1">
+            Infer from an example input
+          </label>
+          <textarea
+            id="input-schema-example"
+            value={example}
+            onChange={(e) => setExample(e.target.value)}
+            rows={5}
+            spellCheck={false}
+            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-md focus:ring-blue-500"
+            placeholder={EXAMPLE_PLACEHOLDER}
+          />
+          {exampleError && <p className="text-xs text-red-600 mt-1">{exampleError}</p>}
+          <button
+            onClick={handleInfer}
+            disabled={!example.trim()}
+            className="mt-2 flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>Infer schema</span>
+          </button>
+          <p className="text-xs text-gray-500 mt-1">Replaces the draft above; review it, then apply.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
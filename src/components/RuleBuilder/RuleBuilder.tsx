@@ -2,7 +2,7 @@
 // Main orchestrator component for the visual rule builder interface
 // Handles overall state management and coordination between palette and canvas
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { AtomPalette } from './AtomPalette';
@@ -10,23 +10,36 @@ import { RuleCanvas } from './RuleCanvas';
 import { ValidationPanel } from './ValidationPanel';
 import { TestingPanel } from './TestingPanel';
 import { RuleExporter } from './RuleExporter';
-import { Atom, Rule, ValidationResult, TestResult } from '../../types/RuleTypes';
-import { validateRule, executeRule } from '../../services/RuleEngine';
-import { Save, Play, Download, Settings, HelpCircle } from 'lucide-react';
+import { RuleImporter } from './RuleImporter';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { InputSchemaPanel } from './InputSchemaPanel';
+import { DebuggerPanel } from './DebuggerPanel';
+import { DecisionTableView } from './DecisionTableView';
+import { Rule, RuleChange, RuleCoverage, RuleInputSchema, RuleVersion, ValidationResult, ValidationFix, TestResult, TestScenario } from '../../types/RuleTypes';
+import { validateRule, executeRule, saveRule } from '../../services/RuleEngine';
+import { ruleVersioning } from '../../services/RuleVersioning';
+import { createIssue, applyValidationFixes } from '../../services/ValidationIssues';
+import { DebugHighlight } from '../../services/RuleDebugger';
+import { useRuleHistory } from '../../hooks/useRuleHistory';
+import { Save, Play, Download, Upload, Settings, HelpCircle, History, Undo2, Redo2, Braces, Bug, Workflow, Table, AlertCircle, X } from 'lucide-react';
 
 interface RuleBuilderProps {
   initialRule?: Rule;
+  author?: string; // Recorded on every saved version
   onSave?: (rule: Rule) => void;
   onTest?: (rule: Rule, testData: any) => Promise<TestResult>;
 }
 
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
 export const RuleBuilder: React.FC<RuleBuilderProps> = ({
   initialRule,
+  author,
   onSave,
   onTest
 }) => {
-  // State management
-  const [rule, setRule] = useState<Rule>(initialRule || {
+  // State management; every edit goes through the undo history
+  const { rule, commit, rewrite, undo, redo, canUndo, canRedo, undoLabel, redoLabel } = useRuleHistory(initialRule || {
     id: '',
     name: 'New Rule',
     description: '',
@@ -45,17 +58,40 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
   const [showValidation, setShowValidation] = useState(true);
   const [showTesting, setShowTesting] = useState(false);
   const [showExporter, setShowExporter] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showImporter, setShowImporter] = useState(false);
+  const [showInputSchema, setShowInputSchema] = useState(false);
+  const [showDebugger, setShowDebugger] = useState(false);
+  // The same rule drawn as an atom tree or read as a decision table
+  const [view, setView] = useState<'canvas' | 'table'>('canvas');
+  const [breakpoints, setBreakpoints] = useState<ReadonlySet<string>>(() => new Set());
+  const [debugHighlight, setDebugHighlight] = useState<DebugHighlight | null>(null);
+  const [coverage, setCoverage] = useState<RuleCoverage | null>(null);
+  // Last scenario list of the testing panel; the compiled export replays it in its harness
+  const [testScenarios, setTestScenarios] = useState<TestScenario[]>([]);
+  const [versions, setVersions] = useState<RuleVersion[]>([]);
+  // Failed saves, rollbacks and history loads; the rule stays as it was so nothing is lost
+  const [error, setError] = useState<string | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
 
+  // History lives in client storage; reload it whenever the rule's identity changes
+  const refreshVersions = useCallback(async (ruleId: string | undefined) => {
+    setVersions(ruleId ? await ruleVersioning.listVersions(ruleId) : []);
+  }, []);
+
+  useEffect(() => {
+    refreshVersions(rule.id).catch(err => setError(`Could not load version history: ${describeError(err)}`));
+  }, [rule.id, refreshVersions]);
+
   // Validation handler
   const handleValidation = useCallback(async () => {
     if (!rule.rootAtom) {
       setValidation({
         isValid: false,
-        errors: ['Rule must have at least one atom'],
+        errors: [createIssue('error', 'empty_rule', 'Rule must have at least one atom')],
         warnings: [],
-        suggestions: ['Drag an atom from the palette to start building your rule']
+        suggestions: [createIssue('suggestion', 'empty_rule', 'Drag an atom from the palette to start building your rule')]
       });
       return;
     }
@@ -67,7 +103,7 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
     } catch (error) {
       setValidation({
         isValid: false,
-        errors: [`Validation error: ${error}`],
+        errors: [createIssue('error', 'legacy', `Validation error: ${error}`)],
         warnings: [],
         suggestions: []
       });
@@ -83,31 +119,121 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
   }, [handleValidation]);
 
   // Rule update handler
-  const handleRuleUpdate = useCallback((updates: Partial<Rule>) => {
-    setRule(prev => ({
+  const handleRuleUpdate = useCallback((updates: Partial<Rule>, change: RuleChange) => {
+    commit(prev => ({
       ...prev,
       ...updates,
       metadata: {
         ...prev.metadata,
         modified: new Date().toISOString()
       }
-    }));
-  }, []);
+    }), change);
+  }, [commit]);
+
+  const handleInputSchemaChange = useCallback((inputSchema: RuleInputSchema | undefined) => {
+    handleRuleUpdate({ inputSchema }, { label: inputSchema ? 'Edit input schema' : 'Remove input schema' });
+  }, [handleRuleUpdate]);
+
+  // Apply machine-applicable fixes from validation issues
+  const handleApplyFixes = useCallback((fixes: ValidationFix[]) => {
+    commit(prev => ({
+      ...applyValidationFixes(prev, fixes),
+      metadata: {
+        ...prev.metadata,
+        modified: new Date().toISOString()
+      }
+    }), { label: fixes.length === 1 ? fixes[0].label : `Apply ${fixes.length} fixes` });
+  }, [commit]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Save handler; each save records an immutable version
+  const handleSave = useCallback(async () => {
+    if (!validation?.isValid) return;
+
+    setError(null);
+    let saved: { id: string; version: string };
+    try {
+      saved = await saveRule(rule, { author });
+    } catch (err) {
+      setError(`Could not save rule: ${describeError(err)}`);
+      return;
+    }
+    const stampSaved = (target: Rule): Rule => ({
+      ...target,
+      id: saved.id,
+      metadata: { ...target.metadata, version: saved.version, author: author || target.metadata.author }
+    });
+    // Undo must not take back the id and version the save assigned
+    rewrite(stampSaved);
+    onSave?.(stampSaved(rule));
+    await refreshVersions(saved.id).catch(err => setError(`Saved, but could not load version history: ${describeError(err)}`));
+  }, [rule, validation, author, onSave, rewrite, refreshVersions]);
+
+  // Imported rules replace the canvas; their saved history (if any) comes along
+  const handleImport = useCallback((imported: Rule) => {
+    commit(imported, { label: `Import ${imported.name}` });
+    setShowImporter(false);
+  }, [commit]);
+
+  // Rollback saves the restored snapshot, so it becomes the newest version both locally and on the server
+  const handleRollback = useCallback(async (versionId: string) => {
+    if (!rule.id) return;
 
-  // Save handler
-  const handleSave = useCallback(() => {
-    if (onSave && validation?.isValid) {
-      onSave(rule);
+    setError(null);
+    let target: Rule;
+    let message: string;
+    let saved: { id: string; version: string };
+    try {
+      target = await ruleVersioning.restoreRule(rule.id, versionId);
+      message = `Rolled back to ${target.metadata.version}`;
+      saved = await saveRule(target, { author, message });
+    } catch (err) {
+      setError(`Could not roll back: ${describeError(err)}`);
+      return;
     }
-  }, [rule, validation, onSave]);
+    commit({
+      ...target,
+      id: saved.id,
+      metadata: { ...target.metadata, version: saved.version, author: author || target.metadata.author }
+    }, { label: message });
+    await refreshVersions(saved.id).catch(err => setError(`Rolled back, but could not load version history: ${describeError(err)}`));
+  }, [rule.id, author, commit, refreshVersions]);
+
+  const toggleBreakpoint = useCallback((atomId: string) => {
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(atomId)) next.delete(atomId);
+      else next.add(atomId);
+      return next;
+    });
+  }, []);
 
   // Test handler
-  const handleTest = useCallback(async (testData: any) => {
-    if (!onTest || !rule.rootAtom) return;
-    
+  const handleTest = useCallback(async (testData: any): Promise<TestResult> => {
     setIsTesting(true);
     try {
-      return await onTest(rule, testData);
+      // Without a custom test handler, run through the engine (local interpreter when offline)
+      return await (onTest ? onTest(rule, testData) : executeRule(rule, testData));
     } finally {
       setIsTesting(false);
     }
@@ -125,14 +251,14 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 <input
                   type="text"
                   value={rule.name}
-                  onChange={(e) => handleRuleUpdate({ name: e.target.value })}
+                  onChange={(e) => handleRuleUpdate({ name: e.target.value }, { label: 'Rename rule', coalesceKey: 'rule:name' })}
                   className="text-lg font-medium bg-transparent border-none outline-none focus:bg-gray-50 px-2 py-1 rounded"
                   placeholder="Rule name..."
                 />
                 <input
                   type="text"
                   value={rule.description}
-                  onChange={(e) => handleRuleUpdate({ description: e.target.value })}
+                  onChange={(e) => handleRuleUpdate({ description: e.target.value }, { label: 'Edit description', coalesceKey: 'rule:description' })}
                   className="text-sm text-gray-600 bg-transparent border-none outline-none focus:bg-gray-50 px-2 py-1 rounded"
                   placeholder="Add description..."
                 />
@@ -154,6 +280,56 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 </div>
               )}
 
+              {/* View */}
+              <div className="flex items-center rounded border border-gray-200 p-0.5" role="group" aria-label="Rule view">
+                <button
+                  onClick={() => setView('canvas')}
+                  aria-pressed={view === 'canvas'}
+                  className={`flex items-center space-x-1 px-2 py-1 text-sm rounded ${
+                    view === 'canvas' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  <Workflow className="w-4 h-4" />
+                  <span>Canvas</span>
+                </button>
+                <button
+                  onClick={() => setView('table')}
+                  aria-pressed={view === 'table'}
+                  className={`flex items-center space-x-1 px-2 py-1 text-sm rounded ${
+                    view === 'table' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                  title="Edit the rule as a decision table"
+                >
+                  <Table className="w-4 h-4" />
+                  <span>Table</span>
+                </button>
+              </div>
+
+              {/* Undo / Redo */}
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  className="flex items-center space-x-1 px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                  title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 className="w-4 h-4" />
+                  {canUndo && <span className="max-w-[12rem] truncate">Undo {undoLabel}</span>}
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                  title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <span className="text-sm text-gray-500" title="Rule version">
+                v{rule.metadata.version}
+              </span>
+
               {/* Action Buttons */}
               <button
                 onClick={() => setShowValidation(!showValidation)}
@@ -171,6 +347,38 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 <Play className="w-4 h-4" />
               </button>
 
+              <button
+                onClick={() => setShowDebugger(!showDebugger)}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                title="Debugger"
+              >
+                <Bug className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setShowInputSchema(!showInputSchema)}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                title="Input Schema"
+              >
+                <Braces className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                title="Version History"
+              >
+                <History className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setShowImporter(!showImporter)}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                title="Import Rule"
+              >
+                <Upload className="w-4 h-4" />
+              </button>
+
               <button
                 onClick={() => setShowExporter(!showExporter)}
                 className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
@@ -195,6 +403,16 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
           </div>
         </header>
 
+        {error && (
+          <div className="flex items-start space-x-2 px-6 py-3 bg-red-50 border-b border-red-200 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800" title="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="flex-1 flex">
           {/* Left Sidebar - Atom Palette */}
@@ -202,15 +420,30 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
             <AtomPalette />
           </div>
 
-          {/* Center - Rule Canvas */}
-          <div className="flex-1 flex flex-col">
-            <RuleCanvas
-              ref={canvasRef}
-              rule={rule}
-              onRuleUpdate={handleRuleUpdate}
-              validation={validation}
-            />
-          </div>
+          {/* Center - Rule Canvas, or the same rule as a decision table */}
+          {view === 'canvas' ? (
+            <div className="flex-1 flex flex-col">
+              <RuleCanvas
+                ref={canvasRef}
+                rule={rule}
+                onRuleUpdate={handleRuleUpdate}
+                validation={validation}
+                breakpoints={breakpoints}
+                onToggleBreakpoint={toggleBreakpoint}
+                debugHighlight={debugHighlight}
+                coverage={coverage}
+              />
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col min-w-0">
+              <DecisionTableView
+                rule={rule}
+                onRuleUpdate={handleRuleUpdate}
+                validation={validation}
+                onShowCanvas={() => setView('canvas')}
+              />
+            </div>
+          )}
 
           {/* Right Sidebar - Dynamic Panels */}
           <div className="w-96 bg-white border-l border-gray-200 flex flex-col">
@@ -219,6 +452,7 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 validation={validation}
                 isValidating={isValidating}
                 onRevalidate={handleValidation}
+                onApplyFixes={handleApplyFixes}
               />
             )}
 
@@ -227,12 +461,52 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 rule={rule}
                 onTest={handleTest}
                 isTesting={isTesting}
+                coverage={coverage}
+                onCoverageChange={setCoverage}
+                onScenariosChange={setTestScenarios}
+              />
+            )}
+
+            {showDebugger && (
+              <DebuggerPanel
+                rule={rule}
+                breakpoints={breakpoints}
+                onToggleBreakpoint={toggleBreakpoint}
+                onClearBreakpoints={() => setBreakpoints(new Set())}
+                onHighlightChange={setDebugHighlight}
+                onClose={() => setShowDebugger(false)}
+              />
+            )}
+
+            {showInputSchema && (
+              <InputSchemaPanel
+                schema={rule.inputSchema}
+                onChange={handleInputSchemaChange}
+                onClose={() => setShowInputSchema(false)}
+              />
+            )}
+
+            {showHistory && (
+              <VersionHistoryPanel
+                rule={rule}
+                versions={versions}
+                onRollback={handleRollback}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+
+            {showImporter && (
+              <RuleImporter
+                onImport={handleImport}
+                onClose={() => setShowImporter(false)}
               />
             )}
 
             {showExporter && (
               <RuleExporter
                 rule={rule}
+                coverage={coverage}
+                scenarios={testScenarios}
                 onClose={() => setShowExporter(false)}
               />
             )}
@@ -2,55 +2,193 @@
 // Interactive canvas for building rules with drag-and-drop visual tree interface
 // Handles atom placement, connections, and real-time visual feedback
 
-import React, { useState, useCallback, useRef, forwardRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, forwardRef } from 'react';
 import { useDrop } from 'react-dnd';
-import { Atom, Rule, ValidationResult, AtomInstance } from '../../types/RuleTypes';
-import { AtomNode } from './AtomNode';
+import { Rule, RuleChange, RuleCoverage, ValidationResult, AtomInstance, ParameterValue } from '../../types/RuleTypes';
+import {
+  findAtomById,
+  findParentAtom,
+  addChildAtom,
+  updateAtom,
+  removeAtom,
+  nextAtomId,
+  cloneAtomSubtree,
+  flattenAtoms,
+  indexAtomTree,
+  getNavigationTarget,
+  getSelectionRoots,
+  removeAtoms,
+  wrapAtoms,
+  canWrapAtoms
+} from '../../utils/atomTree';
+import { LayoutDirection, LayoutSize, DEFAULT_NODE_SIZE, layoutAtomTree, getTreeConnections, getTreeBounds } from '../../utils/treeLayout';
+import { clampZoom, centerViewportOn, fitBoundsToViewport, getVisibleBounds } from '../../utils/canvasViewport';
+import { getIssuesForAtom } from '../../services/ValidationIssues';
+import { getAtomDefinition } from '../../services/AtomRegistry';
+import { ExpressionContext, enterAtomScope } from '../../services/ExpressionTypeChecker';
+import { getRuleExpressionContext } from '../../services/InputSchema';
+import { copyAtomsToClipboard, readAtomsFromClipboardEvent, writeAtomsToClipboardEvent } from '../../services/AtomClipboard';
+import { DebugHighlight } from '../../services/RuleDebugger';
+import { getMissedBranches } from '../../services/RuleCoverage';
+import { AtomNode, ParameterEditModal } from './AtomNode';
 import { ConnectionLine } from './ConnectionLine';
 import { CanvasGrid } from './CanvasGrid';
-import { ZoomControls } from './ZoomControls';
-import { Plus, Zap, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ZoomControls, Minimap } from './ZoomControls';
+import { SelectionToolbar, SelectionWrapperType } from './SelectionToolbar';
+import { AtomCommandPalette } from './AtomCommandPalette';
+import { Plus, Zap, AlertTriangle, CheckCircle, Network, ArrowDown, ArrowRight, X } from 'lucide-react';
 
 interface RuleCanvasProps {
   rule: Rule;
-  onRuleUpdate: (updates: Partial<Rule>) => void;
+  onRuleUpdate: (updates: Partial<Rule>, change: RuleChange) => void;
   validation?: ValidationResult | null;
+  breakpoints?: ReadonlySet<string>;
+  onToggleBreakpoint?: (atomId: string) => void;
+  // Atom the debugger is paused on; the canvas highlights it and pans it into view
+  debugHighlight?: DebugHighlight | null;
+  // Coverage of the last full test run, shown as shading on uncovered atoms
+  coverage?: RuleCoverage | null;
 }
 
+// Pasted and duplicated atoms are nudged so they don't sit exactly on top of the original
+const PASTE_OFFSET = { x: 40, y: 40 };
+
+// Pointer travel (in pixels) before a press on empty canvas becomes a marquee drag
+const MARQUEE_THRESHOLD = 4;
+
+interface Marquee {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  // Shift/ctrl/cmd adds to the existing selection instead of replacing it
+  additive: boolean;
+}
+
+// Where the laid out tree starts inside the content area
+const LAYOUT_ORIGIN = { x: 32, y: 32 };
+
 interface CanvasState {
   zoom: number;
   panX: number;
   panY: number;
-  selectedAtom: string | null;
+  // The last id is the primary selection, which receives new and pasted atoms
+  selectedAtoms: string[];
   isDragging: boolean;
   dragPosition: { x: number; y: number } | null;
+  layoutDirection: LayoutDirection;
+  // Re-run the layout after adds, deletes, pastes and duplicates
+  autoLayout: boolean;
 }
 
 export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
   rule,
   onRuleUpdate,
-  validation
+  validation,
+  breakpoints,
+  onToggleBreakpoint,
+  debugHighlight,
+  coverage
 }, ref) => {
   // Canvas state
   const [canvas, setCanvas] = useState<CanvasState>({
     zoom: 1,
     panX: 0,
     panY: 0,
-    selectedAtom: null,
+    selectedAtoms: [],
     isDragging: false,
-    dragPosition: null
+    dragPosition: null,
+    layoutDirection: 'top-down',
+    autoLayout: true
   });
 
+  const primarySelection = canvas.selectedAtoms[canvas.selectedAtoms.length - 1] ?? null;
+
   const canvasRef = useRef<HTMLDivElement>(null);
-  const [nextAtomId, setNextAtomId] = useState(1);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewportSize({ width: element.clientWidth, height: element.clientHeight });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Rendered atom sizes feed the layout; offset sizes ignore the zoom transform
+  const [nodeSizes, setNodeSizes] = useState<Record<string, LayoutSize>>({});
+  const nodeElements = useRef(new Map<string, HTMLElement>());
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    const measure = (elements: HTMLElement[]) => {
+      setNodeSizes(prev => {
+        let next = prev;
+        elements.forEach(element => {
+          const atomId = element.dataset.atomId;
+          if (!atomId) return;
+          const size = { width: element.offsetWidth, height: element.offsetHeight };
+          if (prev[atomId]?.width !== size.width || prev[atomId]?.height !== size.height) {
+            next = next === prev ? { ...prev } : next;
+            next[atomId] = size;
+          }
+        });
+        return next;
+      });
+    };
+
+    const observer = new ResizeObserver(entries => measure(entries.map(entry => entry.target as HTMLElement)));
+    resizeObserver.current = observer;
+    nodeElements.current.forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, []);
+
+  // One stable ref callback per atom so re-renders don't re-observe every node
+  const measureRefs = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const measureNode = (atomId: string) => {
+    let callback = measureRefs.current.get(atomId);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = nodeElements.current.get(atomId);
+        if (previous) resizeObserver.current?.unobserve(previous);
+        if (element) {
+          nodeElements.current.set(atomId, element);
+          resizeObserver.current?.observe(element);
+        } else {
+          nodeElements.current.delete(atomId);
+          measureRefs.current.delete(atomId);
+        }
+      };
+      measureRefs.current.set(atomId, callback);
+    }
+    return callback;
+  };
+
+  const layoutTree = useCallback((root: AtomInstance, direction: LayoutDirection = canvas.layoutDirection) =>
+    layoutAtomTree(root, { direction, origin: LAYOUT_ORIGIN, sizes: nodeSizes }), [canvas.layoutDirection, nodeSizes]);
+
+  // Adds, deletes, pastes and duplicates go through here so the tree is re-laid out in the same undo step
+  const updateStructure = useCallback((rootAtom: AtomInstance | null, change: RuleChange) => {
+    onRuleUpdate({ rootAtom: rootAtom && canvas.autoLayout ? layoutTree(rootAtom) : rootAtom }, change);
+  }, [onRuleUpdate, canvas.autoLayout, layoutTree]);
 
-  // Create new atom instance
+  const handleAutoLayout = useCallback((direction: LayoutDirection = canvas.layoutDirection) => {
+    setCanvas(prev => ({ ...prev, layoutDirection: direction }));
+    if (!rule.rootAtom) return;
+
+    const laidOut = layoutTree(rule.rootAtom, direction);
+    if (laidOut !== rule.rootAtom) {
+      onRuleUpdate({ rootAtom: laidOut }, { label: 'Auto layout' });
+    }
+  }, [rule.rootAtom, canvas.layoutDirection, layoutTree, onRuleUpdate]);
+
+  // Create new atom instance; ids continue from the tree so loaded or imported rules never collide
   const createAtomInstance = useCallback((atomType: string, position: { x: number; y: number }): AtomInstance => {
-    const id = `atom_${nextAtomId}`;
-    setNextAtomId(prev => prev + 1);
-    
     return {
-      id,
+      id: nextAtomId(rule),
       type: atomType,
       position,
       parameters: {},
@@ -60,12 +198,57 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
         modified: new Date().toISOString()
       }
     };
-  }, [nextAtomId]);
+  }, [rule]);
+
+  // Undo labels name the atom; repeated edits of the same field on one atom coalesce
+  const describeAtom = useCallback((atomId: string) => {
+    const atom = findAtomById(rule.rootAtom, atomId);
+    return atom ? atom.label || getAtomDefinition(atom.type)?.name || atom.type : atomId;
+  }, [rule.rootAtom]);
+
+  // New atoms go under the primary selection, or become the root of an empty canvas
+  const addAtom = useCallback((atomType: string, position: { x: number; y: number }): string => {
+    const newAtom = createAtomInstance(atomType, position);
+    const change = { label: `Add ${getAtomDefinition(atomType)?.name ?? atomType}` };
+
+    if (!rule.rootAtom) {
+      updateStructure(newAtom, change);
+    } else {
+      const targetId = primarySelection && findAtomById(rule.rootAtom, primarySelection) ? primarySelection : rule.rootAtom.id;
+      updateStructure(addChildAtom(rule.rootAtom, targetId, newAtom), change);
+    }
+
+    setCanvas(prev => ({ ...prev, selectedAtoms: [newAtom.id] }));
+    return newAtom.id;
+  }, [rule.rootAtom, primarySelection, createAtomInstance, updateStructure]);
+
+  // Dragging an atom that is part of the selection moves the whole selection
+  const moveAtoms = useCallback((atomIds: string[], delta: { x: number; y: number }) => {
+    if (!rule.rootAtom || (delta.x === 0 && delta.y === 0)) return;
+
+    const updatedRoot = atomIds.reduce<AtomInstance | null>((current, atomId) => {
+      const atom = findAtomById(current, atomId);
+      return atom
+        ? updateAtom(current, atomId, { position: { x: atom.position.x + delta.x, y: atom.position.y + delta.y } })
+        : current;
+    }, rule.rootAtom);
+
+    const label = atomIds.length === 1 ? `Move ${describeAtom(atomIds[0])}` : `Move ${atomIds.length} atoms`;
+    onRuleUpdate({ rootAtom: updatedRoot }, { label });
+  }, [rule.rootAtom, onRuleUpdate, describeAtom]);
+
+  // Drop handler for new atoms from the palette and moves of atoms already on the canvas
+  const [{ isOver, canDrop, draggedType }, drop] = useDrop({
+    accept: ['atom', 'atom-instance'],
+    drop: (item: { atomType: string } | { atomId: string }, monitor) => {
+      if ('atomId' in item) {
+        const offset = monitor.getDifferenceFromInitialOffset();
+        if (!offset) return;
+        const atomIds = canvas.selectedAtoms.includes(item.atomId) ? canvas.selectedAtoms : [item.atomId];
+        moveAtoms(atomIds, { x: offset.x / canvas.zoom, y: offset.y / canvas.zoom });
+        return;
+      }
 
-  // Drop handler for new atoms
-  const [{ isOver, canDrop }, drop] = useDrop({
-    accept: 'atom',
-    drop: (item: { atomType: string }, monitor) => {
       const clientOffset = monitor.getClientOffset();
       if (!clientOffset || !canvasRef.current) return;
 
@@ -73,114 +256,469 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
       const x = (clientOffset.x - canvasRect.left - canvas.panX) / canvas.zoom;
       const y = (clientOffset.y - canvasRect.top - canvas.panY) / canvas.zoom;
 
-      const newAtom = createAtomInstance(item.atomType, { x, y });
-
-      if (!rule.rootAtom) {
-        // First atom becomes root
-        onRuleUpdate({ rootAtom: newAtom });
-      } else {
-        // Add as child to selected atom or root
-        const targetAtom = canvas.selectedAtom 
-          ? findAtomById(rule.rootAtom, canvas.selectedAtom)
-          : rule.rootAtom;
-        
-        if (targetAtom) {
-          const updatedRoot = addChildAtom(rule.rootAtom, targetAtom.id, newAtom);
-          onRuleUpdate({ rootAtom: updatedRoot });
-        }
-      }
-
-      setCanvas(prev => ({ ...prev, selectedAtom: newAtom.id }));
+      addAtom(item.atomType, { x, y });
     },
     collect: (monitor) => ({
       isOver: monitor.isOver(),
       canDrop: monitor.canDrop(),
+      draggedType: monitor.getItemType(),
     }),
   });
 
-  // Helper functions for atom tree manipulation
-  const findAtomById = (atom: AtomInstance | null, id: string): AtomInstance | null => {
-    if (!atom) return null;
-    if (atom.id === id) return atom;
-    
-    for (const child of atom.children) {
-      const found = findAtomById(child, id);
-      if (found) return found;
-    }
-    return null;
-  };
+  // Canvas interaction handlers
+  const setSelection = useCallback((atomIds: string[]) => {
+    setCanvas(prev => ({ ...prev, selectedAtoms: atomIds }));
+  }, []);
 
-  const addChildAtom = (root: AtomInstance | null, parentId: string, newAtom: AtomInstance): AtomInstance | null => {
-    if (!root) return newAtom;
-    
-    if (root.id === parentId) {
-      return {
-        ...root,
-        children: [...root.children, newAtom],
-        metadata: { ...root.metadata, modified: new Date().toISOString() }
-      };
+  // Shift/ctrl/cmd-click toggles an atom; a plain click selects only that atom
+  const handleAtomSelect = useCallback((atomId: string, additive: boolean = false) => {
+    setCanvas(prev => {
+      if (!additive) return { ...prev, selectedAtoms: [atomId] };
+      const selectedAtoms = prev.selectedAtoms.includes(atomId)
+        ? prev.selectedAtoms.filter(id => id !== atomId)
+        : [...prev.selectedAtoms, atomId];
+      return { ...prev, selectedAtoms };
+    });
+  }, []);
+
+  const handleAtomUpdate = useCallback((atomId: string, updates: Partial<AtomInstance>) => {
+    const updatedRoot = updateAtom(rule.rootAtom, atomId, updates);
+    const name = describeAtom(atomId);
+    const change: RuleChange = updates.parameters
+      ? { label: `Edit ${name} parameters`, coalesceKey: `parameters:${atomId}` }
+      : updates.label !== undefined
+        ? { label: `Rename ${name}`, coalesceKey: `label:${atomId}` }
+        : updates.position
+          ? { label: `Move ${name}`, coalesceKey: `position:${atomId}` }
+          : { label: `Update ${name}` };
+    onRuleUpdate({ rootAtom: updatedRoot }, change);
+  }, [rule.rootAtom, onRuleUpdate, describeAtom]);
+
+  const handleAtomDelete = useCallback((atomId: string) => {
+    const change = { label: `Delete ${describeAtom(atomId)}` };
+    if (rule.rootAtom?.id === atomId) {
+      updateStructure(null, change);
+    } else {
+      const updatedRoot = removeAtom(rule.rootAtom, atomId);
+      updateStructure(updatedRoot, change);
     }
+    setCanvas(prev => ({ ...prev, selectedAtoms: prev.selectedAtoms.filter(id => id !== atomId) }));
+  }, [rule.rootAtom, updateStructure, describeAtom]);
 
-    return {
-      ...root,
-      children: root.children.map(child => addChildAtom(child, parentId, newAtom)).filter(Boolean) as AtomInstance[]
+  // Clipboard: pasted subtrees get fresh ids and land under the primary selection (or the root)
+  const pasteAtoms = useCallback((copied: AtomInstance[], label: string) => {
+    if (copied.length === 0) return;
+
+    let updatedRoot = rule.rootAtom;
+    const pastedIds: string[] = [];
+    copied.forEach(atom => {
+      const pasted = cloneAtomSubtree(atom, { ...rule, rootAtom: updatedRoot }, PASTE_OFFSET);
+      const targetId = updatedRoot && primarySelection && findAtomById(updatedRoot, primarySelection)
+        ? primarySelection
+        : updatedRoot?.id;
+      // With nothing on the canvas the first pasted atom becomes the root
+      updatedRoot = updatedRoot && targetId ? addChildAtom(updatedRoot, targetId, pasted) : pasted;
+      pastedIds.push(pasted.id);
+    });
+
+    const first = copied[0];
+    const change = {
+      label: copied.length === 1
+        ? `${label} ${first.label || getAtomDefinition(first.type)?.name || first.type}`
+        : `${label} ${copied.length} atoms`
     };
-  };
+    updateStructure(updatedRoot, change);
+    setSelection(pastedIds);
+  }, [rule, primarySelection, updateStructure, setSelection]);
 
-  const updateAtom = (root: AtomInstance | null, atomId: string, updates: Partial<AtomInstance>): AtomInstance | null => {
-    if (!root) return null;
-    
-    if (root.id === atomId) {
-      return {
-        ...root,
-        ...updates,
-        metadata: { ...root.metadata, modified: new Date().toISOString() }
-      };
+  // Duplicates sit right after the original under the same parent
+  const handleAtomDuplicate = useCallback((atomId: string) => {
+    const atom = findAtomById(rule.rootAtom, atomId);
+    const parent = findParentAtom(rule.rootAtom, atomId);
+    if (!atom || !parent) return; // The root has no parent to hold a sibling
+
+    const duplicate = cloneAtomSubtree(atom, rule, PASTE_OFFSET);
+    const index = parent.children.findIndex(child => child.id === atomId) + 1;
+    updateStructure(
+      addChildAtom(rule.rootAtom, parent.id, duplicate, index),
+      { label: `Duplicate ${describeAtom(atomId)}` }
+    );
+    setSelection([duplicate.id]);
+  }, [rule, updateStructure, describeAtom, setSelection]);
+
+  // The clipboard API can refuse writes (permissions, insecure origins); say so instead of failing silently
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
+
+  const copyToClipboard = useCallback((atoms: AtomInstance[]) => {
+    setClipboardError(null);
+    copyAtomsToClipboard(atoms).catch(error =>
+      setClipboardError(`Could not copy ${atoms.length === 1 ? 'the atom' : `${atoms.length} atoms`}: ${error instanceof Error ? error.message : error}`)
+    );
+  }, []);
+
+  const handleAtomCopy = useCallback((atomId: string) => {
+    const atom = findAtomById(rule.rootAtom, atomId);
+    if (atom) copyToClipboard([atom]);
+  }, [rule.rootAtom, copyToClipboard]);
+
+  // Group operations act on the selection roots, so a selected subtree is handled once
+  const selectionRoots = useMemo(
+    () => getSelectionRoots(rule.rootAtom, canvas.selectedAtoms),
+    [rule.rootAtom, canvas.selectedAtoms]
+  );
+
+  const describeSelection = useCallback((atoms: AtomInstance[]) =>
+    atoms.length === 1 ? describeAtom(atoms[0].id) : `${atoms.length} atoms`, [describeAtom]);
+
+  const deleteSelection = useCallback((verb: string = 'Delete') => {
+    if (selectionRoots.length === 0) return;
+    updateStructure(
+      removeAtoms(rule.rootAtom, selectionRoots.map(atom => atom.id)),
+      { label: `${verb} ${describeSelection(selectionRoots)}` }
+    );
+    setSelection([]);
+  }, [rule.rootAtom, selectionRoots, updateStructure, describeSelection, setSelection]);
+
+  const copySelection = useCallback(() => {
+    if (selectionRoots.length === 0) return;
+    copyToClipboard(selectionRoots);
+  }, [selectionRoots, copyToClipboard]);
+
+  // Wrappers are placed where the first selected atom was and take the selection as children
+  const wrapSelection = useCallback((type: SelectionWrapperType) => {
+    const first = selectionRoots[0];
+    if (!first) return;
+
+    const wrapper = createAtomInstance(type, first.position);
+    const wrapped = wrapAtoms(rule.rootAtom, selectionRoots.map(atom => atom.id), wrapper);
+    if (!wrapped) return;
+
+    updateStructure(wrapped, {
+      label: `Wrap ${describeSelection(selectionRoots)} in ${getAtomDefinition(type)?.name ?? type}`
+    });
+    setSelection([wrapper.id]);
+  }, [rule.rootAtom, selectionRoots, createAtomInstance, updateStructure, describeSelection, setSelection]);
+
+  const wrapDisabledReasons = useMemo(() => {
+    const reasons: Partial<Record<SelectionWrapperType, string>> = {};
+    if (!canWrapAtoms(rule.rootAtom, canvas.selectedAtoms)) {
+      reasons.loop = 'Only atoms that share a parent can be wrapped';
+      reasons.if_then_else = reasons.loop;
+    } else if (selectionRoots.length > 2) {
+      reasons.if_then_else = 'If-Then-Else holds at most a then and an else branch';
     }
+    return reasons;
+  }, [rule.rootAtom, canvas.selectedAtoms, selectionRoots]);
 
-    return {
-      ...root,
-      children: root.children.map(child => updateAtom(child, atomId, updates)).filter(Boolean) as AtomInstance[]
+  // Bulk editing needs every selected atom to be the same type with parameters to edit
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const selectedAtomInstances = useMemo(
+    () => canvas.selectedAtoms.map(id => findAtomById(rule.rootAtom, id)).filter((atom): atom is AtomInstance => atom !== null),
+    [rule.rootAtom, canvas.selectedAtoms]
+  );
+  const bulkEditDefinition = useMemo(() => {
+    const types = new Set(selectedAtomInstances.map(atom => atom.type));
+    if (selectedAtomInstances.length < 2 || types.size !== 1) return null;
+    const definition = getAtomDefinition(selectedAtomInstances[0].type);
+    return definition?.parameters?.length ? definition : null;
+  }, [selectedAtomInstances]);
+
+  // Fields start with the values every selected atom agrees on; blank fields are left alone
+  const sharedParameters = useMemo(() => {
+    const [first, ...rest] = selectedAtomInstances;
+    if (!first) return {};
+    return Object.fromEntries(
+      Object.entries(first.parameters).filter(([name, value]) =>
+        rest.every(atom => JSON.stringify(atom.parameters[name]) === JSON.stringify(value))
+      )
+    );
+  }, [selectedAtomInstances]);
+
+  const handleBulkEditSave = useCallback((parameters: Record<string, ParameterValue>) => {
+    const changed = Object.entries(parameters).filter(([name, value]) =>
+      value !== undefined && value !== '' && JSON.stringify(value) !== JSON.stringify(sharedParameters[name])
+    );
+    if (changed.length === 0) return;
+
+    const updatedRoot = selectedAtomInstances.reduce<AtomInstance | null>(
+      (current, atom) => updateAtom(current, atom.id, { parameters: { ...atom.parameters, ...Object.fromEntries(changed) } }),
+      rule.rootAtom
+    );
+    onRuleUpdate(
+      { rootAtom: updatedRoot },
+      { label: `Edit parameters of ${selectedAtomInstances.length} ${bulkEditDefinition?.name ?? ''} atoms` }
+    );
+  }, [rule.rootAtom, selectedAtomInstances, sharedParameters, bulkEditDefinition, onRuleUpdate]);
+
+  useEffect(() => {
+    // Text fields keep native clipboard behaviour
+    const isEditingText = () => {
+      const active = document.activeElement as HTMLElement | null;
+      return !!active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable);
     };
-  };
 
-  const removeAtom = (root: AtomInstance | null, atomId: string): AtomInstance | null => {
-    if (!root) return null;
-    if (root.id === atomId) return null;
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditingText() || selectionRoots.length === 0) return;
+      writeAtomsToClipboardEvent(event, selectionRoots);
+    };
 
-    return {
-      ...root,
-      children: root.children
-        .map(child => removeAtom(child, atomId))
-        .filter(Boolean) as AtomInstance[]
+    const handleCut = (event: ClipboardEvent) => {
+      if (isEditingText() || selectionRoots.length === 0) return;
+      writeAtomsToClipboardEvent(event, selectionRoots);
+      deleteSelection('Cut');
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditingText()) return;
+      const copied = readAtomsFromClipboardEvent(event);
+      if (copied.length === 0) return;
+      event.preventDefault();
+      pasteAtoms(copied, 'Paste');
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditingText()) return;
+      const key = event.key.toLowerCase();
+
+      if ((event.ctrlKey || event.metaKey) && key === 'd' && primarySelection) {
+        event.preventDefault();
+        handleAtomDuplicate(primarySelection);
+      } else if ((event.ctrlKey || event.metaKey) && key === 'a' && rule.rootAtom) {
+        event.preventDefault();
+        setSelection(flattenAtoms(rule.rootAtom).map(atom => atom.id));
+      } else if ((key === 'delete' || key === 'backspace') && selectionRoots.length > 0) {
+        event.preventDefault();
+        deleteSelection();
+      } else if ((event.ctrlKey || event.metaKey) && key === 'k') {
+        event.preventDefault();
+        setShowCommandPalette(true);
+      } else if (key === 'escape' && canvas.selectedAtoms.length > 0) {
+        setSelection([]);
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [
+    rule.rootAtom,
+    canvas.selectedAtoms,
+    primarySelection,
+    selectionRoots,
+    deleteSelection,
+    pasteAtoms,
+    handleAtomDuplicate,
+    setSelection
+  ]);
+
+  // Keyboard navigation, also used for the ARIA tree attributes
+  const treeIndex = useMemo(() => indexAtomTree(rule.rootAtom), [rule.rootAtom]);
+
+  // Names available to each atom's expression parameters; loops bring `item` and `index` into scope
+  const expressionContexts = useMemo(() => {
+    const contexts = new Map<string, ExpressionContext>();
+    const visit = (atom: AtomInstance, context: ExpressionContext) => {
+      contexts.set(atom.id, context);
+      const childContext = enterAtomScope(context, atom);
+      atom.children.forEach(child => visit(child, childContext));
     };
+    if (rule.rootAtom) visit(rule.rootAtom, getRuleExpressionContext(rule));
+    return contexts;
+  }, [rule.rootAtom, rule.inputSchema]);
+
+  // Roving tabindex target: the primary selection, or the root when nothing is selected
+  const focusTarget = primarySelection && treeIndex.has(primarySelection) ? primarySelection : rule.rootAtom?.id ?? null;
+
+  const pendingFocus = useRef<string | null>(null);
+
+  // Pans just enough to bring an atom fully into view
+  const revealAtom = useCallback((atomId: string) => {
+    const atom = findAtomById(rule.rootAtom, atomId);
+    if (!atom || viewportSize.width === 0) return;
+
+    setCanvas(prev => {
+      const size = nodeSizes[atomId] ?? DEFAULT_NODE_SIZE;
+      const visible = getVisibleBounds(prev, viewportSize);
+      const inView = atom.position.x >= visible.x && atom.position.y >= visible.y
+        && atom.position.x + size.width <= visible.x + visible.width
+        && atom.position.y + size.height <= visible.y + visible.height;
+      if (inView) return prev;
+
+      const center = { x: atom.position.x + size.width / 2, y: atom.position.y + size.height / 2 };
+      return { ...prev, ...centerViewportOn(center, viewportSize, prev.zoom) };
+    });
+  }, [rule.rootAtom, nodeSizes, viewportSize]);
+
+  // Selects an atom and moves keyboard focus to it once it has rendered
+  const focusAtom = useCallback((atomId: string, extendSelection: boolean = false) => {
+    setCanvas(prev => ({
+      ...prev,
+      selectedAtoms: extendSelection
+        ? [...prev.selectedAtoms.filter(id => id !== atomId), atomId]
+        : [atomId]
+    }));
+    pendingFocus.current = atomId;
+    revealAtom(atomId);
+  }, [revealAtom]);
+
+  useEffect(() => {
+    const atomId = pendingFocus.current;
+    const element = atomId ? nodeElements.current.get(atomId)?.querySelector<HTMLElement>('[role="treeitem"]') : null;
+    if (element) {
+      pendingFocus.current = null;
+      element.focus({ preventScroll: true });
+    }
+  });
+
+  // Follow the debugger: pan whenever it pauses on a different atom, but not on every re-render
+  const revealedDebugAtom = useRef<string | null>(null);
+  useEffect(() => {
+    const atomId = debugHighlight?.atomId ?? null;
+    if (atomId === revealedDebugAtom.current) return;
+    revealedDebugAtom.current = atomId;
+    if (atomId) revealAtom(atomId);
+  }, [debugHighlight, revealAtom]);
+
+  // Arrows move focus along the tree; Shift extends the selection, Space toggles the focused atom
+  const handleTreeKeyDown = (event: React.KeyboardEvent) => {
+    const target = event.target as HTMLElement;
+    if (target.getAttribute('role') !== 'treeitem') return;
+    const atomId = target.closest<HTMLElement>('[data-atom-id]')?.dataset.atomId;
+    if (!atomId || !treeIndex.has(atomId)) return;
+
+    if (event.key === ' ') {
+      event.preventDefault();
+      handleAtomSelect(atomId, true);
+      return;
+    }
+
+    const next = getNavigationTarget(rule.rootAtom, treeIndex, atomId, event.key, canvas.layoutDirection);
+    if (next === undefined) return;
+    event.preventDefault();
+    if (next) focusAtom(next, event.shiftKey);
   };
 
-  // Canvas interaction handlers
-  const handleAtomSelect = useCallback((atomId: string) => {
-    setCanvas(prev => ({ ...prev, selectedAtom: atomId }));
-  }, []);
+  // Command palette inserts under the focused atom; the new atom takes focus
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
 
-  const handleAtomUpdate = useCallback((atomId: string, updates: Partial<AtomInstance>) => {
-    const updatedRoot = updateAtom(rule.rootAtom, atomId, updates);
-    onRuleUpdate({ rootAtom: updatedRoot });
-  }, [rule.rootAtom, onRuleUpdate]);
+  const handleCommandInsert = useCallback((atomType: string) => {
+    const parent = primarySelection ? findAtomById(rule.rootAtom, primarySelection) : rule.rootAtom;
+    const position = parent
+      ? { x: parent.position.x, y: parent.position.y + (nodeSizes[parent.id] ?? DEFAULT_NODE_SIZE).height + PASTE_OFFSET.y }
+      : LAYOUT_ORIGIN;
+    setShowCommandPalette(false);
+    focusAtom(addAtom(atomType, position));
+  }, [rule.rootAtom, primarySelection, nodeSizes, addAtom, focusAtom]);
 
-  const handleAtomDelete = useCallback((atomId: string) => {
-    if (rule.rootAtom?.id === atomId) {
-      onRuleUpdate({ rootAtom: null });
-    } else {
-      const updatedRoot = removeAtom(rule.rootAtom, atomId);
-      onRuleUpdate({ rootAtom: updatedRoot });
+  const closeCommandPalette = useCallback(() => {
+    setShowCommandPalette(false);
+    if (focusTarget) pendingFocus.current = focusTarget;
+  }, [focusTarget]);
+
+  // Marquee selection: dragging on empty canvas selects every atom the rectangle touches.
+  // Coordinates are relative to the canvas element, before pan and zoom.
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  const marqueeRef = useRef<Marquee | null>(null);
+  const updateMarquee = (next: Marquee | null) => {
+    marqueeRef.current = next;
+    setMarquee(next);
+  };
+
+  const handleCanvasMouseDown = (event: React.MouseEvent) => {
+    if (event.button !== 0 || !canvasRef.current) return;
+    if ((event.target as HTMLElement).closest('[data-atom-id]')) return;
+
+    const rect = canvasRef.current.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    updateMarquee({ startX: x, startY: y, endX: x, endY: y, additive: event.shiftKey || event.ctrlKey || event.metaKey });
+  };
+
+  const finishMarquee = useCallback(() => {
+    const current = marqueeRef.current;
+    updateMarquee(null);
+    if (!current) return;
+
+    const left = Math.min(current.startX, current.endX);
+    const top = Math.min(current.startY, current.endY);
+    const width = Math.abs(current.endX - current.startX);
+    const height = Math.abs(current.endY - current.startY);
+
+    // A click without a drag on empty canvas clears the selection
+    if (width < MARQUEE_THRESHOLD && height < MARQUEE_THRESHOLD) {
+      if (!current.additive) setSelection([]);
+      return;
     }
-    setCanvas(prev => ({ ...prev, selectedAtom: null }));
-  }, [rule.rootAtom, onRuleUpdate]);
+
+    const area = {
+      x: (left - canvas.panX) / canvas.zoom,
+      y: (top - canvas.panY) / canvas.zoom,
+      width: width / canvas.zoom,
+      height: height / canvas.zoom
+    };
+    const touched = flattenAtoms(rule.rootAtom)
+      .filter(atom => {
+        const size = nodeSizes[atom.id] ?? DEFAULT_NODE_SIZE;
+        return atom.position.x < area.x + area.width && atom.position.x + size.width > area.x
+          && atom.position.y < area.y + area.height && atom.position.y + size.height > area.y;
+      })
+      .map(atom => atom.id);
+
+    setCanvas(prev => ({
+      ...prev,
+      selectedAtoms: current.additive
+        ? [...prev.selectedAtoms, ...touched.filter(id => !prev.selectedAtoms.includes(id))]
+        : touched
+    }));
+  }, [rule.rootAtom, nodeSizes, canvas.panX, canvas.panY, canvas.zoom, setSelection]);
+
+  const isMarqueeActive = marquee !== null;
+  useEffect(() => {
+    if (!isMarqueeActive) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const current = marqueeRef.current;
+      if (!current || !canvasRef.current) return;
+      const rect = canvasRef.current.getBoundingClientRect();
+      updateMarquee({ ...current, endX: event.clientX - rect.left, endY: event.clientY - rect.top });
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', finishMarquee);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', finishMarquee);
+    };
+  }, [isMarqueeActive, finishMarquee]);
 
   // Zoom and pan handlers
   const handleZoom = useCallback((newZoom: number) => {
-    setCanvas(prev => ({ ...prev, zoom: Math.max(0.1, Math.min(3, newZoom)) }));
+    setCanvas(prev => ({ ...prev, zoom: clampZoom(newZoom) }));
   }, []);
 
+  const contentBounds = useMemo(
+    () => (rule.rootAtom ? getTreeBounds(rule.rootAtom, nodeSizes) : null),
+    [rule.rootAtom, nodeSizes]
+  );
+
+  const handleFitToContent = useCallback(() => {
+    if (!contentBounds || viewportSize.width === 0) return;
+    const fitted = fitBoundsToViewport(contentBounds, viewportSize);
+    setCanvas(prev => ({ ...prev, ...fitted }));
+  }, [contentBounds, viewportSize]);
+
+  // Minimap clicks and drags centre the viewport on a canvas point
+  const handleMinimapNavigate = useCallback((x: number, y: number) => {
+    setCanvas(prev => ({ ...prev, ...centerViewportOn({ x, y }, viewportSize, prev.zoom) }));
+  }, [viewportSize]);
+
   const handlePan = useCallback((deltaX: number, deltaY: number) => {
     setCanvas(prev => ({
       ...prev,
@@ -189,38 +727,57 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
     }));
   }, []);
 
-  // Render atom tree recursively
-  const renderAtomTree = (atom: AtomInstance, depth: number = 0): React.ReactNode => {
-    const isSelected = canvas.selectedAtom === atom.id;
-    const hasValidationErrors = validation?.errors?.some(error => error.includes(atom.id));
-    const hasValidationWarnings = validation?.warnings?.some(warning => warning.includes(atom.id));
+  // Atoms are placed absolutely at their positions; AtomNode's transform transition animates layout moves
+  const renderAtomTree = (atom: AtomInstance): React.ReactNode => {
+    const isSelected = canvas.selectedAtoms.includes(atom.id);
+    const atomIssues = getIssuesForAtom(validation, atom.id);
+    const hasValidationErrors = atomIssues.some(issue => issue.severity === 'error');
+    const hasValidationWarnings = atomIssues.some(issue => issue.severity === 'warning');
+    const treeEntry = treeIndex.get(atom.id);
 
     return (
       <React.Fragment key={atom.id}>
-        {/* Connection line to parent */}
-        {depth > 0 && <ConnectionLine />}
-        
         {/* Atom node */}
-        <AtomNode
-          atom={atom}
-          isSelected={isSelected}
-          hasErrors={hasValidationErrors}
-          hasWarnings={hasValidationWarnings}
-          onSelect={handleAtomSelect}
-          onUpdate={handleAtomUpdate}
-          onDelete={handleAtomDelete}
-          zoom={canvas.zoom}
-        />
+        <div
+          ref={measureNode(atom.id)}
+          data-atom-id={atom.id}
+          className="absolute top-0 left-0"
+          style={{ zIndex: isSelected ? 10 : undefined }}
+        >
+          <AtomNode
+            atom={atom}
+            isSelected={isSelected}
+            hasErrors={hasValidationErrors}
+            hasWarnings={hasValidationWarnings}
+            issues={atomIssues}
+            onSelect={handleAtomSelect}
+            onUpdate={handleAtomUpdate}
+            onDelete={handleAtomDelete}
+            onDuplicate={handleAtomDuplicate}
+            onCopy={handleAtomCopy}
+            zoom={canvas.zoom}
+            treeLevel={treeEntry?.level}
+            treePosition={treeEntry?.position}
+            treeSetSize={treeEntry?.setSize}
+            isFocusTarget={focusTarget === atom.id}
+            expressionContext={expressionContexts.get(atom.id)}
+            hasBreakpoint={breakpoints?.has(atom.id)}
+            onToggleBreakpoint={onToggleBreakpoint}
+            debugFrameKind={debugHighlight?.atomId === atom.id ? debugHighlight.kind : undefined}
+            coverage={coverage ? { hits: coverage.atomHits[atom.id] ?? 0, missedBranches: getMissedBranches(coverage, atom.id) } : undefined}
+          />
+        </div>
 
         {/* Render children */}
-        {atom.children.map(child => renderAtomTree(child, depth + 1))}
+        {atom.children.map(child => renderAtomTree(child))}
       </React.Fragment>
     );
   };
 
-  // Drop zone indicator
+  // Drop zone indicator; moving existing atoms doesn't add anything, so it gets no overlay
+  const isAddingAtom = canDrop && draggedType === 'atom';
   const getDropZoneStyle = () => {
-    if (!canDrop) return '';
+    if (!isAddingAtom) return '';
     if (isOver) return 'bg-blue-100 border-blue-300';
     return 'bg-gray-50 border-gray-300';
   };
@@ -245,6 +802,7 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
           ${getDropZoneStyle()}
           ${canvas.isDragging ? 'cursor-grabbing' : ''}
         `}
+        onMouseDown={handleCanvasMouseDown}
         style={{
           backgroundImage: `radial-gradient(circle, #e5e7eb 1px, transparent 1px)`,
           backgroundSize: `${20 * canvas.zoom}px ${20 * canvas.zoom}px`,
@@ -264,7 +822,25 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
         >
           {/* Rule tree */}
           {rule.rootAtom ? (
-            <div className="p-8">
+            <div
+              className="relative"
+              role="tree"
+              aria-label={`${rule.name || 'Rule'} atoms`}
+              aria-multiselectable="true"
+              onKeyDown={handleTreeKeyDown}
+            >
+              {/* Connections follow the atoms' current positions */}
+              {getTreeConnections(rule.rootAtom, canvas.layoutDirection, nodeSizes).map(connection => (
+                <ConnectionLine
+                  key={`${connection.parentId}-${connection.childId}`}
+                  startX={connection.start.x}
+                  startY={connection.start.y}
+                  endX={connection.end.x}
+                  endY={connection.end.y}
+                  direction={canvas.layoutDirection}
+                  isActive={canvas.selectedAtoms.includes(connection.parentId) || canvas.selectedAtoms.includes(connection.childId)}
+                />
+              ))}
               {renderAtomTree(rule.rootAtom)}
             </div>
           ) : (
@@ -279,6 +855,13 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
                   Drag atoms from the palette to create your business rule logic.
                   Start with a condition or action atom.
                 </p>
+                <button
+                  onClick={() => setShowCommandPalette(true)}
+                  className="mb-4 inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-700 border border-blue-200 rounded hover:bg-blue-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Insert atom (Ctrl/Cmd + K)</span>
+                </button>
                 <div className="flex items-center justify-center space-x-4 text-sm text-gray-500">
                   <div className="flex items-center space-x-1">
                     <Zap className="w-4 h-4" />
@@ -294,8 +877,21 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
           )}
         </div>
 
+        {/* Marquee */}
+        {marquee && (
+          <div
+            className="absolute border border-blue-400 bg-blue-200 bg-opacity-20 pointer-events-none"
+            style={{
+              left: Math.min(marquee.startX, marquee.endX),
+              top: Math.min(marquee.startY, marquee.endY),
+              width: Math.abs(marquee.endX - marquee.startX),
+              height: Math.abs(marquee.endY - marquee.startY)
+            }}
+          />
+        )}
+
         {/* Drop zone overlay */}
-        {isOver && canDrop && (
+        {isOver && isAddingAtom && (
           <div className="absolute inset-0 bg-blue-200 bg-opacity-20 border-2 border-dashed border-blue-400 flex items-center justify-center">
             <div className="bg-white p-4 rounded-lg shadow-lg">
               <div className="flex items-center space-x-2 text-blue-600">
@@ -315,7 +911,7 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
                 <h4 className="font-medium text-red-900">Validation Issues</h4>
                 <ul className="text-sm text-red-700 mt-1 space-y-1">
                   {validation.errors.slice(0, 3).map((error, index) => (
-                    <li key={index}>• {error}</li>
+                    <li key={index}>• {error.message}</li>
                   ))}
                   {validation.errors.length > 3 && (
                     <li className="text-red-500">... and {validation.errors.length - 3} more</li>
@@ -327,23 +923,137 @@ export const RuleCanvas = forwardRef<HTMLDivElement, RuleCanvasProps>(({
         )}
       </div>
 
+      {/* Layout controls */}
+      {rule.rootAtom && (
+        <div className="absolute top-4 left-4 flex items-center bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          <button
+            onClick={() => setShowCommandPalette(true)}
+            className="flex items-center space-x-1 px-3 py-2 text-gray-700 hover:bg-gray-100 rounded-l-lg border-r border-gray-200"
+            title="Insert an atom under the selected atom (Ctrl/Cmd + K)"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Insert</span>
+          </button>
+          <button
+            onClick={() => handleAutoLayout()}
+            className="flex items-center space-x-1 px-3 py-2 text-gray-700 hover:bg-gray-100"
+            title="Arrange atoms as a tidy tree"
+          >
+            <Network className="w-4 h-4" />
+            <span>Auto layout</span>
+          </button>
+          <button
+            onClick={() => handleAutoLayout('top-down')}
+            className={`p-2 border-l border-gray-200 ${canvas.layoutDirection === 'top-down' ? 'bg-blue-50 text-blue-600' : 'text-gray-500 hover:bg-gray-100'}`}
+            title="Top-down layout"
+            aria-label="Top-down layout"
+            aria-pressed={canvas.layoutDirection === 'top-down'}
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleAutoLayout('left-right')}
+            className={`p-2 border-l border-gray-200 ${canvas.layoutDirection === 'left-right' ? 'bg-blue-50 text-blue-600' : 'text-gray-500 hover:bg-gray-100'}`}
+            title="Left-to-right layout"
+            aria-label="Left-to-right layout"
+            aria-pressed={canvas.layoutDirection === 'left-right'}
+          >
+            <ArrowRight className="w-4 h-4" />
+          </button>
+          <label className="flex items-center space-x-1 px-3 py-2 border-l border-gray-200 text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={canvas.autoLayout}
+              onChange={(e) => setCanvas(prev => ({ ...prev, autoLayout: e.target.checked }))}
+            />
+            <span>Re-layout on edits</span>
+          </label>
+        </div>
+      )}
+
       {/* Zoom Controls */}
       <ZoomControls
         zoom={canvas.zoom}
         onZoom={handleZoom}
         onPan={handlePan}
         onReset={() => setCanvas(prev => ({ ...prev, zoom: 1, panX: 0, panY: 0 }))}
+        onFitToContent={handleFitToContent}
+        canFitToContent={!!rule.rootAtom}
       />
 
+      {/* Minimap */}
+      {rule.rootAtom && contentBounds && viewportSize.width > 0 && (
+        <Minimap
+          zoom={canvas.zoom}
+          panX={canvas.panX}
+          panY={canvas.panY}
+          nodes={flattenAtoms(rule.rootAtom).map(atom => ({
+            id: atom.id,
+            ...atom.position,
+            ...(nodeSizes[atom.id] ?? DEFAULT_NODE_SIZE)
+          }))}
+          contentBounds={contentBounds}
+          viewportBounds={viewportSize}
+          selectedIds={canvas.selectedAtoms}
+          onNavigate={handleMinimapNavigate}
+          className="absolute bottom-4 left-4"
+        />
+      )}
+
       {/* Selection Info */}
-      {canvas.selectedAtom && (
-        <div className="absolute bottom-4 left-4 bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
+      {primarySelection && (
+        <div className="absolute bottom-4 left-64 bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
           <div className="text-sm">
             <span className="font-medium text-gray-900">Selected: </span>
-            <span className="text-gray-600">{canvas.selectedAtom}</span>
+            <span className="text-gray-600">
+              {canvas.selectedAtoms.length === 1 ? primarySelection : `${canvas.selectedAtoms.length} atoms`}
+            </span>
           </div>
         </div>
       )}
+
+      {/* Group actions */}
+      {selectionRoots.length > 0 && (
+        <SelectionToolbar
+          count={canvas.selectedAtoms.length}
+          bulkEditName={bulkEditDefinition?.name}
+          wrapDisabledReasons={wrapDisabledReasons}
+          onCopy={copySelection}
+          onDelete={() => deleteSelection()}
+          onBulkEdit={() => setShowBulkEdit(true)}
+          onWrap={wrapSelection}
+          onClear={() => setSelection([])}
+        />
+      )}
+
+      {clipboardError && (
+        <div role="alert" className="absolute top-16 left-1/2 -translate-x-1/2 flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 shadow-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <span>{clipboardError}</span>
+          <button onClick={() => setClipboardError(null)} className="text-red-500 hover:text-red-700" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showCommandPalette && (
+        <AtomCommandPalette
+          parentName={rule.rootAtom ? describeAtom(focusTarget ?? rule.rootAtom.id) : null}
+          onInsert={handleCommandInsert}
+          onClose={closeCommandPalette}
+        />
+      )}
+
+      {showBulkEdit && bulkEditDefinition && selectedAtomInstances.length > 0 && (
+        <ParameterEditModal
+          atom={{ ...selectedAtomInstances[0], parameters: sharedParameters }}
+          definition={bulkEditDefinition}
+          title={`Configure ${selectedAtomInstances.length} ${bulkEditDefinition.name} atoms`}
+          allowBlank
+          onSave={handleBulkEditSave}
+          onClose={() => setShowBulkEdit(false)}
+        />
+      )}
     </div>
   );
 });
\ No newline at end of file
@@ -1,23 +1,67 @@
 // src/components/RuleBuilder/RuleExporter.tsx
 // Export functionality for rules in various formats
-// Supports JSON, YAML, and visual documentation formats
+// Supports JSON, YAML, documentation formats, SVG/PNG diagrams, DMN decision tables and rules compiled to standalone modules
 
-import React, { useState } from 'react';
-import { Rule } from '../../types/RuleTypes';
-import { Download, Copy, FileText, Code, Image, Check, X } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Rule, RuleCoverage, TestScenario } from '../../types/RuleTypes';
+import { stringifyYaml } from '../../utils/ruleYaml';
+import { flattenAtoms } from '../../utils/atomTree';
+import { embedRuleComment } from '../../services/RuleImport';
+import { getAtomDefinition } from '../../services/AtomRegistry';
+import { formatCoveragePercent, getMissedBranches } from '../../services/RuleCoverage';
+import { RuleCompileError, compileRule, compileRuleHarness } from '../../services/RuleCompiler';
+import { generateTestInputs } from '../../services/InputSchema';
+import { renderRuleDiagram, rasterizeDiagram } from '../../services/RuleDiagram';
+import { ruleToDmn } from '../../services/DmnConverter';
+import { getAllIssues } from '../../services/ValidationIssues';
+import { LayoutDirection } from '../../utils/treeLayout';
+import { Download, Copy, FileText, FileCode, Code, Image, Table, Check, X, AlertCircle } from 'lucide-react';
 
 interface RuleExporterProps {
   rule: Rule;
+  coverage?: RuleCoverage | null; // Added to the Markdown export when a full test run has been made
+  scenarios?: TestScenario[]; // Inputs the compiled module's test harness replays
   onClose: () => void;
 }
 
-type ExportFormat = 'json' | 'yaml' | 'markdown' | 'pdf' | 'png';
+type ExportFormat = 'json' | 'yaml' | 'markdown' | 'typescript' | 'javascript' | 'pdf' | 'svg' | 'png' | 'dmn';
 
-export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) => {
+const isCompiledFormat = (format: ExportFormat) => format === 'typescript' || format === 'javascript';
+
+const isDiagramFormat = (format: ExportFormat) => format === 'svg' || format === 'png';
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Rules that can't be compiled show why in place of the module
+const compileModule = (rule: Rule, typescript: boolean): { source: string; problems: string[] } => {
+  try {
+    return { source: compileRule(rule, { typescript }), problems: [] };
+  } catch (error) {
+    if (!(error instanceof RuleCompileError)) throw error;
+    return { source: `${error.message.split('\n').map(line => `// ${line}`).join('\n')}\n`, problems: error.problems };
+  }
+};
+
+// Rules that aren't decision tables show why in place of the XML
+const exportDmn = (rule: Rule): { source: string; problems: string[] } => {
+  const { xml, validation } = ruleToDmn(rule);
+  if (xml) return { source: xml, problems: [] };
+  const problems = getAllIssues(validation).map(issue => issue.message);
+  return {
+    source: `<!--\nThis rule can't be exported as a DMN decision table:\n${problems.map(problem => `- ${problem.replace(/--/g, '- -')}`).join('\n')}\n-->\n`,
+    problems
+  };
+};
+
+export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, coverage, scenarios = [], onClose }) => {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json');
   const [copied, setCopied] = useState(false);
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [prettyFormat, setPrettyFormat] = useState(true);
+  const [diagramDirection, setDiagramDirection] = useState<LayoutDirection>('top-down');
+  const [showDiagramParameters, setShowDiagramParameters] = useState(true);
+  // Copies and PNG renders that failed; cleared by the next attempt
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const exportFormats = [
     {
@@ -44,6 +88,22 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
       extension: '.md',
       mimeType: 'text/markdown'
     },
+    {
+      id: 'typescript' as ExportFormat,
+      name: 'TypeScript Module',
+      description: 'Compiled, dependency-free evaluate() function',
+      icon: <FileCode className="w-4 h-4" />,
+      extension: '.ts',
+      mimeType: 'text/typescript'
+    },
+    {
+      id: 'javascript' as ExportFormat,
+      name: 'JavaScript Module',
+      description: 'Compiled ES module for edge runtimes',
+      icon: <FileCode className="w-4 h-4" />,
+      extension: '.mjs',
+      mimeType: 'text/javascript'
+    },
     {
       id: 'pdf' as ExportFormat,
       name: 'PDF',
@@ -52,16 +112,43 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
       extension: '.pdf',
       mimeType: 'application/pdf'
     },
+    {
+      id: 'svg' as ExportFormat,
+      name: 'SVG',
+      description: 'Scalable diagram of the atom tree',
+      icon: <Image className="w-4 h-4" />,
+      extension: '.svg',
+      mimeType: 'image/svg+xml'
+    },
     {
       id: 'png' as ExportFormat,
       name: 'PNG',
-      description: 'Visual diagram',
+      description: 'Diagram image to paste into documents',
       icon: <Image className="w-4 h-4" />,
       extension: '.png',
       mimeType: 'image/png'
+    },
+    {
+      id: 'dmn' as ExportFormat,
+      name: 'DMN Decision Table',
+      description: 'DMN 1.3 XML for decision modeling tools',
+      icon: <Table className="w-4 h-4" />,
+      extension: '.dmn',
+      mimeType: 'application/xml'
     }
   ];
 
+  const diagram = isDiagramFormat(selectedFormat)
+    ? renderRuleDiagram(rule, { direction: diagramDirection, showParameters: showDiagramParameters })
+    : null;
+
+  // Compiling and table export walk the whole rule, so only the selected one runs and only when the rule changes
+  const compiled = useMemo(
+    () => (isCompiledFormat(selectedFormat) ? compileModule(rule, selectedFormat === 'typescript') : null),
+    [rule, selectedFormat]
+  );
+  const dmn = useMemo(() => (selectedFormat === 'dmn' ? exportDmn(rule) : null), [rule, selectedFormat]);
+
   const generateContent = (format: ExportFormat): string => {
     const cleanRule = includeMetadata ? rule : {
       ...rule,
@@ -73,42 +160,28 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
         return JSON.stringify(cleanRule, null, prettyFormat ? 2 : 0);
       
       case 'yaml':
-        return convertToYAML(cleanRule);
+        return stringifyYaml(cleanRule, { anchors: true });
       
       case 'markdown':
         return generateMarkdown(rule);
+
+      case 'typescript':
+      case 'javascript':
+        return compiled?.source ?? '';
+
+      // PNG previews and copies as the SVG it is drawn from
+      case 'svg':
+      case 'png':
+        return diagram?.svg ?? '';
+
+      case 'dmn':
+        return dmn?.source ?? '';
       
       default:
         return JSON.stringify(cleanRule, null, 2);
     }
   };
 
-  const convertToYAML = (obj: any, indent: number = 0): string => {
-    const spaces = '  '.repeat(indent);
-    let yaml = '';
-
-    for (const [key, value] of Object.entries(obj)) {
-      if (value === null || value === undefined) {
-        yaml += `${spaces}${key}: null\n`;
-      } else if (typeof value === 'object' && !Array.isArray(value)) {
-        yaml += `${spaces}${key}:\n${convertToYAML(value, indent + 1)}`;
-      } else if (Array.isArray(value)) {
-        yaml += `${spaces}${key}:\n`;
-        value.forEach(item => {
-          if (typeof item === 'object') {
-            yaml += `${spaces}  -\n${convertToYAML(item, indent + 2)}`;
-          } else {
-            yaml += `${spaces}  - ${item}\n`;
-          }
-        });
-      } else {
-        yaml += `${spaces}${key}: ${JSON.stringify(value)}\n`;
-      }
-    }
-
-    return yaml;
-  };
-
   const generateMarkdown = (rule: Rule): string => {
     let md = `# Rule: ${rule.name}\n\n`;
     
@@ -137,6 +210,13 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
       md += `*No atoms defined*\n`;
     }
 
+    if (coverage) {
+      md += generateCoverageMarkdown(rule, coverage);
+    }
+
+    // Invisible when rendered; lets the importer restore ids and positions exactly
+    md += `\n${embedRuleComment(rule)}\n`;
+
     return md;
   };
 
@@ -167,34 +247,92 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
     return md;
   };
 
+  // Tables rather than lists, so the Markdown importer's outline reader doesn't take rows for atoms
+  const generateCoverageMarkdown = (rule: Rule, coverage: RuleCoverage): string => {
+    let md = `\n## Test Coverage\n\n`;
+    md += `Collected from ${coverage.runs} scenario run${coverage.runs === 1 ? '' : 's'}.\n\n`;
+    md += `| Measure | Covered | Total | Coverage |\n|---|---|---|---|\n`;
+    md += `| Atoms | ${coverage.atoms.covered} | ${coverage.atoms.total} | ${formatCoveragePercent(coverage.atoms.percent)} |\n`;
+    md += `| Branches | ${coverage.branchTotals.covered} | ${coverage.branchTotals.total} | ${formatCoveragePercent(coverage.branchTotals.percent)} |\n`;
+
+    const gaps = flattenAtoms(rule.rootAtom).flatMap(atom => {
+      const name = `${atom.label || getAtomDefinition(atom.type)?.name || atom.type} (\`${atom.id}\`)`;
+      if (!coverage.atomHits[atom.id]) return [`| ${name} | Never ran |`];
+      const missed = getMissedBranches(coverage, atom.id);
+      return missed.length > 0 ? [`| ${name} | Untested branches: ${missed.join(', ')} |`] : [];
+    });
+    if (gaps.length > 0) {
+      md += `\n### Not Covered\n\n| Atom | Gap |\n|---|---|\n${gaps.join('\n')}\n`;
+    }
+
+    return md;
+  };
+
   const handleCopy = async () => {
     const content = generateContent(selectedFormat);
+    setExportError(null);
     try {
-      await navigator.clipboard.writeText(content);
+      if (selectedFormat === 'png' && diagram) {
+        // The blob is passed as a promise so browsers keep the click's permission to write
+        await navigator.clipboard.write([new ClipboardItem({ 'image/png': rasterizeDiagram(diagram) })]);
+      } else {
+        await navigator.clipboard.writeText(content);
+      }
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy:', error);
+      setExportError(`Could not copy: ${describeError(error)}`);
     }
   };
 
-  const handleDownload = () => {
-    const format = exportFormats.find(f => f.id === selectedFormat)!;
-    const content = generateContent(selectedFormat);
-    const blob = new Blob([content], { type: format.mimeType });
+  const downloadFile = (content: string | Blob, fileName: string, mimeType: string) => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${rule.name.replace(/\s+/g, '_')}${format.extension}`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const baseName = rule.name.replace(/\s+/g, '_');
+
+  const handleDownload = async () => {
+    const format = exportFormats.find(f => f.id === selectedFormat)!;
+    setExportError(null);
+    if (selectedFormat === 'png' && diagram) {
+      try {
+        downloadFile(await rasterizeDiagram(diagram), `${baseName}${format.extension}`, format.mimeType);
+      } catch (error) {
+        setExportError(`Could not render the PNG: ${describeError(error)}`);
+      }
+      return;
+    }
+    downloadFile(generateContent(selectedFormat), `${baseName}${format.extension}`, format.mimeType);
+  };
+
+  // Scenarios from the testing panel, or inputs generated from the schema when there are none
+  const harnessCases = scenarios.length > 0
+    ? scenarios
+    : rule.inputSchema ? generateTestInputs(rule.inputSchema) : [];
+
+  const handleDownloadHarness = () => {
+    const format = exportFormats.find(f => f.id === selectedFormat)!;
+    const typescript = selectedFormat === 'typescript';
+    const harness = compileRuleHarness(rule, harnessCases, {
+      typescript,
+      modulePath: typescript ? `./${baseName}` : `./${baseName}${format.extension}`
+    });
+    downloadFile(harness, `${baseName}.harness${format.extension}`, format.mimeType);
+  };
+
   const selectedFormatInfo = exportFormats.find(f => f.id === selectedFormat)!;
   const content = generateContent(selectedFormat);
+  const compileProblems = compiled?.problems ?? [];
+  const dmnProblems = dmn?.problems ?? [];
 
   return (
     <div className="h-full flex flex-col bg-white border-l border-gray-200">
@@ -250,6 +388,31 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
             <span className="text-sm text-gray-700">Include metadata</span>
           </label>
 
+          {isDiagramFormat(selectedFormat) && (
+            <>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={showDiagramParameters}
+                  onChange={(e) => setShowDiagramParameters(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">Show parameter values</span>
+              </label>
+              <label className="flex items-center justify-between text-sm text-gray-700">
+                <span>Layout</span>
+                <select
+                  value={diagramDirection}
+                  onChange={(e) => setDiagramDirection(e.target.value as LayoutDirection)}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  <option value="top-down">Top down</option>
+                  <option value="left-right">Left to right</option>
+                </select>
+              </label>
+            </>
+          )}
+
           {(selectedFormat === 'json') && (
             <label className="flex items-center space-x-2">
               <input
@@ -282,9 +445,19 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
         </div>
 
         <div className="flex-1 overflow-auto p-4">
-          <pre className="text-sm bg-gray-100 rounded p-3 overflow-auto font-mono">
-            {content}
-          </pre>
+          {diagram ? (
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`}
+              alt={`Diagram of ${rule.name}`}
+              width={diagram.width}
+              height={diagram.height}
+              className="max-w-full h-auto border border-gray-200 rounded"
+            />
+          ) : (
+            <pre className="text-sm bg-gray-100 rounded p-3 overflow-auto font-mono">
+              {content}
+            </pre>
+          )}
         </div>
       </div>
 
@@ -293,15 +466,41 @@ export const RuleExporter: React.FC<RuleExporterProps> = ({ rule, onClose }) =>
         <div className="flex space-x-3">
           <button
             onClick={handleDownload}
-            className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            disabled={dmnProblems.length > 0}
+            className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Download className="w-4 h-4" />
             <span>Download {selectedFormatInfo.name}</span>
           </button>
         </div>
 
+        {exportError && (
+          <div className="mt-3 flex items-start space-x-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{exportError}</span>
+          </div>
+        )}
+
+        {isCompiledFormat(selectedFormat) && (
+          <div className="mt-3">
+            <button
+              onClick={handleDownloadHarness}
+              disabled={compileProblems.length > 0}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileCode className="w-4 h-4" />
+              <span>Download Test Harness</span>
+            </button>
+            <p className="mt-1 text-xs text-gray-500">
+              {harnessCases.length > 0
+                ? `Replays ${harnessCases.length} scenario${harnessCases.length === 1 ? '' : 's'} and compares the compiled module with the interpreter's results.`
+                : 'Add test scenarios or an input schema to give the harness inputs to replay.'}
+            </p>
+          </div>
+        )}
+
         <div className="mt-3 text-xs text-gray-500">
-          File will be saved as: {rule.name.replace(/\s+/g, '_')}{selectedFormatInfo.extension}
+          File will be saved as: {baseName}{selectedFormatInfo.extension}
         </div>
       </div>
     </div>
@@ -0,0 +1,131 @@
+// src/components/RuleBuilder/RuleImporter.tsx
+// Import panel for rules exported as JSON, YAML or Markdown, and DMN decision tables
+// Shows schema problems before the imported rule replaces the canvas
+
+import React, { useRef, useState } from 'react';
+import { Rule, RuleImportResult } from '../../types/RuleTypes';
+import { importRule } from '../../services/RuleImport';
+import { countAtoms } from '../../utils/atomTree';
+import { Upload, X, AlertTriangle, AlertCircle, CheckCircle, FileText } from 'lucide-react';
+
+interface RuleImporterProps {
+  onImport: (rule: Rule) => void;
+  onClose: () => void;
+}
+
+export const RuleImporter: React.FC<RuleImporterProps> = ({ onImport, onClose }) => {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [result, setResult] = useState<RuleImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parse = (text: string, name?: string) => {
+    setContent(text);
+    setFileName(name);
+    setResult(text.trim() ? importRule(text, name) : null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    parse(await file.text(), file.name);
+    event.target.value = '';
+  };
+
+  const errors = result?.issues.filter(issue => issue.severity === 'error') ?? [];
+  const warnings = result?.issues.filter(issue => issue.severity !== 'error') ?? [];
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-900">Import Rule</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml,.md,.markdown,.dmn"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center space-x-2 p-3 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-700 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{fileName ? fileName : 'Choose a JSON, YAML, Markdown or DMN file'}</span>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Or paste an export</label>
+          <textarea
+            value={content}
+            onChange={(e) => parse(e.target.value)}
+            rows={8}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Paste JSON, YAML, Markdown or DMN..."
+          />
+        </div>
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm text-gray-700">
+              <FileText className="w-4 h-4" />
+              <span>Detected format: <strong>{result.format.toUpperCase()}</strong></span>
+            </div>
+
+            {result.rule && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+                <div className="flex items-center space-x-2">
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                  <span className="font-medium">{result.rule.name}</span>
+                </div>
+                <p className="text-xs mt-1">
+                  {countAtoms(result.rule.rootAtom)} atom{countAtoms(result.rule.rootAtom) !== 1 ? 's' : ''} · version {result.rule.metadata.version}
+                </p>
+              </div>
+            )}
+
+            {errors.map((issue, index) => (
+              <div key={`error-${index}`} className="flex items-start space-x-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-800">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>{issue.message}</span>
+              </div>
+            ))}
+
+            {warnings.map((issue, index) => (
+              <div key={`warning-${index}`} className="flex items-start space-x-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 border-t border-gray-200">
+        <button
+          onClick={() => result?.rule && onImport(result.rule)}
+          disabled={!result?.rule}
+          className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Load into Canvas</span>
+        </button>
+        <p className="text-xs text-gray-500 mt-2 text-center">Replaces the rule currently on the canvas.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+// src/components/RuleBuilder/SelectionToolbar.tsx
+// Group actions for the atoms selected on the canvas
+// Copy, delete, bulk parameter edits and wrapping the selection in a flow atom
+
+import React from 'react';
+import { Copy, Trash2, Settings, GitBranch, Repeat, X } from 'lucide-react';
+
+export type SelectionWrapperType = 'if_then_else' | 'loop';
+
+interface SelectionToolbarProps {
+  count: number;
+  // Name of the shared atom type when every selected atom can be bulk edited
+  bulkEditName?: string | null;
+  // Why a wrap action is unavailable; missing entries mean the action is enabled
+  wrapDisabledReasons?: Partial<Record<SelectionWrapperType, string>>;
+  onCopy: () => void;
+  onDelete: () => void;
+  onBulkEdit: () => void;
+  onWrap: (type: SelectionWrapperType) => void;
+  onClear: () => void;
+}
+
+const buttonClass = 'flex items-center space-x-1 px-2 py-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+const deleteButtonClass = 'flex items-center space-x-1 px-2 py-1.5 rounded text-red-600 hover:bg-red-50';
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  bulkEditName,
+  wrapDisabledReasons = {},
+  onCopy,
+  onDelete,
+  onBulkEdit,
+  onWrap,
+  onClear
+}) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center space-x-1 bg-white border border-gray-200 rounded-lg shadow-lg p-1 text-sm">
+    <span className="px-2 font-medium text-gray-900">
+      {count} selected
+    </span>
+    <div className="w-px h-5 bg-gray-200" />
+
+    <button onClick={onCopy} className={buttonClass} title="Copy selection (Ctrl/Cmd + C)">
+      <Copy className="w-4 h-4" />
+      <span>Copy</span>
+    </button>
+
+    {bulkEditName && (
+      <button onClick={onBulkEdit} className={buttonClass} title={`Edit parameters of all selected ${bulkEditName} atoms`}>
+        <Settings className="w-4 h-4" />
+        <span>Edit parameters</span>
+      </button>
+    )}
+
+    <button
+      onClick={() => onWrap('if_then_else')}
+      disabled={!!wrapDisabledReasons.if_then_else}
+      className={buttonClass}
+      title={wrapDisabledReasons.if_then_else ?? 'Wrap selection in If-Then-Else'}
+    >
+      <GitBranch className="w-4 h-4" />
+      <span>Wrap in if/else</span>
+    </button>
+
+    <button
+      onClick={() => onWrap('loop')}
+      disabled={!!wrapDisabledReasons.loop}
+      className={buttonClass}
+      title={wrapDisabledReasons.loop ?? 'Wrap selection in Loop'}
+    >
+      <Repeat className="w-4 h-4" />
+      <span>Wrap in loop</span>
+    </button>
+
+    <button onClick={onDelete} className={deleteButtonClass} title="Delete selection (Delete)">
+      <Trash2 className="w-4 h-4" />
+      <span>Delete</span>
+    </button>
+
+    <div className="w-px h-5 bg-gray-200" />
+    <button onClick={onClear} className="p-1.5 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100" title="Clear selection (Esc)">
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
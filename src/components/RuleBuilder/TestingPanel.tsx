@@ -2,8 +2,22 @@
 // Interactive testing interface for rules with scenario management and real-time execution
 // Provides comprehensive testing capabilities with input/output visualization
 
-import React, { useState, useRef } from 'react';
-import { Rule, TestResult, TestScenario } from '../../types/RuleTypes';
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  AssertionOperator,
+  OutputAssertion,
+  OutputMatchMode,
+  Rule,
+  RuleCoverage,
+  ScenarioReport,
+  ScenarioVerdict,
+  TestResult,
+  TestScenario,
+  TestSuiteSummary
+} from '../../types/RuleTypes';
+import { generateSampleInput, generateTestInputs, validateInputAgainstSchema } from '../../services/InputSchema';
+import { evaluateScenario, formatDiff, summarizeReports } from '../../services/AssertionEngine';
+import { collectCoverage, formatCoveragePercent } from '../../services/RuleCoverage';
 import { 
   Play, 
   Plus, 
@@ -18,26 +32,60 @@ import {
   Eye,
   EyeOff,
   Copy,
-  Edit3
+  Edit3,
+  Wand2,
+  AlertTriangle,
+  MinusCircle
 } from 'lucide-react';
 
 interface TestingPanelProps {
   rule: Rule;
   onTest: (testData: any) => Promise<TestResult>;
   isTesting: boolean;
+  // Coverage of the last full run; kept by the builder so the canvas can shade uncovered atoms
+  coverage?: RuleCoverage | null;
+  onCoverageChange?: (coverage: RuleCoverage | null) => void;
+  // Reported whenever the scenario list changes, e.g. for the compiled module's test harness
+  onScenariosChange?: (scenarios: TestScenario[]) => void;
 }
 
 interface TestScenarioItem extends TestScenario {
   id: string;
   result?: TestResult;
+  report?: ScenarioReport; // Checks of the result against expectedOutput and assertions
   isRunning?: boolean;
+  generated?: boolean; // Created from the input schema; regenerating replaces these
 }
 
+const DEFAULT_INPUT = { userId: 123, action: 'test' };
+
+const VERDICT_STYLES: Record<ScenarioVerdict, { label: string; className: string }> = {
+  passed: { label: 'Passed', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+  unchecked: { label: 'No expectations', className: 'bg-gray-100 text-gray-600' }
+};
+
+const ASSERTION_OPERATORS: Array<{ value: AssertionOperator; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'exists', label: 'exists' },
+  { value: 'not_exists', label: 'does not exist' },
+  { value: 'contains', label: 'contains' },
+  { value: 'greater_than', label: 'greater than' },
+  { value: 'less_than', label: 'less than' },
+  { value: 'length', label: 'has length' },
+  { value: 'matches', label: 'matches regex' }
+];
+
+const takesExpectedValue = (operator: AssertionOperator) => operator !== 'exists' && operator !== 'not_exists';
+
 const TestResultDisplay: React.FC<{ 
   result: TestResult;
+  report?: ScenarioReport;
   isExpanded: boolean;
   onToggleExpanded: () => void;
-}> = ({ result, isExpanded, onToggleExpanded }) => {
+}> = ({ result, report, isExpanded, onToggleExpanded }) => {
   const getStatusIcon = () => {
     switch (result.status) {
       case 'success':
@@ -73,6 +121,11 @@ const TestResultDisplay: React.FC<{
           <span className="text-xs opacity-75">
             {result.executionTime}ms
           </span>
+          {report && (
+            <span className={`px-1.5 py-0.5 text-xs rounded ${VERDICT_STYLES[report.verdict].className}`}>
+              {VERDICT_STYLES[report.verdict].label}
+            </span>
+          )}
         </div>
         <button
           onClick={onToggleExpanded}
@@ -93,6 +146,32 @@ const TestResultDisplay: React.FC<{
         </div>
       </div>
 
+      {/* Assertion Checks */}
+      {report && report.verdict !== 'error' && report.checks.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {report.checks.map((check, index) => (
+            <li key={index} className="text-xs">
+              <div className="flex items-start space-x-1">
+                {check.passed
+                  ? <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-green-600" />
+                  : <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-red-600" />}
+                <span className="font-mono break-all">{check.label}</span>
+              </div>
+              {!check.passed && check.message && (
+                <div className="ml-4 text-red-700">{check.message}</div>
+              )}
+              {check.diffs && check.diffs.length > 0 && (
+                <ul className="ml-4 mt-1 bg-red-100 border border-red-200 rounded p-2 font-mono text-red-800 space-y-0.5">
+                  {check.diffs.map((diff, diffIndex) => (
+                    <li key={diffIndex} className="break-all">{formatDiff(diff)}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Error Display */}
       {result.error && (
         <div className="mb-2">
@@ -162,19 +241,49 @@ const TestScenarioEditor: React.FC<{
     scenario?.input ? JSON.stringify(scenario.input, null, 2) : '{\n  \n}'
   );
   const [expectedOutput, setExpectedOutput] = useState(
-    scenario?.expectedOutput ? JSON.stringify(scenario.expectedOutput, null, 2) : ''
+    scenario?.expectedOutput !== undefined ? JSON.stringify(scenario.expectedOutput, null, 2) : ''
   );
+  const [matchMode, setMatchMode] = useState<OutputMatchMode>(scenario?.matchMode ?? 'partial');
+  const [tolerance, setTolerance] = useState(scenario?.tolerance !== undefined ? String(scenario.tolerance) : '');
+  // Expected values are edited as JSON text; anything that doesn't parse is kept as a string
+  const [assertions, setAssertions] = useState(() => (scenario?.assertions ?? []).map(assertion => ({
+    ...assertion,
+    expected: assertion.expected === undefined ? '' : JSON.stringify(assertion.expected)
+  })));
+
+  const updateAssertion = (index: number, changes: Partial<(typeof assertions)[number]>) => {
+    setAssertions(prev => prev.map((assertion, i) => (i === index ? { ...assertion, ...changes } : assertion)));
+  };
+
+  const parseExpectedValue = (text: string) => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  };
 
   const handleSave = () => {
     try {
       const parsedInput = JSON.parse(input);
       const parsedExpectedOutput = expectedOutput ? JSON.parse(expectedOutput) : undefined;
+      const parsedAssertions: OutputAssertion[] = assertions
+        .filter(assertion => assertion.path.trim())
+        .map(({ path, operator, expected }) => ({
+          path: path.trim(),
+          operator,
+          ...(takesExpectedValue(operator) ? { expected: parseExpectedValue(expected) } : {})
+        }));
+      const parsedTolerance = tolerance.trim() ? Math.abs(Number(tolerance)) : undefined;
       
       onSave({
         name,
         description,
         input: parsedInput,
-        expectedOutput: parsedExpectedOutput
+        expectedOutput: parsedExpectedOutput,
+        matchMode,
+        ...(parsedTolerance !== undefined && !Number.isNaN(parsedTolerance) ? { tolerance: parsedTolerance } : {}),
+        ...(parsedAssertions.length > 0 ? { assertions: parsedAssertions } : {})
       });
       onClose();
     } catch (error) {
@@ -250,6 +359,92 @@ const TestScenarioEditor: React.FC<{
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
                 placeholder="Enter expected output for validation..."
               />
+              <div className="flex items-center space-x-4 mt-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Match</span>
+                  <select
+                    value={matchMode}
+                    onChange={(e) => setMatchMode(e.target.value as OutputMatchMode)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="partial">Partial (listed fields only)</option>
+                    <option value="exact">Exact (deep equal)</option>
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Number tolerance</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={tolerance}
+                    onChange={(e) => setTolerance(e.target.value)}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    placeholder="0"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Assertions */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="block text-sm font-medium text-gray-700">Assertions (JSONPath)</span>
+                <button
+                  onClick={() => setAssertions(prev => [...prev, { path: '$.', operator: 'equals', expected: '' }])}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>Add Assertion</span>
+                </button>
+              </div>
+              {assertions.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  e.g. <code>$.actions[0].type</code> equals <code>"send_email"</code>, or <code>$.score</code> greater than <code>50</code>
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {assertions.map((assertion, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        aria-label="Path"
+                        value={assertion.path}
+                        onChange={(e) => updateAssertion(index, { path: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md font-mono text-sm"
+                        placeholder="$.result"
+                      />
+                      <select
+                        aria-label="Operator"
+                        value={assertion.operator}
+                        onChange={(e) => updateAssertion(index, { operator: e.target.value as AssertionOperator })}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        {ASSERTION_OPERATORS.map(operator => (
+                          <option key={operator.value} value={operator.value}>{operator.label}</option>
+                        ))}
+                      </select>
+                      {takesExpectedValue(assertion.operator) && (
+                        <input
+                          type="text"
+                          aria-label="Expected value"
+                          value={assertion.expected}
+                          onChange={(e) => updateAssertion(index, { expected: e.target.value })}
+                          className="w-32 px-2 py-1 border border-gray-300 rounded-md font-mono text-sm"
+                          placeholder="JSON value"
+                        />
+                      )}
+                      <button
+                        onClick={() => setAssertions(prev => prev.filter((_, i) => i !== index))}
+                        className="p-1 text-red-600 hover:text-red-800"
+                        title="Remove Assertion"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -276,14 +471,17 @@ const TestScenarioEditor: React.FC<{
 export const TestingPanel: React.FC<TestingPanelProps> = ({
   rule,
   onTest,
-  isTesting
+  isTesting,
+  coverage,
+  onCoverageChange,
+  onScenariosChange
 }) => {
-  const [scenarios, setScenarios] = useState<TestScenarioItem[]>([
+  const [scenarios, setScenarios] = useState<TestScenarioItem[]>(() => [
     {
       id: 'default',
       name: 'Default Test',
       description: 'Basic test scenario',
-      input: { userId: 123, action: 'login' }
+      input: rule.inputSchema ? generateSampleInput(rule.inputSchema) : { userId: 123, action: 'login' }
     }
   ]);
   
@@ -291,47 +489,55 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
   const [editingScenario, setEditingScenario] = useState<TestScenarioItem | null>(null);
   const [showEditor, setShowEditor] = useState(false);
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
-  const [quickTestInput, setQuickTestInput] = useState('{\n  "userId": 123,\n  "action": "test"\n}');
+  const [quickTestInput, setQuickTestInput] = useState(() =>
+    JSON.stringify(rule.inputSchema ? generateSampleInput(rule.inputSchema) : DEFAULT_INPUT, null, 2)
+  );
+  
+  const [lastRunSummary, setLastRunSummary] = useState<TestSuiteSummary | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    onScenariosChange?.(scenarios);
+  }, [scenarios, onScenariosChange]);
+
   const runScenario = async (scenarioId: string) => {
     const scenario = scenarios.find(s => s.id === scenarioId);
-    if (!scenario) return;
+    if (!scenario) return null;
 
     // Mark scenario as running
     setScenarios(prev => prev.map(s => 
       s.id === scenarioId ? { ...s, isRunning: true } : s
     ));
 
+    let result: TestResult;
     try {
-      const result = await onTest(scenario.input);
-      
-      // Update scenario with result
-      setScenarios(prev => prev.map(s => 
-        s.id === scenarioId ? { ...s, result, isRunning: false } : s
-      ));
+      result = await onTest(scenario.input);
     } catch (error) {
       // Handle test error
-      setScenarios(prev => prev.map(s => 
-        s.id === scenarioId ? { 
-          ...s, 
-          result: {
-            status: 'error',
-            output: null,
-            error: String(error),
-            executionTime: 0
-          },
-          isRunning: false 
-        } : s
-      ));
+      result = {
+        status: 'error',
+        output: null,
+        error: String(error),
+        executionTime: 0
+      };
     }
+
+    const report = evaluateScenario(scenario, result);
+    setScenarios(prev => prev.map(s => 
+      s.id === scenarioId ? { ...s, result, report, isRunning: false } : s
+    ));
+    return { result, report };
   };
 
   const runAllScenarios = async () => {
+    const runs: Array<{ result: TestResult; report: ScenarioReport }> = [];
     for (const scenario of scenarios) {
-      await runScenario(scenario.id);
+      const run = await runScenario(scenario.id);
+      if (run) runs.push(run);
     }
+    setLastRunSummary(summarizeReports(runs));
+    onCoverageChange?.(collectCoverage(rule, runs.map(run => run.result)));
   };
 
   const runQuickTest = async () => {
@@ -351,11 +557,32 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
     setScenarios(prev => [...prev, newScenario]);
   };
 
+  // Replaces previously generated scenarios so regenerating after a schema edit doesn't pile up
+  const generateScenarios = () => {
+    if (!rule.inputSchema) return;
+    const stamp = Date.now();
+    const generated = generateTestInputs(rule.inputSchema).map((scenario, index): TestScenarioItem => ({
+      ...scenario,
+      id: `generated_${stamp}_${index}`,
+      generated: true
+    }));
+    setScenarios(prev => [...prev.filter(s => !s.generated), ...generated]);
+  };
+
+  const schemaViolations = (input: any): string[] =>
+    rule.inputSchema ? validateInputAgainstSchema(input, rule.inputSchema) : [];
+
   const updateScenario = (scenarioData: Omit<TestScenarioItem, 'id'>) => {
     if (!editingScenario) return;
     
     setScenarios(prev => prev.map(s => 
-      s.id === editingScenario.id ? { ...scenarioData, id: s.id, result: s.result } : s
+      // Re-check the last result so edited expectations show up without re-running
+      s.id === editingScenario.id ? {
+        ...scenarioData,
+        id: s.id,
+        result: s.result,
+        report: s.result ? evaluateScenario(scenarioData, s.result) : undefined
+      } : s
     ));
   };
 
@@ -408,6 +635,9 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
   };
 
   const selectedScenarioData = scenarios.find(s => s.id === selectedScenario);
+  const summary = summarizeReports(
+    scenarios.flatMap(s => (s.report ? [{ report: s.report, result: s.result }] : []))
+  );
 
   return (
     <>
@@ -443,9 +673,20 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
 
           {/* Quick Test */}
           <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Quick Test
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Quick Test
+              </label>
+              {rule.inputSchema && (
+                <button
+                  onClick={() => setQuickTestInput(JSON.stringify(generateSampleInput(rule.inputSchema!), null, 2))}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                  title="Replace with a valid sample generated from the input schema"
+                >
+                  Fill from schema
+                </button>
+              )}
+            </div>
             <textarea
               value={quickTestInput}
               onChange={(e) => setQuickTestInput(e.target.value)}
@@ -463,6 +704,17 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
             </button>
           </div>
 
+          {rule.inputSchema && (
+            <button
+              onClick={generateScenarios}
+              className="w-full mb-2 flex items-center justify-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              title="Add a valid sample and edge cases generated from the input schema"
+            >
+              <Wand2 className="w-4 h-4" />
+              <span>Generate Scenarios from Schema</span>
+            </button>
+          )}
+
           {/* Run All Button */}
           <button
             onClick={runAllScenarios}
@@ -538,12 +790,20 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
                       <pre className="bg-gray-100 rounded p-2 text-xs font-mono overflow-x-auto">
                         {JSON.stringify(scenario.input, null, 2)}
                       </pre>
+                      {/* Generated scenarios already say whether they are valid */}
+                      {!scenario.generated && schemaViolations(scenario.input).length > 0 && (
+                        <div className="flex items-start space-x-1 mt-1 text-xs text-yellow-700">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          <span>Does not match the input schema: {schemaViolations(scenario.input).join('; ')}</span>
+                        </div>
+                      )}
                     </div>
 
                     {/* Test Result */}
                     {scenario.result && (
                       <TestResultDisplay
                         result={scenario.result}
+                        report={scenario.report}
                         isExpanded={expandedResults.has(scenario.id)}
                         onToggleExpanded={() => toggleResultExpanded(scenario.id)}
                       />
@@ -564,31 +824,91 @@ export const TestingPanel: React.FC<TestingPanelProps> = ({
         </div>
 
         {/* Test Summary */}
-        {scenarios.some(s => s.result) && (
-          <div className="p-4 border-t border-gray-200 bg-gray-50">
-            <div className="text-sm">
-              <div className="font-medium text-gray-900 mb-2">Test Summary</div>
-              <div className="grid grid-cols-3 gap-4 text-xs">
-                <div className="text-center">
-                  <div className="font-medium text-green-600">
-                    {scenarios.filter(s => s.result?.status === 'success').length}
-                  </div>
-                  <div className="text-gray-600">Passed</div>
+        {(summary.total > 0 || coverage) && (
+          <div className="p-4 border-t border-gray-200 bg-gray-50 space-y-3">
+            {summary.total > 0 && (
+              <div className="text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-900">Test Summary</span>
+                  {lastRunSummary && (
+                    <span className="text-xs text-gray-500">
+                      Last full run: {lastRunSummary.passed}/{lastRunSummary.total} passed in {lastRunSummary.durationMs}ms
+                    </span>
+                  )}
                 </div>
-                <div className="text-center">
-                  <div className="font-medium text-red-600">
-                    {scenarios.filter(s => s.result?.status === 'error').length}
+                <div className="grid grid-cols-5 gap-2 text-xs">
+                  <div className="text-center">
+                    <div className="font-medium text-green-600">{summary.passed}</div>
+                    <div className="text-gray-600">Passed</div>
                   </div>
-                  <div className="text-gray-600">Failed</div>
-                </div>
-                <div className="text-center">
-                  <div className="font-medium text-gray-600">
-                    {scenarios.filter(s => s.result).length} / {scenarios.length}
+                  <div className="text-center">
+                    <div className="font-medium text-red-600">{summary.failed}</div>
+                    <div className="text-gray-600">Failed</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="font-medium text-red-600">{summary.errors}</div>
+                    <div className="text-gray-600">Errors</div>
+                  </div>
+                  <div className="text-center" title="Ran without an expected output or assertions">
+                    <div className="flex items-center justify-center space-x-1 font-medium text-gray-600">
+                      <MinusCircle className="w-3 h-3" />
+                      <span>{summary.unchecked}</span>
+                    </div>
+                    <div className="text-gray-600">Unchecked</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="font-medium text-gray-600">
+                      {summary.total} / {scenarios.length}
+                    </div>
+                    <div className="text-gray-600">Total</div>
                   </div>
-                  <div className="text-gray-600">Total</div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Coverage */}
+            {coverage && (
+              <div className="text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-900">Coverage</span>
+                  <button
+                    onClick={() => onCoverageChange?.(null)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                    title="Remove the coverage shading from the canvas"
+                  >
+                    Clear
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  {([['Atoms', coverage.atoms], ['Branches', coverage.branchTotals]] as const).map(([label, measure]) => (
+                    <div key={label}>
+                      <div className="flex justify-between text-gray-600">
+                        <span>{label}</span>
+                        <span className="font-medium text-gray-900">
+                          {formatCoveragePercent(measure.percent)} ({measure.covered}/{measure.total})
+                        </span>
+                      </div>
+                      <div
+                        className="h-1.5 mt-1 bg-gray-200 rounded-full overflow-hidden"
+                        role="progressbar"
+                        aria-label={`${label} covered`}
+                        aria-valuenow={measure.percent ?? 0}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                      >
+                        <div
+                          className={`h-full ${measure.percent === 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+                          style={{ width: `${measure.percent ?? 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  From {coverage.runs} scenario run{coverage.runs === 1 ? '' : 's'}. Uncovered atoms are shaded on the canvas.
+                </p>
+              </div>
+            )}
           </div>
         )}
       </div>
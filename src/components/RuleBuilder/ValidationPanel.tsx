@@ -3,7 +3,8 @@
 // Provides comprehensive analysis of rule structure and configuration issues
 
 import React, { useState } from 'react';
-import { ValidationResult } from '../../types/RuleTypes';
+import { ValidationResult, ValidationIssue, ValidationFix } from '../../types/RuleTypes';
+import { getFixableIssues } from '../../services/ValidationIssues';
 import { 
   AlertTriangle, 
   AlertCircle, 
@@ -21,6 +22,7 @@ interface ValidationPanelProps {
   validation: ValidationResult | null;
   isValidating: boolean;
   onRevalidate: () => void;
+  onApplyFixes?: (fixes: ValidationFix[]) => void;
 }
 
 interface ValidationItemProps {
@@ -28,7 +30,10 @@ interface ValidationItemProps {
   message: string;
   severity?: 'high' | 'medium' | 'low';
   atomId?: string;
+  parameter?: string;
+  column?: number;
   fixable?: boolean;
+  fixLabel?: string;
   onFix?: () => void;
 }
 
@@ -37,7 +42,10 @@ const ValidationItem: React.FC<ValidationItemProps> = ({
   message,
   severity = 'medium',
   atomId,
+  parameter,
+  column,
   fixable = false,
+  fixLabel,
   onFix
 }) => {
   const getIcon = () => {
@@ -94,12 +102,19 @@ const ValidationItem: React.FC<ValidationItemProps> = ({
           {atomId && (
             <p className="text-xs opacity-75 mb-2">
               Related to: <code className="bg-black bg-opacity-10 px-1 rounded">{atomId}</code>
+              {parameter && (
+                <>
+                  {' '}→ <code className="bg-black bg-opacity-10 px-1 rounded">{parameter}</code>
+                </>
+              )}
+              {column !== undefined && <span>, column {column}</span>}
             </p>
           )}
           
           {fixable && onFix && (
             <button
               onClick={onFix}
+              title={fixLabel}
               className="text-xs bg-white bg-opacity-50 hover:bg-opacity-75 px-2 py-1 rounded transition-colors"
             >
               Auto-fix
@@ -113,12 +128,13 @@ const ValidationItem: React.FC<ValidationItemProps> = ({
 
 const ValidationSection: React.FC<{
   title: string;
-  items: string[];
+  items: ValidationIssue[];
   type: 'error' | 'warning' | 'suggestion';
   icon: React.ReactNode;
   isExpanded: boolean;
   onToggle: () => void;
-}> = ({ title, items, type, icon, isExpanded, onToggle }) => {
+  onApplyFixes?: (fixes: ValidationFix[]) => void;
+}> = ({ title, items, type, icon, isExpanded, onToggle, onApplyFixes }) => {
   if (items.length === 0) return null;
 
   return (
@@ -145,10 +161,16 @@ const ValidationSection: React.FC<{
         <div className="mt-2 space-y-2">
           {items.map((item, index) => (
             <ValidationItem
-              key={index}
+              key={`${item.code}:${item.atomId ?? ''}:${item.parameter ?? ''}:${index}`}
               type={type}
-              message={item}
+              message={item.message}
               severity={type === 'error' ? 'high' : 'medium'}
+              atomId={item.atomId}
+              parameter={item.parameter}
+              column={item.column}
+              fixable={Boolean(item.fix)}
+              fixLabel={item.fix?.label}
+              onFix={item.fix && onApplyFixes ? () => onApplyFixes([item.fix as ValidationFix]) : undefined}
             />
           ))}
         </div>
@@ -200,34 +222,26 @@ const ValidationSummary: React.FC<{ validation: ValidationResult }> = ({ validat
 const QuickActions: React.FC<{
   validation: ValidationResult;
   onRevalidate: () => void;
-}> = ({ validation, onRevalidate }) => {
+  onApplyFixes?: (fixes: ValidationFix[]) => void;
+}> = ({ validation, onRevalidate, onApplyFixes }) => {
   const [showQuickFixes, setShowQuickFixes] = useState(false);
 
+  // Quick fixes come straight from issues that carry a machine-applicable fix
   const getQuickFixes = () => {
-    const fixes = [];
-    
-    // Common quick fixes based on validation results
-    if (validation.errors.some(e => e.includes('parameter'))) {
-      fixes.push({
-        title: 'Configure Missing Parameters',
-        description: 'Automatically open parameter configuration for atoms with missing required parameters',
-        action: () => console.log('Configure parameters')
-      });
-    }
-    
-    if (validation.errors.some(e => e.includes('connection'))) {
-      fixes.push({
-        title: 'Fix Broken Connections',
-        description: 'Remove invalid connections between atoms',
-        action: () => console.log('Fix connections')
-      });
-    }
-    
-    if (validation.warnings.some(w => w.includes('performance'))) {
-      fixes.push({
-        title: 'Optimize Performance',
-        description: 'Reorder atoms for better execution performance',
-        action: () => console.log('Optimize performance')
+    if (!onApplyFixes) return [];
+
+    const fixable = getFixableIssues(validation);
+    const fixes = fixable.map(issue => ({
+      title: issue.fix!.label,
+      description: issue.message,
+      action: () => onApplyFixes([issue.fix!])
+    }));
+
+    if (fixable.length > 1) {
+      fixes.unshift({
+        title: 'Apply All Fixes',
+        description: `Apply ${fixable.length} automatic fixes in one step`,
+        action: () => onApplyFixes(fixable.map(issue => issue.fix!))
       });
     }
 
@@ -299,7 +313,8 @@ const QuickActions: React.FC<{
 export const ValidationPanel: React.FC<ValidationPanelProps> = ({
   validation,
   isValidating,
-  onRevalidate
+  onRevalidate,
+  onApplyFixes
 }) => {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(['errors', 'warnings'])
@@ -351,6 +366,7 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
               icon={<AlertTriangle className="w-4 h-4 text-red-500" />}
               isExpanded={expandedSections.has('errors')}
               onToggle={() => toggleSection('errors')}
+              onApplyFixes={onApplyFixes}
             />
 
             {/* Warnings */}
@@ -361,6 +377,7 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
               icon={<AlertCircle className="w-4 h-4 text-yellow-500" />}
               isExpanded={expandedSections.has('warnings')}
               onToggle={() => toggleSection('warnings')}
+              onApplyFixes={onApplyFixes}
             />
 
             {/* Suggestions */}
@@ -371,6 +388,7 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
               icon={<Lightbulb className="w-4 h-4 text-blue-500" />}
               isExpanded={expandedSections.has('suggestions')}
               onToggle={() => toggleSection('suggestions')}
+              onApplyFixes={onApplyFixes}
             />
 
             {/* Empty state for valid rules */}
@@ -388,7 +406,7 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
       {/* Quick Actions */}
       {validation && (
         <div className="p-4">
-          <QuickActions validation={validation} onRevalidate={onRevalidate} />
+          <QuickActions validation={validation} onRevalidate={onRevalidate} onApplyFixes={onApplyFixes} />
         </div>
       )}
 
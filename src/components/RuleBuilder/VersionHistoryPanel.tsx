@@ -0,0 +1,169 @@
+// src/components/RuleBuilder/VersionHistoryPanel.tsx
+// Version history for the current rule with structural diffs and rollback
+// Diffs compare a saved snapshot against the rule currently on the canvas
+
+import React, { useMemo, useState } from 'react';
+import { Rule, RuleVersion, RuleDiff } from '../../types/RuleTypes';
+import { diffRules, isEmptyDiff } from '../../utils/ruleDiff';
+import { History, RotateCcw, X, Plus, Minus, Move, Edit3, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface VersionHistoryPanelProps {
+  rule: Rule;
+  versions: RuleVersion[]; // Newest first
+  onRollback: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+
+const DiffView: React.FC<{ diff: RuleDiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-xs text-gray-500">No differences from the current rule.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {diff.changedFields.map(change => (
+        <div key={change.field} className="flex items-start space-x-2 text-gray-700">
+          <Edit3 className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            Rule {change.field}: <code className="bg-gray-100 px-1 rounded">{change.before || '—'}</code> →{' '}
+            <code className="bg-gray-100 px-1 rounded">{change.after || '—'}</code>
+          </span>
+        </div>
+      ))}
+
+      {diff.added.map(entry => (
+        <div key={`added-${entry.atomId}`} className="flex items-center space-x-2 text-green-700">
+          <Plus className="w-3 h-3 flex-shrink-0" />
+          <span>Added {entry.label || entry.type} <code className="bg-green-50 px-1 rounded">{entry.atomId}</code></span>
+        </div>
+      ))}
+
+      {diff.removed.map(entry => (
+        <div key={`removed-${entry.atomId}`} className="flex items-center space-x-2 text-red-700">
+          <Minus className="w-3 h-3 flex-shrink-0" />
+          <span>Removed {entry.label || entry.type} <code className="bg-red-50 px-1 rounded">{entry.atomId}</code></span>
+        </div>
+      ))}
+
+      {diff.moved.map(move => (
+        <div key={`moved-${move.atomId}`} className="flex items-start space-x-2 text-blue-700">
+          <Move className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            Moved {move.label || move.type} <code className="bg-blue-50 px-1 rounded">{move.atomId}</code> from{' '}
+            {move.from.parentId ?? 'root'}[{move.from.index}] to {move.to.parentId ?? 'root'}[{move.to.index}]
+          </span>
+        </div>
+      ))}
+
+      {diff.changedTypes.map(change => (
+        <div key={`type-${change.atomId}`} className="flex items-start space-x-2 text-yellow-800">
+          <Edit3 className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            <code className="bg-yellow-50 px-1 rounded">{change.atomId}</code> type: {change.before} → {change.after}
+          </span>
+        </div>
+      ))}
+
+      {diff.changedParameters.map(change => (
+        <div key={`param-${change.atomId}-${change.parameter}`} className="flex items-start space-x-2 text-yellow-800">
+          <Edit3 className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            <code className="bg-yellow-50 px-1 rounded">{change.atomId}</code>.{change.parameter}:{' '}
+            {formatValue(change.before)} → {formatValue(change.after)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  rule,
+  versions,
+  onRollback,
+  onClose
+}) => {
+  const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
+
+  const expanded = versions.find(entry => entry.id === expandedVersion);
+  // Diff from the selected snapshot to the working copy, i.e. what a rollback would undo
+  const diff = useMemo(() => (expanded ? diffRules(expanded.snapshot, rule) : null), [expanded, rule]);
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <History className="w-4 h-4 text-gray-600" />
+            <h3 className="font-semibold text-gray-900">Version History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">Current version: {rule.metadata.version}</p>
+      </div>
+
+      {/* Versions */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {versions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>No saved versions yet.</p>
+            <p className="text-sm">Each save creates a new version.</p>
+          </div>
+        ) : (
+          versions.map((entry, index) => {
+            const isExpanded = entry.id === expandedVersion;
+            return (
+              <div key={entry.id} className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setExpandedVersion(isExpanded ? null : entry.id)}
+                  className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50 rounded-lg"
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">v{entry.version}</span>
+                      {index === 0 && (
+                        <span className="px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">latest</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {entry.author} · {new Date(entry.createdAt).toLocaleString()}
+                    </div>
+                    {entry.message && <div className="text-xs text-gray-600 mt-1">{entry.message}</div>}
+                  </div>
+                  {isExpanded ? (
+                    <ChevronDown className="w-4 h-4 text-gray-500" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 text-gray-500" />
+                  )}
+                </button>
+
+                {isExpanded && diff && (
+                  <div className="px-3 pb-3 border-t border-gray-100 pt-2">
+                    <div className="text-xs font-medium text-gray-700 mb-2">Changes since this version</div>
+                    <DiffView diff={diff} />
+                    <button
+                      onClick={() => onRollback(entry.id)}
+                      className="mt-3 flex items-center space-x-1 px-2 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>Roll back to v{entry.version}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
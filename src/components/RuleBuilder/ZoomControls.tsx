@@ -4,6 +4,8 @@
 
 import React from 'react';
 import { ZoomIn, ZoomOut, RotateCcw, Maximize, Move, MousePointer } from 'lucide-react';
+import { LayoutBounds } from '../../utils/treeLayout';
+import { getVisibleBounds } from '../../utils/canvasViewport';
 
 interface ZoomControlsProps {
   zoom: number;
@@ -161,61 +163,109 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
 };
 
 // Minimap component for large canvases
-export const Minimap: React.FC<{
+interface MinimapProps {
   zoom: number;
   panX: number;
   panY: number;
-  contentBounds: { width: number; height: number };
+  // Canvas-space bounds of every atom, plus the box around all of them
+  nodes: Array<LayoutBounds & { id: string }>;
+  contentBounds: LayoutBounds;
   viewportBounds: { width: number; height: number };
+  selectedIds?: string[];
+  // Called with the canvas point that should move to the centre of the viewport
   onNavigate: (x: number, y: number) => void;
-}> = ({ zoom, panX, panY, contentBounds, viewportBounds, onNavigate }) => {
-  const minimapScale = 0.1;
-  const minimapWidth = Math.max(200, contentBounds.width * minimapScale);
-  const minimapHeight = Math.max(150, contentBounds.height * minimapScale);
-
-  const viewportRect = {
-    x: (-panX / zoom) * minimapScale,
-    y: (-panY / zoom) * minimapScale,
-    width: (viewportBounds.width / zoom) * minimapScale,
-    height: (viewportBounds.height / zoom) * minimapScale
+  className?: string;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 150;
+const MINIMAP_MARGIN = 40;
+
+export const Minimap: React.FC<MinimapProps> = ({
+  zoom,
+  panX,
+  panY,
+  nodes,
+  contentBounds,
+  viewportBounds,
+  selectedIds = [],
+  onNavigate,
+  className = 'absolute top-4 right-4'
+}) => {
+  const [isDragging, setIsDragging] = React.useState(false);
+  const mapRef = React.useRef<HTMLDivElement>(null);
+
+  // Scale the content (with a margin) to fit the minimap box
+  const world = {
+    x: contentBounds.x - MINIMAP_MARGIN,
+    y: contentBounds.y - MINIMAP_MARGIN,
+    width: contentBounds.width + MINIMAP_MARGIN * 2,
+    height: contentBounds.height + MINIMAP_MARGIN * 2
   };
+  const minimapScale = Math.min(MINIMAP_WIDTH / world.width, MINIMAP_HEIGHT / world.height);
+  const toMinimap = (bounds: LayoutBounds) => ({
+    left: (bounds.x - world.x) * minimapScale,
+    top: (bounds.y - world.y) * minimapScale,
+    width: bounds.width * minimapScale,
+    height: bounds.height * minimapScale
+  });
+
+  const visible = getVisibleBounds({ zoom, panX, panY }, viewportBounds);
 
-  const handleMinimapClick = (event: React.MouseEvent) => {
-    const rect = event.currentTarget.getBoundingClientRect();
-    const x = (event.clientX - rect.left) / minimapScale;
-    const y = (event.clientY - rect.top) / minimapScale;
-    
-    onNavigate(-x * zoom, -y * zoom);
+  const navigateTo = React.useCallback((clientX: number, clientY: number) => {
+    if (!mapRef.current) return;
+    const rect = mapRef.current.getBoundingClientRect();
+    onNavigate(
+      world.x + (clientX - rect.left) / minimapScale,
+      world.y + (clientY - rect.top) / minimapScale
+    );
+  }, [onNavigate, world.x, world.y, minimapScale]);
+
+  // Keep following the pointer after it leaves the minimap mid-drag
+  React.useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (event: MouseEvent) => navigateTo(event.clientX, event.clientY);
+    const handleMouseUp = () => setIsDragging(false);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, navigateTo]);
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    navigateTo(event.clientX, event.clientY);
+    setIsDragging(true);
   };
 
   return (
-    <div className="absolute top-4 right-4 bg-white rounded-lg shadow-lg border border-gray-200 p-2">
+    <div className={`${className} bg-white rounded-lg shadow-lg border border-gray-200 p-2`}>
       <div className="text-xs font-medium text-gray-700 mb-2">Minimap</div>
       <div
-        className="relative bg-gray-100 rounded cursor-pointer"
-        style={{ width: minimapWidth, height: minimapHeight }}
-        onClick={handleMinimapClick}
+        ref={mapRef}
+        className={`relative bg-gray-100 rounded overflow-hidden ${isDragging ? 'cursor-grabbing' : 'cursor-pointer'}`}
+        style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+        onMouseDown={handleMouseDown}
       >
-        {/* Content area */}
-        <div
-          className="absolute bg-blue-100 rounded"
-          style={{
-            width: contentBounds.width * minimapScale,
-            height: contentBounds.height * minimapScale
-          }}
-        />
+        {/* Atoms */}
+        {nodes.map(node => (
+          <div
+            key={node.id}
+            className={`absolute rounded-sm ${selectedIds.includes(node.id) ? 'bg-blue-500' : 'bg-gray-400'}`}
+            style={toMinimap(node)}
+          />
+        ))}
 
         {/* Viewport indicator */}
         <div
-          className="absolute border-2 border-blue-500 bg-blue-200 bg-opacity-30 rounded"
-          style={{
-            left: viewportRect.x,
-            top: viewportRect.y,
-            width: viewportRect.width,
-            height: viewportRect.height
-          }}
+          className="absolute border-2 border-blue-500 bg-blue-200 bg-opacity-30 rounded pointer-events-none"
+          style={toMinimap(visible)}
         />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
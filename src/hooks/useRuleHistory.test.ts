@@ -0,0 +1,90 @@
+// src/hooks/useRuleHistory.test.ts
+// Covers the history transitions behind useRuleHistory: coalescing, the step limit, undo and redo
+// Timestamps are passed in so coalescing windows don't depend on how fast the tests run
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { RuleHistoryState, commitRuleChange, redoRuleChange, undoRuleChange } from './useRuleHistory';
+
+const rule = (name: string, rootAtom: AtomInstance | null = null): Rule => ({
+  id: 'rule_1',
+  name,
+  description: '',
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+// Any real clock reading; redone steps are stamped 0 so they are always too old to coalesce with
+const T = Date.parse('2024-01-01T09:00:00.000Z');
+
+const start: RuleHistoryState = { past: [], present: rule(''), future: [] };
+
+// Pass null for an edit without a coalesce key
+const rename = (state: RuleHistoryState, name: string, now: number, coalesceKey: string | null = 'rule:name') =>
+  commitRuleChange(state, prev => ({ ...prev, name }), { label: 'Rename rule', coalesceKey: coalesceKey ?? undefined }, {}, now);
+
+const names = (state: RuleHistoryState) => ({
+  past: state.past.map(entry => entry.rule.name),
+  present: state.present.name,
+  future: state.future.map(entry => entry.rule.name)
+});
+
+describe('commitRuleChange', () => {
+  it('merges edits with the same key into one step while they keep coming', () => {
+    let state = rename(start, 'A', T);
+    state = rename(state, 'Ad', T + 800);
+    state = rename(state, 'Adu', T + 1600);
+    expect(names(state)).toEqual({ past: [''], present: 'Adu', future: [] });
+    expect(state.past[0].timestamp).toBe(T + 1600);
+  });
+
+  it('starts a new step after a pause, for another key or without a key', () => {
+    expect(names(rename(rename(start, 'A', T), 'Ad', T + 1001)).past).toEqual(['', 'A']);
+    const described = commitRuleChange(rename(start, 'A', T), prev => ({ ...prev, description: 'x' }),
+      { label: 'Edit description', coalesceKey: 'rule:description' }, {}, T + 10);
+    expect(described.past.map(entry => entry.label)).toEqual(['Rename rule', 'Edit description']);
+    expect(names(rename(rename(start, 'A', T, null), 'Ad', T + 10, null)).past).toEqual(['', 'A']);
+  });
+
+  it('ignores updates that return the same rule', () => {
+    expect(commitRuleChange(start, prev => prev, { label: 'Nothing' })).toBe(start);
+  });
+
+  it('keeps only the newest steps up to the limit', () => {
+    let state = start;
+    ['a', 'b', 'c', 'd'].forEach((name, index) => {
+      state = commitRuleChange(state, prev => ({ ...prev, name }), { label: name }, { limit: 2 }, index);
+    });
+    expect(names(state).past).toEqual(['b', 'c']);
+  });
+
+  it('keeps ids of deleted atoms reserved', () => {
+    const withAtom = rule('', {
+      id: 'atom_4',
+      type: 'custom_event',
+      position: { x: 0, y: 0 },
+      parameters: {},
+      children: [],
+      metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+    });
+    const state = commitRuleChange({ ...start, present: withAtom }, prev => ({ ...prev, rootAtom: null }), { label: 'Delete' });
+    expect(state.present.metadata.atomCounter).toBe(4);
+  });
+});
+
+describe('undo and redo', () => {
+  it('steps back and forward through the history', () => {
+    const edited = rename(rename(start, 'A', T, null), 'B', T + 10, null);
+    const undone = undoRuleChange(undoRuleChange(edited));
+    expect(names(undone)).toEqual({ past: [], present: '', future: ['B', 'A'] });
+    expect(names(redoRuleChange(undone))).toEqual({ past: [''], present: 'A', future: ['B'] });
+    expect(undoRuleChange(start)).toBe(start);
+    expect(redoRuleChange(start)).toBe(start);
+  });
+
+  it('never coalesces into a redone step and drops the redo steps on a new edit', () => {
+    const redone = redoRuleChange(undoRuleChange(rename(start, 'A', T)));
+    expect(names(rename(redone, 'Ad', T + 10)).past).toEqual(['', 'A']);
+    expect(names(rename(undoRuleChange(rename(start, 'A', T)), 'B', T + 10)).future).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+// src/hooks/useRuleHistory.ts
+// Undo/redo history for the rule being edited in the RuleBuilder
+// Bounded, with consecutive edits that share a coalesce key merged into a single step
+
+import { useCallback, useState } from 'react';
+import { Rule, RuleChange } from '../types/RuleTypes';
+import { carryAtomCounter } from '../utils/atomTree';
+
+export interface RuleHistoryEntry {
+  rule: Rule; // Rule before (in past) or after (in future) the change
+  label: string;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface RuleHistoryOptions {
+  limit?: number; // Maximum number of undo steps kept
+  coalesceMs?: number; // Edits with the same key closer together than this merge
+}
+
+export interface RuleHistoryState {
+  past: RuleHistoryEntry[];
+  present: Rule;
+  future: RuleHistoryEntry[];
+}
+
+type RuleUpdater = Rule | ((prev: Rule) => Rule);
+
+const applyUpdater = (updater: RuleUpdater, rule: Rule) => (typeof updater === 'function' ? updater(rule) : updater);
+
+// Record an undoable change
+export const commitRuleChange = (
+  prev: RuleHistoryState,
+  updater: RuleUpdater,
+  change: RuleChange,
+  { limit = 100, coalesceMs = 1000 }: RuleHistoryOptions = {},
+  now: number = Date.now()
+): RuleHistoryState => {
+  const updated = applyUpdater(updater, prev.present);
+  if (updated === prev.present) return prev;
+  // Ids issued before this edit stay reserved even if the edit deletes their atoms
+  const next = carryAtomCounter(prev.present, updated);
+
+  const last = prev.past[prev.past.length - 1];
+  const coalesce = Boolean(change.coalesceKey) &&
+    prev.future.length === 0 &&
+    last?.coalesceKey === change.coalesceKey &&
+    now - last.timestamp <= coalesceMs;
+
+  if (coalesce) {
+    // Keep the snapshot from before the first edit in the run; the timestamp slides with each edit
+    return {
+      past: [...prev.past.slice(0, -1), { ...last, label: change.label, timestamp: now }],
+      present: next,
+      future: []
+    };
+  }
+
+  const entry: RuleHistoryEntry = { rule: prev.present, label: change.label, coalesceKey: change.coalesceKey, timestamp: now };
+  return { past: [...prev.past, entry].slice(-limit), present: next, future: [] };
+};
+
+export const undoRuleChange = (prev: RuleHistoryState): RuleHistoryState => {
+  const entry = prev.past[prev.past.length - 1];
+  if (!entry) return prev;
+  return {
+    past: prev.past.slice(0, -1),
+    // Undoing an add must not free the id for the next new atom
+    present: carryAtomCounter(prev.present, entry.rule),
+    future: [...prev.future, { ...entry, rule: prev.present }]
+  };
+};
+
+export const redoRuleChange = (prev: RuleHistoryState): RuleHistoryState => {
+  const entry = prev.future[prev.future.length - 1];
+  if (!entry) return prev;
+  return {
+    past: [...prev.past, { ...entry, rule: prev.present, timestamp: 0 }], // Never coalesce into a redone step
+    present: carryAtomCounter(prev.present, entry.rule),
+    future: prev.future.slice(0, -1)
+  };
+};
+
+export const useRuleHistory = (initialRule: Rule, options: RuleHistoryOptions = {}) => {
+  const { limit, coalesceMs } = options;
+  const [state, setState] = useState<RuleHistoryState>({ past: [], present: initialRule, future: [] });
+
+  const commit = useCallback((updater: RuleUpdater, change: RuleChange) => {
+    setState(prev => commitRuleChange(prev, updater, change, { limit, coalesceMs }));
+  }, [limit, coalesceMs]);
+
+  // Apply a change to the current rule and every snapshot without recording a step,
+  // e.g. the id and version assigned on save, which undo must not take back
+  const rewrite = useCallback((transform: (rule: Rule) => Rule) => {
+    setState(prev => ({
+      past: prev.past.map(entry => ({ ...entry, rule: transform(entry.rule) })),
+      present: transform(prev.present),
+      future: prev.future.map(entry => ({ ...entry, rule: transform(entry.rule) }))
+    }));
+  }, []);
+
+  // Start over with a different rule and an empty history
+  const reset = useCallback((rule: Rule) => {
+    setState({ past: [], present: rule, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(undoRuleChange);
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(redoRuleChange);
+  }, []);
+
+  return {
+    rule: state.present,
+    commit,
+    rewrite,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label,
+    redoLabel: state.future[state.future.length - 1]?.label
+  };
+};
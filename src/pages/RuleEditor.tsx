@@ -0,0 +1,65 @@
+// File: src/pages/RuleEditor.tsx
+// Opens a rule from the library in the RuleBuilder; /rules/new starts from an empty rule
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Rule } from '../types/RuleTypes';
+import { loadRule } from '../services/RuleEngine';
+import { RuleBuilder } from '../components/RuleBuilder/RuleBuilder';
+
+const RuleEditor: React.FC = () => {
+  const { ruleId } = useParams<{ ruleId: string }>();
+  const navigate = useNavigate();
+  const [rule, setRule] = useState<Rule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Id the first save gave a new rule. Its URL changes, but the builder stays mounted so undo history survives.
+  const createdId = useRef<string | null>(null);
+  const isNewRule = !ruleId || ruleId === createdId.current;
+
+  useEffect(() => {
+    if (!ruleId || ruleId === createdId.current) return;
+
+    let cancelled = false;
+    setRule(null);
+    setError(null);
+    loadRule(ruleId)
+      .then(loaded => !cancelled && setRule(loaded))
+      .catch(err => !cancelled && setError(`Could not load rule: ${err instanceof Error ? err.message : err}`));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ruleId]);
+
+  // Keep the URL pointing at the saved rule so reloads reopen it
+  const handleSave = (saved: Rule) => {
+    if (saved.id !== ruleId) {
+      if (isNewRule) createdId.current = saved.id;
+      navigate(`/rules/${encodeURIComponent(saved.id)}`, { replace: true });
+    }
+  };
+
+  if (isNewRule) {
+    return <RuleBuilder onSave={handleSave} />;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-4xl mx-auto text-center py-16">
+        <p className="text-red-600 mb-4">{error}</p>
+        <button onClick={() => navigate('/rules')} className="text-blue-600 hover:underline">
+          Back to rules
+        </button>
+      </div>
+    );
+  }
+
+  if (!rule) {
+    return <div className="text-center py-16 text-gray-500">Loading rule...</div>;
+  }
+
+  // Remount when switching rules so the builder picks up the new initialRule
+  return <RuleBuilder key={rule.id} initialRule={rule} onSave={handleSave} />;
+};
+
+export default RuleEditor;
@@ -0,0 +1,322 @@
+// File: src/pages/Rules.tsx
+// Rule library: search, filter and sort rules, manage their status lifecycle and open them in the builder
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Rule, RuleStatus } from '../types/RuleTypes';
+import { listRules, cloneRule, setRuleStatus } from '../services/RuleEngine';
+import { Plus, Search, Copy, Edit3, Archive, CheckCircle, ChevronUp, ChevronDown, RefreshCw, AlertCircle, X } from 'lucide-react';
+
+type SortKey = 'name' | 'status' | 'author' | 'modified';
+
+const STATUS_STYLES: Record<RuleStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  active: 'bg-green-100 text-green-800',
+  archived: 'bg-yellow-100 text-yellow-800'
+};
+
+const getStatus = (rule: Rule): RuleStatus => rule.metadata.status ?? 'draft';
+
+const getSortValue = (rule: Rule, key: SortKey): string => {
+  switch (key) {
+    case 'name':
+      return rule.name.toLowerCase();
+    case 'status':
+      return getStatus(rule);
+    case 'author':
+      return (rule.metadata.author ?? '').toLowerCase();
+    case 'modified':
+      return rule.metadata.modified;
+  }
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const Rules: React.FC = () => {
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RuleStatus | ''>('');
+  const [authorFilter, setAuthorFilter] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'modified', direction: 'desc' });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRules(await listRules());
+    } catch (err) {
+      setError(`Could not load rules: ${describeError(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const tags = useMemo(() => Array.from(new Set(rules.flatMap(rule => rule.metadata.tags))).sort(), [rules]);
+  const authors = useMemo(
+    () => Array.from(new Set(rules.map(rule => rule.metadata.author).filter(Boolean) as string[])).sort(),
+    [rules]
+  );
+
+  const visibleRules = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = rules.filter(rule =>
+      (!needle || rule.name.toLowerCase().includes(needle) || rule.description.toLowerCase().includes(needle)) &&
+      (!tagFilter || rule.metadata.tags.includes(tagFilter)) &&
+      (!statusFilter || getStatus(rule) === statusFilter) &&
+      (!authorFilter || rule.metadata.author === authorFilter)
+    );
+
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return filtered.sort((a, b) => getSortValue(a, sort.key).localeCompare(getSortValue(b, sort.key)) * factor);
+  }, [rules, query, tagFilter, statusFilter, authorFilter, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  const toggleSelected = (ruleId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(ruleId)) {
+        next.delete(ruleId);
+      } else {
+        next.add(ruleId);
+      }
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visibleRules.length > 0 && visibleRules.every(rule => selected.has(rule.id));
+
+  const toggleAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visibleRules.map(rule => rule.id)));
+  };
+
+  // The selection is kept when a bulk change fails so it can be retried
+  const handleBulkStatus = async (status: RuleStatus) => {
+    try {
+      await setRuleStatus(Array.from(selected), status);
+    } catch (err) {
+      // Rules earlier in the batch may already have changed, so the list is still reloaded
+      await refresh();
+      setError(`Could not set ${selected.size} rule${selected.size !== 1 ? 's' : ''} to ${status}: ${describeError(err)}`);
+      return;
+    }
+    setSelected(new Set());
+    await refresh();
+  };
+
+  const handleClone = async (ruleId: string) => {
+    try {
+      await cloneRule(ruleId);
+    } catch (err) {
+      setError(`Could not clone rule: ${describeError(err)}`);
+      return;
+    }
+    await refresh();
+  };
+
+  const renderSortHeader = (key: SortKey, label: string) => (
+    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+      <button onClick={() => toggleSort(key)} className="flex items-center space-x-1 hover:text-gray-900">
+        <span>{label}</span>
+        {sort.key === key && (sort.direction === 'asc' ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Rules</h1>
+          <p className="text-gray-600">{rules.length} rule{rules.length !== 1 ? 's' : ''} in the library</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={refresh}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={() => navigate('/rules/new')}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Rule</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow mb-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search rules..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as RuleStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All statuses</option>
+          <option value="draft">Draft</option>
+          <option value="active">Active</option>
+          <option value="archived">Archived</option>
+        </select>
+        <select
+          value={authorFilter}
+          onChange={(e) => setAuthorFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All authors</option>
+          {authors.map(author => <option key={author} value={author}>{author}</option>)}
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      {selected.size > 0 && (
+        <div className="flex items-center space-x-3 mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+          <span className="text-blue-900 font-medium">{selected.size} selected</span>
+          <button
+            onClick={() => handleBulkStatus('active')}
+            className="flex items-center space-x-1 px-3 py-1 bg-green-100 text-green-800 rounded hover:bg-green-200"
+          >
+            <CheckCircle className="w-3 h-3" />
+            <span>Activate</span>
+          </button>
+          <button
+            onClick={() => handleBulkStatus('archived')}
+            className="flex items-center space-x-1 px-3 py-1 bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200"
+          >
+            <Archive className="w-3 h-3" />
+            <span>Archive</span>
+          </button>
+          <button onClick={() => setSelected(new Set())} className="text-gray-600 hover:text-gray-900">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 w-8">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} aria-label="Select all rules" />
+              </th>
+              {renderSortHeader('name', 'Name')}
+              {renderSortHeader('status', 'Status')}
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tags</th>
+              {renderSortHeader('author', 'Author')}
+              {renderSortHeader('modified', 'Modified')}
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visibleRules.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                  {isLoading ? 'Loading rules...' : 'No rules match the current filters.'}
+                </td>
+              </tr>
+            ) : (
+              visibleRules.map(rule => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(rule.id)}
+                      onChange={() => toggleSelected(rule.id)}
+                      aria-label={`Select ${rule.name}`}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{rule.name}</div>
+                    {rule.description && <div className="text-sm text-gray-500 truncate max-w-md">{rule.description}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[getStatus(rule)]}`}>
+                      {getStatus(rule)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {rule.metadata.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => setTagFilter(tag)}
+                          className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{rule.metadata.author || '—'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{new Date(rule.metadata.modified).toLocaleString()}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => navigate(`/rules/${encodeURIComponent(rule.id)}`)}
+                        className="p-1 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded"
+                        title="Open in builder"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleClone(rule.id)}
+                        className="p-1 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded"
+                        title="Clone"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Rules;
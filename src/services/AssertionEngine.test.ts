@@ -0,0 +1,180 @@
+// src/services/AssertionEngine.test.ts
+// Covers the JSONPath subset, output diffs in both match modes and scenario verdicts
+// Outputs are shaped like the interpreter's: actions, result and variables
+
+import { describe, expect, it } from 'vitest';
+import { TestResult, TestScenario } from '../types/RuleTypes';
+import {
+  JsonPathError,
+  compareOutput,
+  evaluateAssertion,
+  evaluateScenario,
+  formatDiff,
+  parseJsonPath,
+  queryJsonPath,
+  summarizeReports
+} from './AssertionEngine';
+
+const output = {
+  result: 'approved',
+  actions: [
+    { atomId: 'atom_2', type: 'send_email', parameters: { to: 'ada@example.com', priority: 2 }, delayMs: 0 },
+    { atomId: 'atom_3', type: 'custom_event', parameters: { eventName: 'approved', score: 0.75 }, delayMs: 0 }
+  ],
+  variables: { 'risk score': 12.5 }
+};
+
+const success = (value: any = output): TestResult => ({ status: 'success', output: value, executionTime: 4 });
+
+const scenario = (overrides: Partial<TestScenario>): TestScenario => ({
+  name: 'Approves the order',
+  description: '',
+  input: {},
+  ...overrides
+});
+
+describe('parseJsonPath', () => {
+  it('reads every segment kind', () => {
+    expect(parseJsonPath("$.actions[-1]['parameters'].*..to[?(@ > 1)]")).toEqual([
+      { kind: 'property', name: 'actions' },
+      { kind: 'index', index: -1 },
+      { kind: 'property', name: 'parameters' },
+      { kind: 'wildcard' },
+      { kind: 'descendant', name: 'to' },
+      { kind: 'filter', expression: '@ > 1' }
+    ]);
+  });
+
+  it('treats a leading field name as relative to the root', () => {
+    expect(parseJsonPath('actions[0]')).toEqual(parseJsonPath('$.actions[0]'));
+  });
+
+  it.each([
+    ['', 'Path is empty'],
+    ['$.actions[', 'Invalid bracket at position 10'],
+    ['$.actions[?(@.type == "x"]', 'Unclosed filter at position 10'],
+    ['$.', 'Expected a field name at position 3'],
+    ['$ actions', 'Unexpected " " at position 2']
+  ])('rejects %j', (path, message) => {
+    expect(() => parseJsonPath(path)).toThrow(new JsonPathError(message));
+  });
+});
+
+describe('queryJsonPath', () => {
+  it('returns normalized paths with the values', () => {
+    expect(queryJsonPath(output, '$.actions[-1].type')).toEqual([{ path: '$.actions[1].type', value: 'custom_event' }]);
+    expect(queryJsonPath(output, "$.variables['risk score']")).toEqual([
+      { path: '$.variables["risk score"]', value: 12.5 }
+    ]);
+  });
+
+  it('collects wildcard and descendant matches in document order', () => {
+    expect(queryJsonPath(output, '$.actions[*].atomId').map(match => match.value)).toEqual(['atom_2', 'atom_3']);
+    expect(queryJsonPath(output, '$..eventName').map(match => match.path)).toEqual(['$.actions[1].parameters.eventName']);
+  });
+
+  it('filters with condition expressions and skips candidates the filter cannot apply to', () => {
+    expect(queryJsonPath(output, "$.actions[?(@.type == 'send_email')].parameters.to")).toEqual([
+      { path: '$.actions[0].parameters.to', value: 'ada@example.com' }
+    ]);
+    expect(queryJsonPath(output, '$.actions[?(@.parameters.priority > 1)]')).toHaveLength(1);
+  });
+});
+
+describe('compareOutput', () => {
+  const expected = { result: 'approved', actions: [{ type: 'send_email' }] };
+
+  it('ignores extra fields and items in partial mode', () => {
+    expect(compareOutput(expected, output)).toEqual([]);
+  });
+
+  it('reports extra fields and items in exact mode', () => {
+    const diffs = compareOutput({ result: 'approved', actions: [output.actions[0]] }, output, 'exact');
+    expect(diffs.map(formatDiff)).toEqual([
+      '$.actions[1]: unexpected {"atomId":"atom_3","type":"custom_event","parameters":{"e...',
+      '$.variables: unexpected {"risk score":12.5}'
+    ]);
+  });
+
+  it('reports missing and changed values', () => {
+    const diffs = compareOutput({ result: 'rejected', actions: [{}, {}, { type: 'send_sms' }] }, output);
+    expect(diffs.map(formatDiff)).toEqual([
+      '$.result: expected "rejected", got "approved"',
+      '$.actions[2]: missing, expected {"type":"send_sms"}'
+    ]);
+  });
+
+  it('treats numbers within the tolerance as equal', () => {
+    expect(compareOutput({ variables: { 'risk score': 12.4 } }, output, 'partial', 0.1)).toEqual([]);
+    expect(compareOutput({ variables: { 'risk score': 12.4 } }, output, 'partial', 0.05)).toEqual([
+      { path: '$.variables["risk score"]', kind: 'changed', expected: 12.4, actual: 12.5 }
+    ]);
+  });
+});
+
+describe('evaluateAssertion', () => {
+  it.each([
+    [{ path: '$.result', operator: 'equals', expected: 'approved' }],
+    [{ path: '$.actions[0].parameters.cc', operator: 'not_exists' }],
+    [{ path: '$.actions[*].type', operator: 'contains', expected: 'custom_event' }],
+    [{ path: '$.actions[1].parameters.score', operator: 'greater_than', expected: 0.5 }],
+    [{ path: '$.actions', operator: 'length', expected: 2 }],
+    [{ path: '$.actions[0].parameters.to', operator: 'matches', expected: '@example\\.com$' }]
+  ] as const)('passes %j', assertion => {
+    expect(evaluateAssertion(output, { ...assertion })).toMatchObject({ passed: true });
+  });
+
+  it('asserts on the list of matches for wildcard paths', () => {
+    expect(evaluateAssertion(output, { path: '$.actions[*].type', operator: 'equals', expected: ['send_email'] })).toMatchObject({
+      passed: false,
+      label: '$.actions[*].type equals ["send_email"]',
+      diffs: [{ path: '$[1]', kind: 'unexpected', actual: 'custom_event' }]
+    });
+  });
+
+  it('explains failures', () => {
+    expect(evaluateAssertion(output, { path: '$.missing', operator: 'equals', expected: 1 }).message).toBe('No value at this path');
+    expect(evaluateAssertion(output, { path: '$.result', operator: 'length', expected: 3 }).message).toBe('Length is 8');
+    expect(evaluateAssertion(output, { path: '$.result', operator: 'less_than', expected: 3 }).message).toBe('Needs numbers, got "approved"');
+    expect(evaluateAssertion(output, { path: '$.result', operator: 'matches', expected: '(' }).message).toBe('Invalid regular expression "("');
+    expect(evaluateAssertion(output, { path: '$[', operator: 'exists' }).message).toBe('Invalid path: Invalid bracket at position 2');
+  });
+});
+
+describe('evaluateScenario', () => {
+  it('passes when the expected output and every assertion hold', () => {
+    const report = evaluateScenario(
+      scenario({ expectedOutput: { result: 'approved' }, assertions: [{ path: '$.actions', operator: 'length', expected: 2 }] }),
+      success()
+    );
+    expect(report.verdict).toBe('passed');
+    expect(report.checks.map(check => check.label)).toEqual(['Output contains the expected output', '$.actions has length 2']);
+  });
+
+  it('fails with the number of differences', () => {
+    const report = evaluateScenario(scenario({ expectedOutput: { result: 'rejected' }, matchMode: 'exact' }), success({ result: 'approved' }));
+    expect(report).toMatchObject({
+      verdict: 'failed',
+      checks: [{ label: 'Output equals the expected output', passed: false, message: '1 difference' }]
+    });
+  });
+
+  it('marks scenarios without checks as unchecked and failed runs as errors', () => {
+    expect(evaluateScenario(scenario({}), success()).verdict).toBe('unchecked');
+    expect(evaluateScenario(scenario({}), { status: 'timeout', output: null, executionTime: 5000 })).toEqual({
+      verdict: 'error',
+      checks: [{ label: 'Rule runs', passed: false, message: 'Execution ended with status timeout' }]
+    });
+  });
+});
+
+describe('summarizeReports', () => {
+  it('counts verdicts and adds up execution time', () => {
+    const runs = [
+      { report: { verdict: 'passed' as const, checks: [] }, result: success() },
+      { report: { verdict: 'failed' as const, checks: [] }, result: success() },
+      { report: { verdict: 'error' as const, checks: [] } }
+    ];
+    expect(summarizeReports(runs)).toEqual({ total: 3, passed: 1, failed: 1, errors: 1, unchecked: 0, durationMs: 8 });
+  });
+});
@@ -0,0 +1,413 @@
+// src/services/AssertionEngine.ts
+// Checks test scenario results against their expected output and JSONPath assertions
+// Produces per-scenario pass/fail reports with value diffs and a summary for a whole suite
+
+import {
+  AssertionCheck,
+  OutputAssertion,
+  OutputDiff,
+  OutputMatchMode,
+  ScenarioReport,
+  TestResult,
+  TestScenario,
+  TestSuiteSummary
+} from '../types/RuleTypes';
+import { readPath } from '../utils/objectPath';
+import { evaluateExpression } from './ExpressionEvaluator';
+
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+type JsonPathSegment =
+  | { kind: 'property'; name: string }
+  | { kind: 'index'; index: number } // Negative indexes count from the end
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; name: string | null } // `..name`, or `..*` when name is null
+  | { kind: 'filter'; expression: string }; // `[?(@.total > 10)]`, in the condition expression language
+
+export interface JsonPathMatch {
+  path: string; // Normalized path of the matched value, e.g. $.actions[0].type
+  value: any;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const PROPERTY_PATTERN = /^[A-Za-z_$][\w$-]*/;
+
+const appendProperty = (path: string, name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+
+/**
+ * Parses the JSONPath subset used by assertions: `$`, `.name`, `['name']`, `[0]`, `[-1]`,
+ * `[*]`, `.*`, `..name` and filters such as `[?(@.type == 'send_email')]`. The leading `$` is optional.
+ */
+export const parseJsonPath = (source: string): JsonPathSegment[] => {
+  const path = source.trim();
+  if (!path) throw new JsonPathError('Path is empty');
+
+  const segments: JsonPathSegment[] = [];
+  let position = path.startsWith('$') ? 1 : 0;
+  // `actions[0]` reads like `$.actions[0]`
+  if (position === 0 && !path.startsWith('[') && !path.startsWith('.')) {
+    const match = PROPERTY_PATTERN.exec(path);
+    if (!match) throw new JsonPathError(`Unexpected "${path[0]}" at position 1`);
+    segments.push({ kind: 'property', name: match[0] });
+    position = match[0].length;
+  }
+
+  const readName = (start: number): string => {
+    const match = PROPERTY_PATTERN.exec(path.slice(start));
+    if (!match) throw new JsonPathError(`Expected a field name at position ${start + 1}`);
+    return match[0];
+  };
+
+  while (position < path.length) {
+    if (path.startsWith('..', position)) {
+      position += 2;
+      if (path[position] === '*') {
+        segments.push({ kind: 'descendant', name: null });
+        position++;
+      } else {
+        const name = readName(position);
+        segments.push({ kind: 'descendant', name });
+        position += name.length;
+      }
+    } else if (path[position] === '.') {
+      position++;
+      if (path[position] === '*') {
+        segments.push({ kind: 'wildcard' });
+        position++;
+      } else {
+        const name = readName(position);
+        segments.push({ kind: 'property', name });
+        position += name.length;
+      }
+    } else if (path[position] === '[') {
+      const close = readBracket(path, position, segments);
+      position = close + 1;
+    } else {
+      throw new JsonPathError(`Unexpected "${path[position]}" at position ${position + 1}`);
+    }
+  }
+
+  return segments;
+};
+
+// Parses one bracket segment starting at `open`; returns the offset of its closing bracket
+const readBracket = (path: string, open: number, segments: JsonPathSegment[]): number => {
+  const rest = path.slice(open + 1);
+
+  if (rest.startsWith('?(')) {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let index = open + 2; index < path.length; index++) {
+      const char = path[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        if (path[index + 1] !== ']') break;
+        segments.push({ kind: 'filter', expression: path.slice(open + 3, index) });
+        return index + 1;
+      }
+    }
+    throw new JsonPathError(`Unclosed filter at position ${open + 1}`);
+  }
+
+  const match = /^\s*(\*|-?\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]/.exec(rest);
+  if (!match) throw new JsonPathError(`Invalid bracket at position ${open + 1}`);
+
+  const [whole, token] = match;
+  if (token === '*') {
+    segments.push({ kind: 'wildcard' });
+  } else if (/^-?\d+$/.test(token)) {
+    segments.push({ kind: 'index', index: Number(token) });
+  } else {
+    segments.push({ kind: 'property', name: token.slice(1, -1).replace(/\\(.)/g, '$1') });
+  }
+  return open + whole.length;
+};
+
+// Definite paths select at most one value; the others select a list
+export const isDefiniteJsonPath = (segments: JsonPathSegment[]): boolean =>
+  segments.every(segment => segment.kind === 'property' || segment.kind === 'index');
+
+const children = (match: JsonPathMatch): JsonPathMatch[] => {
+  if (Array.isArray(match.value)) {
+    return match.value.map((value, index) => ({ path: `${match.path}[${index}]`, value }));
+  }
+  if (isPlainObject(match.value)) {
+    return Object.entries(match.value).map(([name, value]) => ({ path: appendProperty(match.path, name), value }));
+  }
+  return [];
+};
+
+const descendants = (match: JsonPathMatch): JsonPathMatch[] =>
+  children(match).flatMap(child => [child, ...descendants(child)]);
+
+// `@` in a filter is the candidate value; it is renamed to an identifier the expression language accepts
+const CURRENT = '$current';
+
+const filterMatches = (expression: string, candidate: JsonPathMatch): boolean => {
+  let source = '';
+  let quote: string | null = null;
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index];
+    if (quote) {
+      if (char === '\\') source += char + (expression[++index] ?? '');
+      else source += char;
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    source += char === '@' ? CURRENT : char;
+  }
+
+  try {
+    return Boolean(evaluateExpression(source, {
+      resolve: path => (path === CURRENT ? candidate.value : readPath(candidate.value, path.slice(CURRENT.length + 1))),
+      now: Date.now
+    }));
+  } catch {
+    // Candidates the filter cannot be applied to, e.g. comparing a missing field, simply don't match
+    return false;
+  }
+};
+
+const applySegment = (matches: JsonPathMatch[], segment: JsonPathSegment): JsonPathMatch[] =>
+  matches.flatMap(match => {
+    switch (segment.kind) {
+      case 'property':
+        return isPlainObject(match.value) && segment.name in match.value
+          ? [{ path: appendProperty(match.path, segment.name), value: match.value[segment.name] }]
+          : [];
+      case 'index': {
+        if (!Array.isArray(match.value)) return [];
+        const index = segment.index < 0 ? match.value.length + segment.index : segment.index;
+        return index >= 0 && index < match.value.length ? [{ path: `${match.path}[${index}]`, value: match.value[index] }] : [];
+      }
+      case 'wildcard':
+        return children(match);
+      case 'descendant': {
+        const all = [match, ...descendants(match)];
+        return segment.name === null
+          ? descendants(match)
+          : applySegment(all, { kind: 'property', name: segment.name });
+      }
+      case 'filter':
+        return children(match).filter(child => filterMatches(segment.expression, child));
+    }
+  });
+
+export const queryJsonPath = (value: any, path: string | JsonPathSegment[]): JsonPathMatch[] => {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+  return segments.reduce(applySegment, [{ path: '$', value }]);
+};
+
+// Output comparison
+
+const numbersClose = (expected: number, actual: number, tolerance: number) =>
+  expected === actual || Math.abs(expected - actual) <= tolerance;
+
+/**
+ * Differences between an expected and an actual value. 'exact' also reports fields and
+ * array items the expected value doesn't mention; 'partial' ignores them.
+ */
+export const compareOutput = (
+  expected: any,
+  actual: any,
+  mode: OutputMatchMode = 'partial',
+  tolerance = 0,
+  path = '$'
+): OutputDiff[] => {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return numbersClose(expected, actual, tolerance) ? [] : [{ path, kind: 'changed', expected, actual }];
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return [{ path, kind: 'changed', expected, actual }];
+    const diffs = expected.flatMap((item, index) =>
+      index < actual.length
+        ? compareOutput(item, actual[index], mode, tolerance, `${path}[${index}]`)
+        : [{ path: `${path}[${index}]`, kind: 'missing' as const, expected: item }]
+    );
+    if (mode === 'exact') {
+      actual.slice(expected.length).forEach((item, offset) => {
+        diffs.push({ path: `${path}[${expected.length + offset}]`, kind: 'unexpected', actual: item });
+      });
+    }
+    return diffs;
+  }
+
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) return [{ path, kind: 'changed', expected, actual }];
+    const diffs = Object.entries(expected).flatMap(([name, value]) =>
+      actual[name] === undefined && value !== undefined
+        ? [{ path: appendProperty(path, name), kind: 'missing' as const, expected: value }]
+        : compareOutput(value, actual[name], mode, tolerance, appendProperty(path, name))
+    );
+    if (mode === 'exact') {
+      Object.entries(actual)
+        .filter(([name, value]) => !(name in expected) && value !== undefined)
+        .forEach(([name, value]) => diffs.push({ path: appendProperty(path, name), kind: 'unexpected', actual: value }));
+    }
+    return diffs;
+  }
+
+  return expected === actual ? [] : [{ path, kind: 'changed', expected, actual }];
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined) return 'nothing';
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+export const formatDiff = (diff: OutputDiff): string => {
+  switch (diff.kind) {
+    case 'missing': return `${diff.path}: missing, expected ${formatValue(diff.expected)}`;
+    case 'unexpected': return `${diff.path}: unexpected ${formatValue(diff.actual)}`;
+    case 'changed': return `${diff.path}: expected ${formatValue(diff.expected)}, got ${formatValue(diff.actual)}`;
+  }
+};
+
+const OPERATOR_LABELS: Record<OutputAssertion['operator'], string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  exists: 'exists',
+  not_exists: 'does not exist',
+  contains: 'contains',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  length: 'has length',
+  matches: 'matches'
+};
+
+export const describeAssertion = (assertion: OutputAssertion): string => {
+  const operator = OPERATOR_LABELS[assertion.operator] ?? assertion.operator;
+  return assertion.operator === 'exists' || assertion.operator === 'not_exists'
+    ? `${assertion.path} ${operator}`
+    : `${assertion.path} ${operator} ${formatValue(assertion.expected)}`;
+};
+
+const containsValue = (container: any, expected: any, tolerance: number): boolean => {
+  if (typeof container === 'string') return container.includes(String(expected));
+  if (Array.isArray(container)) {
+    return container.some(item => compareOutput(expected, item, 'partial', tolerance).length === 0);
+  }
+  if (isPlainObject(container)) return compareOutput(expected, container, 'partial', tolerance).length === 0;
+  return false;
+};
+
+export const evaluateAssertion = (output: any, assertion: OutputAssertion, tolerance = 0): AssertionCheck => {
+  const label = describeAssertion(assertion);
+  const fail = (message: string, diffs?: OutputDiff[]): AssertionCheck =>
+    ({ label, passed: false, message, ...(diffs ? { diffs } : {}) });
+  const pass: AssertionCheck = { label, passed: true };
+
+  let segments: JsonPathSegment[];
+  try {
+    segments = parseJsonPath(assertion.path);
+  } catch (error) {
+    return fail(`Invalid path: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const matches = queryJsonPath(output, segments);
+  // A definite path asserts on its value; wildcards and filters assert on the list of matches
+  const actual = isDefiniteJsonPath(segments) ? matches[0]?.value : matches.map(match => match.value);
+  const found = matches.length > 0;
+
+  switch (assertion.operator) {
+    case 'exists':
+      return found ? pass : fail('No value at this path');
+    case 'not_exists':
+      return found ? fail(`Found ${formatValue(actual)}`) : pass;
+  }
+
+  if (!found) return fail('No value at this path');
+
+  switch (assertion.operator) {
+    case 'equals': {
+      const diffs = compareOutput(assertion.expected, actual, 'exact', tolerance, matches.length === 1 ? matches[0].path : '$');
+      return diffs.length === 0 ? pass : fail(`Got ${formatValue(actual)}`, diffs);
+    }
+    case 'not_equals':
+      return compareOutput(assertion.expected, actual, 'exact', tolerance).length > 0 ? pass : fail(`Got ${formatValue(actual)}`);
+    case 'contains':
+      return containsValue(actual, assertion.expected, tolerance) ? pass : fail(`Got ${formatValue(actual)}`);
+    case 'greater_than':
+    case 'less_than': {
+      if (typeof actual !== 'number' || typeof assertion.expected !== 'number') {
+        return fail(`Needs numbers, got ${formatValue(actual)}`);
+      }
+      const passed = assertion.operator === 'greater_than'
+        ? actual > assertion.expected - tolerance
+        : actual < assertion.expected + tolerance;
+      return passed ? pass : fail(`Got ${actual}`);
+    }
+    case 'length': {
+      const length = typeof actual === 'string' || Array.isArray(actual) ? actual.length : null;
+      if (length === null) return fail(`Got ${formatValue(actual)}, which has no length`);
+      return length === Number(assertion.expected) ? pass : fail(`Length is ${length}`);
+    }
+    case 'matches': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(String(assertion.expected));
+      } catch {
+        return fail(`Invalid regular expression ${formatValue(assertion.expected)}`);
+      }
+      return typeof actual === 'string' && pattern.test(actual) ? pass : fail(`Got ${formatValue(actual)}`);
+    }
+    default:
+      return fail(`Unknown operator "${assertion.operator}"`);
+  }
+};
+
+export const evaluateScenario = (scenario: TestScenario, result: TestResult): ScenarioReport => {
+  if (result.status !== 'success') {
+    return {
+      verdict: 'error',
+      checks: [{ label: 'Rule runs', passed: false, message: result.error ?? `Execution ended with status ${result.status}` }]
+    };
+  }
+
+  const checks: AssertionCheck[] = [];
+  const tolerance = scenario.tolerance ?? 0;
+
+  if (scenario.expectedOutput !== undefined) {
+    const mode = scenario.matchMode ?? 'partial';
+    const diffs = compareOutput(scenario.expectedOutput, result.output, mode, tolerance);
+    checks.push({
+      label: mode === 'exact' ? 'Output equals the expected output' : 'Output contains the expected output',
+      passed: diffs.length === 0,
+      ...(diffs.length > 0 ? { message: `${diffs.length} difference${diffs.length === 1 ? '' : 's'}`, diffs } : {})
+    });
+  }
+
+  (scenario.assertions ?? []).forEach(assertion => {
+    checks.push(evaluateAssertion(result.output, assertion, tolerance));
+  });
+
+  if (checks.length === 0) return { verdict: 'unchecked', checks };
+  return { verdict: checks.every(check => check.passed) ? 'passed' : 'failed', checks };
+};
+
+export const summarizeReports = (runs: Array<{ report: ScenarioReport; result?: TestResult }>): TestSuiteSummary =>
+  runs.reduce<TestSuiteSummary>((summary, { report, result }) => ({
+    total: summary.total + 1,
+    passed: summary.passed + (report.verdict === 'passed' ? 1 : 0),
+    failed: summary.failed + (report.verdict === 'failed' ? 1 : 0),
+    errors: summary.errors + (report.verdict === 'error' ? 1 : 0),
+    unchecked: summary.unchecked + (report.verdict === 'unchecked' ? 1 : 0),
+    durationMs: summary.durationMs + (result?.executionTime ?? 0)
+  }), { total: 0, passed: 0, failed: 0, errors: 0, unchecked: 0, durationMs: 0 });
@@ -0,0 +1,54 @@
+// src/services/AtomClipboard.test.ts
+// Covers the clipboard text format for atom subtrees and what pasting accepts
+// Pasted atoms go through the import checks, so foreign text never reaches the canvas
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance } from '../types/RuleTypes';
+import { parseAtomClipboard, serializeAtomClipboard } from './AtomClipboard';
+
+const atom = (id: string, type: string, children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  parameters: type === 'send_email' ? { templateId: 'welcome' } : { condition: 'age > 18' },
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const subtree = atom('atom_1', 'if_then_else', [atom('atom_2', 'send_email')]);
+
+describe('atom clipboard', () => {
+  it('reads back the subtree it wrote', () => {
+    expect(parseAtomClipboard(serializeAtomClipboard([subtree]))).toEqual([subtree]);
+  });
+
+  it('keeps several copied subtrees in order', () => {
+    const email = atom('atom_5', 'send_email');
+    expect(parseAtomClipboard(serializeAtomClipboard([email, subtree]))).toEqual([email, subtree]);
+  });
+
+  it('reads single-atom copies written before multi-selection', () => {
+    expect(parseAtomClipboard(JSON.stringify({ kind: 'kairos/atom-subtree', atom: subtree }))).toEqual([subtree]);
+  });
+
+  it('accepts a bare atom, e.g. copied out of a JSON export', () => {
+    expect(parseAtomClipboard(JSON.stringify(subtree))).toEqual([subtree]);
+  });
+
+  it.each([
+    ['plain text', 'send a welcome email'],
+    ['other JSON', '{"name": "Adults"}'],
+    ['an atom without a type', JSON.stringify({ ...subtree, type: '' })]
+  ])('pastes nothing from %s', (_name, text) => {
+    expect(parseAtomClipboard(text)).toEqual([]);
+  });
+
+  it('keeps atoms of unknown type as placeholders', () => {
+    const [pasted] = parseAtomClipboard(JSON.stringify({ ...subtree, type: 'legacy_check' }));
+    expect(pasted).toMatchObject({
+      type: 'placeholder',
+      parameters: { originalType: 'legacy_check', originalParameters: { condition: 'age > 18' } }
+    });
+    expect(pasted.children).toEqual(subtree.children);
+  });
+});
@@ -0,0 +1,57 @@
+// src/services/AtomClipboard.ts
+// Clipboard format for copying atom subtrees between canvases, tabs and rules
+// Written as JSON text so it survives any clipboard; a custom MIME type marks our own copies
+
+import { AtomInstance } from '../types/RuleTypes';
+import { importAtomSubtree } from './RuleImport';
+
+export const ATOM_CLIPBOARD_MIME = 'application/x-kairos-atom+json';
+
+const CLIPBOARD_KIND = 'kairos/atom-subtree';
+
+interface AtomClipboardPayload {
+  kind: typeof CLIPBOARD_KIND;
+  atoms: AtomInstance[];
+  // Single-atom payloads written before multi-selection
+  atom?: AtomInstance;
+}
+
+export const serializeAtomClipboard = (atoms: AtomInstance[]): string =>
+  JSON.stringify({ kind: CLIPBOARD_KIND, atoms } satisfies AtomClipboardPayload, null, 2);
+
+// Returns an empty list for text that is not an atom subtree; unknown atom types come back as placeholders
+export const parseAtomClipboard = (text: string): AtomInstance[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  if (typeof data !== 'object' || data === null) return [];
+
+  // Also accept a bare AtomInstance, e.g. copied out of a JSON export
+  const payload = data as Partial<AtomClipboardPayload> & Record<string, unknown>;
+  const raw: unknown[] = payload.kind === CLIPBOARD_KIND
+    ? Array.isArray(payload.atoms) ? payload.atoms : payload.atom ? [payload.atom] : []
+    : 'type' in payload && 'children' in payload ? [payload] : [];
+
+  return raw.map(atom => importAtomSubtree(atom).atom).filter((atom): atom is AtomInstance => atom !== null);
+};
+
+export const writeAtomsToClipboardEvent = (event: ClipboardEvent, atoms: AtomInstance[]): void => {
+  const text = serializeAtomClipboard(atoms);
+  event.clipboardData?.setData(ATOM_CLIPBOARD_MIME, text);
+  event.clipboardData?.setData('text/plain', text);
+  event.preventDefault();
+};
+
+export const readAtomsFromClipboardEvent = (event: ClipboardEvent): AtomInstance[] => {
+  const data = event.clipboardData;
+  if (!data) return [];
+  return parseAtomClipboard(data.getData(ATOM_CLIPBOARD_MIME) || data.getData('text/plain'));
+};
+
+// For explicit menu actions, where no clipboard event is available
+export const copyAtomsToClipboard = async (atoms: AtomInstance[]): Promise<void> => {
+  await navigator.clipboard.writeText(serializeAtomClipboard(atoms));
+};
@@ -0,0 +1,174 @@
+// src/services/AtomExecutors.test.ts
+// Runs each built-in atom through the interpreter with a fixed clock
+// Conditions are checked by whether the event under them fires, computations by the variables they leave
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { interpretRule } from './RuleInterpreter';
+
+// 2024-03-10 12:00 UTC, a Sunday; New York switched to daylight time that morning
+const NOW = Date.parse('2024-03-10T12:00:00.000Z');
+
+let nextId = 1;
+const atom = (type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id: `atom_${nextId++}`,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const run = (root: AtomInstance, input: any) => {
+  const rule: Rule = {
+    id: 'rule_executors',
+    name: 'Executors',
+    description: '',
+    rootAtom: root,
+    metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+  };
+  return interpretRule(rule, input, { now: () => NOW });
+};
+
+// Runs a condition with an event under it and says whether the event fired
+const matches = (type: string, parameters: AtomInstance['parameters'], input: any): boolean => {
+  const result = run(atom(type, parameters, [atom('custom_event', { eventName: 'matched' })]), input);
+  expect(result.error).toBeUndefined();
+  return result.output.actions.length > 0;
+};
+
+const variablesAfter = (root: AtomInstance, input: any) => run(root, input).output.variables;
+
+describe('conditions', () => {
+  it.each([
+    [{ age: 30 }, true],
+    [{ user: { age: '18' } }, true],
+    [{ profile: { age: 66 } }, false],
+    [{}, false]
+  ])('age_range matches %j: %s', (input, expected) => {
+    expect(matches('age_range', {}, input)).toBe(expected);
+  });
+
+  it('geography compares countries in any case and leaves out excluded regions', () => {
+    expect(matches('geography', { countries: ['us', 'CA'] }, { location: { country: 'Us' } })).toBe(true);
+    expect(matches('geography', {}, { country: 'FR' })).toBe(false);
+    expect(matches('geography', { excludeRegions: ['QC'] }, { country: 'CA', region: 'QC' })).toBe(false);
+  });
+
+  it('time_window reads the time from the input, or the clock, in the given timezone', () => {
+    expect(matches('time_window', {}, {})).toBe(true);
+    expect(matches('time_window', { timezone: 'America/New_York' }, {})).toBe(false);
+    expect(matches('time_window', {}, { currentTime: '2024-03-10T18:00:00.000Z' })).toBe(false);
+  });
+
+  it('time_window handles windows that cross midnight', () => {
+    const overnight = { startTime: '22:00', endTime: '06:00' };
+    expect(matches('time_window', overnight, { timestamp: '2024-03-10T23:30:00.000Z' })).toBe(true);
+    expect(matches('time_window', overnight, { timestamp: '2024-03-11T05:59:00.000Z' })).toBe(true);
+    expect(matches('time_window', overnight, {})).toBe(false);
+  });
+
+  it('time_window rejects clock times and input times it cannot read', () => {
+    const badClock = atom('time_window', { startTime: '9am' });
+    expect(run(badClock, {}).error).toBe(`Atom ${badClock.id}: startTime and endTime must use HH:MM format`);
+    const badInput = atom('time_window', {});
+    expect(run(badInput, { currentTime: 'soon' }).error).toBe(`Atom ${badInput.id}: input time "soon" is not a valid date`);
+  });
+
+  it('user_activity reads a count, or the count for the time frame', () => {
+    expect(matches('user_activity', { activityType: 'login' }, { activity: { login: 5 } })).toBe(true);
+    expect(matches('user_activity', { activityType: 'login' }, { activity: { login: { '7d': 4, '30d': 12 } } })).toBe(false);
+    expect(matches('user_activity', { activityType: 'login', timeFrame: '30d' }, { activity: { login: { '30d': 12 } } })).toBe(true);
+  });
+
+  it('user_segment matches a segment, or one under it when subsegments are included', () => {
+    expect(matches('user_segment', { segmentId: 'vip' }, { segments: ['vip'] })).toBe(true);
+    expect(matches('user_segment', { segmentId: 'vip' }, { segments: ['vip/gold'] })).toBe(false);
+    expect(matches('user_segment', { segmentId: 'vip', includeSubsegments: true }, { segments: ['vip/gold'] })).toBe(true);
+    expect(matches('user_segment', { segmentId: 'vip' }, {})).toBe(false);
+  });
+
+  it.each([
+    ['equals', 'gold', { tier: 'gold' }, true],
+    ['not_equals', 'gold', { tier: 'gold' }, false],
+    ['greater_than', '9', { tier: 10 }, true],
+    ['less_than', 'b', { tier: 'a' }, true],
+    ['contains', 'x', { tier: ['x', 'y'] }, true],
+    ['starts_with', 'go', { tier: 'gold' }, true]
+  ])('data_filter %s %j against %j: %s', (operator, value, input, expected) => {
+    expect(matches('data_filter', { field: 'tier', operator, value }, input)).toBe(expected);
+  });
+
+  it('data_filter rejects unknown operators', () => {
+    const filter = atom('data_filter', { field: 'tier', operator: 'between', value: '1' });
+    expect(run(filter, {}).error).toBe(`Atom ${filter.id}: unknown filter operator "between"`);
+  });
+});
+
+describe('computations', () => {
+  it('calculate_score weighs input fields, rounds to cents and caps at maxScore', () => {
+    expect(variablesAfter(atom('calculate_score', {}), { pageViews: 10, timeSpent: 7.333, interactions: 'x' })).toEqual({ score: 5.93 });
+    expect(variablesAfter(atom('calculate_score', { weights: { visits: 50 } }), { visits: 3 })).toEqual({ score: 100 });
+  });
+
+  it('lookup_data copies the picked fields and reads each source once', () => {
+    const root = atom('lookup_data', { source: 'account', fields: ['plan', 'missing'] }, [
+      atom('lookup_data', { source: 'account', fields: ['owner.name'] })
+    ]);
+    const result = run(root, { account: { plan: 'pro', owner: { name: 'Ada' } } });
+    expect(result.output.variables).toEqual({ account: { plan: 'pro', 'owner.name': 'Ada' } });
+    expect(result.metrics).toMatchObject({ cacheHits: 1 });
+  });
+
+  it.each([
+    ['format_currency', 1234.5, '$1,234.50'],
+    ['format_date', '2024-03-10T23:30:00.000Z', '2024-03-10'],
+    ['capitalize', 'gold', 'Gold'],
+    ['percentage', 0.1234, 12.34],
+    ['percentage', 'n/a', null]
+  ])('transform_data %s turns %j into %j', (transformType, value, expected) => {
+    const root = atom('transform_data', { inputField: 'value', transformType, outputField: 'out' });
+    expect(variablesAfter(root, { value })).toEqual({ out: expected });
+  });
+
+  it('transform_data rejects unknown transforms', () => {
+    const root = atom('transform_data', { inputField: 'value', transformType: 'reverse', outputField: 'out' });
+    expect(run(root, {}).error).toBe(`Atom ${root.id}: unknown transform "reverse"`);
+  });
+});
+
+describe('flow control', () => {
+  const events = (root: AtomInstance, input: any): string[] =>
+    run(root, input).output.actions.map((action: { parameters: { eventName: string } }) => action.parameters.eventName);
+
+  it('if_then_else runs the first child when the condition holds and the second otherwise', () => {
+    const root = atom('if_then_else', { condition: 'total >= 100' }, [
+      atom('custom_event', { eventName: 'then' }),
+      atom('custom_event', { eventName: 'else' })
+    ]);
+    expect(events(root, { total: 100 })).toEqual(['then']);
+    expect(events(root, { total: 99 })).toEqual(['else']);
+  });
+
+  it('if_then_else names the column where the condition fails', () => {
+    const root = atom('if_then_else', { condition: 'total >' });
+    expect(run(root, {}).error).toBe(`Atom ${root.id}: condition "total >" failed at column 8: Expression ends unexpectedly`);
+  });
+
+  it('delay rejects units it does not know', () => {
+    const root = atom('delay', { duration: 1, unit: 'weeks' });
+    expect(run(root, {}).error).toBe(`Atom ${root.id}: unknown delay unit "weeks"`);
+  });
+
+  it('loop stops at maxIterations and rejects values that are not lists', () => {
+    const loop = atom('loop', { iterateOver: 'items', maxIterations: 2 }, [atom('custom_event', { eventName: 'tick' })]);
+    const result = run(loop, { items: [1, 2, 3] });
+    expect(result.output.actions).toHaveLength(2);
+    expect(result.executionTrace![0].output).toEqual({ iterations: 2, truncated: true });
+    expect(run(loop, { items: 'abc' }).error).toBe(`Atom ${loop.id}: "items" is not an array`);
+  });
+
+  it('placeholder runs its children so imported trees stay testable', () => {
+    expect(events(atom('placeholder', {}, [atom('custom_event', { eventName: 'inside' })]), {})).toEqual(['inside']);
+  });
+});
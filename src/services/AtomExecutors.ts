@@ -0,0 +1,260 @@
+// src/services/AtomExecutors.ts
+// Built-in executors for the atoms shipped in AtomRegistry
+// Also exports the helpers custom atom executors use for gating and actions
+
+import { AtomChildResults, AtomExecutionContext, AtomExecutor, AtomExecutorResult, AtomOutcome } from '../types/RuleTypes';
+import { readPath } from '../utils/objectPath';
+import { ExpressionSyntaxError } from './ExpressionParser';
+import { ExpressionRuntimeError, evaluateExpression } from './ExpressionEvaluator';
+
+const UNIT_MS: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+export const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+export const allPassed = (outcomes: AtomOutcome[]) => outcomes.every(outcome => outcome.passed);
+
+// Condition helper: children only run when the test matched
+export const gateChildren = (
+  matched: boolean,
+  children: AtomChildResults,
+  context: AtomExecutionContext
+): AtomExecutorResult => {
+  if (!matched) return { value: false, passed: false };
+  context.markMatched();
+  return { value: true, passed: allPassed(children.runAll()) };
+};
+
+// Action helper: records the action, then continues with the children
+export const emitAndContinue = (
+  parameters: Record<string, any>,
+  children: AtomChildResults,
+  context: AtomExecutionContext
+): AtomExecutorResult => {
+  const record = context.emitAction(parameters);
+  return { value: record, passed: allPassed(children.runAll()) };
+};
+
+const firstDefined = (context: AtomExecutionContext, paths: string[]): any => {
+  for (const path of paths) {
+    const value = context.resolve(path);
+    if (value !== undefined && value !== null) return value;
+  }
+  return undefined;
+};
+
+const parseClock = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value).trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const minutesInTimezone = (epochMs: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(epochMs));
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+};
+
+// Evaluates an expression parameter, naming the atom and column when it fails
+const evaluateParameter = (source: string, parameter: string, context: AtomExecutionContext): any => {
+  try {
+    return evaluateExpression(source, context);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError || error instanceof ExpressionRuntimeError) {
+      throw new Error(`Atom ${context.atom.id}: ${parameter} "${source}" failed at column ${error.start + 1}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+const TRANSFORMS: Record<string, (value: any) => any> = {
+  format_currency: value => {
+    const amount = toNumber(value);
+    return amount === null
+      ? null
+      : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+  },
+  format_date: value => {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+  },
+  capitalize: value => {
+    const text = String(value ?? '');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  percentage: value => {
+    const ratio = toNumber(value);
+    return ratio === null ? null : Math.round(ratio * 10000) / 100;
+  }
+};
+
+const FILTER_OPERATORS: Record<string, (left: any, right: any) => boolean> = {
+  equals: (left, right) => String(left) === String(right),
+  not_equals: (left, right) => String(left) !== String(right),
+  greater_than: (left, right) => {
+    const [a, b] = [toNumber(left), toNumber(right)];
+    return a !== null && b !== null ? a > b : String(left) > String(right);
+  },
+  less_than: (left, right) => {
+    const [a, b] = [toNumber(left), toNumber(right)];
+    return a !== null && b !== null ? a < b : String(left) < String(right);
+  },
+  contains: (left, right) =>
+    Array.isArray(left) ? left.map(String).includes(String(right)) : String(left ?? '').includes(String(right)),
+  starts_with: (left, right) => String(left ?? '').startsWith(String(right))
+};
+
+export const builtInExecutors: Record<string, AtomExecutor> = {
+  // Condition Atoms
+  age_range: (params, children, context) => {
+    const age = toNumber(firstDefined(context, ['age', 'user.age', 'profile.age']));
+    return gateChildren(age !== null && age >= params.minAge && age <= params.maxAge, children, context);
+  },
+
+  geography: (params, children, context) => {
+    const country = String(firstDefined(context, ['country', 'location.country', 'user.country']) ?? '').toUpperCase();
+    const region = firstDefined(context, ['region', 'location.region', 'user.region']);
+    const countries: string[] = (params.countries || []).map((code: string) => String(code).toUpperCase());
+    const excluded: string[] = params.excludeRegions || [];
+    const matched = countries.includes(country) && !(region !== undefined && excluded.includes(region));
+    return gateChildren(matched, children, context);
+  },
+
+  time_window: (params, children, context) => {
+    const start = parseClock(params.startTime);
+    const end = parseClock(params.endTime);
+    if (start === null || end === null) {
+      throw new Error(`Atom ${context.atom.id}: startTime and endTime must use HH:MM format`);
+    }
+    const supplied = firstDefined(context, ['currentTime', 'timestamp']);
+    const epochMs = supplied !== undefined ? new Date(supplied).getTime() : context.now();
+    if (isNaN(epochMs)) {
+      throw new Error(`Atom ${context.atom.id}: input time "${supplied}" is not a valid date`);
+    }
+    const minutes = minutesInTimezone(epochMs, params.timezone || 'UTC');
+    const matched = start <= end
+      ? minutes >= start && minutes <= end
+      : minutes >= start || minutes <= end; // Window crosses midnight
+    return gateChildren(matched, children, context);
+  },
+
+  user_activity: (params, children, context) => {
+    const activity = context.resolve(`activity.${params.activityType}`);
+    const count = toNumber(typeof activity === 'object' && activity !== null ? activity[params.timeFrame] : activity);
+    return gateChildren(count !== null && count >= params.threshold, children, context);
+  },
+
+  // Action Atoms
+  send_email: emitAndContinue,
+  show_banner: emitAndContinue,
+  send_push_notification: emitAndContinue,
+
+  // Computation Atoms
+  calculate_score: (params, children, context) => {
+    const weights: Record<string, number> = params.weights || {};
+    const raw = Object.entries(weights).reduce(
+      (sum, [field, weight]) => sum + (toNumber(context.resolve(field)) ?? 0) * Number(weight),
+      0
+    );
+    const score = Math.min(params.maxScore ?? Infinity, Math.round(raw * 100) / 100);
+    context.variables.score = score;
+    return { value: score, passed: allPassed(children.runAll()) };
+  },
+
+  lookup_data: (params, children, context) => {
+    const source = String(params.source);
+    const record = context.lookup(source);
+    const picked: Record<string, any> = {};
+    (params.fields || []).forEach((field: string) => {
+      const value = readPath(record, field);
+      if (value !== undefined) picked[field] = value;
+    });
+    context.variables[source] = { ...(context.variables[source] || {}), ...picked };
+    return { value: picked, passed: allPassed(children.runAll()) };
+  },
+
+  transform_data: (params, children, context) => {
+    const transform = TRANSFORMS[params.transformType];
+    if (!transform) throw new Error(`Atom ${context.atom.id}: unknown transform "${params.transformType}"`);
+    const result = transform(context.resolve(params.inputField));
+    context.variables[params.outputField] = result;
+    return { value: result, passed: allPassed(children.runAll()) };
+  },
+
+  // Flow Control Atoms
+  // First child is the "then" branch, second child the optional "else" branch
+  if_then_else: (params, children, context) => {
+    const condition = Boolean(evaluateParameter(params.condition, 'condition', context));
+    const branch = children.run(condition ? 0 : 1);
+    return {
+      value: { condition, branch: condition ? 'then' : 'else' },
+      passed: branch ? branch.passed : true
+    };
+  },
+
+  // Delays are not awaited locally; later actions are stamped with the offset instead
+  delay: (params, children, context) => {
+    const unitMs = UNIT_MS[params.unit];
+    if (!unitMs) throw new Error(`Atom ${context.atom.id}: unknown delay unit "${params.unit}"`);
+    const delayMs = Number(params.duration) * unitMs;
+    const outcomes = context.defer(delayMs, () => children.runAll());
+    return { value: { delayMs }, passed: allPassed(outcomes) };
+  },
+
+  loop: (params, children, context) => {
+    const collection = evaluateParameter(params.iterateOver, 'iterateOver', context);
+    if (collection !== undefined && collection !== null && !Array.isArray(collection)) {
+      throw new Error(`Atom ${context.atom.id}: "${params.iterateOver}" is not an array`);
+    }
+    const items: any[] = collection || [];
+    const limit = Math.min(items.length, params.maxIterations ?? items.length);
+    let passed = true;
+    for (let index = 0; index < limit; index++) {
+      passed = allPassed(children.runAll({ item: items[index], index })) && passed;
+    }
+    return {
+      value: { iterations: limit, truncated: limit < items.length },
+      passed
+    };
+  },
+
+  // Data Atoms
+  user_segment: (params, children, context) => {
+    const value = context.resolve('segments');
+    if (value !== undefined && value !== null && !Array.isArray(value)) {
+      throw new Error(`Atom ${context.atom.id}: "segments" is not an array`);
+    }
+    const segments: string[] = (value || []).map(String);
+    const segmentId = String(params.segmentId);
+    const matched = segments.includes(segmentId) ||
+      (Boolean(params.includeSubsegments) && segments.some(segment => segment.startsWith(`${segmentId}/`)));
+    return gateChildren(matched, children, context);
+  },
+
+  custom_event: emitAndContinue,
+
+  data_filter: (params, children, context) => {
+    const compare = FILTER_OPERATORS[params.operator];
+    if (!compare) throw new Error(`Atom ${context.atom.id}: unknown filter operator "${params.operator}"`);
+    return gateChildren(compare(context.resolve(params.field), params.value), children, context);
+  },
+
+  // Imported atoms of unknown type: run the children so the rest of the tree stays testable
+  placeholder: (_params, children) => {
+    const outcomes = children.runAll();
+    return { value: null, passed: allPassed(outcomes) };
+  }
+};
@@ -2,7 +2,8 @@
 // Registry of available atoms with definitions and sample data
 // Provides the atom palette with searchable, categorized components
 
-import { AtomDefinition } from '../types/RuleTypes';
+import { AtomDefinition, AtomExecutor } from '../types/RuleTypes';
+import { builtInExecutors } from './AtomExecutors';
 
 // Sample atom definitions for the Visual Rule Builder
 const atomDefinitions: AtomDefinition[] = [
@@ -337,7 +338,8 @@ const atomDefinitions: AtomDefinition[] = [
         name: 'fields',
         type: 'array',
         description: 'Fields to retrieve',
-        required: true
+        required: true,
+        fieldReference: 'lookup'
       }
     ],
     tags: ['data', 'lookup', 'external']
@@ -365,7 +367,8 @@ const atomDefinitions: AtomDefinition[] = [
         name: 'inputField',
         type: 'string',
         description: 'Field to transform',
-        required: true
+        required: true,
+        fieldReference: 'path'
       },
       {
         name: 'outputField',
@@ -388,8 +391,9 @@ const atomDefinitions: AtomDefinition[] = [
       {
         name: 'condition',
         type: 'string',
-        description: 'Condition to evaluate',
-        required: true
+        description: 'Condition to evaluate, e.g. user.age >= 18 and user.country == "US"',
+        required: true,
+        expression: 'boolean'
       }
     ],
     tags: ['logic', 'branching', 'conditional']
@@ -435,8 +439,9 @@ const atomDefinitions: AtomDefinition[] = [
       {
         name: 'iterateOver',
         type: 'string',
-        description: 'Field containing array to iterate',
-        required: true
+        description: 'Expression for the list to iterate, e.g. order.items',
+        required: true,
+        expression: 'array'
       },
       {
         name: 'maxIterations',
@@ -508,7 +513,8 @@ const atomDefinitions: AtomDefinition[] = [
         name: 'field',
         type: 'string',
         description: 'Field to filter on',
-        required: true
+        required: true,
+        fieldReference: 'path'
       },
       {
         name: 'operator',
@@ -532,17 +538,40 @@ const atomDefinitions: AtomDefinition[] = [
       }
     ],
     tags: ['filter', 'data', 'criteria']
+  },
+  {
+    type: 'placeholder',
+    name: 'Unknown Atom',
+    description: 'Stands in for an imported atom whose type is not registered',
+    category: 'flow',
+    complexity: 1,
+    internal: true,
+    parameters: [
+      {
+        name: 'originalType',
+        type: 'string',
+        description: 'Atom type from the imported file',
+        required: true
+      },
+      {
+        name: 'originalParameters',
+        type: 'object',
+        description: 'Parameters from the imported file, kept unchanged'
+      }
+    ],
+    tags: ['import', 'unknown']
   }
 ];
 
 // Registry service class
 class AtomRegistryService {
   private atoms: Map<string, AtomDefinition> = new Map();
+  private executors: Map<string, AtomExecutor> = new Map();
 
   constructor() {
-    // Initialize with sample atoms
+    // Initialize with sample atoms and their local executors
     atomDefinitions.forEach(atom => {
-      this.atoms.set(atom.type, atom);
+      this.registerAtom(atom, builtInExecutors[atom.type]);
     });
   }
 
@@ -571,9 +600,36 @@ class AtomRegistryService {
     );
   }
 
-  // Register new atom (for extensibility)
-  registerAtom(atom: AtomDefinition): void {
+  // Register new atom (for extensibility), optionally with the executor that runs it
+  registerAtom<P extends Record<string, any> = Record<string, any>>(
+    atom: AtomDefinition,
+    executor?: AtomExecutor<P>
+  ): void {
     this.atoms.set(atom.type, atom);
+    if (executor) {
+      this.registerExecutor(atom.type, executor);
+    }
+  }
+
+  // Attach or replace the executor for an already registered atom type
+  registerExecutor<P extends Record<string, any> = Record<string, any>>(
+    type: string,
+    executor: AtomExecutor<P>
+  ): void {
+    if (!this.atoms.has(type)) {
+      throw new Error(`Cannot register executor: atom type '${type}' is not registered`);
+    }
+    this.executors.set(type, executor as AtomExecutor);
+  }
+
+  // Get the executor for an atom type
+  getExecutor(type: string): AtomExecutor | undefined {
+    return this.executors.get(type);
+  }
+
+  // Check whether an atom type can be executed locally
+  hasExecutor(type: string): boolean {
+    return this.executors.has(type);
   }
 }
 
@@ -584,4 +640,9 @@ export const atomRegistry = new AtomRegistryService();
 export const getAtomDefinitions = () => atomRegistry.getAtomDefinitions();
 export const getAtomDefinition = (type: string) => atomRegistry.getAtomDefinition(type);
 export const getAtomsByCategory = (category: string) => atomRegistry.getAtomsByCategory(category);
-export const searchAtoms = (query: string) => atomRegistry.searchAtoms(query);
\ No newline at end of file
+export const searchAtoms = (query: string) => atomRegistry.searchAtoms(query);
+export const getAtomExecutor = (type: string) => atomRegistry.getExecutor(type);
+export const registerAtom = <P extends Record<string, any> = Record<string, any>>(
+  atom: AtomDefinition,
+  executor?: AtomExecutor<P>
+) => atomRegistry.registerAtom(atom, executor);
\ No newline at end of file
@@ -0,0 +1,157 @@
+// src/services/DecisionTable.test.ts
+// Covers cell tests, the conditions written for them and the table ⇄ tree round trip
+// Trees built here also run through the interpreter, so a table means the same thing in both views
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, DecisionTable, Rule } from '../types/RuleTypes';
+import {
+  DecisionTableError,
+  buildDecisionTree,
+  buildRowCondition,
+  getCellTestError,
+  getInputError,
+  normalizeCellTest,
+  parseCellValue,
+  readDecisionTable
+} from './DecisionTable';
+import { interpretRule } from './RuleInterpreter';
+
+const event = (id: string, eventName: string): AtomInstance => ({
+  id,
+  type: 'custom_event',
+  position: { x: 0, y: 0 },
+  parameters: { eventName },
+  children: [],
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const shippingTable: DecisionTable = {
+  inputs: [{ expression: 'order.total' }, { expression: 'customer.country' }],
+  rows: [
+    { label: 'Large domestic orders', tests: ['>= 100', '"US"'], actions: [event('atom_20', 'free_shipping')] },
+    { tests: ['[50..100)', '"US", "CA"'], actions: [event('atom_21', 'discounted_shipping'), event('atom_22', 'notify')] },
+    { tests: ['-', 'not("US")'], actions: [] }
+  ],
+  defaultActions: [event('atom_23', 'standard_shipping')]
+};
+
+const strip = (table: DecisionTable) => ({
+  inputs: table.inputs,
+  rows: table.rows.map(({ id: _id, ...row }) => ({ ...row, actions: row.actions.map(action => action.parameters.eventName) })),
+  defaultActions: table.defaultActions.map(action => action.parameters.eventName)
+});
+
+const eventsFor = (root: AtomInstance | null, input: any): string[] => {
+  const rule: Rule = {
+    id: 'rule_table',
+    name: 'Shipping',
+    description: '',
+    rootAtom: root,
+    metadata: { version: '1.0.0', created: '', modified: '', tags: [] }
+  };
+  const result = interpretRule(rule, input);
+  return result.output.actions.map((action: { parameters: { eventName: string } }) => action.parameters.eventName);
+};
+
+describe('cell values and tests', () => {
+  it('parses the literal values cells hold', () => {
+    expect(parseCellValue(' -1.5 ')).toBe(-1.5);
+    expect(parseCellValue('"a \\"quoted\\" word"')).toBe('a "quoted" word');
+    expect(parseCellValue('null')).toBeNull();
+    expect(() => parseCellValue('US')).toThrow(new DecisionTableError('US is not a number, "string", true, false or null'));
+  });
+
+  it.each([
+    ['>=18', '>= 18'],
+    ['=5', '5'],
+    ['!= "x"', 'not("x")'],
+    ['[1..5)', '[1..5)'],
+    ['"US","CA"', '"US", "CA"'],
+    ['not( >3 , <1 )', 'not(> 3, < 1)'],
+    ['', '-']
+  ])('normalizes %j to %j', (text, normalized) => {
+    expect(normalizeCellTest(text)).toBe(normalized);
+  });
+
+  it('explains cells that are not tests', () => {
+    expect(getCellTestError('> US')).toBe('US is not a number, "string", true, false or null');
+    expect(getCellTestError('not()')).toBe('not() needs a test inside it');
+    expect(getCellTestError('[1..5]')).toBeNull();
+  });
+
+  it('checks input columns', () => {
+    expect(getInputError(' ')).toBe('Enter the field or expression this column tests');
+    expect(getInputError('order.total >')).toBe('Input "order.total >" is not a valid expression: Expression ends unexpectedly');
+    expect(getInputError('len(items)')).toBeNull();
+  });
+});
+
+describe('buildRowCondition', () => {
+  const inputs = [{ expression: 'age' }, { expression: 'len(items)' }, { expression: 'country', label: 'Country' }];
+
+  it('joins each cell test with and, skipping cells that match anything', () => {
+    expect(buildRowCondition(inputs, ['(18..65]', '> 2', '-'])).toBe('(age > 18 and age <= 65) and (len(items)) > 2');
+    expect(buildRowCondition(inputs, ['-', '-', '"US", "CA"'])).toBe('country in ["US", "CA"]');
+    expect(buildRowCondition(inputs, ['not(< 18, > 65)', '-', 'not("US")'])).toBe('not ((age < 18 or age > 65)) and country != "US"');
+    expect(buildRowCondition(inputs, ['-', '-', '-'])).toBe('true');
+  });
+
+  it('names the column of an invalid cell', () => {
+    expect(() => buildRowCondition(inputs, ['-', '-', 'US'])).toThrow('Country: US is not a number, "string", true, false or null');
+  });
+});
+
+describe('table ⇄ tree', () => {
+  it('reads back the table it was built from', () => {
+    const root = buildDecisionTree(shippingTable, null);
+    const { table, issues } = readDecisionTable(root);
+    expect(issues).toEqual([]);
+    expect(strip(table!)).toEqual(strip(shippingTable));
+  });
+
+  it('runs the first matching row, and a row without actions skips the default', () => {
+    const root = buildDecisionTree(shippingTable, null);
+    expect(eventsFor(root, { order: { total: 150 }, customer: { country: 'US' } })).toEqual(['free_shipping']);
+    expect(eventsFor(root, { order: { total: 60 }, customer: { country: 'CA' } })).toEqual(['discounted_shipping', 'notify']);
+    expect(eventsFor(root, { order: { total: 20 }, customer: { country: 'FR' } })).toEqual([]);
+    expect(eventsFor(root, { order: { total: 20 }, customer: { country: 'US' } })).toEqual(['standard_shipping']);
+  });
+
+  it('reads a last row with a not(...) test and actions as a row', () => {
+    const table: DecisionTable = {
+      inputs: [{ expression: 'customer.country' }],
+      rows: [{ tests: ['not("US")'], actions: [event('atom_5', 'international')] }],
+      defaultActions: []
+    };
+    const { table: read } = readDecisionTable(buildDecisionTree(table, null));
+    expect(strip(read!)).toEqual(strip(table));
+  });
+
+  it('keeps existing row atoms and numbers new ones after the last issued id', () => {
+    // Rows are built from the last one up, so the first row gets the highest id
+    const root = buildDecisionTree(shippingTable, null, 40)!;
+    const { table } = readDecisionTable(root);
+    expect(table!.rows.map(row => row.id)).toEqual(['atom_43', 'atom_42', 'atom_41']);
+    const edited: DecisionTable = {
+      ...table!,
+      rows: [...table!.rows, { tests: ['< 10', '-'], actions: [event('atom_30', 'small_order')] }]
+    };
+    const rebuilt = buildDecisionTree(edited, root, 43)!;
+    const { table: reread } = readDecisionTable(rebuilt);
+    expect(reread!.rows.map(row => row.id)).toEqual(['atom_43', 'atom_42', 'atom_41', 'atom_44']);
+    expect(rebuilt.position).toBe(root.position);
+  });
+
+  it('explains trees that are not tables', () => {
+    const loop: AtomInstance = { ...event('atom_1', ''), type: 'loop', parameters: { iterateOver: 'items' } };
+    expect(readDecisionTable(loop).issues.map(issue => issue.message)).toEqual([
+      'Tables are If-Then-Else atoms chained through their else branch, but the rule starts with Loop (atom_1)'
+    ]);
+
+    const row: AtomInstance = { ...event('atom_2', ''), type: 'if_then_else', parameters: { condition: 'a > 1 or b > 2' } };
+    expect(readDecisionTable(row)).toMatchObject({
+      table: null,
+      issues: [{ atomId: 'atom_2', message: 'If-Then-Else (atom_2): "a > 1 or b > 2" is not a comparison of one input with values' }]
+    });
+  });
+});
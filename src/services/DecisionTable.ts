@@ -0,0 +1,470 @@
+// src/services/DecisionTable.ts
+// Reads a rule tree as a decision table and writes tables back as trees
+// Rows are if_then_else atoms chained through their else branch: the condition tests the row's cells, the then branch runs its actions
+
+import { AtomInstance, DecisionTable, DecisionTableInput, DecisionTableRow, ValidationIssue } from '../types/RuleTypes';
+import { ExpressionNode, ExpressionSyntaxError, parseExpression } from './ExpressionParser';
+import { getAtomDefinition } from './AtomRegistry';
+import { createIssue } from './ValidationIssues';
+import { findAtomById, highestAtomNumber } from '../utils/atomTree';
+
+export class DecisionTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecisionTableError';
+  }
+}
+
+export type CellValue = string | number | boolean | null;
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+// A cell's unary tests, in the FEEL syntax DMN tables use
+type CellTest =
+  | { kind: 'compare'; operator: ComparisonOperator; value: CellValue }
+  | { kind: 'range'; low: CellValue; high: CellValue; lowInclusive: boolean; highInclusive: boolean }
+  | { kind: 'list'; tests: CellTest[] } // Matches when any test does
+  | { kind: 'not'; test: CellTest };
+
+const COMPARISONS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+const FLIPPED: Record<ComparisonOperator, ComparisonOperator> = { '==': '==', '!=': '!=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+export const ANY_TEST = '-';
+
+export const isActionAtom = (atom: Pick<AtomInstance, 'type'>): boolean =>
+  getAtomDefinition(atom.type)?.category === 'action' || atom.type === 'custom_event';
+
+const describeAtom = (atom: AtomInstance) => `${atom.label || getAtomDefinition(atom.type)?.name || atom.type} (${atom.id})`;
+
+// Cell text
+
+// Values in cells and DMN output entries: numbers, "strings", true, false and null
+export const formatCellValue = (value: CellValue): string => (typeof value === 'string' ? JSON.stringify(value) : String(value));
+
+export const parseCellValue = (text: string): CellValue => {
+  const trimmed = text.trim();
+  if (/^-?(\d+(\.\d*)?|\.\d+)$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed === 'null') return null;
+  if (/^"(?:[^"\\]|\\.)*"$/s.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Escapes JSON doesn't know, reported below
+    }
+  }
+  throw new DecisionTableError(`${trimmed || 'An empty value'} is not a number, "string", true, false or null`);
+};
+
+// Splits on commas that are not inside strings or parentheses
+const splitTests = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '\\') index++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+const parseSingleTest = (text: string): CellTest => {
+  const trimmed = text.trim();
+  const range = /^([[(\]])(.+?)\.\.(.+)([\])[])$/s.exec(trimmed);
+  if (range) {
+    return {
+      kind: 'range',
+      low: parseCellValue(range[2]),
+      high: parseCellValue(range[3]),
+      lowInclusive: range[1] === '[',
+      highInclusive: range[4] === ']'
+    };
+  }
+  const comparison = /^(<=|>=|!=|<|>|=)(.*)$/s.exec(trimmed);
+  if (comparison) {
+    const operator = comparison[1] === '=' ? '==' : comparison[1] as ComparisonOperator;
+    return { kind: 'compare', operator, value: parseCellValue(comparison[2]) };
+  }
+  return { kind: 'compare', operator: '==', value: parseCellValue(trimmed) };
+};
+
+// null for cells that match anything
+const parseCellTest = (text: string): CellTest | null => {
+  const trimmed = text.trim();
+  if (trimmed === '' || trimmed === ANY_TEST) return null;
+  const negated = /^not\s*\((.*)\)$/s.exec(trimmed);
+  if (negated) {
+    const test = parseCellTest(negated[1]);
+    if (!test) throw new DecisionTableError('not() needs a test inside it');
+    return { kind: 'not', test };
+  }
+  const parts = splitTests(trimmed);
+  return parts.length > 1 ? { kind: 'list', tests: parts.map(parseSingleTest) } : parseSingleTest(trimmed);
+};
+
+const formatCellTest = (test: CellTest): string => {
+  switch (test.kind) {
+    case 'compare':
+      if (test.operator === '==') return formatCellValue(test.value);
+      if (test.operator === '!=') return `not(${formatCellValue(test.value)})`;
+      return `${test.operator} ${formatCellValue(test.value)}`;
+    case 'range':
+      return `${test.lowInclusive ? '[' : '('}${formatCellValue(test.low)}..${formatCellValue(test.high)}${test.highInclusive ? ']' : ')'}`;
+    case 'list':
+      return test.tests.map(formatCellTest).join(', ');
+    case 'not':
+      return `not(${formatCellTest(test.test)})`;
+  }
+};
+
+// Error message for a cell, or null when the table can use it
+export const getCellTestError = (text: string): string | null => {
+  try {
+    parseCellTest(text);
+    return null;
+  } catch (error) {
+    if (error instanceof DecisionTableError) return error.message;
+    throw error;
+  }
+};
+
+// Same test in the canonical spelling, e.g. `>=18` becomes `>= 18`
+export const normalizeCellTest = (text: string): string => {
+  const test = parseCellTest(text);
+  return test ? formatCellTest(test) : ANY_TEST;
+};
+
+// Cells to conditions
+
+// Paths are tested as written; anything else is parenthesized so operators bind to the whole input
+const formatSubject = (expression: string): string => {
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(expression);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      throw new DecisionTableError(`Input "${expression}" is not a valid expression: ${error.message}`);
+    }
+    throw error;
+  }
+  return node.kind === 'path' ? node.path : `(${expression.trim()})`;
+};
+
+// Error message for an input column, or null when rows can test it
+export const getInputError = (expression: string): string | null => {
+  if (!expression.trim()) return 'Enter the field or expression this column tests';
+  try {
+    formatSubject(expression);
+    return null;
+  } catch (error) {
+    if (error instanceof DecisionTableError) return error.message;
+    throw error;
+  }
+};
+
+const testToExpression = (subject: string, test: CellTest): string => {
+  switch (test.kind) {
+    case 'compare':
+      return `${subject} ${test.operator} ${formatCellValue(test.value)}`;
+    case 'range':
+      return `(${subject} ${test.lowInclusive ? '>=' : '>'} ${formatCellValue(test.low)} and ${subject} ${test.highInclusive ? '<=' : '<'} ${formatCellValue(test.high)})`;
+    case 'list':
+      return test.tests.every(item => item.kind === 'compare' && item.operator === '==')
+        ? `${subject} in [${test.tests.map(item => formatCellValue((item as { value: CellValue }).value)).join(', ')}]`
+        : `(${test.tests.map(item => testToExpression(subject, item)).join(' or ')})`;
+    case 'not':
+      return test.test.kind === 'compare' && test.test.operator === '=='
+        ? `${subject} != ${formatCellValue(test.test.value)}`
+        : `not (${testToExpression(subject, test.test)})`;
+  }
+};
+
+// Condition of a row's if_then_else atom; `true` when every cell matches anything
+export const buildRowCondition = (inputs: DecisionTableInput[], tests: string[]): string => {
+  const clauses = inputs.flatMap((input, index) => {
+    let test: CellTest | null;
+    try {
+      test = parseCellTest(tests[index] ?? ANY_TEST);
+    } catch (error) {
+      if (error instanceof DecisionTableError) {
+        throw new DecisionTableError(`${input.label || input.expression}: ${error.message}`);
+      }
+      throw error;
+    }
+    return test ? [testToExpression(formatSubject(input.expression), test)] : [];
+  });
+  return clauses.length > 0 ? clauses.join(' and ') : 'true';
+};
+
+// Conditions to cells
+
+const literalOf = (node: ExpressionNode): { value: CellValue } | null => {
+  if (node.kind === 'literal') return { value: node.value };
+  if (node.kind === 'unary' && node.operator === '-' && node.operand.kind === 'literal' && typeof node.operand.value === 'number') {
+    return { value: -node.operand.value };
+  }
+  return null;
+};
+
+const flatten = (node: ExpressionNode, operator: 'and' | 'or'): ExpressionNode[] =>
+  node.kind === 'binary' && node.operator === operator
+    ? [...flatten(node.left, operator), ...flatten(node.right, operator)]
+    : [node];
+
+const isLowerBound = (test: CellTest) => test.kind === 'compare' && (test.operator === '>' || test.operator === '>=');
+const isUpperBound = (test: CellTest) => test.kind === 'compare' && (test.operator === '<' || test.operator === '<=');
+
+// Two tests of one input only fit a cell when they bound it from both sides
+const mergeTests = (subject: string, first: CellTest, second: CellTest): CellTest => {
+  const [low, high] = isLowerBound(first) && isUpperBound(second) ? [first, second]
+    : isLowerBound(second) && isUpperBound(first) ? [second, first]
+    : [null, null];
+  if (low?.kind !== 'compare' || high?.kind !== 'compare') {
+    throw new DecisionTableError(`"${subject}" is tested more than once; a cell holds one test or a range`);
+  }
+  return { kind: 'range', low: low.value, high: high.value, lowInclusive: low.operator === '>=', highInclusive: high.operator === '<=' };
+};
+
+interface SubjectTest {
+  subject: string;
+  test: CellTest;
+}
+
+const readTest = (node: ExpressionNode, source: string): SubjectTest => {
+  const text = source.slice(node.start, node.end);
+  const subjectOf = (side: ExpressionNode) => (side.kind === 'path' ? side.path : source.slice(side.start, side.end));
+
+  if (node.kind === 'binary' && (COMPARISONS as string[]).includes(node.operator)) {
+    const operator = node.operator as ComparisonOperator;
+    const right = literalOf(node.right);
+    const left = literalOf(node.left);
+    if (right && !left) return { subject: subjectOf(node.left), test: { kind: 'compare', operator, value: right.value } };
+    if (left && !right) return { subject: subjectOf(node.right), test: { kind: 'compare', operator: FLIPPED[operator], value: left.value } };
+  }
+
+  if (node.kind === 'binary' && node.operator === 'in' && node.right.kind === 'array' && !literalOf(node.left)) {
+    const values = node.right.elements.map(literalOf);
+    if (values.every(value => value !== null)) {
+      return {
+        subject: subjectOf(node.left),
+        test: { kind: 'list', tests: values.map(value => ({ kind: 'compare', operator: '==', value: value!.value })) }
+      };
+    }
+  }
+
+  if (node.kind === 'binary' && (node.operator === 'or' || node.operator === 'and')) {
+    const parts = flatten(node, node.operator).map(part => readTest(part, source));
+    const subject = parts[0].subject;
+    if (parts.every(part => part.subject === subject)) {
+      if (node.operator === 'or') return { subject, test: { kind: 'list', tests: parts.map(part => part.test) } };
+      if (parts.length === 2) return { subject, test: mergeTests(subject, parts[0].test, parts[1].test) };
+    }
+  }
+
+  if (node.kind === 'unary' && node.operator === 'not') {
+    const inner = readTest(node.operand, source);
+    return { subject: inner.subject, test: { kind: 'not', test: inner.test } };
+  }
+
+  throw new DecisionTableError(`"${text}" is not a comparison of one input with values`);
+};
+
+// Tests by input, in the order the condition mentions them
+const readCondition = (source: string): Map<string, CellTest> => {
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) throw new DecisionTableError(`Condition is not a valid expression: ${error.message}`);
+    throw error;
+  }
+
+  const tests = new Map<string, CellTest>();
+  flatten(node, 'and').forEach(clause => {
+    if (clause.kind === 'literal' && clause.value === true) return;
+    const { subject, test } = readTest(clause, source);
+    const existing = tests.get(subject);
+    tests.set(subject, existing ? mergeTests(subject, existing, test) : test);
+  });
+  return tests;
+};
+
+// `!(x)` with a single branch is how a row without actions is written: the branch holds the rest of the table.
+// `not (x)` is kept for not(...) cells, so a last row testing one input that way still reads as a row with actions.
+const ROW_WITHOUT_ACTIONS = (condition: string) => `!(${condition})`;
+
+const rowWithoutActionsCondition = (source: string): string | null => {
+  try {
+    const node = parseExpression(source);
+    return node.kind === 'unary' && node.operator === 'not' && source[node.start] === '!'
+      ? source.slice(node.operand.start, node.operand.end)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Any negation whose one branch is another row can only be the rest of the table
+const negatedCondition = (source: string): string | null => {
+  try {
+    const node = parseExpression(source);
+    return node.kind === 'unary' && node.operator === 'not' ? source.slice(node.operand.start, node.operand.end) : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface DecisionTableReading {
+  table: DecisionTable | null; // null when the tree can't be shown as a table; issues say why
+  issues: ValidationIssue[];
+}
+
+export const readDecisionTable = (root: AtomInstance | null): DecisionTableReading => {
+  const issues: ValidationIssue[] = [];
+  const problem = (message: string, atom: AtomInstance) =>
+    issues.push(createIssue('error', 'decision_table', message, { atomId: atom.id }));
+
+  // Actions follow one another: each one's only child is the next
+  const readActions = (first: AtomInstance | undefined): AtomInstance[] => {
+    const actions: AtomInstance[] = [];
+    for (let atom = first; atom; atom = atom.children[0]) {
+      if (!isActionAtom(atom)) {
+        problem(`${describeAtom(atom)} is not an action; a row's branch can only hold actions, one after another`, atom);
+        break;
+      }
+      if (atom.children.length > 1) {
+        problem(`${describeAtom(atom)} runs ${atom.children.length} children; actions in a row must follow one another`, atom);
+        break;
+      }
+      actions.push({ ...atom, children: [] });
+    }
+    return actions;
+  };
+
+  const rows: Array<{ atom: AtomInstance; tests: Map<string, CellTest>; actions: AtomInstance[] }> = [];
+  let current: AtomInstance | undefined = root ?? undefined;
+
+  if (current && current.type !== 'if_then_else' && !isActionAtom(current)) {
+    problem(`Tables are If-Then-Else atoms chained through their else branch, but the rule starts with ${describeAtom(current)}`, current);
+    return { table: null, issues };
+  }
+
+  while (current && current.type === 'if_then_else') {
+    const atom: AtomInstance = current;
+    const condition = String(atom.parameters.condition ?? '');
+    if (atom.children.length > 2) {
+      problem(`${describeAtom(atom)} has ${atom.children.length} children; only the first two branches run`, atom);
+    }
+
+    const negated = atom.children.length !== 1 ? null
+      : atom.children[0].type === 'if_then_else' ? negatedCondition(condition)
+      : rowWithoutActionsCondition(condition);
+    const continuesChain = negated !== null;
+    let tests = new Map<string, CellTest>();
+    try {
+      tests = readCondition(continuesChain ? negated! : condition);
+    } catch (error) {
+      if (!(error instanceof DecisionTableError)) throw error;
+      problem(`${describeAtom(atom)}: ${error.message}`, atom);
+    }
+
+    if (continuesChain) {
+      rows.push({ atom, tests, actions: [] });
+      current = atom.children[0];
+    } else {
+      rows.push({ atom, tests, actions: readActions(atom.children[0]) });
+      current = atom.children[1];
+    }
+  }
+  const defaultActions = readActions(current);
+
+  if (issues.length > 0) return { table: null, issues };
+
+  const subjects: string[] = [];
+  rows.forEach(row => row.tests.forEach((_test, subject) => {
+    if (!subjects.includes(subject)) subjects.push(subject);
+  }));
+
+  return {
+    table: {
+      inputs: subjects.map(expression => ({ expression })),
+      rows: rows.map(row => ({
+        id: row.atom.id,
+        ...(row.atom.label ? { label: row.atom.label } : {}),
+        tests: subjects.map(subject => {
+          const test = row.tests.get(subject);
+          return test ? formatCellTest(test) : ANY_TEST;
+        }),
+        actions: row.actions
+      })),
+      defaultActions
+    },
+    issues
+  };
+};
+
+// Writes the table as a tree; atoms already in `existing` keep their ids, positions and metadata.
+// New atoms are numbered after `lastIssued` (see lastAtomNumber) so deleted atoms' ids stay retired.
+// Throws DecisionTableError for cells or inputs that are not valid tests.
+export const buildDecisionTree = (
+  table: DecisionTable,
+  existing: AtomInstance | null,
+  lastIssued = 0
+): AtomInstance | null => {
+  const now = new Date().toISOString();
+  let counter = Math.max(
+    lastIssued,
+    highestAtomNumber(existing),
+    ...[...table.rows.flatMap(row => row.actions), ...table.defaultActions].map(action => highestAtomNumber(action))
+  );
+
+  const rowAtom = (row: DecisionTableRow, condition: string, children: AtomInstance[]): AtomInstance => {
+    const previous = row.id ? findAtomById(existing, row.id) : null;
+    const atom: AtomInstance = previous
+      ? { ...previous, parameters: { ...previous.parameters, condition }, children }
+      : {
+          id: row.id ?? `atom_${++counter}`,
+          type: 'if_then_else',
+          position: { x: 0, y: 0 },
+          parameters: { condition },
+          children,
+          metadata: { created: now, modified: now }
+        };
+    const { label: _label, ...unlabeled } = atom;
+    return row.label ? { ...atom, label: row.label } : unlabeled;
+  };
+
+  const chain = (actions: AtomInstance[]): AtomInstance | null =>
+    actions.reduceRight<AtomInstance | null>((next, action) => ({ ...action, children: next ? [next] : [] }), null);
+
+  let tail = chain(table.defaultActions);
+  [...table.rows].reverse().forEach((row, reversedIndex) => {
+    let condition: string;
+    try {
+      condition = buildRowCondition(table.inputs, row.tests);
+    } catch (error) {
+      if (!(error instanceof DecisionTableError)) throw error;
+      throw new DecisionTableError(`Row ${table.rows.length - reversedIndex}, ${error.message}`);
+    }
+    const then = chain(row.actions);
+    if (!then && tail) {
+      tail = rowAtom(row, ROW_WITHOUT_ACTIONS(condition), [tail]);
+    } else {
+      tail = rowAtom(row, condition, [then, tail].filter((atom): atom is AtomInstance => atom !== null));
+    }
+  });
+  return tail;
+};
@@ -0,0 +1,145 @@
+// src/services/DmnConverter.test.ts
+// Round trips DMN decision tables through rules, checking columns, names, defaults and hit policies
+// Tables are compared through readDecisionTable so atom ids and layout don't matter
+
+import { describe, expect, it } from 'vitest';
+import { Rule } from '../types/RuleTypes';
+import { dmnToRule, ruleToDmn } from './DmnConverter';
+import { readDecisionTable } from './DecisionTable';
+
+const dmn = (table: string, hitPolicy = 'FIRST') => `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="https://www.omg.org/spec/DMN/20191111/MODEL/" id="definitions" name="Pricing">
+  <decision id="decision" name="Customer discount">
+    <description>Discounts by age and country</description>
+    <decisionTable id="table" hitPolicy="${hitPolicy}">
+${table}
+    </decisionTable>
+  </decision>
+</definitions>`;
+
+const inputs = `
+      <input id="input_1" label="Customer age"><inputExpression><text>user.age</text></inputExpression></input>
+      <input id="input_2"><inputExpression><text>user.country</text></inputExpression></input>`;
+
+const row = (tests: string[], outputs: string[], description?: string) => `
+      <rule>${description ? `<description>${description}</description>` : ''}
+        ${tests.map(test => `<inputEntry><text>${test}</text></inputEntry>`).join('')}
+        ${outputs.map(output => `<outputEntry><text>${output}</text></outputEntry>`).join('')}
+      </rule>`;
+
+const discountTable = dmn(`${inputs}
+      <output id="output_1" name="Discount rate" typeRef="number">
+        <defaultOutputEntry><text>0</text></defaultOutputEntry>
+      </output>
+      <output id="output_2" name="send_email.templateId" typeRef="string"/>
+${row(['&gt;= 65', '"US", "CA"'], ['15', '"senior-offer"'], 'North American seniors')}
+${row(['[18..65)', '-'], ['5', ''])}`);
+
+const imported = (xml: string): Rule => {
+  const { rule, validation } = dmnToRule(xml);
+  expect(validation.errors).toEqual([]);
+  return rule!;
+};
+
+const tableOf = (rule: Rule) => {
+  const { table } = readDecisionTable(rule.rootAtom);
+  return {
+    inputs: table!.inputs,
+    rows: table!.rows.map(({ label, tests, actions }) => ({ label, tests, actions: actions.map(({ type, parameters }) => ({ type, parameters })) })),
+    defaultActions: table!.defaultActions.map(({ type, parameters }) => ({ type, parameters }))
+  };
+};
+
+describe('dmnToRule', () => {
+  it('turns rows into if_then_else atoms and outputs into action parameters', () => {
+    const rule = imported(discountTable);
+    expect(rule).toMatchObject({ name: 'Customer discount', description: 'Discounts by age and country', metadata: { tags: ['dmn'] } });
+    expect(tableOf(rule)).toEqual({
+      inputs: [{ expression: 'user.age' }, { expression: 'user.country' }],
+      rows: [
+        {
+          label: 'North American seniors',
+          tests: ['>= 65', '"US", "CA"'],
+          actions: [
+            { type: 'custom_event', parameters: { properties: { 'Discount rate': 15 }, eventName: 'Customer discount' } },
+            { type: 'send_email', parameters: { templateId: 'senior-offer' } }
+          ]
+        },
+        {
+          label: undefined,
+          tests: ['[18..65)', '-'],
+          actions: [{ type: 'custom_event', parameters: { properties: { 'Discount rate': 5 }, eventName: 'Customer discount' } }]
+        }
+      ],
+      defaultActions: [{ type: 'custom_event', parameters: { properties: { 'Discount rate': 0 }, eventName: 'Customer discount' } }]
+    });
+  });
+
+  it('keeps input labels and output names the tree has no place for', () => {
+    expect(imported(discountTable).metadata.dmn).toEqual({
+      inputLabels: { 'user.age': 'Customer age' },
+      outputNames: { 'custom_event.properties.Discount rate': 'Discount rate' }
+    });
+  });
+
+  it('orders rows by output value for the PRIORITY hit policy', () => {
+    const xml = dmn(`${inputs}
+      <output id="output_1" name="tier"><outputValues><text>"gold","silver","bronze"</text></outputValues></output>
+${row(['&gt; 18', '-'], ['"bronze"'])}
+${row(['&gt; 65', '-'], ['"gold"'])}
+${row(['&gt; 40', '-'], ['"silver"'])}`, 'PRIORITY');
+    expect(tableOf(imported(xml)).rows.map(entry => entry.tests[0])).toEqual(['> 65', '> 40', '> 18']);
+  });
+
+  it('warns that collecting hit policies only run the first matching row', () => {
+    const xml = dmn(`${inputs}
+      <output id="output_1" name="tier"/>
+${row(['&gt; 18', '-'], ['"adult"'])}`, 'COLLECT');
+    const { rule, validation } = dmnToRule(xml);
+    expect(rule).not.toBeNull();
+    expect(validation.warnings.map(issue => issue.message)).toEqual([
+      'Hit policy COLLECT collects every matching row, but a rule only runs the first one that matches'
+    ]);
+  });
+
+  it.each([
+    ['<rules/>', 'Expected a DMN <definitions> document, found <rules>'],
+    [dmn(`${inputs}\n      <output name="tier"/>\n${row(['adults', '-'], ['"x"'])}`),
+      'Row 1, input "Customer age": "adults" can\'t be imported (adults is not a number, "string", true, false or null)'],
+    [dmn(`${inputs}\n      <output name="tier"/>\n${row(['-'], ['"x"'])}`),
+      'Row 1 has 1 input and 1 output entries; the table has 2 inputs and 1 outputs'],
+    [dmn(`${inputs}\n      <output name="tier"/>\n${row(['-', '-'], ['upper(x)'])}`),
+      'Row 1, output "tier": only literal values can be imported (upper(x) is not a number, "string", true, false or null)'],
+    [dmn(inputs), 'The decision table has no outputs']
+  ])('rejects %#', (xml, message) => {
+    const { rule, validation } = dmnToRule(xml);
+    expect(rule).toBeNull();
+    expect(validation.errors.map(issue => issue.message)).toContain(message);
+  });
+});
+
+describe('ruleToDmn', () => {
+  it('round trips a table with its labels, output names and default outputs', () => {
+    const rule = imported(discountTable);
+    const { xml, validation } = ruleToDmn(rule);
+    expect(validation.isValid).toBe(true);
+    expect(xml).toContain('<input id="input_1" label="Customer age">');
+    expect(xml).toContain('<output id="output_1" name="Discount rate" typeRef="number">');
+    expect(xml).toContain('<output id="output_2" name="send_email.templateId" typeRef="string"/>');
+    expect(xml).toContain('<decisionTable id="decisionTable" hitPolicy="FIRST">');
+    expect(tableOf(imported(xml!))).toEqual(tableOf(rule));
+    expect(imported(xml!).metadata.dmn).toEqual(rule.metadata.dmn);
+  });
+
+  it('refuses rows that run the same action twice', () => {
+    const rule = imported(discountTable);
+    // Row 1's first action now runs a second Custom Event instead of the email
+    const [firstAction] = rule.rootAtom!.children;
+    firstAction.children = [{ ...firstAction, id: 'atom_99', children: [] }];
+    const { xml, validation } = ruleToDmn(rule);
+    expect(xml).toBeNull();
+    expect(validation.errors.map(issue => issue.message)).toEqual([
+      'Row 1 runs custom_event more than once; a DMN row has one column per parameter'
+    ]);
+  });
+});
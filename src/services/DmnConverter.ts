@@ -0,0 +1,381 @@
+// src/services/DmnConverter.ts
+// Converts DMN 1.3 decision tables to rules and back, through the decision table reading of the atom tree
+// Outputs named <actionType>.<parameter> fill that action's parameters; any other output becomes a Custom Event property
+// Input labels and those other output names are kept in the rule's metadata so exports write them back
+
+import { AtomInstance, DecisionTable, DecisionTableRow, DmnNames, ParameterValue, Rule, ValidationIssue, ValidationResult } from '../types/RuleTypes';
+import { getAtomDefinition } from './AtomRegistry';
+import {
+  ANY_TEST,
+  CellValue,
+  DecisionTableError,
+  buildDecisionTree,
+  formatCellValue,
+  getCellTestError,
+  isActionAtom,
+  parseCellValue,
+  readDecisionTable
+} from './DecisionTable';
+import { createIssue, createValidationResult } from './ValidationIssues';
+import { XmlElement, XmlParseError, escapeXml, getXmlChild, getXmlChildren, parseXml } from '../utils/xml';
+import { layoutAtomTree } from '../utils/treeLayout';
+
+const DMN_NAMESPACE = 'https://www.omg.org/spec/DMN/20191111/MODEL/';
+
+// Only the first matching row runs in a rule, which is what these policies mean as well
+const SINGLE_HIT_POLICIES = ['UNIQUE', 'FIRST', 'ANY', 'PRIORITY'];
+const MULTIPLE_HIT_POLICIES = ['RULE ORDER', 'OUTPUT ORDER', 'COLLECT'];
+
+export interface DmnImportResult {
+  rule: Rule | null; // null when the table has errors
+  validation: ValidationResult;
+}
+
+export interface DmnExportResult {
+  xml: string | null; // null when the rule can't be written as a table
+  validation: ValidationResult;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, ParameterValue> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const textOf = (element: XmlElement | undefined): string => (element ? getXmlChild(element, 'text')?.text ?? element.text : '').trim();
+
+// Target of an output column: an action parameter, or a nested key inside one
+interface OutputTarget {
+  actionType: string;
+  path: string[];
+}
+
+const resolveOutput = (name: string): OutputTarget | null => {
+  const [type, ...path] = name.split('.');
+  return path.length > 0 && path.every(Boolean) && getAtomDefinition(type) && isActionAtom({ type })
+    ? { actionType: type, path }
+    : null;
+};
+
+const setNested = (target: Record<string, any>, path: string[], value: CellValue) => {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  const inner = isPlainObject(target[key]) ? target[key] as Record<string, any> : {};
+  target[key] = inner;
+  setNested(inner, rest, value);
+};
+
+// DMN import
+
+export const dmnToRule = (xml: string): DmnImportResult => {
+  const issues: ValidationIssue[] = [];
+  const error = (message: string) => issues.push(createIssue('error', 'decision_table', message));
+  const warn = (message: string) => issues.push(createIssue('warning', 'decision_table', message));
+  const failed = (): DmnImportResult => ({ rule: null, validation: createValidationResult(issues) });
+
+  let definitions: XmlElement;
+  try {
+    definitions = parseXml(xml);
+  } catch (parseError) {
+    if (!(parseError instanceof XmlParseError)) throw parseError;
+    issues.push(createIssue('error', 'parse_error', `Could not parse DMN: ${parseError.message}`));
+    return failed();
+  }
+  if (definitions.name !== 'definitions') {
+    error(`Expected a DMN <definitions> document, found <${definitions.name}>`);
+    return failed();
+  }
+
+  const decisions = getXmlChildren(definitions, 'decision').filter(decision => getXmlChild(decision, 'decisionTable'));
+  if (decisions.length === 0) {
+    error('The document has no decision with a decision table');
+    return failed();
+  }
+  const decision = decisions[0];
+  const decisionName = decision.attributes.name || decision.attributes.id || definitions.attributes.name || 'Imported Decision';
+  if (decisions.length > 1) {
+    warn(`Only the first decision table was imported ("${decisionName}"); ${decisions.length - 1} more were skipped`);
+  }
+  const tableElement = getXmlChild(decision, 'decisionTable')!;
+
+  const inputs = getXmlChildren(tableElement, 'input').map((input, index) => {
+    const expression = textOf(getXmlChild(input, 'inputExpression'));
+    if (!expression) error(`Input ${index + 1} has no input expression`);
+    return { expression, ...(input.attributes.label ? { label: input.attributes.label } : {}) };
+  });
+
+  const outputs = getXmlChildren(tableElement, 'output').map((output, index) => {
+    const name = output.attributes.name || output.attributes.label || '';
+    if (!name) error(`Output ${index + 1} has no name`);
+    const values = textOf(getXmlChild(output, 'outputValues'));
+    return {
+      name,
+      target: resolveOutput(name),
+      // Allowed values in priority order, used by the PRIORITY hit policy
+      priorities: values ? values.split(',').map(value => value.trim()) : [],
+      defaultEntry: textOf(getXmlChild(output, 'defaultOutputEntry'))
+    };
+  });
+  if (outputs.length === 0) error('The decision table has no outputs');
+
+  // Outputs without an action type are collected into one Custom Event named after the decision
+  const actionTypes: string[] = [];
+  outputs.forEach(output => {
+    const type = output.target?.actionType ?? 'custom_event';
+    if (!actionTypes.includes(type)) actionTypes.push(type);
+  });
+
+  let atomCounter = 0;
+  const now = new Date().toISOString();
+  // Missing or empty entries leave the column's parameter unset; a row sets an action's parameters or skips the action
+  const buildActions = (entries: string[], where: string): AtomInstance[] => {
+    const parameters = new Map<string, Record<string, any>>();
+    entries.forEach((entry, index) => {
+      const output = outputs[index];
+      if (!output || entry === '' || entry === ANY_TEST) return;
+      let value: CellValue;
+      try {
+        value = parseCellValue(entry);
+      } catch (cellError) {
+        if (!(cellError instanceof DecisionTableError)) throw cellError;
+        error(`${where}, output "${output.name}": only literal values can be imported (${cellError.message})`);
+        return;
+      }
+      const type = output.target?.actionType ?? 'custom_event';
+      const target = parameters.get(type) ?? {};
+      parameters.set(type, target);
+      if (output.target) {
+        setNested(target, output.target.path, value);
+      } else {
+        setNested(target, ['properties', output.name], value);
+      }
+    });
+    const event = parameters.get('custom_event');
+    if (event && event.eventName === undefined) event.eventName = decisionName;
+    return actionTypes.filter(type => parameters.has(type)).map(type => ({
+      id: `atom_${++atomCounter}`,
+      type,
+      position: { x: 0, y: 0 },
+      parameters: parameters.get(type)!,
+      children: [],
+      metadata: { created: now, modified: now }
+    }));
+  };
+
+  const rows: Array<DecisionTableRow & { outputEntries: string[] }> = getXmlChildren(tableElement, 'rule').map((ruleElement, index) => {
+    const where = `Row ${index + 1}`;
+    const tests = getXmlChildren(ruleElement, 'inputEntry').map(textOf);
+    const outputEntries = getXmlChildren(ruleElement, 'outputEntry').map(textOf);
+    if (tests.length !== inputs.length || outputEntries.length !== outputs.length) {
+      error(`${where} has ${tests.length} input and ${outputEntries.length} output entries; the table has ${inputs.length} inputs and ${outputs.length} outputs`);
+    }
+    tests.forEach((test, column) => {
+      const cellError = getCellTestError(test);
+      if (cellError) error(`${where}, input "${inputs[column]?.label || inputs[column]?.expression}": "${test}" can't be imported (${cellError})`);
+    });
+    const description = textOf(getXmlChild(ruleElement, 'description'));
+    return {
+      ...(description ? { label: description } : {}),
+      tests,
+      actions: buildActions(outputEntries, where),
+      outputEntries
+    };
+  });
+
+  const hitPolicy = (tableElement.attributes.hitPolicy || 'UNIQUE').trim().toUpperCase();
+  if (MULTIPLE_HIT_POLICIES.includes(hitPolicy)) {
+    const aggregation = tableElement.attributes.aggregation ? ` with ${tableElement.attributes.aggregation} aggregation` : '';
+    warn(`Hit policy ${hitPolicy}${aggregation} collects every matching row, but a rule only runs the first one that matches`);
+  } else if (!SINGLE_HIT_POLICIES.includes(hitPolicy)) {
+    error(`Unknown hit policy "${hitPolicy}"`);
+  } else if (hitPolicy === 'PRIORITY') {
+    const ranked = outputs.map((output, index) => ({ ...output, index })).filter(output => output.priorities.length > 0);
+    if (ranked.length === 0) {
+      warn('Hit policy PRIORITY needs output values to rank rows; rows were kept in table order');
+    } else {
+      // Earlier allowed values win; ties fall through to the next ranked output, then to table order
+      const rank = (row: typeof rows[number]) => ranked.map(output => {
+        const position = output.priorities.indexOf(row.outputEntries[output.index]);
+        return position === -1 ? output.priorities.length : position;
+      });
+      rows.sort((a, b) => {
+        const rankA = rank(a);
+        const rankB = rank(b);
+        const difference = rankA.findIndex((value, index) => value !== rankB[index]);
+        return difference === -1 ? 0 : rankA[difference] - rankB[difference];
+      });
+    }
+  }
+
+  const defaultEntries = outputs.map(output => output.defaultEntry);
+  const table: DecisionTable = {
+    inputs,
+    rows: rows.map(({ outputEntries: _entries, ...row }) => row),
+    defaultActions: defaultEntries.some(Boolean) ? buildActions(defaultEntries, 'Default output') : []
+  };
+
+  if (issues.some(issue => issue.severity === 'error')) return failed();
+
+  let rootAtom: AtomInstance | null;
+  try {
+    rootAtom = buildDecisionTree(table, null);
+  } catch (treeError) {
+    if (!(treeError instanceof DecisionTableError)) throw treeError;
+    error(treeError.message);
+    return failed();
+  }
+
+  const names: DmnNames = {};
+  inputs.forEach(input => {
+    if (input.label) names.inputLabels = { ...names.inputLabels, [input.expression]: input.label };
+  });
+  outputs.forEach(output => {
+    if (!output.target) names.outputNames = { ...names.outputNames, [`custom_event.properties.${output.name}`]: output.name };
+  });
+
+  const description = textOf(getXmlChild(decision, 'description'));
+  return {
+    rule: {
+      id: '',
+      name: decisionName,
+      description,
+      rootAtom: rootAtom ? layoutAtomTree(rootAtom, { origin: { x: 100, y: 100 } }) : null,
+      metadata: {
+        version: '1.0.0',
+        created: now,
+        modified: now,
+        tags: ['dmn'],
+        ...(names.inputLabels || names.outputNames ? { dmn: names } : {})
+      }
+    },
+    validation: createValidationResult(issues)
+  };
+};
+
+// DMN export
+
+// Parameter values as output columns, objects flattened to dotted keys
+const flattenParameters = (
+  value: ParameterValue | null,
+  path: string[],
+  columns: Map<string, CellValue>,
+  problem: (message: string) => void
+) => {
+  if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, inner]) => flattenParameters(inner, [...path, key], columns, problem));
+  } else if (Array.isArray(value)) {
+    problem(`${path.join('.')} is a list, which a DMN output entry can't hold`);
+  } else if (value === null || typeof value !== 'object') {
+    columns.set(path.join('.'), value);
+  }
+};
+
+const inferTypeRef = (values: CellValue[]): string | null => {
+  const types = new Set(values.filter(value => value !== null).map(value => typeof value));
+  if (types.size !== 1) return null;
+  return ({ string: 'string', number: 'number', boolean: 'boolean' } as Record<string, string>)[[...types][0]] ?? null;
+};
+
+const attributes = (values: Record<string, string | null | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(value!)}"`)
+    .join('');
+
+export const ruleToDmn = (rule: Rule): DmnExportResult => {
+  const { table, issues } = readDecisionTable(rule.rootAtom);
+  const failed = (): DmnExportResult => ({ xml: null, validation: createValidationResult(issues) });
+  if (!table) return failed();
+
+  const problem = (message: string, atomId?: string) =>
+    issues.push(createIssue('error', 'decision_table', message, atomId ? { atomId } : {}));
+
+  // Output columns in order of first use, each keyed by <actionType>.<parameter path>
+  const columns: string[] = [];
+  const readActions = (actions: AtomInstance[], where: string): Map<string, CellValue> => {
+    const values = new Map<string, CellValue>();
+    const seen = new Set<string>();
+    actions.forEach(action => {
+      if (seen.has(action.type)) {
+        problem(`${where} runs ${action.type} more than once; a DMN row has one column per parameter`, action.id);
+        return;
+      }
+      seen.add(action.type);
+      const actionValues = new Map<string, CellValue>();
+      flattenParameters(action.parameters, [action.type], actionValues, message => problem(`${where}, ${message}`, action.id));
+      // Imports name events after the decision, so the column is only needed for other names
+      if (action.type === 'custom_event' && action.parameters.eventName === rule.name && actionValues.size > 1) {
+        actionValues.delete('custom_event.eventName');
+      }
+      if (actionValues.size === 0) {
+        problem(`${where}: ${action.type} (${action.id}) has no parameters, so no output column would show it`, action.id);
+      }
+      actionValues.forEach((value, column) => {
+        if (!columns.includes(column)) columns.push(column);
+        values.set(column, value);
+      });
+    });
+    return values;
+  };
+
+  const rowValues = table.rows.map((row, index) => readActions(row.actions, `Row ${index + 1}`));
+  const defaultValues = readActions(table.defaultActions, 'The default branch');
+  if (issues.some(issue => issue.severity === 'error')) return failed();
+
+  const cell = (value: CellValue | undefined) => (value === undefined ? '' : formatCellValue(value));
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<definitions xmlns="${DMN_NAMESPACE}"${attributes({ id: 'definitions', name: rule.name, namespace: 'https://kairos.dev/rules' })}>`,
+    `  <decision${attributes({ id: 'decision', name: rule.name })}>`,
+    ...(rule.description ? [`    <description>${escapeXml(rule.description)}</description>`] : []),
+    // Rows are tried top to bottom like the if_then_else chain
+    `    <decisionTable id="decisionTable" hitPolicy="FIRST">`
+  ];
+
+  const names = rule.metadata.dmn ?? {};
+  table.inputs.forEach((input, index) => {
+    const label = input.label ?? names.inputLabels?.[input.expression];
+    lines.push(
+      `      <input${attributes({ id: `input_${index + 1}`, label })}>`,
+      `        <inputExpression id="inputExpression_${index + 1}">`,
+      `          <text>${escapeXml(input.expression)}</text>`,
+      `        </inputExpression>`,
+      `      </input>`
+    );
+  });
+
+  columns.forEach((column, index) => {
+    const typeRef = inferTypeRef([...rowValues, defaultValues].flatMap(values => (values.has(column) ? [values.get(column)!] : [])));
+    const fallback = defaultValues.get(column);
+    lines.push(
+      `      <output${attributes({ id: `output_${index + 1}`, name: names.outputNames?.[column] ?? column, typeRef })}${fallback === undefined ? '/>' : '>'}`,
+      ...(fallback === undefined
+        ? []
+        : [
+            `        <defaultOutputEntry id="defaultOutputEntry_${index + 1}">`,
+            `          <text>${escapeXml(cell(fallback))}</text>`,
+            `        </defaultOutputEntry>`,
+            `      </output>`
+          ])
+    );
+  });
+
+  table.rows.forEach((row, rowIndex) => {
+    lines.push(`      <rule${attributes({ id: row.id ?? `rule_${rowIndex + 1}` })}>`);
+    if (row.label) lines.push(`        <description>${escapeXml(row.label)}</description>`);
+    row.tests.forEach((test, column) => {
+      lines.push(`        <inputEntry id="inputEntry_${rowIndex + 1}_${column + 1}">`, `          <text>${escapeXml(test)}</text>`, `        </inputEntry>`);
+    });
+    columns.forEach((column, index) => {
+      lines.push(
+        `        <outputEntry id="outputEntry_${rowIndex + 1}_${index + 1}">`,
+        `          <text>${escapeXml(cell(rowValues[rowIndex].get(column)))}</text>`,
+        `        </outputEntry>`
+      );
+    });
+    lines.push(`      </rule>`);
+  });
+
+  lines.push(`    </decisionTable>`, `  </decision>`, `</definitions>`, '');
+  return { xml: lines.join('\n'), validation: createValidationResult(issues) };
+};
@@ -0,0 +1,112 @@
+// src/services/ExpressionCompletions.ts
+// Autocomplete suggestions for the expression editor
+// Suggests schema fields, loop variables, functions and keywords for the word under the cursor
+
+import { EXPRESSION_FUNCTIONS, ExpressionType, formatType } from './ExpressionFunctions';
+import { ExpressionContext, schemaToType } from './ExpressionTypeChecker';
+
+export type ExpressionCompletionKind = 'field' | 'variable' | 'function' | 'keyword';
+
+export interface ExpressionCompletion {
+  label: string;
+  kind: ExpressionCompletionKind;
+  detail?: string;
+  insertText: string;
+}
+
+export interface ExpressionCompletionResult {
+  items: ExpressionCompletion[];
+  // Range of the text the chosen completion replaces
+  from: number;
+  to: number;
+}
+
+const OPERATOR_KEYWORDS = ['and', 'or', 'not', 'in'];
+const LITERAL_KEYWORDS = ['true', 'false', 'null'];
+const MAX_COMPLETIONS = 50;
+
+const isWordChar = (char: string) => /[\w$]/.test(char);
+
+// Type of the object a dotted path such as `user.address` points at, or null if it cannot be known
+const resolveOwner = (segments: string[], context: ExpressionContext): ExpressionType | null => {
+  const [root, ...rest] = segments;
+  let current: ExpressionType | undefined = context.variables?.[root];
+
+  if (!current) {
+    const schemaRoot = schemaToType(context.schema);
+    current = schemaRoot.kind === 'object' ? schemaRoot.properties[root] : undefined;
+  }
+
+  for (const segment of rest) {
+    if (!current) return null;
+    if (current.kind === 'array' && /^\d+$/.test(segment)) current = current.element;
+    else if (current.kind === 'object') current = current.properties[segment];
+    else return null;
+  }
+  return current ?? null;
+};
+
+const fieldCompletions = (owner: ExpressionType | null): ExpressionCompletion[] => {
+  if (owner?.kind !== 'object') return [];
+  return Object.entries(owner.properties).map(([name, type]) => ({
+    label: name,
+    kind: 'field',
+    detail: formatType(type),
+    insertText: name
+  }));
+};
+
+export const getExpressionCompletions = (
+  text: string,
+  cursor: number,
+  context: ExpressionContext = {}
+): ExpressionCompletionResult => {
+  let from = cursor;
+  while (from > 0 && isWordChar(text[from - 1])) from--;
+  let to = cursor;
+  while (to < text.length && isWordChar(text[to])) to++;
+
+  const prefix = text.slice(from, cursor).toLowerCase();
+
+  // Inside a string literal there is nothing to complete
+  const before = text.slice(0, from);
+  const quotes = (before.match(/"/g)?.length ?? 0) + (before.match(/'/g)?.length ?? 0);
+  if (quotes % 2 === 1) return { items: [], from, to };
+
+  let candidates: ExpressionCompletion[];
+
+  if (text[from - 1] === '.') {
+    // Member access: walk back over the dotted path before the dot, e.g. `user.address.`
+    const pathMatch = /([A-Za-z_$][\w$]*(?:\.[\w$]+|\[\d+\])*)\.$/.exec(text.slice(0, from));
+    const segments = pathMatch ? pathMatch[1].replace(/\[(\d+)\]/g, '.$1').split('.') : [];
+    candidates = segments.length > 0 ? fieldCompletions(resolveOwner(segments, context)) : [];
+  } else {
+    const variables = Object.entries(context.variables ?? {}).map(([name, type]): ExpressionCompletion => ({
+      label: name,
+      kind: 'variable',
+      detail: formatType(type),
+      insertText: name
+    }));
+    const fields = fieldCompletions(schemaToType(context.schema))
+      .filter(field => !context.variables?.[field.label]);
+    const functions = Object.entries(EXPRESSION_FUNCTIONS).map(([name, fn]): ExpressionCompletion => ({
+      label: name,
+      kind: 'function',
+      detail: fn.signature,
+      insertText: `${name}(`
+    }));
+    const keywords = [...OPERATOR_KEYWORDS, ...LITERAL_KEYWORDS].map((keyword): ExpressionCompletion => ({
+      label: keyword,
+      kind: 'keyword',
+      detail: LITERAL_KEYWORDS.includes(keyword) ? 'literal' : 'operator',
+      insertText: keyword
+    }));
+    candidates = [...variables, ...fields, ...functions, ...keywords];
+  }
+
+  const items = candidates
+    .filter(item => item.label.toLowerCase().startsWith(prefix) && item.label !== text.slice(from, to))
+    .slice(0, MAX_COMPLETIONS);
+
+  return { items, from, to };
+};
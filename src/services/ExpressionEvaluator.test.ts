@@ -0,0 +1,93 @@
+// src/services/ExpressionEvaluator.test.ts
+// Covers operator semantics, built-in functions and the runtime errors raised for bad values
+// Paths resolve against a plain input object the way the interpreter's execution context does
+
+import { describe, expect, it } from 'vitest';
+import { readPath } from '../utils/objectPath';
+import { ExpressionEnvironment, ExpressionRuntimeError, evaluateExpression } from './ExpressionEvaluator';
+import { ExpressionSyntaxError } from './ExpressionParser';
+
+const NOW = Date.parse('2024-03-10T00:00:00.000Z');
+
+const input = {
+  user: { age: 70, name: 'Ada', tags: ['vip', 'beta'], joined: '2024-03-01T00:00:00.000Z' },
+  orders: [{ total: 120 }, { total: 30.5 }],
+  empty: null
+};
+
+const environment: ExpressionEnvironment = { resolve: path => readPath(input, path), now: () => NOW };
+
+const evaluate = (source: string) => evaluateExpression(source, environment);
+
+const runtimeError = (source: string): ExpressionRuntimeError => {
+  try {
+    evaluate(source);
+  } catch (error) {
+    if (error instanceof ExpressionRuntimeError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" to fail at runtime`);
+};
+
+describe('evaluateExpression', () => {
+  it('reads fields through the environment', () => {
+    expect(evaluate('user.age >= 65 and user.name == "Ada"')).toBe(true);
+    expect(evaluate('orders[1].total')).toBe(30.5);
+  });
+
+  it('applies arithmetic precedence and joins text with +', () => {
+    expect(evaluate('1 + 2 * 3 - 4 % 3')).toBe(6);
+    expect(evaluate('"Hi " + user.name')).toBe('Hi Ada');
+  });
+
+  it('treats missing values as null when checking equality', () => {
+    expect(evaluate('user.email == null')).toBe(true);
+    expect(evaluate('empty != null')).toBe(false);
+  });
+
+  it('compares lists and objects by value', () => {
+    expect(evaluate('user.tags == ["vip", "beta"]')).toBe(true);
+    expect(evaluate('"beta" in user.tags')).toBe(true);
+    expect(evaluate('"da" in user.name')).toBe(true);
+  });
+
+  it('short-circuits and and or', () => {
+    expect(evaluate('false and missing.total > 1')).toBe(false);
+    expect(evaluate('true or missing.total > 1')).toBe(true);
+  });
+
+  it('evaluates the built-in functions', () => {
+    expect(evaluate('len(user.tags) + len(user.name)')).toBe(5);
+    expect(evaluate('round(sum([orders[0].total, orders[1].total]) / 3, 2)')).toBe(50.17);
+    expect(evaluate('max(1, abs(-7), 3)')).toBe(7);
+    expect(evaluate('coalesce(empty, user.nickname, "none")')).toBe('none');
+    expect(evaluate('daysSince(user.joined)')).toBe(9);
+    expect(evaluate('startsWith(lower(user.name), "ad")')).toBe(true);
+  });
+
+  it('raises runtime errors at the offending node', () => {
+    expect(runtimeError('user.missing > 3')).toMatchObject({
+      message: 'Cannot compare a missing value with 3',
+      start: 0,
+      end: 16
+    });
+    expect(runtimeError('user.age / (2 - 2)')).toMatchObject({ message: 'Division by zero', start: 11, end: 18 });
+    expect(runtimeError('-user.name').message).toBe('Cannot negate "Ada"');
+    expect(runtimeError('user.age in 5')).toMatchObject({ message: '"in" needs a list or text but got 5', start: 12 });
+    expect(runtimeError('user.tags * 2').message).toBe('"*" needs numbers but got ["vip","beta"] and 2');
+  });
+
+  it('wraps function failures and unknown functions', () => {
+    expect(runtimeError('upper(user.age)')).toMatchObject({ start: 0, end: 15 });
+    expect(runtimeError('size(user.tags)')).toMatchObject({ message: 'Unknown function "size"', start: 0, end: 4 });
+  });
+
+  it('rejects calls with the wrong number of arguments, as the type checker does', () => {
+    expect(runtimeError('len()')).toMatchObject({ message: 'len() takes 1 argument but got 0', start: 0, end: 5 });
+    expect(runtimeError('round(1, 2, 3)').message).toBe('round() takes 1 to 2 arguments but got 3');
+  });
+
+  it('lets syntax errors through unchanged', () => {
+    expect(() => evaluate('user.age >')).toThrow(ExpressionSyntaxError);
+  });
+});
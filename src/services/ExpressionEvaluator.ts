@@ -0,0 +1,131 @@
+// src/services/ExpressionEvaluator.ts
+// Runtime evaluation of condition expressions for the local interpreter
+// Field paths are resolved through the atom execution context, so loop scopes and variables apply
+
+import { ExpressionNode, parseExpression } from './ExpressionParser';
+import { EXPRESSION_FUNCTIONS, ExpressionRuntime, getArityError, valuesEqual } from './ExpressionFunctions';
+
+export interface ExpressionEnvironment extends ExpressionRuntime {
+  resolve: (path: string) => any;
+}
+
+export class ExpressionRuntimeError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'ExpressionRuntimeError';
+  }
+}
+
+// Expressions are re-evaluated for every loop item, so parsed trees are kept per source text
+const MAX_CACHED_EXPRESSIONS = 500;
+const astCache = new Map<string, ExpressionNode>();
+
+const parseCached = (source: string): ExpressionNode => {
+  let ast = astCache.get(source);
+  if (!ast) {
+    ast = parseExpression(source);
+    if (astCache.size >= MAX_CACHED_EXPRESSIONS) astCache.delete(astCache.keys().next().value as string);
+    astCache.set(source, ast);
+  }
+  return ast;
+};
+
+const describe = (value: any) => (value === undefined ? 'a missing value' : JSON.stringify(value));
+
+const compare = (node: ExpressionNode, left: any, right: any): number => {
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    throw new ExpressionRuntimeError(`Cannot compare ${describe(left)} with ${describe(right)}`, node.start, node.end);
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const arithmetic = (node: Extract<ExpressionNode, { kind: 'binary' }>, left: any, right: any): any => {
+  if (node.operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+    return `${left ?? ''}${right ?? ''}`;
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new ExpressionRuntimeError(
+      `"${node.operator}" needs numbers but got ${describe(left)} and ${describe(right)}`,
+      node.start,
+      node.end
+    );
+  }
+
+  switch (node.operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    default:
+      if (right === 0) throw new ExpressionRuntimeError('Division by zero', node.right.start, node.right.end);
+      return node.operator === '/' ? left / right : left % right;
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, environment: ExpressionEnvironment): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return environment.resolve(node.path);
+
+    case 'array':
+      return node.elements.map(element => evaluateNode(element, environment));
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, environment);
+      if (node.operator === 'not') return !operand;
+      if (typeof operand !== 'number') {
+        throw new ExpressionRuntimeError(`Cannot negate ${describe(operand)}`, node.start, node.end);
+      }
+      return -operand;
+    }
+
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      if (!fn) throw new ExpressionRuntimeError(`Unknown function "${node.name}"`, node.start, node.nameEnd);
+      const arityError = getArityError(node.name, fn, node.args.length);
+      if (arityError) throw new ExpressionRuntimeError(arityError, node.start, node.end);
+      const args = node.args.map(arg => evaluateNode(arg, environment));
+      try {
+        return fn.evaluate(args, environment);
+      } catch (error) {
+        throw new ExpressionRuntimeError(error instanceof Error ? error.message : String(error), node.start, node.end);
+      }
+    }
+
+    case 'binary': {
+      // Short-circuit before evaluating the right-hand side
+      if (node.operator === 'and') {
+        return Boolean(evaluateNode(node.left, environment)) && Boolean(evaluateNode(node.right, environment));
+      }
+      if (node.operator === 'or') {
+        return Boolean(evaluateNode(node.left, environment)) || Boolean(evaluateNode(node.right, environment));
+      }
+
+      const left = evaluateNode(node.left, environment);
+      const right = evaluateNode(node.right, environment);
+
+      switch (node.operator) {
+        case '==': return valuesEqual(left ?? null, right ?? null);
+        case '!=': return !valuesEqual(left ?? null, right ?? null);
+        case '<': return compare(node, left, right) < 0;
+        case '<=': return compare(node, left, right) <= 0;
+        case '>': return compare(node, left, right) > 0;
+        case '>=': return compare(node, left, right) >= 0;
+        case 'in':
+          if (Array.isArray(right)) return right.some(item => valuesEqual(item, left));
+          if (typeof right === 'string') return typeof left === 'string' && right.includes(left);
+          throw new ExpressionRuntimeError(`"in" needs a list or text but got ${describe(right)}`, node.right.start, node.right.end);
+        default:
+          return arithmetic(node, left, right);
+      }
+    }
+  }
+};
+
+// Throws ExpressionSyntaxError for malformed source and ExpressionRuntimeError for bad values
+export const evaluateExpression = (source: string, environment: ExpressionEnvironment): any =>
+  evaluateNode(parseCached(String(source ?? '')), environment);
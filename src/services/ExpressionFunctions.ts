@@ -0,0 +1,231 @@
+// src/services/ExpressionFunctions.ts
+// Value types and built-in functions of the condition expression language
+// Shared by the type checker, the evaluator and editor autocomplete
+
+export type ExpressionTypeKind = 'any' | 'null' | 'boolean' | 'number' | 'string' | 'array' | 'object';
+
+export type ExpressionType =
+  | { kind: 'any' | 'null' | 'boolean' | 'number' | 'string' }
+  | { kind: 'array'; element: ExpressionType }
+  | { kind: 'object'; properties: Record<string, ExpressionType>; closed: boolean };
+
+export const types = {
+  any: { kind: 'any' } as ExpressionType,
+  null: { kind: 'null' } as ExpressionType,
+  boolean: { kind: 'boolean' } as ExpressionType,
+  number: { kind: 'number' } as ExpressionType,
+  string: { kind: 'string' } as ExpressionType,
+  arrayOf: (element: ExpressionType): ExpressionType => ({ kind: 'array', element }),
+  // Closed objects come from a schema with declared properties; unknown fields are then an error
+  object: (properties: Record<string, ExpressionType> = {}, closed = false): ExpressionType =>
+    ({ kind: 'object', properties, closed })
+};
+
+export const formatType = (type: ExpressionType): string => {
+  if (type.kind === 'array') return type.element.kind === 'any' ? 'array' : `array of ${formatType(type.element)}`;
+  return type.kind;
+};
+
+// `any` is compatible with everything, in both directions
+export const acceptsType = (accepted: ExpressionTypeKind[], actual: ExpressionType): boolean =>
+  actual.kind === 'any' || accepted.includes('any') || accepted.includes(actual.kind);
+
+export interface ExpressionRuntime {
+  now: () => number;
+}
+
+export interface ExpressionFunction {
+  description: string;
+  signature: string; // Shown in autocomplete
+  // Accepted kinds for each argument; with `variadic` the last entry repeats
+  params: ExpressionTypeKind[][];
+  minArgs?: number; // Defaults to params.length
+  variadic?: boolean;
+  returns: ExpressionType | ((args: ExpressionType[]) => ExpressionType);
+  evaluate: (args: any[], runtime: ExpressionRuntime) => any;
+}
+
+// Error message for a call with the wrong number of arguments, or null when the count fits
+export const getArityError = (name: string, fn: ExpressionFunction, argCount: number): string | null => {
+  const minArgs = fn.minArgs ?? fn.params.length;
+  const maxArgs = fn.variadic ? Infinity : fn.params.length;
+  if (argCount >= minArgs && argCount <= maxArgs) return null;
+  const expected = minArgs === maxArgs
+    ? `${minArgs}`
+    : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+  return `${name}() takes ${expected} argument${expected === '1' ? '' : 's'} but got ${argCount}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const requireNumber = (value: any, name: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${name}() expects a number but got ${value === undefined ? 'nothing' : JSON.stringify(value)}`);
+  }
+  return value;
+};
+
+const requireString = (value: any, name: string): string => {
+  if (typeof value !== 'string') {
+    throw new Error(`${name}() expects text but got ${value === undefined ? 'nothing' : JSON.stringify(value)}`);
+  }
+  return value;
+};
+
+const toTimestamp = (value: any): number => {
+  const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(timestamp)) throw new Error(`daysSince() expects a date but got ${JSON.stringify(value)}`);
+  return timestamp;
+};
+
+export const valuesEqual = (left: any, right: any): boolean => {
+  if (left === right) return true;
+  if (typeof left === 'object' && typeof right === 'object' && left !== null && right !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return false;
+};
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  len: {
+    description: 'Number of characters in text or items in a list',
+    signature: 'len(value: string | array): number',
+    params: [['string', 'array']],
+    returns: types.number,
+    evaluate: ([value]) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value === undefined || value === null) return 0;
+      throw new Error(`len() expects text or a list but got ${JSON.stringify(value)}`);
+    }
+  },
+  lower: {
+    description: 'Text in lower case',
+    signature: 'lower(text: string): string',
+    params: [['string']],
+    returns: types.string,
+    evaluate: ([text]) => requireString(text, 'lower').toLowerCase()
+  },
+  upper: {
+    description: 'Text in upper case',
+    signature: 'upper(text: string): string',
+    params: [['string']],
+    returns: types.string,
+    evaluate: ([text]) => requireString(text, 'upper').toUpperCase()
+  },
+  trim: {
+    description: 'Text without leading and trailing whitespace',
+    signature: 'trim(text: string): string',
+    params: [['string']],
+    returns: types.string,
+    evaluate: ([text]) => requireString(text, 'trim').trim()
+  },
+  contains: {
+    description: 'Whether text contains a substring or a list contains an item',
+    signature: 'contains(haystack: string | array, needle: any): boolean',
+    params: [['string', 'array'], ['any']],
+    returns: types.boolean,
+    evaluate: ([haystack, needle]) => {
+      if (Array.isArray(haystack)) return haystack.some(item => valuesEqual(item, needle));
+      if (typeof haystack === 'string') return haystack.includes(String(needle));
+      return false;
+    }
+  },
+  startsWith: {
+    description: 'Whether text starts with a prefix',
+    signature: 'startsWith(text: string, prefix: string): boolean',
+    params: [['string'], ['string']],
+    returns: types.boolean,
+    evaluate: ([text, prefix]) => typeof text === 'string' && text.startsWith(requireString(prefix, 'startsWith'))
+  },
+  endsWith: {
+    description: 'Whether text ends with a suffix',
+    signature: 'endsWith(text: string, suffix: string): boolean',
+    params: [['string'], ['string']],
+    returns: types.boolean,
+    evaluate: ([text, suffix]) => typeof text === 'string' && text.endsWith(requireString(suffix, 'endsWith'))
+  },
+  abs: {
+    description: 'Absolute value',
+    signature: 'abs(value: number): number',
+    params: [['number']],
+    returns: types.number,
+    evaluate: ([value]) => Math.abs(requireNumber(value, 'abs'))
+  },
+  round: {
+    description: 'Rounds to the given number of decimal places (default 0)',
+    signature: 'round(value: number, digits?: number): number',
+    params: [['number'], ['number']],
+    minArgs: 1,
+    returns: types.number,
+    evaluate: ([value, digits = 0]) => {
+      const factor = 10 ** requireNumber(digits, 'round');
+      return Math.round(requireNumber(value, 'round') * factor) / factor;
+    }
+  },
+  floor: {
+    description: 'Largest whole number less than or equal to the value',
+    signature: 'floor(value: number): number',
+    params: [['number']],
+    returns: types.number,
+    evaluate: ([value]) => Math.floor(requireNumber(value, 'floor'))
+  },
+  ceil: {
+    description: 'Smallest whole number greater than or equal to the value',
+    signature: 'ceil(value: number): number',
+    params: [['number']],
+    returns: types.number,
+    evaluate: ([value]) => Math.ceil(requireNumber(value, 'ceil'))
+  },
+  min: {
+    description: 'Smallest of the given numbers',
+    signature: 'min(value: number, ...values: number): number',
+    params: [['number']],
+    variadic: true,
+    returns: types.number,
+    evaluate: args => Math.min(...args.map(arg => requireNumber(arg, 'min')))
+  },
+  max: {
+    description: 'Largest of the given numbers',
+    signature: 'max(value: number, ...values: number): number',
+    params: [['number']],
+    variadic: true,
+    returns: types.number,
+    evaluate: args => Math.max(...args.map(arg => requireNumber(arg, 'max')))
+  },
+  sum: {
+    description: 'Total of a list of numbers',
+    signature: 'sum(values: array): number',
+    params: [['array']],
+    returns: types.number,
+    evaluate: ([values]) => (Array.isArray(values) ? values : []).reduce((total, value) => total + requireNumber(value, 'sum'), 0)
+  },
+  exists: {
+    description: 'Whether a value is present (not missing or null)',
+    signature: 'exists(value: any): boolean',
+    params: [['any']],
+    returns: types.boolean,
+    evaluate: ([value]) => value !== undefined && value !== null
+  },
+  coalesce: {
+    description: 'First value that is present',
+    signature: 'coalesce(value: any, ...fallbacks: any): any',
+    params: [['any']],
+    variadic: true,
+    returns: args => args.find(arg => arg.kind !== 'any' && arg.kind !== 'null') ?? types.any,
+    evaluate: args => args.find(arg => arg !== undefined && arg !== null) ?? null
+  },
+  now: {
+    description: 'Current time in milliseconds since the epoch',
+    signature: 'now(): number',
+    params: [],
+    returns: types.number,
+    evaluate: (_args, runtime) => runtime.now()
+  },
+  daysSince: {
+    description: 'Whole days between a date (ISO text or epoch ms) and now',
+    signature: 'daysSince(date: string | number): number',
+    params: [['string', 'number']],
+    returns: types.number,
+    evaluate: ([date], runtime) => Math.floor((runtime.now() - toTimestamp(date)) / DAY_MS)
+  }
+};
@@ -0,0 +1,106 @@
+// src/services/ExpressionParser.test.ts
+// Covers operator precedence, path forms and the columns reported for syntax errors
+// Columns are 1-based because they are shown to rule authors next to the condition field
+
+import { describe, expect, it } from 'vitest';
+import { ExpressionSyntaxError, formatPath, parseExpression, tokenizeExpression } from './ExpressionParser';
+
+const syntaxError = (source: string): ExpressionSyntaxError => {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" to fail to parse`);
+};
+
+describe('tokenizeExpression', () => {
+  it('reads keyword operators as their symbol form', () => {
+    expect(tokenizeExpression('a and not b or c').map(token => token.text)).toEqual(['a', '&&', '!', 'b', '||', 'c', '']);
+  });
+
+  it('prefers the longest operator', () => {
+    expect(tokenizeExpression('a<=b').map(token => token.text)).toEqual(['a', '<=', 'b', '']);
+  });
+
+  it('unescapes string literals', () => {
+    const [token] = tokenizeExpression(String.raw`'it\'s\n'`);
+    expect(token).toMatchObject({ type: 'string', value: "it's\n" });
+  });
+});
+
+describe('parseExpression', () => {
+  it('binds multiplication tighter than addition and comparison tighter than and', () => {
+    const node = parseExpression('a + b * 2 > 3 and c');
+    expect(node).toMatchObject({
+      kind: 'binary',
+      operator: 'and',
+      left: {
+        operator: '>',
+        left: { operator: '+', left: { kind: 'path', path: 'a' }, right: { operator: '*' } },
+        right: { kind: 'literal', value: 3 }
+      },
+      right: { kind: 'path', path: 'c' }
+    });
+  });
+
+  it('keeps left associativity for operators on the same level', () => {
+    expect(parseExpression('10 - 4 - 3')).toMatchObject({
+      operator: '-',
+      left: { operator: '-', left: { value: 10 }, right: { value: 4 } },
+      right: { value: 3 }
+    });
+  });
+
+  it('parses dotted, indexed and quoted paths', () => {
+    expect(parseExpression("user.orders[0]['display name']")).toMatchObject({
+      kind: 'path',
+      path: 'user.orders[0].display name',
+      segments: ['user', 'orders', 0, 'display name']
+    });
+  });
+
+  it('parses calls, lists and literals', () => {
+    expect(parseExpression('contains(["a", "b"], null)')).toMatchObject({
+      kind: 'call',
+      name: 'contains',
+      nameEnd: 8,
+      args: [{ kind: 'array', elements: [{ value: 'a' }, { value: 'b' }] }, { kind: 'literal', value: null }]
+    });
+  });
+
+  it('stretches a grouped node over its parentheses', () => {
+    expect(parseExpression(' (a or b) ')).toMatchObject({ kind: 'binary', operator: 'or', start: 1, end: 9 });
+  });
+});
+
+describe('syntax error columns', () => {
+  it.each([
+    ['', 'Expression is empty', 1],
+    ['user.age = 65', 'Use "==" to compare values', 10],
+    ['user.age >= ', 'Expression ends unexpectedly', 13],
+    ['name == "Ada', 'Unterminated string', 9],
+    ['(a or b', 'Expected ")" to close the group but found end of expression', 8],
+    ['a b', 'Unexpected "b"', 3],
+    ['user.', 'Expected a field name after "."', 6],
+    ['items[i]', "Only literal indexes such as [0] or ['name'] are supported", 7],
+    ['max(1, 2', 'Expected ")" to close the call to max() but found end of expression', 9],
+    ['a # b', 'Unexpected character "#"', 3]
+  ])('reports %j at column %i', (source, message, column) => {
+    const error = syntaxError(source);
+    expect(error.message).toBe(message);
+    expect(error.column).toBe(column);
+  });
+
+  it('spans the whole offending token', () => {
+    const error = syntaxError('a or b c');
+    expect([error.start, error.end]).toEqual([7, 8]);
+  });
+});
+
+describe('formatPath', () => {
+  it('writes numeric segments as indexes', () => {
+    expect(formatPath(['orders', 0, 'total'])).toBe('orders[0].total');
+  });
+});
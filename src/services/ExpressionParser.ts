@@ -0,0 +1,316 @@
+// src/services/ExpressionParser.ts
+// Parser for the condition expression language used by if_then_else and loop atoms
+// Turns source text into an AST whose nodes carry their character offsets for error reporting
+
+export type BinaryOperator =
+  | 'or' | 'and'
+  | '==' | '!='
+  | '<' | '<=' | '>' | '>=' | 'in'
+  | '+' | '-' | '*' | '/' | '%';
+
+export type UnaryOperator = 'not' | '-';
+
+interface NodeSpan {
+  start: number; // Offset of the first character
+  end: number; // Offset just past the last character
+}
+
+export type ExpressionNode =
+  | NodeSpan & { kind: 'literal'; value: string | number | boolean | null }
+  | NodeSpan & { kind: 'path'; path: string; segments: Array<string | number> }
+  | NodeSpan & { kind: 'array'; elements: ExpressionNode[] }
+  | NodeSpan & { kind: 'unary'; operator: UnaryOperator; operand: ExpressionNode }
+  | NodeSpan & { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | NodeSpan & { kind: 'call'; name: string; args: ExpressionNode[]; nameEnd: number };
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number = start + 1) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+
+  // 1-based, for messages shown to rule authors
+  get column(): number {
+    return this.start + 1;
+  }
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: string | number;
+  start: number;
+  end: number;
+}
+
+// Words that read as operators; `and`/`or`/`not` are aliases for `&&`/`||`/`!`
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' };
+const LITERAL_KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+// Longest first, so `<=` wins over `<`
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%'];
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+const isIdentifierPart = (char: string) => /[\w$]/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+export const tokenizeExpression = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+
+    if (isDigit(char) || (char === '.' && isDigit(source[position + 1] ?? ''))) {
+      const match = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(position));
+      const text = match ? match[0] : char;
+      position += text.length;
+      tokens.push({ type: 'number', text, value: Number(text), start, end: position });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\' && position + 1 < source.length) {
+          const escaped = source[position + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      if (position >= source.length) {
+        throw new ExpressionSyntaxError('Unterminated string', start, source.length);
+      }
+      position++;
+      tokens.push({ type: 'string', text: source.slice(start, position), value, start, end: position });
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      while (position < source.length && isIdentifierPart(source[position])) position++;
+      const text = source.slice(start, position);
+      const operator = KEYWORD_OPERATORS[text];
+      tokens.push(operator
+        ? { type: 'operator', text: operator, start, end: position }
+        : { type: 'identifier', text, start, end: position });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+    if (operator) {
+      position += operator.length;
+      tokens.push({ type: 'operator', text: operator, start, end: position });
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      position++;
+      tokens.push({ type: 'punctuation', text: char, start, end: position });
+      continue;
+    }
+
+    if (char === '=') {
+      throw new ExpressionSyntaxError('Use "==" to compare values', start);
+    }
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+const BINARY_OPERATORS: Record<string, BinaryOperator> = {
+  '||': 'or', '&&': 'and',
+  '==': '==', '!=': '!=',
+  '<': '<', '<=': '<=', '>': '>', '>=': '>=', in: 'in',
+  '+': '+', '-': '-', '*': '*', '/': '/', '%': '%'
+};
+
+// Lowest to highest precedence
+const PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>=', 'in'],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+class ExpressionReader {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionSyntaxError('Expression is empty', 0);
+    }
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected "${next.text}"`, next.start, next.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(token: Token, texts: string[]): boolean {
+    return token.type === 'operator' && texts.includes(token.text);
+  }
+
+  private isPunctuation(token: Token, text: string): boolean {
+    return token.type === 'punctuation' && token.text === text;
+  }
+
+  private expectPunctuation(text: string, context: string): Token {
+    const token = this.peek();
+    if (!this.isPunctuation(token, text)) {
+      const found = token.type === 'eof' ? 'end of expression' : `"${token.text}"`;
+      throw new ExpressionSyntaxError(`Expected "${text}" ${context} but found ${found}`, token.start, token.end);
+    }
+    return this.advance();
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (this.isOperator(this.peek(), PRECEDENCE[level])) {
+      const operator = this.advance();
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: BINARY_OPERATORS[operator.text], left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (this.isOperator(token, ['!', '-'])) {
+      this.advance();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: token.text === '!' ? 'not' : '-', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value as string | number, start: token.start, end: token.end };
+
+      case 'identifier':
+        if (token.text in LITERAL_KEYWORDS) {
+          return { kind: 'literal', value: LITERAL_KEYWORDS[token.text], start: token.start, end: token.end };
+        }
+        return this.isPunctuation(this.peek(), '(') ? this.parseCall(token) : this.parsePath(token);
+
+      case 'punctuation':
+        if (token.text === '(') {
+          const inner = this.parseBinary(0);
+          const close = this.expectPunctuation(')', 'to close the group');
+          return { ...inner, start: token.start, end: close.end };
+        }
+        if (token.text === '[') {
+          const elements = this.parseList(']', 'to close the list');
+          return { kind: 'array', elements, start: token.start, end: this.tokens[this.index - 1].end };
+        }
+        break;
+
+      case 'eof':
+        throw new ExpressionSyntaxError('Expression ends unexpectedly', token.start);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected "${token.text}"`, token.start, token.end);
+  }
+
+  // Comma-separated expressions up to and including the closing token
+  private parseList(close: string, context: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.isPunctuation(this.peek(), close)) {
+      this.advance();
+      return items;
+    }
+
+    for (;;) {
+      items.push(this.parseBinary(0));
+      if (this.isPunctuation(this.peek(), ',')) {
+        this.advance();
+        continue;
+      }
+      this.expectPunctuation(close, context);
+      return items;
+    }
+  }
+
+  private parseCall(name: Token): ExpressionNode {
+    this.advance(); // (
+    const args = this.parseList(')', `to close the call to ${name.text}()`);
+    return { kind: 'call', name: name.text, args, nameEnd: name.end, start: name.start, end: this.tokens[this.index - 1].end };
+  }
+
+  // Field paths: `user.address.city`, `orders[0].total`, `profile['display name']`
+  private parsePath(first: Token): ExpressionNode {
+    const segments: Array<string | number> = [first.text];
+    let end = first.end;
+
+    for (;;) {
+      const token = this.peek();
+      if (this.isPunctuation(token, '.')) {
+        this.advance();
+        const property = this.advance();
+        if (property.type !== 'identifier') {
+          throw new ExpressionSyntaxError('Expected a field name after "."', property.start, property.end);
+        }
+        segments.push(property.text);
+        end = property.end;
+      } else if (this.isPunctuation(token, '[')) {
+        this.advance();
+        const key = this.advance();
+        if (key.type !== 'number' && key.type !== 'string') {
+          throw new ExpressionSyntaxError('Only literal indexes such as [0] or [\'name\'] are supported', key.start, key.end);
+        }
+        segments.push(key.value as string | number);
+        end = this.expectPunctuation(']', 'to close the index').end;
+      } else {
+        break;
+      }
+    }
+
+    return { kind: 'path', path: formatPath(segments), segments, start: first.start, end };
+  }
+}
+
+// Canonical path text understood by readPath, e.g. user.orders[0].total
+export const formatPath = (segments: Array<string | number>): string =>
+  segments
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+
+export const parseExpression = (source: string): ExpressionNode =>
+  new ExpressionReader(tokenizeExpression(source)).parse();
@@ -0,0 +1,134 @@
+// src/services/ExpressionTypeChecker.test.ts
+// Covers the diagnostics shown under condition fields and the scope loops give their children
+// Positions are the character offsets of the node the editor underlines
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, RuleInputSchema } from '../types/RuleTypes';
+import { analyzeExpression, getExpressionContextForAtom, schemaToType } from './ExpressionTypeChecker';
+import { types } from './ExpressionFunctions';
+
+const schema: RuleInputSchema = {
+  type: 'object',
+  properties: {
+    user: {
+      type: 'object',
+      properties: {
+        age: { type: 'integer' },
+        name: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    orders: { type: 'array', items: { type: 'object', properties: { total: { type: 'number' } } } }
+  }
+};
+
+const diagnosticsOf = (source: string, expected?: 'boolean' | 'array') =>
+  analyzeExpression(source, { schema }, expected).diagnostics.map(({ severity, message, start, end }) =>
+    [severity, message, start, end]);
+
+const atom = (id: string, type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+describe('schemaToType', () => {
+  it('closes objects with declared properties and maps integers to numbers', () => {
+    expect(schemaToType(schema.properties!.user)).toEqual(types.object({
+      age: types.number,
+      name: types.string,
+      tags: types.arrayOf(types.string)
+    }, true));
+  });
+
+  it('treats a missing schema as any', () => {
+    expect(schemaToType(undefined)).toEqual(types.any);
+    expect(schemaToType({})).toEqual(types.any);
+  });
+});
+
+describe('analyzeExpression', () => {
+  it('accepts a well typed condition', () => {
+    const analysis = analyzeExpression('user.age >= 18 and contains(user.tags, "vip")', { schema }, 'boolean');
+    expect(analysis.type).toEqual(types.boolean);
+    expect(analysis.diagnostics).toEqual([]);
+  });
+
+  it('turns a syntax error into a diagnostic without an AST', () => {
+    const analysis = analyzeExpression('user.age >', { schema });
+    expect(analysis.ast).toBeNull();
+    expect(analysis.diagnostics).toEqual([
+      { severity: 'error', message: 'Expression ends unexpectedly', start: 10, end: 11 }
+    ]);
+  });
+
+  it('warns about root fields the schema does not declare', () => {
+    expect(diagnosticsOf('account.balance > 0')).toEqual([
+      ['warning', '"account" is not declared in the input schema', 0, 15]
+    ]);
+  });
+
+  it('rejects unknown nested fields and fields on scalars', () => {
+    expect(diagnosticsOf('user.email == "a"')).toEqual([['error', '"user" has no field "email"', 0, 10]]);
+    expect(diagnosticsOf('user.age.years > 1')).toEqual([['error', '"user.age" is number and has no field "years"', 0, 14]]);
+  });
+
+  it('asks for an index when a list is read like an object', () => {
+    expect(diagnosticsOf('orders.total > 5')).toEqual([
+      ['error', '"orders" is a list; use an index such as orders[0]', 0, 12]
+    ]);
+    expect(analyzeExpression('orders[0].total', { schema }).type).toEqual(types.number);
+  });
+
+  it('reports comparisons between different types', () => {
+    expect(diagnosticsOf('user.name < 3')).toEqual([['error', 'Cannot compare string with number', 0, 13]]);
+    expect(diagnosticsOf('user.age == "65"')).toEqual([['warning', 'Comparing number with string is always false', 0, 16]]);
+  });
+
+  it('allows comparing any value with null', () => {
+    expect(diagnosticsOf('user.name != null')).toEqual([]);
+  });
+
+  it('checks function names, argument counts and argument types', () => {
+    expect(diagnosticsOf('size(user.tags) > 1')).toEqual([['error', 'Unknown function "size"', 0, 4]]);
+    expect(diagnosticsOf('lower()')).toEqual([['error', 'lower() takes 1 argument but got 0', 0, 7]]);
+    expect(diagnosticsOf('upper(user.age)')).toEqual([
+      ['error', 'upper() argument 1 expects string but got number', 6, 14]
+    ]);
+  });
+
+  it('flags negating text and arithmetic on booleans', () => {
+    expect(diagnosticsOf('-user.name')).toEqual([['error', 'Negation expects number but got string', 1, 10]]);
+    expect(diagnosticsOf('true * 2')).toEqual([['error', '"*" expects number but got boolean', 0, 4]]);
+  });
+
+  it('warns when a condition is not boolean and rejects loops over scalars', () => {
+    expect(diagnosticsOf('user.age', 'boolean')).toEqual([
+      ['warning', 'Condition evaluates to number, not boolean; it will be tested for truthiness', 0, 8]
+    ]);
+    expect(diagnosticsOf('user.name', 'array')).toEqual([
+      ['error', 'Loop collection must be a list but evaluates to string', 0, 9]
+    ]);
+  });
+});
+
+describe('getExpressionContextForAtom', () => {
+  const check = atom('atom_3', 'if_then_else', { condition: 'item.total > 100 and index < 3' });
+  const root = atom('atom_1', 'sequence', {}, [atom('atom_2', 'loop', { iterateOver: 'orders' }, [check])]);
+
+  it('binds item and index inside a loop', () => {
+    const context = getExpressionContextForAtom(root, 'atom_3', schema);
+    expect(context.variables).toEqual({
+      item: types.object({ total: types.number }, true),
+      index: types.number
+    });
+    expect(analyzeExpression(String(check.parameters.condition), context, 'boolean').diagnostics).toEqual([]);
+  });
+
+  it('leaves the loop itself outside its own scope', () => {
+    expect(getExpressionContextForAtom(root, 'atom_2', schema).variables).toBeUndefined();
+  });
+});
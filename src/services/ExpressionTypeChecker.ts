@@ -0,0 +1,288 @@
+// src/services/ExpressionTypeChecker.ts
+// Static checks for condition expressions against the rule's declared input schema
+// Reports unknown fields, type mismatches and bad function calls with their source positions
+
+import { AtomInstance, RuleInputSchema } from '../types/RuleTypes';
+import { findAtomPath, findAtomById } from '../utils/atomTree';
+import { ExpressionNode, ExpressionSyntaxError, formatPath, parseExpression } from './ExpressionParser';
+import {
+  EXPRESSION_FUNCTIONS,
+  ExpressionType,
+  ExpressionTypeKind,
+  acceptsType,
+  formatType,
+  getArityError,
+  types
+} from './ExpressionFunctions';
+
+export type ExpectedExpressionType = 'boolean' | 'array';
+
+export interface ExpressionDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ExpressionContext {
+  schema?: RuleInputSchema;
+  // Names bound by enclosing atoms, e.g. `item` and `index` inside a loop; they shadow input fields
+  variables?: Record<string, ExpressionType>;
+}
+
+export interface ExpressionAnalysis {
+  ast: ExpressionNode | null; // null when the source does not parse
+  type: ExpressionType;
+  diagnostics: ExpressionDiagnostic[];
+}
+
+export const schemaToType = (schema: RuleInputSchema | undefined): ExpressionType => {
+  if (!schema) return types.any;
+
+  switch (schema.type) {
+    case 'string': return types.string;
+    case 'number':
+    case 'integer': return types.number;
+    case 'boolean': return types.boolean;
+    case 'null': return types.null;
+    case 'array': return types.arrayOf(schemaToType(schema.items));
+    case 'object':
+    case undefined:
+      if (!schema.properties) return schema.type ? types.object() : types.any;
+      return types.object(
+        Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, schemaToType(property)])),
+        true
+      );
+  }
+  return types.any;
+};
+
+const literalType = (value: string | number | boolean | null): ExpressionType => {
+  if (value === null) return types.null;
+  return types[typeof value as 'string' | 'number' | 'boolean'];
+};
+
+const isKnown = (type: ExpressionType) => type.kind !== 'any';
+
+class ExpressionChecker {
+  diagnostics: ExpressionDiagnostic[] = [];
+
+  constructor(private context: ExpressionContext) {}
+
+  private report(severity: ExpressionDiagnostic['severity'], message: string, node: { start: number; end: number }) {
+    this.diagnostics.push({ severity, message, start: node.start, end: node.end });
+  }
+
+  private expectKinds(node: ExpressionNode, type: ExpressionType, kinds: ExpressionTypeKind[], what: string) {
+    if (!acceptsType(kinds, type)) {
+      this.report('error', `${what} expects ${kinds.join(' or ')} but got ${formatType(type)}`, node);
+    }
+  }
+
+  check(node: ExpressionNode): ExpressionType {
+    switch (node.kind) {
+      case 'literal':
+        return literalType(node.value);
+
+      case 'array': {
+        const elementTypes = node.elements.map(element => this.check(element));
+        const [first] = elementTypes;
+        const uniform = first && elementTypes.every(type => type.kind === first.kind);
+        return types.arrayOf(uniform ? first : types.any);
+      }
+
+      case 'path':
+        return this.checkPath(node);
+
+      case 'call':
+        return this.checkCall(node);
+
+      case 'unary': {
+        const operand = this.check(node.operand);
+        if (node.operator === 'not') return types.boolean;
+        this.expectKinds(node.operand, operand, ['number'], 'Negation');
+        return types.number;
+      }
+
+      case 'binary':
+        return this.checkBinary(node);
+    }
+  }
+
+  private checkPath(node: Extract<ExpressionNode, { kind: 'path' }>): ExpressionType {
+    const [root, ...rest] = node.segments;
+    const variable = this.context.variables?.[root as string];
+    const schemaRoot = schemaToType(this.context.schema);
+    let current: ExpressionType;
+
+    if (variable) {
+      current = variable;
+    } else if (schemaRoot.kind === 'object' && schemaRoot.closed) {
+      current = schemaRoot.properties[root] ?? types.any;
+      // Root fields may also come from lookup_data or transform_data outputs, so this is only a warning
+      if (!(root in schemaRoot.properties)) {
+        this.report('warning', `"${root}" is not declared in the input schema`, node);
+      }
+    } else {
+      current = types.any;
+    }
+
+    for (let index = 0; index < rest.length && isKnown(current); index++) {
+      const segment = rest[index];
+      const parentPath = formatPath(node.segments.slice(0, index + 1));
+
+      if (current.kind === 'array') {
+        if (typeof segment !== 'number') {
+          this.report('error', `"${parentPath}" is a list; use an index such as ${parentPath}[0]`, node);
+          return types.any;
+        }
+        current = current.element;
+      } else if (current.kind === 'object') {
+        const property = current.properties[String(segment)];
+        if (!property && current.closed) {
+          this.report('error', `"${parentPath}" has no field "${segment}"`, node);
+          return types.any;
+        }
+        current = property ?? types.any;
+      } else {
+        this.report('error', `"${parentPath}" is ${formatType(current)} and has no field "${segment}"`, node);
+        return types.any;
+      }
+    }
+
+    return current;
+  }
+
+  private checkCall(node: Extract<ExpressionNode, { kind: 'call' }>): ExpressionType {
+    const argTypes = node.args.map(arg => this.check(arg));
+    const fn = EXPRESSION_FUNCTIONS[node.name];
+    const nameSpan = { start: node.start, end: node.nameEnd };
+
+    if (!fn) {
+      this.report('error', `Unknown function "${node.name}"`, nameSpan);
+      return types.any;
+    }
+
+    const arityError = getArityError(node.name, fn, argTypes.length);
+    if (arityError) this.report('error', arityError, node);
+
+    argTypes.forEach((type, index) => {
+      const accepted = fn.params[Math.min(index, fn.params.length - 1)];
+      if (accepted) this.expectKinds(node.args[index], type, accepted, `${node.name}() argument ${index + 1}`);
+    });
+
+    return typeof fn.returns === 'function' ? fn.returns(argTypes) : fn.returns;
+  }
+
+  private checkBinary(node: Extract<ExpressionNode, { kind: 'binary' }>): ExpressionType {
+    const left = this.check(node.left);
+    const right = this.check(node.right);
+
+    switch (node.operator) {
+      case 'and':
+      case 'or':
+        return types.boolean;
+
+      case '==':
+      case '!=':
+        if (isKnown(left) && isKnown(right) && left.kind !== right.kind && left.kind !== 'null' && right.kind !== 'null') {
+          const outcome = node.operator === '==' ? 'false' : 'true';
+          this.report('warning', `Comparing ${formatType(left)} with ${formatType(right)} is always ${outcome}`, node);
+        }
+        return types.boolean;
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        this.expectKinds(node.left, left, ['number', 'string'], `"${node.operator}"`);
+        this.expectKinds(node.right, right, ['number', 'string'], `"${node.operator}"`);
+        if (isKnown(left) && isKnown(right) && left.kind !== right.kind) {
+          this.report('error', `Cannot compare ${formatType(left)} with ${formatType(right)}`, node);
+        }
+        return types.boolean;
+
+      case 'in':
+        this.expectKinds(node.right, right, ['array', 'string'], '"in"');
+        if (right.kind === 'string') this.expectKinds(node.left, left, ['string'], '"in" on text');
+        return types.boolean;
+
+      case '+':
+        if (left.kind === 'string' || right.kind === 'string') return types.string;
+        this.expectKinds(node.left, left, ['number', 'string'], '"+"');
+        this.expectKinds(node.right, right, ['number', 'string'], '"+"');
+        return isKnown(left) && isKnown(right) ? types.number : types.any;
+
+      default:
+        this.expectKinds(node.left, left, ['number'], `"${node.operator}"`);
+        this.expectKinds(node.right, right, ['number'], `"${node.operator}"`);
+        return types.number;
+    }
+  }
+}
+
+export const analyzeExpression = (
+  source: string,
+  context: ExpressionContext = {},
+  expected?: ExpectedExpressionType
+): ExpressionAnalysis => {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    if (!(error instanceof ExpressionSyntaxError)) throw error;
+    return {
+      ast: null,
+      type: types.any,
+      diagnostics: [{ severity: 'error', message: error.message, start: error.start, end: error.end }]
+    };
+  }
+
+  const checker = new ExpressionChecker(context);
+  const type = checker.check(ast);
+
+  if (expected === 'boolean' && isKnown(type) && type.kind !== 'boolean') {
+    checker.diagnostics.push({
+      severity: 'warning',
+      message: `Condition evaluates to ${formatType(type)}, not boolean; it will be tested for truthiness`,
+      start: ast.start,
+      end: ast.end
+    });
+  }
+  if (expected === 'array' && isKnown(type) && type.kind !== 'array') {
+    checker.diagnostics.push({
+      severity: 'error',
+      message: `Loop collection must be a list but evaluates to ${formatType(type)}`,
+      start: ast.start,
+      end: ast.end
+    });
+  }
+
+  return { ast, type, diagnostics: checker.diagnostics };
+};
+
+// Context for the children of an atom: a loop binds `item` and `index`, shadowing any outer loop
+export const enterAtomScope = (context: ExpressionContext, atom: AtomInstance): ExpressionContext => {
+  if (atom.type !== 'loop') return context;
+
+  const { type } = analyzeExpression(String(atom.parameters.iterateOver ?? ''), context);
+  return {
+    ...context,
+    variables: {
+      ...context.variables,
+      item: type.kind === 'array' ? type.element : types.any,
+      index: types.number
+    }
+  };
+};
+
+// Names in scope for an atom's own expressions, from the loops enclosing it
+export const getExpressionContextForAtom = (
+  root: AtomInstance | null,
+  atomId: string,
+  schema?: RuleInputSchema
+): ExpressionContext =>
+  (findAtomPath(root, atomId)?.slice(0, -1) ?? []).reduce<ExpressionContext>((context, ancestorId) => {
+    const ancestor = findAtomById(root, ancestorId);
+    return ancestor ? enterAtomScope(context, ancestor) : context;
+  }, { schema });
@@ -0,0 +1,83 @@
+// src/services/InputSchema.test.ts
+// Covers input validation against a rule's schema and the sample inputs generated from it
+// Generated edge cases change one field each and say whether the input still matches
+
+import { describe, expect, it } from 'vitest';
+import { RuleInputSchema } from '../types/RuleTypes';
+import { generateSampleInput, generateTestInputs, validateInputAgainstSchema } from './InputSchema';
+
+const schema: RuleInputSchema = {
+  type: 'object',
+  properties: {
+    user: {
+      type: 'object',
+      properties: {
+        age: { type: 'integer', minimum: 18, maximum: 120 },
+        joined: { type: 'string', format: 'date-time' },
+        birthday: { type: 'string', format: 'date' }
+      },
+      required: ['age', 'joined']
+    },
+    orders: {
+      type: 'array',
+      items: { type: 'object', properties: { total: { type: 'number' } }, required: ['total'] }
+    }
+  },
+  required: ['user']
+};
+
+describe('validateInputAgainstSchema', () => {
+  it('accepts the generated sample', () => {
+    expect(validateInputAgainstSchema(generateSampleInput(schema), schema)).toEqual([]);
+  });
+
+  it.each([
+    ['2024-01-15T09:30:00.000Z', true],
+    ['2024-01-15T09:30:00+02:00', true],
+    ['', false],
+    ['2024-01-15', false],
+    ['2024-02-30T09:30:00Z', false],
+    ['2024-01-15T24:00:00Z', false]
+  ])('checks %j as a date-time', (joined, valid) => {
+    const errors = validateInputAgainstSchema(joined, { type: 'string', format: 'date-time' }, ['joined']);
+    expect(errors).toEqual(valid ? [] : [`joined should be a date-time such as 2024-01-15T09:30:00.000Z but is ${JSON.stringify(joined)}`]);
+  });
+
+  it.each([
+    ['2024-02-29', true],
+    ['2023-02-29', false],
+    ['15/01/2024', false]
+  ])('checks %j as a date', (birthday, valid) => {
+    expect(validateInputAgainstSchema(birthday, { type: 'string', format: 'date' })).toHaveLength(valid ? 0 : 1);
+  });
+
+  it('leaves formats it has no check for alone', () => {
+    expect(validateInputAgainstSchema('not an address', { type: 'string', format: 'email' })).toEqual([]);
+  });
+});
+
+describe('generateTestInputs', () => {
+  const scenarios = generateTestInputs(schema);
+  const named = (name: string) => scenarios.find(scenario => scenario.name === name);
+
+  it('starts with the valid sample and changes one field per edge case', () => {
+    expect(scenarios[0]).toMatchObject({ name: 'Valid sample', input: generateSampleInput(schema) });
+    expect(named('user.age below minimum')?.input.user).toEqual({ ...scenarios[0].input.user, age: 17 });
+  });
+
+  it('tests an array item only through its fields, since removing it is the Empty case', () => {
+    const names = scenarios.map(scenario => scenario.name);
+    expect(names).toContain('Empty orders');
+    expect(names).not.toContain('Missing orders[0]');
+    expect(named('Missing orders[0].total')?.input.orders).toEqual([{}]);
+  });
+
+  it('marks text that breaks its format as invalid', () => {
+    expect(named('Empty user.joined')?.description).toBe(
+      'Invalid: user.joined should be a date-time such as 2024-01-15T09:30:00.000Z but is ""'
+    );
+    expect(named('Empty user.birthday')?.description).toBe(
+      'Invalid: user.birthday should be a date such as 2024-01-15 but is ""'
+    );
+  });
+});
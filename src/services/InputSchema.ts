@@ -0,0 +1,370 @@
+// src/services/InputSchema.ts
+// Helpers for the input schema a rule declares
+// Checks schemas and inputs, resolves field references and generates sample test inputs
+
+import { AtomInstance, Rule, RuleInputSchema, TestScenario } from '../types/RuleTypes';
+import { walkAtoms } from '../utils/atomTree';
+import { formatPath } from './ExpressionParser';
+import { ExpressionType, types, valuesEqual } from './ExpressionFunctions';
+import { ExpressionContext, ExpressionDiagnostic, analyzeExpression, schemaToType } from './ExpressionTypeChecker';
+
+type PathSegment = string | number;
+
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+const NUMERIC_KEYWORDS = ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'] as const;
+const MAX_GENERATED_INPUTS = 30;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describePath = (segments: PathSegment[]) => (segments.length > 0 ? formatPath(segments) : 'input');
+
+// Structural problems in a schema, e.g. one typed into the schema editor or read from an import
+export const getInputSchemaErrors = (schema: unknown, segments: PathSegment[] = []): string[] => {
+  const at = segments.length > 0 ? ` at ${formatPath(segments)}` : '';
+  if (!isPlainObject(schema)) return [`Schema${at} must be an object`];
+
+  const errors: string[] = [];
+  if (schema.type !== undefined && !SCHEMA_TYPES.includes(schema.type)) {
+    errors.push(`Unknown type "${schema.type}"${at}; use one of ${SCHEMA_TYPES.join(', ')}`);
+  }
+
+  NUMERIC_KEYWORDS.forEach(keyword => {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      errors.push(`"${keyword}"${at} must be a number`);
+    }
+  });
+  if (typeof schema.minimum === 'number' && typeof schema.maximum === 'number' && schema.minimum > schema.maximum) {
+    errors.push(`"minimum"${at} is greater than "maximum"`);
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    errors.push(`"enum"${at} must be a non-empty list`);
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      errors.push(`"properties"${at} must be an object`);
+    } else {
+      Object.entries(schema.properties).forEach(([name, property]) => {
+        errors.push(...getInputSchemaErrors(property, [...segments, name]));
+      });
+    }
+  }
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || schema.required.some(name => typeof name !== 'string')) {
+      errors.push(`"required"${at} must be a list of field names`);
+    } else {
+      schema.required
+        .filter((name: string) => !isPlainObject(schema.properties) || !(name in schema.properties))
+        .forEach((name: string) => errors.push(`Required field "${name}"${at} is not declared in "properties"`));
+    }
+  }
+  if (schema.items !== undefined) {
+    errors.push(...getInputSchemaErrors(schema.items, [...segments, 0]));
+  }
+
+  return errors;
+};
+
+const isValidDate = (text: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  // Date.UTC rolls 2024-02-30 over into March, so a day that doesn't exist comes back different
+  return date.getUTCFullYear() === Number(match[1]) && date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3]);
+};
+
+// Formats the rule's expressions depend on; other formats are descriptive only and not checked
+const FORMAT_CHECKS: Record<string, (text: string) => boolean> = {
+  date: isValidDate,
+  'date-time': text => {
+    const match = /^(\d{4}-\d{2}-\d{2})T([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)$/i.exec(text);
+    return !!match && isValidDate(match[1]);
+  }
+};
+
+// Problems with an input value, reported per field path
+export const validateInputAgainstSchema = (
+  value: any,
+  schema: RuleInputSchema,
+  segments: PathSegment[] = []
+): string[] => {
+  const path = describePath(segments);
+
+  if (schema.type) {
+    const matches = schema.type === 'integer' ? Number.isInteger(value)
+      : schema.type === 'number' ? typeof value === 'number' && Number.isFinite(value)
+      : schema.type === 'array' ? Array.isArray(value)
+      : schema.type === 'object' ? isPlainObject(value)
+      : schema.type === 'null' ? value === null
+      : typeof value === schema.type;
+    if (!matches) return [`${path} should be ${schema.type} but is ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.some(option => valuesEqual(option, value))) {
+    errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be at most ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} should have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} should have at most ${schema.maxLength} characters`);
+    const checkFormat = schema.format ? FORMAT_CHECKS[schema.format] : undefined;
+    if (checkFormat && !checkFormat(value)) {
+      errors.push(`${path} should be a ${schema.format} such as ${SAMPLE_STRINGS[schema.format!]} but is ${JSON.stringify(value)}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} should have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} should have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      // An index loop rather than forEach, which skips the holes of sparse arrays
+      for (let index = 0; index < value.length; index++) {
+        errors.push(...validateInputAgainstSchema(value[index], schema.items, [...segments, index]));
+      }
+    }
+  }
+  if (isPlainObject(value)) {
+    (schema.required ?? [])
+      .filter(name => value[name] === undefined)
+      .forEach(name => errors.push(`${describePath([...segments, name])} is required`));
+    Object.entries(schema.properties ?? {}).forEach(([name, property]) => {
+      if (value[name] !== undefined) errors.push(...validateInputAgainstSchema(value[name], property, [...segments, name]));
+    });
+  }
+
+  return errors;
+};
+
+// Schema describing an example input; every field present in the example is marked required
+export const inferInputSchema = (value: any): RuleInputSchema => {
+  if (value === null) return { type: 'null' };
+  if (Array.isArray(value)) return value.length > 0 ? { type: 'array', items: inferInputSchema(value[0]) } : { type: 'array' };
+  if (isPlainObject(value)) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(value).map(([name, field]) => [name, inferInputSchema(field)])),
+      required: Object.keys(value)
+    };
+  }
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  if (typeof value === 'boolean') return { type: 'boolean' };
+  return { type: 'string' };
+};
+
+const TRANSFORM_OUTPUT_TYPES: Record<string, ExpressionType> = {
+  format_currency: types.string,
+  format_date: types.string,
+  capitalize: types.string,
+  percentage: types.number
+};
+
+// Variables that atoms write while the rule runs, typed from the schema where possible
+export const getProducedVariables = (
+  root: AtomInstance | null,
+  schema?: RuleInputSchema
+): Record<string, ExpressionType> => {
+  const variables: Record<string, ExpressionType> = {};
+  const inputType = schemaToType(schema);
+
+  walkAtoms(root, atom => {
+    const { parameters } = atom;
+    switch (atom.type) {
+      case 'lookup_data': {
+        const source = String(parameters.source ?? '');
+        if (!source) return;
+        const record = inputType.kind === 'object' ? inputType.properties[source] : undefined;
+        variables[source] = record ?? types.object();
+        break;
+      }
+      case 'transform_data':
+        if (typeof parameters.outputField === 'string' && parameters.outputField) {
+          variables[parameters.outputField] = TRANSFORM_OUTPUT_TYPES[String(parameters.transformType)] ?? types.any;
+        }
+        break;
+      case 'calculate_score':
+        variables.score = types.number;
+        break;
+    }
+  });
+
+  return variables;
+};
+
+// Root expression context of a rule: its declared input plus the variables its atoms produce
+export const getRuleExpressionContext = (rule: Pick<Rule, 'rootAtom' | 'inputSchema'>): ExpressionContext => ({
+  schema: rule.inputSchema,
+  variables: getProducedVariables(rule.rootAtom, rule.inputSchema)
+});
+
+// Checks that a field reference such as `user.address.city` names a declared field
+export const checkFieldReference = (path: string, context: ExpressionContext): ExpressionDiagnostic[] => {
+  const analysis = analyzeExpression(path, context);
+  if (analysis.ast && analysis.ast.kind !== 'path') {
+    return [{ severity: 'error', message: `"${path}" is not a field path`, start: 0, end: path.length }];
+  }
+  // Undeclared fields are only warnings in expressions, but a field reference must resolve
+  return analysis.diagnostics.map(diagnostic => ({ ...diagnostic, severity: 'error' as const }));
+};
+
+// Context for `lookup` field references: fields inside the record the atom's `source` selects
+export const getLookupContext = (source: string, schema?: RuleInputSchema): ExpressionContext | null => {
+  if (!schema?.properties) return {};
+  const record = schema.properties[source];
+  return record ? { schema: record } : null;
+};
+
+// Sample values
+
+const SAMPLE_STRINGS: Record<string, string> = {
+  'date-time': '2024-01-15T09:30:00.000Z',
+  date: '2024-01-15',
+  time: '09:30:00',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  uuid: '00000000-0000-4000-8000-000000000000'
+};
+
+const sampleValue = (schema: RuleInputSchema, name: string): any => {
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'string': {
+      const text = SAMPLE_STRINGS[schema.format ?? ''] ?? `sample ${name}`;
+      return text.padEnd(schema.minLength ?? 0, 'x').slice(0, schema.maxLength ?? text.length);
+    }
+    case 'number':
+    case 'integer': {
+      const { minimum, maximum } = schema;
+      const value = minimum !== undefined && maximum !== undefined ? (minimum + maximum) / 2
+        : minimum !== undefined ? minimum
+        : maximum !== undefined ? Math.min(maximum, 10)
+        : 10;
+      return schema.type === 'integer' ? Math.ceil(value) : value;
+    }
+    case 'boolean': return true;
+    case 'null': return null;
+    case 'array': {
+      const count = Math.max(schema.minItems ?? 1, 0);
+      return schema.items && schema.maxItems !== 0
+        ? Array.from({ length: count }, () => sampleValue(schema.items!, name))
+        : [];
+    }
+    default:
+      if (!schema.properties) return schema.type === 'object' ? {} : `sample ${name}`;
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([field, property]) => [field, sampleValue(property, field)])
+      );
+  }
+};
+
+// A valid input built from the schema: midpoints, first enum values and recognisable placeholders
+export const generateSampleInput = (schema: RuleInputSchema): Record<string, any> => {
+  const sample = sampleValue(schema, 'value');
+  return isPlainObject(sample) ? sample : { value: sample };
+};
+
+const REMOVE = Symbol('remove');
+
+const withValue = (target: any, segments: PathSegment[], value: any): any => {
+  const [head, ...rest] = segments;
+  const copy = Array.isArray(target) ? [...target] : { ...target };
+  if (rest.length === 0) {
+    // Removing an array item shortens the array instead of leaving a hole
+    if (value === REMOVE && Array.isArray(copy)) copy.splice(head as number, 1);
+    else if (value === REMOVE) delete copy[head];
+    else copy[head] = value;
+  } else {
+    copy[head] = withValue(target[head], rest, value);
+  }
+  return copy;
+};
+
+interface EdgeCase {
+  name: string;
+  segments: PathSegment[];
+  value: any;
+}
+
+const collectEdgeCases = (schema: RuleInputSchema, segments: PathSegment[], required: boolean, cases: EdgeCase[]) => {
+  const path = describePath(segments);
+  const push = (name: string, value: any) => cases.push({ name, segments, value });
+
+  // Removing an array's only item gives the same input as its Empty case
+  if (segments.length > 0 && typeof segments[segments.length - 1] !== 'number') {
+    push(required ? `Missing ${path}` : `Without ${path}`, REMOVE);
+  }
+
+  if (schema.enum && schema.enum.length > 1) {
+    push(`${path} = ${JSON.stringify(schema.enum[schema.enum.length - 1])}`, schema.enum[schema.enum.length - 1]);
+  }
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer': {
+      const step = schema.type === 'integer' ? 1 : 0.01;
+      if (schema.minimum !== undefined) {
+        push(`${path} at minimum`, schema.minimum);
+        push(`${path} below minimum`, schema.minimum - step);
+      }
+      if (schema.maximum !== undefined) {
+        push(`${path} at maximum`, schema.maximum);
+        push(`${path} above maximum`, schema.maximum + step);
+      }
+      if (schema.minimum === undefined && schema.maximum === undefined) push(`Zero ${path}`, 0);
+      break;
+    }
+    case 'string':
+      if (!schema.enum) {
+        push(`Empty ${path}`, '');
+        if (schema.maxLength !== undefined) push(`${path} too long`, 'x'.repeat(schema.maxLength + 1));
+      }
+      break;
+    case 'boolean':
+      push(`${path} false`, false);
+      break;
+    case 'array':
+      push(`Empty ${path}`, []);
+      if (schema.items && schema.maxItems !== 0) collectEdgeCases(schema.items, [...segments, 0], true, cases);
+      return;
+  }
+
+  if (segments.length > 0 && schema.type && schema.type !== 'string') {
+    push(`${path} of the wrong type`, 'wrong type');
+  }
+
+  Object.entries(schema.properties ?? {}).forEach(([name, property]) => {
+    collectEdgeCases(property, [...segments, name], (schema.required ?? []).includes(name), cases);
+  });
+};
+
+// One valid sample followed by edge cases that change a single field each.
+// Each description says whether the input still matches the schema.
+export const generateTestInputs = (schema: RuleInputSchema): TestScenario[] => {
+  const base = generateSampleInput(schema);
+  const scenarios: TestScenario[] = [
+    { name: 'Valid sample', description: 'Valid input generated from the schema', input: base }
+  ];
+  // Rule input is an object; other root types only get the wrapped sample
+  if (!schema.properties) return scenarios;
+
+  const cases: EdgeCase[] = [];
+  collectEdgeCases(schema, [], true, cases);
+
+  for (const edgeCase of cases) {
+    if (scenarios.length >= MAX_GENERATED_INPUTS) break;
+    const input = withValue(base, edgeCase.segments, edgeCase.value);
+    const violations = validateInputAgainstSchema(input, schema);
+    scenarios.push({
+      name: edgeCase.name,
+      description: violations.length > 0 ? `Invalid: ${violations.join('; ')}` : 'Valid edge case',
+      input
+    });
+  }
+
+  return scenarios;
+};
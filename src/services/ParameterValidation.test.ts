@@ -0,0 +1,72 @@
+// src/services/ParameterValidation.test.ts
+// Covers parameter checks against their schema and the atom-level pass that applies definition defaults
+// Definitions are written inline so a change to the registry doesn't move these expectations
+
+import { describe, expect, it } from 'vitest';
+import { AtomDefinition, AtomInstance, AtomParameter } from '../types/RuleTypes';
+import { formatParameterError, validateAtomParameters, validateParameterValue } from './ParameterValidation';
+
+const definition: AtomDefinition = {
+  type: 'discount',
+  name: 'Discount',
+  description: '',
+  category: 'action',
+  complexity: 1,
+  parameters: [
+    { name: 'percent', type: 'number', required: true, min: 0, max: 50, defaultValue: 10 },
+    { name: 'code', type: 'string', maxLength: 8 },
+    { name: 'channel', type: 'select', required: true, options: [{ label: 'Email', value: 'email' }, { label: 'SMS', value: 'sms' }] },
+    { name: 'tiers', type: 'array', minLength: 1, maxLength: 3 },
+    { name: 'extra', type: 'object', defaultValue: {} }
+  ]
+};
+
+const param = (name: string): AtomParameter => definition.parameters!.find(candidate => candidate.name === name)!;
+
+const atom = (parameters: AtomInstance['parameters']): AtomInstance => ({
+  id: 'atom_1',
+  type: 'discount',
+  position: { x: 0, y: 0 },
+  parameters,
+  children: [],
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+describe('validateParameterValue', () => {
+  it.each([
+    ['percent', undefined, 'required', 'This parameter is required'],
+    ['percent', 'ten', 'invalid_type', 'Must be a valid number'],
+    ['percent', -1, 'below_min', 'Must be at least 0'],
+    ['percent', '51', 'above_max', 'Must be at most 50'],
+    ['code', 12, 'invalid_type', 'Must be text'],
+    ['code', 'SPRING2024', 'too_long', 'Must be at most 8 characters'],
+    ['channel', 'fax', 'invalid_option', 'Must be one of: email, sms'],
+    ['tiers', 'gold', 'invalid_type', 'Must be a list'],
+    ['tiers', ['a', 'b', 'c', 'd'], 'too_long', 'Must be at most 3 items'],
+    ['extra', '{oops', 'invalid_type', 'Must be valid JSON'],
+    ['extra', '[1, 2]', 'invalid_type', 'Must be a JSON object']
+  ])('reports %s = %j as %s', (name, value, code, message) => {
+    expect(validateParameterValue(param(name), value)).toEqual({ code, message });
+  });
+
+  it.each([
+    ['percent', '25'],
+    ['code', undefined],
+    ['tiers', []],
+    ['channel', 'sms'],
+    ['extra', '{"a": 1}']
+  ])('accepts %s = %j', (name, value) => {
+    expect(validateParameterValue(param(name), value)).toBeNull();
+  });
+});
+
+describe('validateAtomParameters', () => {
+  it('lets defaults satisfy required parameters and reports the rest by atom and name', () => {
+    const errors = validateAtomParameters(atom({ percent: '', code: 'TOOLONGCODE' }), definition);
+    expect(errors).toEqual([
+      { atomId: 'atom_1', parameter: 'code', code: 'too_long', message: 'Must be at most 8 characters' },
+      { atomId: 'atom_1', parameter: 'channel', code: 'required', message: 'This parameter is required' }
+    ]);
+    expect(formatParameterError(errors[0])).toBe('Atom atom_1: parameter "code" - Must be at most 8 characters');
+  });
+});
@@ -0,0 +1,158 @@
+// src/services/ParameterValidation.ts
+// Schema-driven validation of atom instance parameters against their AtomDefinition
+// Shared by the client-side rule validation and the parameter editing modal
+
+import {
+  AtomDefinition,
+  AtomInstance,
+  AtomParameter,
+  ParameterErrorCode,
+  ParameterValidationError,
+  ParameterValue,
+  ValidationFix
+} from '../types/RuleTypes';
+
+export interface ParameterIssue {
+  code: ParameterErrorCode;
+  message: string;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkLength = (param: AtomParameter, length: number, unit: string): ParameterIssue | null => {
+  if (param.minLength !== undefined && length < param.minLength) {
+    return { code: 'too_short', message: `Must be at least ${param.minLength} ${unit}` };
+  }
+  if (param.maxLength !== undefined && length > param.maxLength) {
+    return { code: 'too_long', message: `Must be at most ${param.maxLength} ${unit}` };
+  }
+  return null;
+};
+
+// Validate a single value against its parameter schema
+export const validateParameterValue = (
+  param: AtomParameter,
+  value: ParameterValue | undefined
+): ParameterIssue | null => {
+  if (isEmpty(value)) {
+    return param.required ? { code: 'required', message: 'This parameter is required' } : null;
+  }
+
+  switch (param.type) {
+    case 'number': {
+      const numeric = typeof value === 'string' ? Number(value) : value;
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        return { code: 'invalid_type', message: 'Must be a valid number' };
+      }
+      if (param.min !== undefined && numeric < param.min) {
+        return { code: 'below_min', message: `Must be at least ${param.min}` };
+      }
+      if (param.max !== undefined && numeric > param.max) {
+        return { code: 'above_max', message: `Must be at most ${param.max}` };
+      }
+      return null;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') return { code: 'invalid_type', message: 'Must be text' };
+      return checkLength(param, value.length, 'characters');
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : { code: 'invalid_type', message: 'Must be true or false' };
+
+    case 'select':
+      if (param.options && !param.options.some(option => option.value === value)) {
+        return {
+          code: 'invalid_option',
+          message: `Must be one of: ${param.options.map(option => option.value).join(', ')}`
+        };
+      }
+      return null;
+
+    case 'array':
+      if (!Array.isArray(value)) return { code: 'invalid_type', message: 'Must be a list' };
+      return checkLength(param, value.length, 'items');
+
+    case 'object': {
+      let parsed: unknown = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return { code: 'invalid_type', message: 'Must be valid JSON' };
+        }
+      }
+      return isPlainObject(parsed) ? null : { code: 'invalid_type', message: 'Must be a JSON object' };
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Validate every declared parameter of an atom; definition defaults satisfy `required`
+export const validateAtomParameters = (
+  atom: AtomInstance,
+  definition: AtomDefinition
+): ParameterValidationError[] => {
+  const errors: ParameterValidationError[] = [];
+
+  definition.parameters?.forEach(param => {
+    const configured = atom.parameters[param.name];
+    const value = isEmpty(configured) ? param.defaultValue : configured;
+    const issue = validateParameterValue(param, value);
+    if (issue) {
+      errors.push({ atomId: atom.id, parameter: param.name, ...issue });
+    }
+  });
+
+  return errors;
+};
+
+// Message used when a parameter error is reported as a validation issue
+export const formatParameterError = (error: ParameterValidationError): string =>
+  `Atom ${error.atomId}: parameter "${error.parameter}" - ${error.message}`;
+
+// Suggest a machine-applicable fix for a parameter error, when one is unambiguous
+export const suggestParameterFix = (
+  definition: AtomDefinition,
+  error: ParameterValidationError,
+  value: ParameterValue | undefined
+): ValidationFix | undefined => {
+  const param = definition.parameters?.find(candidate => candidate.name === error.parameter);
+  if (!param) return undefined;
+
+  const setTo = (fixed: ParameterValue, label: string): ValidationFix => ({
+    kind: 'set_parameter',
+    label,
+    atomId: error.atomId,
+    parameter: error.parameter,
+    value: fixed
+  });
+
+  switch (error.code) {
+    case 'below_min':
+      return param.min !== undefined ? setTo(param.min, `Set ${param.name} to ${param.min}`) : undefined;
+    case 'above_max':
+      return param.max !== undefined ? setTo(param.max, `Set ${param.name} to ${param.max}`) : undefined;
+    case 'too_long':
+      if (typeof value === 'string' && param.maxLength !== undefined) {
+        return setTo(value.slice(0, param.maxLength), `Trim ${param.name} to ${param.maxLength} characters`);
+      }
+      return undefined;
+    case 'invalid_type':
+      return param.defaultValue !== undefined ? setTo(param.defaultValue, `Reset ${param.name} to its default`) : undefined;
+    case 'invalid_option': {
+      const fallback = param.defaultValue ?? param.options?.[0]?.value;
+      return fallback !== undefined ? setTo(fallback, `Set ${param.name} to "${fallback}"`) : undefined;
+    }
+    case 'required':
+      return param.options?.length ? setTo(param.options[0].value, `Set ${param.name} to "${param.options[0].value}"`) : undefined;
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,165 @@
+// src/services/RuleCompiler.test.ts
+// Checks that compiled rules return exactly what the interpreter returns for the same input
+// The JavaScript output is loaded in-process; it has no imports, so dropping `export` is enough to run it
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { RuleCompileError, compileRule, compileRuleHarness } from './RuleCompiler';
+import { interpretRule } from './RuleInterpreter';
+import { registerAtom } from './AtomRegistry';
+
+const NOW = Date.parse('2024-03-10T12:00:00.000Z');
+
+let nextId = 1;
+const atom = (type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id: `atom_${nextId++}`,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const ruleWith = (rootAtom: AtomInstance | null): Rule => ({
+  id: 'rule_parity',
+  name: 'Loyalty offers',
+  description: '',
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+const loyaltyRule = ruleWith(
+  atom('age_range', { minAge: 18, maxAge: 120 }, [
+    atom('calculate_score', { weights: { 'user.purchases': 2, 'user.visits': 0.5 }, maxScore: 100 }),
+    atom('transform_data', { transformType: 'capitalize', inputField: 'user.name', outputField: 'displayName' }),
+    atom('if_then_else', { condition: 'user.purchases >= 10 and len(orders) > 0' }, [
+      atom('delay', { duration: 2, unit: 'hours' }, [
+        atom('loop', { iterateOver: 'orders', maxIterations: 3 }, [
+          atom('if_then_else', { condition: 'item.total > 100' }, [
+            atom('custom_event', { eventName: 'big_order', properties: { tier: 'gold' } })
+          ])
+        ])
+      ]),
+      atom('send_email', { templateId: 'welcome', subject: 'Welcome back', priority: 'normal' })
+    ])
+  ])
+);
+
+type Evaluate = (input: any, options?: { now?: () => number; maxSteps?: number }) => any;
+
+const load = (rule: Rule): Evaluate => {
+  const source = compileRule(rule, { typescript: false }).replace(/^export /gm, '');
+  return new Function(`${source}\nreturn evaluate;`)();
+};
+
+// Both sides as plain data, limited to what the compiled module returns
+const interpreted = (rule: Rule, input: any, maxSteps?: number) => {
+  const result = interpretRule(rule, input, { now: () => NOW, maxSteps });
+  return JSON.parse(JSON.stringify({ status: result.status, output: result.output, error: result.error }));
+};
+
+const compiled = (rule: Rule, input: any, maxSteps?: number) => {
+  const result = load(rule)(input, { now: () => NOW, maxSteps });
+  return JSON.parse(JSON.stringify({ status: result.status, output: result.output, error: result.error }));
+};
+
+describe('compileRule parity with the interpreter', () => {
+  it.each([
+    ['a loyal customer with big orders', {
+      user: { age: 34, name: 'ada', purchases: 12, visits: 40 },
+      orders: [{ total: 150 }, { total: 80 }, { total: 300 }, { total: 999 }]
+    }],
+    ['a customer below the purchase threshold', { user: { age: 34, name: 'grace', purchases: 3, visits: 2 }, orders: [] }],
+    ['a customer outside the age range', { user: { age: 12, name: 'tim', purchases: 50 } }],
+    ['input without the fields the rule reads', {}],
+    ['a loop over something that is not a list', { user: { age: 40, purchases: 20 }, orders: 'none' }]
+  ])('matches for %s', (_name, input) => {
+    expect(compiled(loyaltyRule, input)).toEqual(interpreted(loyaltyRule, input));
+  });
+
+  it('produces the actions and variables the rule describes', () => {
+    const input = { user: { age: 34, name: 'ada', purchases: 12, visits: 40 }, orders: [{ total: 150 }, { total: 80 }] };
+    const { output } = compiled(loyaltyRule, input);
+    expect(output.variables).toEqual({ score: 44, displayName: 'Ada' });
+    expect(output.actions).toHaveLength(1);
+    expect(output.actions[0]).toMatchObject({
+      type: 'custom_event',
+      parameters: { eventName: 'big_order', properties: { tier: 'gold' } },
+      delayMs: 2 * 60 * 60 * 1000,
+      item: { total: 150 }
+    });
+  });
+
+  it('times out after the same number of steps', () => {
+    const input = { user: { age: 34, name: 'ada', purchases: 12 }, orders: [{ total: 150 }, { total: 300 }] };
+    const result = compiled(loyaltyRule, input, 6);
+    expect(result.status).toBe('timeout');
+    expect(result).toEqual(interpreted(loyaltyRule, input, 6));
+  });
+
+  it('fails the same way when a condition cannot be evaluated', () => {
+    const rule = ruleWith(atom('if_then_else', { condition: 'user.age > 17' }));
+    expect(compiled(rule, {})).toEqual(interpreted(rule, {}));
+    expect(compiled(rule, {}).error).toMatch(/failed at column 1: Cannot compare a missing value with 17/);
+  });
+
+  describe('user segments', () => {
+    const rule = ruleWith(atom('user_segment', { segmentId: 'vip', includeSubsegments: true }, [
+      atom('custom_event', { eventName: 'vip_offer' })
+    ]));
+
+    it.each([
+      ['a list with a subsegment', { segments: ['vip/gold', 'newsletter'] }],
+      ['no segments', {}],
+      ['segments that are not a list', { segments: 'vip' }]
+    ])('match for %s', (_name, input) => {
+      expect(compiled(rule, input)).toEqual(interpreted(rule, input));
+    });
+
+    it('reports segments that are not a list as an atom error', () => {
+      expect(compiled(rule, { segments: { vip: true } }).error).toMatch(/Atom atom_\d+: "segments" is not an array/);
+    });
+  });
+
+  it('fails the same way for a call with the wrong number of arguments', () => {
+    const rule = ruleWith(atom('if_then_else', { condition: 'len() == 0' }));
+    expect(compiled(rule, {})).toEqual(interpreted(rule, {}));
+    expect(compiled(rule, {}).error).toMatch(/failed at column 1: len\(\) takes 1 argument but got 0/);
+  });
+
+  it('fails the same way for a rule without atoms', () => {
+    const rule = ruleWith(null);
+    expect(compiled(rule, {})).toEqual(interpreted(rule, {}));
+  });
+});
+
+describe('compileRule', () => {
+  it('declares the input type from the schema in TypeScript output', () => {
+    const source = compileRule({
+      ...loyaltyRule,
+      inputSchema: { type: 'object', properties: { user: { type: 'object', properties: { age: { type: 'integer' } } } } }
+    });
+    expect(source).toContain('export type RuleInput = {');
+    expect(source).toContain('export function evaluate(input: RuleInput, options: EvaluateOptions = {}): EvaluationResult {');
+  });
+
+  it('refuses atoms that run a custom executor', () => {
+    registerAtom(
+      { type: 'compiler_test_custom', name: 'Custom', description: '', category: 'action', complexity: 1 },
+      (_params, _children, context) => ({ value: context.emitAction({}), passed: true })
+    );
+    const rule = ruleWith(atom('compiler_test_custom', {}));
+    expect(() => compileRule(rule)).toThrow(RuleCompileError);
+    expect(() => compileRule(rule)).toThrow(`"compiler_test_custom" runs a custom executor, which can't be compiled`);
+  });
+});
+
+describe('compileRuleHarness', () => {
+  it('records the interpreter results with the given clock', () => {
+    const input = { user: { age: 34, name: 'ada', purchases: 12 }, orders: [{ total: 150 }] };
+    const harness = compileRuleHarness(loyaltyRule, [{ name: 'Loyal customer', input }], { modulePath: './loyalty.js', now: NOW });
+    expect(harness).toContain('import { evaluate } from "./loyalty.js";');
+    expect(harness).toContain(`const NOW = ${NOW};`);
+    expect(harness).toContain(JSON.stringify(interpreted(loyaltyRule, input), null, 2).split('\n').join('\n    '));
+  });
+});
@@ -0,0 +1,966 @@
+// src/services/RuleCompiler.ts
+// Compiles a rule's atom tree into a self-contained TypeScript or ES module with an evaluate(input) function
+// The generated code mirrors the local interpreter: same results, errors and step limit, without the registry or parser
+
+import { AtomInstance, Rule, RuleInputSchema, TestScenario } from '../types/RuleTypes';
+import { getAtomDefinition, getAtomExecutor } from './AtomRegistry';
+import { builtInExecutors } from './AtomExecutors';
+import { EXPRESSION_FUNCTIONS, getArityError } from './ExpressionFunctions';
+import { ExpressionNode, ExpressionSyntaxError, parseExpression } from './ExpressionParser';
+import { interpretRule, resolveParameters } from './RuleInterpreter';
+
+export interface CompileOptions {
+  typescript?: boolean; // Emit type annotations; defaults to true
+}
+
+export interface HarnessOptions extends CompileOptions {
+  modulePath: string; // Import path of the compiled module, relative to the harness
+  now?: number; // Clock the expected results are recorded with; defaults to the current time
+}
+
+export type HarnessCase = Pick<TestScenario, 'name' | 'input'>;
+
+export class RuleCompileError extends Error {
+  constructor(public problems: string[]) {
+    super(`Rule cannot be compiled:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'RuleCompileError';
+  }
+}
+
+const DEFAULT_MAX_STEPS = 10000;
+
+const UNIT_MS: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+// Type annotations are written through this, so one template serves both output languages
+type Annotate = (annotation: string) => string;
+
+// JavaScript source for a value known at compile time; unlike JSON it keeps undefined, NaN and Infinity
+const lit = (value: any): string => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return 'NaN';
+    if (!Number.isFinite(value)) return value > 0 ? 'Infinity' : '-Infinity';
+    return Object.is(value, -0) ? '-0' : String(value);
+  }
+  if (Array.isArray(value)) return `[${value.map(item => (item === undefined ? 'null' : lit(item))).join(', ')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => `${JSON.stringify(key)}: ${lit(item)}`);
+    return `{${entries.join(', ')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Runtime helpers; only the ones a rule needs end up in its module
+
+interface RuntimeSnippet {
+  requires?: string[];
+  source: (t: Annotate) => string;
+}
+
+const RUNTIME: Record<string, RuntimeSnippet> = {
+  readPath: {
+    source: t => `const readPath = (source${t(': any')}, path${t(': any')})${t(': any')} => {
+  if (!path) return undefined;
+  let current = source;
+  for (const segment of String(path).replace(/\\[(\\w+)\\]/g, '.$1').split('.').filter(Boolean)) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+};`
+  },
+  // Loop scopes first, then computed variables, then the input
+  resolve: {
+    requires: ['readPath'],
+    source: t => `const resolve = (s${t(': State')}, path${t(': any')})${t(': any')} => {
+  for (let i = s.scopes.length - 1; i >= 0; i--) {
+    const value = readPath(s.scopes[i], path);
+    if (value !== undefined) return value;
+  }
+  const variable = readPath(s.variables, path);
+  if (variable !== undefined) return variable;
+  return readPath(s.input, path);
+};`
+  },
+  firstDefined: {
+    requires: ['resolve'],
+    source: t => `const firstDefined = (s${t(': State')}, paths${t(': string[]')})${t(': any')} => {
+  for (const path of paths) {
+    const value = resolve(s, path);
+    if (value !== undefined && value !== null) return value;
+  }
+  return undefined;
+};`
+  },
+  toNumber: {
+    source: t => `const toNumber = (value${t(': any')})${t(': number | null')} => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};`
+  },
+  children: {
+    source: t => `const allPassed = (outcomes${t(': Outcome[]')}) => outcomes.every(outcome => outcome.passed);
+
+const runChild = (s${t(': State')}, child${t(': Atom')}, scope${t('?: Record<string, any>')})${t(': Outcome')} => {
+  if (scope) s.scopes.push(scope);
+  try {
+    return child(s);
+  } finally {
+    if (scope) s.scopes.pop();
+  }
+};
+
+const runAll = (s${t(': State')}, children${t(': Atom[]')}, scope${t('?: Record<string, any>')}) =>
+  children.map(child => runChild(s, child, scope));`
+  },
+  // Conditions: children only run when the test matched
+  gate: {
+    requires: ['children'],
+    source: t => `const gate = (s${t(': State')}, atomId${t(': string')}, matched${t(': boolean')}, children${t(': Atom[]')})${t(': Outcome')} => {
+  if (!matched) return { value: false, passed: false };
+  s.matchedConditions.push(atomId);
+  return { value: true, passed: allPassed(runAll(s, children)) };
+};`
+  },
+  // Actions: record the action, then continue with the children
+  emit: {
+    requires: ['children'],
+    source: t => `const emit = (
+  s${t(': State')},
+  atomId${t(': string')},
+  type${t(': string')},
+  parameters${t(': Record<string, any>')},
+  children${t(': Atom[]')}
+)${t(': Outcome')} => {
+  const record${t(': ActionRecord')} = { atomId, type, parameters, delayMs: s.delayMs };
+  const scope = s.scopes[s.scopes.length - 1];
+  if (scope && scope.item !== undefined) record.item = scope.item;
+  s.actions.push(record);
+  return { value: record, passed: allPassed(runAll(s, children)) };
+};`
+  },
+  lookup: {
+    requires: ['readPath'],
+    source: t => `const lookup = (s${t(': State')}, source${t(': string')})${t(': any')} => {
+  if (!s.lookupCache.has(source)) s.lookupCache.set(source, readPath(s.input, source) ?? {});
+  return s.lookupCache.get(source);
+};`
+  },
+  // Delays are not awaited; actions emitted inside are stamped with the offset
+  defer: {
+    requires: ['children'],
+    source: t => `const defer = (s${t(': State')}, delayMs${t(': number')}, children${t(': Atom[]')})${t(': Outcome[]')} => {
+  s.delayMs += delayMs;
+  try {
+    return runAll(s, children);
+  } finally {
+    s.delayMs -= delayMs;
+  }
+};`
+  },
+  minutesInTimezone: {
+    source: t => `const minutesInTimezone = (epochMs${t(': number')}, timeZone${t(': string')})${t(': number')} => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(epochMs));
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+};`
+  },
+  // Expression failures name the atom, the parameter and the 1-based column
+  expression: {
+    source: t => `class ExpressionError extends Error {
+${t('  start: number;\n\n')}  constructor(message${t(': string')}, start${t(': number')}) {
+    super(message);
+    this.start = start;
+  }
+}
+
+const expression = (atomId${t(': string')}, parameter${t(': string')}, source${t(': string')}, run${t(': () => any')})${t(': any')} => {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new Error('Atom ' + atomId + ': ' + parameter + ' "' + source + '" failed at column ' + (error.start + 1) + ': ' + error.message);
+    }
+    throw error;
+  }
+};`
+  },
+  fail: {
+    requires: ['expression'],
+    source: t => `const fail = (message${t(': string')}, start${t(': number')})${t(': never')} => {
+  throw new ExpressionError(message, start);
+};`
+  },
+  describe: {
+    source: t => `const describe = (value${t(': any')}) => (value === undefined ? 'a missing value' : JSON.stringify(value));`
+  },
+  valuesEqual: {
+    source: t => `const valuesEqual = (left${t(': any')}, right${t(': any')})${t(': boolean')} => {
+  if (left === right) return true;
+  if (typeof left === 'object' && typeof right === 'object' && left !== null && right !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return false;
+};`
+  },
+  compare: {
+    requires: ['fail', 'describe'],
+    source: t => `const compare = (left${t(': any')}, right${t(': any')}, start${t(': number')})${t(': number')} => {
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) fail('Cannot compare ' + describe(left) + ' with ' + describe(right), start);
+  return left < right ? -1 : left > right ? 1 : 0;
+};`
+  },
+  arithmetic: {
+    requires: ['fail', 'describe'],
+    source: t => `const arithmetic = (
+  operator${t(': string')},
+  left${t(': any')},
+  right${t(': any')},
+  start${t(': number')},
+  rightStart${t(': number')}
+)${t(': any')} => {
+  if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+    return String(left ?? '') + String(right ?? '');
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    fail('"' + operator + '" needs numbers but got ' + describe(left) + ' and ' + describe(right), start);
+  }
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    default:
+      if (right === 0) fail('Division by zero', rightStart);
+      return operator === '/' ? left / right : left % right;
+  }
+};`
+  },
+  negate: {
+    requires: ['fail', 'describe'],
+    source: t => `const negate = (operand${t(': any')}, start${t(': number')})${t(': number')} => {
+  if (typeof operand !== 'number') fail('Cannot negate ' + describe(operand), start);
+  return -operand;
+};`
+  },
+  inside: {
+    requires: ['fail', 'describe', 'valuesEqual'],
+    source: t => `const inside = (left${t(': any')}, right${t(': any')}, rightStart${t(': number')})${t(': boolean')} => {
+  if (Array.isArray(right)) return right.some(item => valuesEqual(item, left));
+  if (typeof right === 'string') return typeof left === 'string' && right.includes(left);
+  return fail('"in" needs a list or text but got ' + describe(right), rightStart);
+};`
+  },
+  requireNumber: {
+    source: t => `const requireNumber = (value${t(': any')}, name${t(': string')})${t(': number')} => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(name + '() expects a number but got ' + (value === undefined ? 'nothing' : JSON.stringify(value)));
+  }
+  return value;
+};`
+  },
+  requireString: {
+    source: t => `const requireString = (value${t(': any')}, name${t(': string')})${t(': string')} => {
+  if (typeof value !== 'string') {
+    throw new Error(name + '() expects text but got ' + (value === undefined ? 'nothing' : JSON.stringify(value)));
+  }
+  return value;
+};`
+  },
+  toTimestamp: {
+    source: t => `const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTimestamp = (value${t(': any')})${t(': number')} => {
+  const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(timestamp)) throw new Error('daysSince() expects a date but got ' + JSON.stringify(value));
+  return timestamp;
+};`
+  }
+};
+
+// Built-in expression functions, kept in step with EXPRESSION_FUNCTIONS
+const FUNCTION_SOURCES: Record<string, { requires?: string[]; source: string }> = {
+  len: {
+    source: `len: ([value]) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value === undefined || value === null) return 0;
+    throw new Error('len() expects text or a list but got ' + JSON.stringify(value));
+  }`
+  },
+  lower: { requires: ['requireString'], source: `lower: ([text]) => requireString(text, 'lower').toLowerCase()` },
+  upper: { requires: ['requireString'], source: `upper: ([text]) => requireString(text, 'upper').toUpperCase()` },
+  trim: { requires: ['requireString'], source: `trim: ([text]) => requireString(text, 'trim').trim()` },
+  contains: {
+    requires: ['valuesEqual'],
+    source: `contains: ([haystack, needle]) => {
+    if (Array.isArray(haystack)) return haystack.some(item => valuesEqual(item, needle));
+    if (typeof haystack === 'string') return haystack.includes(String(needle));
+    return false;
+  }`
+  },
+  startsWith: {
+    requires: ['requireString'],
+    source: `startsWith: ([text, prefix]) => typeof text === 'string' && text.startsWith(requireString(prefix, 'startsWith'))`
+  },
+  endsWith: {
+    requires: ['requireString'],
+    source: `endsWith: ([text, suffix]) => typeof text === 'string' && text.endsWith(requireString(suffix, 'endsWith'))`
+  },
+  abs: { requires: ['requireNumber'], source: `abs: ([value]) => Math.abs(requireNumber(value, 'abs'))` },
+  round: {
+    requires: ['requireNumber'],
+    source: `round: ([value, digits = 0]) => {
+    const factor = 10 ** requireNumber(digits, 'round');
+    return Math.round(requireNumber(value, 'round') * factor) / factor;
+  }`
+  },
+  floor: { requires: ['requireNumber'], source: `floor: ([value]) => Math.floor(requireNumber(value, 'floor'))` },
+  ceil: { requires: ['requireNumber'], source: `ceil: ([value]) => Math.ceil(requireNumber(value, 'ceil'))` },
+  min: { requires: ['requireNumber'], source: `min: args => Math.min(...args.map(arg => requireNumber(arg, 'min')))` },
+  max: { requires: ['requireNumber'], source: `max: args => Math.max(...args.map(arg => requireNumber(arg, 'max')))` },
+  sum: {
+    requires: ['requireNumber'],
+    source: `sum: ([values]) => (Array.isArray(values) ? values : []).reduce((total, value) => total + requireNumber(value, 'sum'), 0)`
+  },
+  exists: { source: `exists: ([value]) => value !== undefined && value !== null` },
+  coalesce: { source: `coalesce: args => args.find(arg => arg !== undefined && arg !== null) ?? null` },
+  now: { source: `now: (_args, s) => s.now()` },
+  daysSince: {
+    requires: ['toTimestamp'],
+    source: `daysSince: ([date], s) => Math.floor((s.now() - toTimestamp(date)) / DAY_MS)`
+  }
+};
+
+const TRANSFORM_SOURCES: Record<string, { requires?: string[]; source: string }> = {
+  format_currency: {
+    requires: ['toNumber'],
+    source: `(value) => {
+  const amount = toNumber(value);
+  return amount === null
+    ? null
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}`
+  },
+  format_date: {
+    source: `(value) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}`
+  },
+  capitalize: {
+    source: `(value) => {
+  const text = String(value ?? '');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}`
+  },
+  percentage: {
+    requires: ['toNumber'],
+    source: `(value) => {
+  const ratio = toNumber(value);
+  return ratio === null ? null : Math.round(ratio * 10000) / 100;
+}`
+  }
+};
+
+const FILTER_SOURCES: Record<string, { requires?: string[]; source: string }> = {
+  equals: { source: `(left, right) => String(left) === String(right)` },
+  not_equals: { source: `(left, right) => String(left) !== String(right)` },
+  greater_than: {
+    requires: ['toNumber'],
+    source: `(left, right) => {
+  const [a, b] = [toNumber(left), toNumber(right)];
+  return a !== null && b !== null ? a > b : String(left) > String(right);
+}`
+  },
+  less_than: {
+    requires: ['toNumber'],
+    source: `(left, right) => {
+  const [a, b] = [toNumber(left), toNumber(right)];
+  return a !== null && b !== null ? a < b : String(left) < String(right);
+}`
+  },
+  contains: {
+    source: `(left, right) =>
+  Array.isArray(left) ? left.map(String).includes(String(right)) : String(left ?? '').includes(String(right))`
+  },
+  starts_with: { source: `(left, right) => String(left ?? '').startsWith(String(right))` }
+};
+
+// Collects what the compiled atoms use while they are generated
+class ModuleBuilder {
+  private snippets = new Set<string>();
+  readonly functions = new Set<string>();
+  readonly transforms = new Set<string>();
+  readonly filters = new Set<string>();
+
+  constructor(readonly t: Annotate) {}
+
+  use(name: string): string {
+    if (!this.snippets.has(name)) {
+      RUNTIME[name].requires?.forEach(dependency => this.use(dependency));
+      this.snippets.add(name);
+    }
+    return name;
+  }
+
+  useFunction(name: string): void {
+    this.use('fail');
+    FUNCTION_SOURCES[name].requires?.forEach(dependency => this.use(dependency));
+    this.functions.add(name);
+  }
+
+  has(name: string): boolean {
+    return this.snippets.has(name);
+  }
+
+  useTransform(name: string): string {
+    TRANSFORM_SOURCES[name].requires?.forEach(dependency => this.use(dependency));
+    this.transforms.add(name);
+    return `transform_${name}`;
+  }
+
+  useFilter(name: string): string {
+    FILTER_SOURCES[name].requires?.forEach(dependency => this.use(dependency));
+    this.filters.add(name);
+    return `filter_${name}`;
+  }
+
+  // Helpers in declaration order, followed by the tables of the functions, transforms and filters in use
+  runtime(): string[] {
+    const t = this.t;
+    const blocks = Object.keys(RUNTIME).filter(name => this.snippets.has(name)).map(name => RUNTIME[name].source(t));
+    if (this.functions.size > 0) {
+      const entries = Array.from(this.functions).map(name => `  ${FUNCTION_SOURCES[name].source}`);
+      blocks.push(`const FUNCTIONS${t(': Record<string, (args: any[], s: State) => any>')} = {\n${entries.join(',\n')}\n};
+
+const call = (s${t(': State')}, name${t(': string')}, args${t(': any[]')}, start${t(': number')})${t(': any')} => {
+  try {
+    return FUNCTIONS[name](args, s);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error), start);
+  }
+};`);
+    }
+    this.transforms.forEach(name => {
+      blocks.push(`const transform_${name} = ${TRANSFORM_SOURCES[name].source.replace('(value)', `(value${t(': any')})`)};`);
+    });
+    this.filters.forEach(name => {
+      blocks.push(`const filter_${name} = ${FILTER_SOURCES[name].source.replace('(left, right)', `(left${t(': any')}, right${t(': any')})`)};`);
+    });
+    return blocks;
+  }
+}
+
+// Expressions compile to plain JavaScript over the runtime helpers, with the evaluator's short-circuiting and errors
+const compileExpressionNode = (node: ExpressionNode, builder: ModuleBuilder): string => {
+  const compile = (child: ExpressionNode) => compileExpressionNode(child, builder);
+  switch (node.kind) {
+    case 'literal':
+      return lit(node.value);
+    case 'path':
+      return `${builder.use('resolve')}(s, ${lit(node.path)})`;
+    case 'array':
+      return `[${node.elements.map(compile).join(', ')}]`;
+    case 'unary':
+      return node.operator === 'not'
+        ? `!(${compile(node.operand)})`
+        : `${builder.use('negate')}(${compile(node.operand)}, ${node.start})`;
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      if (!fn || !FUNCTION_SOURCES[node.name]) {
+        return `${builder.use('fail')}(${lit(`Unknown function "${node.name}"`)}, ${node.start})`;
+      }
+      const arityError = getArityError(node.name, fn, node.args.length);
+      if (arityError) return `${builder.use('fail')}(${lit(arityError)}, ${node.start})`;
+      builder.useFunction(node.name);
+      return `call(s, ${lit(node.name)}, [${node.args.map(compile).join(', ')}], ${node.start})`;
+    }
+    case 'binary': {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      switch (node.operator) {
+        case 'and': return `(Boolean(${left}) && Boolean(${right}))`;
+        case 'or': return `(Boolean(${left}) || Boolean(${right}))`;
+        case '==': return `${builder.use('valuesEqual')}(${left} ?? null, ${right} ?? null)`;
+        case '!=': return `!${builder.use('valuesEqual')}(${left} ?? null, ${right} ?? null)`;
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          return `(${builder.use('compare')}(${left}, ${right}, ${node.start}) ${node.operator} 0)`;
+        case 'in':
+          return `${builder.use('inside')}(${left}, ${right}, ${node.right.start})`;
+        default:
+          return `${builder.use('arithmetic')}(${lit(node.operator)}, ${left}, ${right}, ${node.start}, ${node.right.start})`;
+      }
+    }
+  }
+};
+
+// Call of an expression parameter; syntax errors surface when the atom runs, as in the interpreter
+const compileParameterExpression = (atom: AtomInstance, parameter: string, source: any, builder: ModuleBuilder): string => {
+  builder.use('expression');
+  let body: string;
+  try {
+    body = compileExpressionNode(parseExpression(String(source ?? '')), builder);
+  } catch (error) {
+    if (!(error instanceof ExpressionSyntaxError)) throw error;
+    body = `${builder.use('fail')}(${lit(error.message)}, ${error.start})`;
+  }
+  return `expression(${lit(atom.id)}, ${lit(parameter)}, ${lit(String(source))}, () => ${body})`;
+};
+
+interface AtomSite {
+  atom: AtomInstance;
+  params: Record<string, any>;
+  id: string; // Source literal of the atom id
+  children: () => string; // Source of the array of compiled child functions
+  child: (index: number) => string; // Source of a call to one child, `undefined` when it doesn't exist
+  builder: ModuleBuilder;
+}
+
+const throwing = (message: string) => [`throw new Error(${lit(message)});`];
+
+// Statements computing each built-in atom's outcome, specialised for its parameter values
+const ATOM_COMPILERS: Record<string, (site: AtomSite) => string[]> = {
+  age_range: ({ params, id, children, builder }) => [
+    `const age = ${builder.use('toNumber')}(${builder.use('firstDefined')}(s, ['age', 'user.age', 'profile.age']));`,
+    `return ${builder.use('gate')}(s, ${id}, age !== null && age >= ${lit(params.minAge)} && age <= ${lit(params.maxAge)}, ${children()});`
+  ],
+
+  geography: ({ params, id, children, builder }) => {
+    const countries: string[] = (params.countries || []).map((code: string) => String(code).toUpperCase());
+    const excluded = params.excludeRegions || [];
+    builder.use('firstDefined');
+    return [
+      `const country = String(firstDefined(s, ['country', 'location.country', 'user.country']) ?? '').toUpperCase();`,
+      `const region = firstDefined(s, ['region', 'location.region', 'user.region']);`,
+      `const countries${builder.t(': any')} = ${lit(countries)};`,
+      `const excluded${builder.t(': any')} = ${lit(excluded)};`,
+      `return ${builder.use('gate')}(s, ${id}, countries.includes(country) && !(region !== undefined && excluded.includes(region)), ${children()});`
+    ];
+  },
+
+  time_window: ({ atom, params, id, children, builder }) => {
+    const start = parseClock(params.startTime);
+    const end = parseClock(params.endTime);
+    if (start === null || end === null) {
+      return throwing(`Atom ${atom.id}: startTime and endTime must use HH:MM format`);
+    }
+    const matched = start <= end
+      ? `minutes >= ${start} && minutes <= ${end}`
+      : `minutes >= ${start} || minutes <= ${end}`; // Window crosses midnight
+    return [
+      `const supplied = ${builder.use('firstDefined')}(s, ['currentTime', 'timestamp']);`,
+      `const epochMs = supplied !== undefined ? new Date(supplied).getTime() : s.now();`,
+      `if (isNaN(epochMs)) throw new Error(${lit(`Atom ${atom.id}: input time "`)} + String(supplied) + '" is not a valid date');`,
+      `const minutes = ${builder.use('minutesInTimezone')}(epochMs, ${lit(params.timezone || 'UTC')});`,
+      `return ${builder.use('gate')}(s, ${id}, ${matched}, ${children()});`
+    ];
+  },
+
+  user_activity: ({ params, id, children, builder }) => [
+    `const activity = ${builder.use('resolve')}(s, ${lit(`activity.${params.activityType}`)});`,
+    `const count = ${builder.use('toNumber')}(typeof activity === 'object' && activity !== null ? activity[${lit(String(params.timeFrame))}] : activity);`,
+    `return ${builder.use('gate')}(s, ${id}, count !== null && count >= ${lit(params.threshold)}, ${children()});`
+  ],
+
+  send_email: site => emitAction(site),
+  show_banner: site => emitAction(site),
+  send_push_notification: site => emitAction(site),
+  custom_event: site => emitAction(site),
+
+  calculate_score: ({ params, children, builder }) => {
+    const weights = Object.entries(params.weights || {});
+    builder.use('children');
+    if (weights.length > 0) builder.use('resolve');
+    const terms = weights.map(([field, weight]) =>
+      ` + (${builder.use('toNumber')}(resolve(s, ${lit(field)})) ?? 0) * ${lit(Number(weight))}`
+    );
+    return [
+      `const raw = 0${terms.join('')};`,
+      `const score = Math.min(${lit(params.maxScore ?? Infinity)}, Math.round(raw * 100) / 100);`,
+      `s.variables.score = score;`,
+      `return { value: score, passed: allPassed(runAll(s, ${children()})) };`
+    ];
+  },
+
+  lookup_data: ({ params, children, builder }) => {
+    const source = String(params.source);
+    builder.use('children');
+    builder.use('readPath');
+    return [
+      `const record = ${builder.use('lookup')}(s, ${lit(source)});`,
+      `const picked${builder.t(': Record<string, any>')} = {};`,
+      `const fields${builder.t(': any[]')} = ${lit(params.fields || [])};`,
+      `fields.forEach(field => {`,
+      `  const value = readPath(record, field);`,
+      `  if (value !== undefined) picked[field] = value;`,
+      `});`,
+      `s.variables[${lit(source)}] = { ...(s.variables[${lit(source)}] || {}), ...picked };`,
+      `return { value: picked, passed: allPassed(runAll(s, ${children()})) };`
+    ];
+  },
+
+  transform_data: ({ atom, params, children, builder }) => {
+    if (!Object.prototype.hasOwnProperty.call(TRANSFORM_SOURCES, params.transformType)) {
+      return throwing(`Atom ${atom.id}: unknown transform "${params.transformType}"`);
+    }
+    builder.use('children');
+    return [
+      `const result = ${builder.useTransform(params.transformType)}(${builder.use('resolve')}(s, ${lit(params.inputField)}));`,
+      `s.variables[${lit(String(params.outputField))}] = result;`,
+      `return { value: result, passed: allPassed(runAll(s, ${children()})) };`
+    ];
+  },
+
+  if_then_else: ({ atom, params, child, builder }) => {
+    const condition = `const condition = Boolean(${compileParameterExpression(atom, 'condition', params.condition, builder)});`;
+    const value = `{ condition, branch: condition ? 'then' : 'else' }`;
+    if (atom.children.length === 0) return [condition, `return { value: ${value}, passed: true };`];
+    return [
+      condition,
+      `const branch = condition ? ${child(0)} : ${child(1)};`,
+      `return { value: ${value}, passed: branch ? branch.passed : true };`
+    ];
+  },
+
+  delay: ({ atom, params, children, builder }) => {
+    const unitMs = UNIT_MS[params.unit];
+    if (!unitMs) return throwing(`Atom ${atom.id}: unknown delay unit "${params.unit}"`);
+    return [
+      `const delayMs = ${lit(Number(params.duration) * unitMs)};`,
+      `const outcomes = ${builder.use('defer')}(s, delayMs, ${children()});`,
+      `return { value: { delayMs }, passed: allPassed(outcomes) };`
+    ];
+  },
+
+  loop: ({ atom, params, children, builder }) => {
+    builder.use('children');
+    return [
+      `const collection = ${compileParameterExpression(atom, 'iterateOver', params.iterateOver, builder)};`,
+      `if (collection !== undefined && collection !== null && !Array.isArray(collection)) {`,
+      `  throw new Error(${lit(`Atom ${atom.id}: "${params.iterateOver}" is not an array`)});`,
+      `}`,
+      `const items${builder.t(': any[]')} = collection || [];`,
+      `const limit = Math.min(items.length, ${params.maxIterations === undefined || params.maxIterations === null ? 'items.length' : lit(params.maxIterations)});`,
+      `let passed = true;`,
+      `for (let index = 0; index < limit; index++) {`,
+      `  passed = allPassed(runAll(s, ${children()}, { item: items[index], index })) && passed;`,
+      `}`,
+      `return { value: { iterations: limit, truncated: limit < items.length }, passed };`
+    ];
+  },
+
+  user_segment: ({ atom, params, id, children, builder }) => {
+    const segmentId = String(params.segmentId);
+    const subsegments = Boolean(params.includeSubsegments)
+      ? ` || segments.some(segment => segment.startsWith(${lit(`${segmentId}/`)}))`
+      : '';
+    return [
+      `const value = ${builder.use('resolve')}(s, 'segments');`,
+      `if (value !== undefined && value !== null && !Array.isArray(value)) {`,
+      `  throw new Error(${lit(`Atom ${atom.id}: "segments" is not an array`)});`,
+      `}`,
+      `const segments${builder.t(': string[]')} = (value || []).map(String);`,
+      `return ${builder.use('gate')}(s, ${id}, segments.includes(${lit(segmentId)})${subsegments}, ${children()});`
+    ];
+  },
+
+  data_filter: ({ atom, params, id, children, builder }) => {
+    if (!Object.prototype.hasOwnProperty.call(FILTER_SOURCES, params.operator)) {
+      return throwing(`Atom ${atom.id}: unknown filter operator "${params.operator}"`);
+    }
+    const filter = builder.useFilter(params.operator);
+    return [
+      `return ${builder.use('gate')}(s, ${id}, ${filter}(${builder.use('resolve')}(s, ${lit(params.field)}), ${lit(params.value)}), ${children()});`
+    ];
+  },
+
+  // Imported atoms of unknown type only run their children
+  placeholder: ({ children, builder }) => {
+    builder.use('children');
+    return [`return { value: null, passed: allPassed(runAll(s, ${children()})) };`];
+  }
+};
+
+// Parameters are written inline, so every evaluation records a fresh object
+const emitAction = ({ atom, params, id, children, builder }: AtomSite) =>
+  [`return ${builder.use('emit')}(s, ${id}, ${lit(atom.type)}, ${lit(params)}, ${children()});`];
+
+const parseClock = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value).trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Input type from the rule's schema; rules without one accept any object
+const schemaToType = (schema: RuleInputSchema | undefined, indent = ''): string => {
+  if (!schema) return 'any';
+  if (schema.enum && schema.enum.length > 0) return schema.enum.map(value => lit(value)).join(' | ');
+  switch (schema.type) {
+    case 'string': return 'string';
+    case 'number':
+    case 'integer': return 'number';
+    case 'boolean': return 'boolean';
+    case 'null': return 'null';
+    case 'array': return `Array<${schemaToType(schema.items, indent)}>`;
+    case 'object': {
+      const properties = Object.entries(schema.properties ?? {});
+      if (properties.length === 0) return 'Record<string, any>';
+      const inner = `${indent}  `;
+      const lines = properties.map(([name, property]) => {
+        const key = IDENTIFIER.test(name) ? name : JSON.stringify(name);
+        const optional = schema.required?.includes(name) ? '' : '?';
+        return `${inner}${key}${optional}: ${schemaToType(property, inner)};`;
+      });
+      return `{\n${lines.join('\n')}\n${indent}}`;
+    }
+    default: return 'any';
+  }
+};
+
+// Comments must stay on one line and can't close early
+const commentText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const compileRule = (rule: Rule, options: CompileOptions = {}): string => {
+  const typescript = options.typescript ?? true;
+  const t: Annotate = annotation => (typescript ? annotation : '');
+  const builder = new ModuleBuilder(t);
+  const names = new Map<string, string>();
+  const problems: string[] = [];
+  const functions: string[] = [];
+
+  const compileAtom = (atom: AtomInstance): string => {
+    const name = `node${names.size}`;
+    names.set(atom.id, name);
+    // Parents come before their children in the module
+    const index = functions.push('') - 1;
+    const label = commentText(`${atom.id} · ${atom.type}${atom.label ? ` (${atom.label})` : ''}`);
+    functions[index] = [
+      `// ${label}`,
+      `function ${name}(s${t(': State')})${t(': Outcome')} {`,
+      `  enter(s);`,
+      ...compileBody(atom).map(line => `  ${line}`),
+      `}`
+    ].join('\n');
+    return name;
+  };
+
+  const compileBody = (atom: AtomInstance): string[] => {
+    const definition = getAtomDefinition(atom.type);
+    if (!definition) return throwing(`Atom ${atom.id}: unknown atom type "${atom.type}"`);
+    const executor = getAtomExecutor(atom.type);
+    if (!executor) return throwing(`Atom ${atom.id}: no executor registered for atom type "${atom.type}"`);
+    const compiler = ATOM_COMPILERS[atom.type];
+    if (!compiler || executor !== builtInExecutors[atom.type]) {
+      problems.push(`Atom ${atom.id}: "${atom.type}" runs a custom executor, which can't be compiled`);
+      return [];
+    }
+
+    let params: Record<string, any>;
+    try {
+      params = resolveParameters(atom, definition);
+    } catch (error) {
+      return throwing(error instanceof Error ? error.message : String(error));
+    }
+
+    // Children are only compiled when the atom can reach them
+    const childNames: string[] = [];
+    const compileChild = (childIndex: number) => (childNames[childIndex] ??= compileAtom(atom.children[childIndex]));
+    return compiler({
+      atom,
+      params,
+      id: lit(atom.id),
+      children: () => `[${atom.children.map((_, childIndex) => compileChild(childIndex)).join(', ')}]`,
+      child: childIndex => (atom.children[childIndex] ? `${compileChild(childIndex)}(s)` : 'undefined'),
+      builder
+    });
+  };
+
+  if (rule.rootAtom) compileAtom(rule.rootAtom);
+  if (problems.length > 0) throw new RuleCompileError(problems);
+
+  const root = rule.rootAtom ? names.get(rule.rootAtom.id)! : null;
+  const sections: string[] = [];
+
+  sections.push([
+    `// ${commentText(rule.name)}`,
+    `// Compiled from rule ${commentText(rule.id)} (version ${commentText(rule.metadata.version)}); regenerate instead of editing`,
+    `// Dependency-free: evaluate(input) returns what the rule interpreter returns for the same input`
+  ].join('\n'));
+
+  sections.push(`export const RULE = ${lit({ id: rule.id, name: rule.name, version: rule.metadata.version })};`);
+
+  if (typescript) {
+    sections.push(`export type RuleInput = ${rule.inputSchema ? schemaToType(rule.inputSchema) : 'Record<string, any>'};
+
+export interface ActionRecord {
+  atomId: string;
+  type: string;
+  parameters: Record<string, any>;
+  delayMs: number; // Offset accumulated from enclosing delay atoms
+  item?: any; // Current loop item when emitted inside a loop
+}
+
+export interface RuleOutput {
+  result: boolean;
+  matchedConditions: string[];
+  actions: ActionRecord[];
+  variables: Record<string, any>;
+}
+
+export type EvaluationResult =
+  | { status: 'success'; output: RuleOutput; error?: undefined }
+  | { status: 'error' | 'timeout'; output: null; error: string };
+
+export interface EvaluateOptions {
+  now?: () => number; // Clock in epoch ms, used by time-based atoms and functions
+  maxSteps?: number; // Upper bound on atom evaluations before the run times out
+}`);
+  }
+
+  // A rule without atoms fails without running anything, as in the interpreter
+  if (!root) {
+    sections.push(`export function evaluate(_input${t(': RuleInput')}, _options${t(': EvaluateOptions')} = {})${t(': EvaluationResult')} {
+  return { status: 'error', output: null, error: 'Rule has no atoms to execute' };
+}`);
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  if (typescript) {
+    sections.push(`interface State {
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  scopes: Record<string, any>[];
+  actions: ActionRecord[];
+  matchedConditions: string[];
+  lookupCache: Map<string, any>;
+  delayMs: number;
+  steps: number;
+  maxSteps: number;
+  now: () => number;
+}
+
+interface Outcome {
+  value: any;
+  passed: boolean;
+}${builder.has('children') ? '\n\ntype Atom = (s: State) => Outcome;' : ''}`);
+  }
+
+  sections.push(`class ExecutionLimitError extends Error {}
+
+const enter = (s${t(': State')}) => {
+  s.steps++;
+  if (s.steps > s.maxSteps) throw new ExecutionLimitError('Execution exceeded ' + s.maxSteps + ' atom evaluations');
+};`);
+
+  sections.push(...builder.runtime());
+  sections.push(...functions);
+
+  sections.push(`export function evaluate(input${t(': RuleInput')}, options${t(': EvaluateOptions')} = {})${t(': EvaluationResult')} {
+  const value${t(': any')} = input;
+  const s${t(': State')} = {
+    input: value && typeof value === 'object' ? value : { value },
+    variables: {},
+    scopes: [],
+    actions: [],
+    matchedConditions: [],
+    lookupCache: new Map(),
+    delayMs: 0,
+    steps: 0,
+    maxSteps: options.maxSteps ?? ${DEFAULT_MAX_STEPS},
+    now: options.now || Date.now
+  };
+  try {
+    const outcome = ${root}(s);
+    return {
+      status: 'success',
+      output: { result: outcome.passed, matchedConditions: s.matchedConditions, actions: s.actions, variables: s.variables }
+    };
+  } catch (error) {
+    return {
+      status: error instanceof ExecutionLimitError ? 'timeout' : 'error',
+      output: null,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}`);
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+// Script that checks a compiled module against results the interpreter recorded for the same inputs
+// It prints TAP and sets a failing exit code when any case differs
+export const compileRuleHarness = (rule: Rule, cases: HarnessCase[], options: HarnessOptions): string => {
+  const typescript = options.typescript ?? true;
+  const t: Annotate = annotation => (typescript ? annotation : '');
+  const now = options.now ?? Date.now();
+
+  const recorded = cases.map(testCase => {
+    const result = interpretRule(rule, testCase.input, { now: () => now });
+    return {
+      name: testCase.name,
+      input: testCase.input,
+      expected: JSON.parse(JSON.stringify({ status: result.status, output: result.output, error: result.error }))
+    };
+  });
+
+  return `// ${commentText(rule.name)} harness
+// Checks the compiled rule against results the rule interpreter recorded for the same inputs
+// Prints TAP; the exit code is non-zero when any case differs
+
+import { evaluate } from ${JSON.stringify(options.modulePath)};
+
+const NOW = ${now}; // Clock the expected results were recorded with
+
+const CASES${t(': Array<{ name: string; input: any; expected: any }>')} = ${JSON.stringify(recorded, null, 2)};
+
+// Both sides compare as plain JSON data
+const normalize = (value${t(': any')})${t(': any')} => JSON.parse(JSON.stringify(value));
+
+const same = (a${t(': any')}, b${t(': any')})${t(': boolean')} => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && same(a[key], b[key]));
+};
+
+export const runHarness = () => CASES.map(testCase => {
+  const result = evaluate(testCase.input, { now: () => NOW });
+  const actual = normalize({ status: result.status, output: result.output, error: result.error });
+  return { name: testCase.name, passed: same(actual, testCase.expected), expected: testCase.expected, actual };
+});
+
+const results = runHarness();
+console.log('1..' + results.length);
+results.forEach((result, index) => {
+  console.log((result.passed ? 'ok ' : 'not ok ') + (index + 1) + ' - ' + result.name);
+  if (!result.passed) {
+    console.log('  # expected: ' + JSON.stringify(result.expected));
+    console.log('  # actual:   ' + JSON.stringify(result.actual));
+  }
+});
+
+const host${t(': any')} = globalThis;
+if (host.process && results.some(result => !result.passed)) host.process.exitCode = 1;
+`;
+};
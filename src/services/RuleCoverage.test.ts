@@ -0,0 +1,84 @@
+// src/services/RuleCoverage.test.ts
+// Covers atom and branch coverage collected from interpreter traces
+// The rule under test has one branch point of each kind: a gating condition, an if/else and a loop
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule, TestResult } from '../types/RuleTypes';
+import { collectCoverage, formatCoveragePercent, getBranchNames, getMissedBranches } from './RuleCoverage';
+import { interpretRule } from './RuleInterpreter';
+
+const atom = (id: string, type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const rule: Rule = {
+  id: 'rule_coverage',
+  name: 'Coverage',
+  description: '',
+  rootAtom: atom('atom_1', 'age_range', { minAge: 18, maxAge: 65 }, [
+    atom('atom_2', 'if_then_else', { condition: 'vip' }, [
+      atom('atom_3', 'send_email', { templateId: 'vip' }),
+      atom('atom_4', 'loop', { iterateOver: 'items' }, [atom('atom_5', 'custom_event', { eventName: 'item' })])
+    ])
+  ]),
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+};
+
+const run = (input: any) => interpretRule(rule, input);
+
+describe('collectCoverage', () => {
+  const coverage = collectCoverage(rule, [run({ age: 30, vip: true }), run({ age: 10 })]);
+
+  it('counts evaluations per atom and measures the atoms reached', () => {
+    expect(coverage.runs).toBe(2);
+    expect(coverage.atomHits).toEqual({ atom_1: 2, atom_2: 1, atom_3: 1, atom_4: 0, atom_5: 0 });
+    expect(coverage.atoms).toEqual({ covered: 3, total: 5, percent: 60 });
+  });
+
+  it('counts the branches each branch point took', () => {
+    expect(coverage.branches).toEqual([
+      { atomId: 'atom_1', branch: 'matched', hits: 1 },
+      { atomId: 'atom_1', branch: 'not matched', hits: 1 },
+      { atomId: 'atom_2', branch: 'then', hits: 1 },
+      { atomId: 'atom_2', branch: 'else', hits: 0 },
+      { atomId: 'atom_4', branch: 'iterated', hits: 0 },
+      { atomId: 'atom_4', branch: 'no iterations', hits: 0 }
+    ]);
+    expect(coverage.branchTotals).toEqual({ covered: 3, total: 6, percent: 50 });
+    expect(formatCoveragePercent(coverage.branchTotals.percent)).toBe('50%');
+    expect(getMissedBranches(coverage, 'atom_2')).toEqual(['else']);
+    expect(getMissedBranches(coverage, 'atom_3')).toEqual([]);
+  });
+
+  it('covers a loop that ran and one that had nothing to iterate', () => {
+    const loops = collectCoverage(rule, [run({ age: 30, items: [1] }), run({ age: 30, items: [] })]);
+    expect(getMissedBranches(loops, 'atom_4')).toEqual([]);
+    expect(loops.atomHits.atom_5).toBe(1);
+  });
+
+  it('skips results without a trace and steps for atoms deleted since the run', () => {
+    const stale: TestResult = { ...run({ age: 30 }), executionTrace: [{ atomId: 'atom_99', action: 'evaluate_condition', timestamp: 0 }] };
+    const untraced: TestResult = { ...run({ age: 30 }), executionTrace: undefined };
+    const result = collectCoverage(rule, [stale, untraced]);
+    expect(result.runs).toBe(1);
+    expect(result.atoms.covered).toBe(0);
+  });
+
+  it('has no percentages for a rule without atoms', () => {
+    const empty = collectCoverage({ ...rule, rootAtom: null }, []);
+    expect([empty.atoms.percent, empty.branchTotals.percent]).toEqual([null, null]);
+    expect(formatCoveragePercent(empty.atoms.percent)).toBe('n/a');
+  });
+});
+
+describe('getBranchNames', () => {
+  it('names the branches of branch points only', () => {
+    expect(getBranchNames(rule.rootAtom!)).toEqual(['matched', 'not matched']);
+    expect(getBranchNames(rule.rootAtom!.children[0].children[0])).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+// src/services/RuleCoverage.ts
+// Atom and branch coverage of a rule, collected from the execution traces of a test run
+// Branch points are the atoms whose output shows which way they went: if/else, loops and gating conditions
+
+import { AtomInstance, Rule, RuleCoverage, TestResult } from '../types/RuleTypes';
+import { flattenAtoms } from '../utils/atomTree';
+
+interface BranchPoint {
+  branches: string[];
+  // Branch the recorded output took; undefined when the atom failed before producing one
+  taken: (output: any) => string | undefined;
+}
+
+// Conditions built on gateChildren output true when their children ran
+const GATE: BranchPoint = {
+  branches: ['matched', 'not matched'],
+  taken: output => (typeof output === 'boolean' ? (output ? 'matched' : 'not matched') : undefined)
+};
+
+const BRANCH_POINTS: Record<string, BranchPoint> = {
+  if_then_else: {
+    branches: ['then', 'else'],
+    taken: output => output?.branch
+  },
+  loop: {
+    branches: ['iterated', 'no iterations'],
+    taken: output => (typeof output?.iterations === 'number' ? (output.iterations > 0 ? 'iterated' : 'no iterations') : undefined)
+  },
+  age_range: GATE,
+  geography: GATE,
+  time_window: GATE,
+  user_activity: GATE,
+  user_segment: GATE,
+  data_filter: GATE
+};
+
+export const getBranchNames = (atom: AtomInstance): string[] => BRANCH_POINTS[atom.type]?.branches ?? [];
+
+const measure = (covered: number, total: number) => ({
+  covered,
+  total,
+  percent: total > 0 ? Math.round((covered / total) * 100) : null
+});
+
+export const collectCoverage = (rule: Rule, results: TestResult[]): RuleCoverage => {
+  const atoms = flattenAtoms(rule.rootAtom);
+  const atomsById = new Map(atoms.map(atom => [atom.id, atom]));
+
+  const atomHits: Record<string, number> = {};
+  const branchHits: Record<string, Record<string, number>> = {};
+  atoms.forEach(atom => {
+    atomHits[atom.id] = 0;
+    const names = getBranchNames(atom);
+    if (names.length > 0) branchHits[atom.id] = Object.fromEntries(names.map(name => [name, 0]));
+  });
+
+  let runs = 0;
+  results.forEach(result => {
+    if (!result.executionTrace) return;
+    runs++;
+    result.executionTrace.forEach(step => {
+      // Traces may mention atoms that were deleted since the run
+      const atom = atomsById.get(step.atomId);
+      if (!atom) return;
+      atomHits[atom.id]++;
+      const branch = BRANCH_POINTS[atom.type]?.taken(step.output);
+      if (branch !== undefined && branchHits[atom.id]?.[branch] !== undefined) branchHits[atom.id][branch]++;
+    });
+  });
+
+  const branches = Object.entries(branchHits).flatMap(([atomId, hits]) =>
+    Object.entries(hits).map(([branch, count]) => ({ atomId, branch, hits: count }))
+  );
+
+  return {
+    runs,
+    atomHits,
+    branches,
+    atoms: measure(atoms.filter(atom => atomHits[atom.id] > 0).length, atoms.length),
+    branchTotals: measure(branches.filter(branch => branch.hits > 0).length, branches.length)
+  };
+};
+
+// Branches of one atom that no run took
+export const getMissedBranches = (coverage: RuleCoverage, atomId: string): string[] =>
+  coverage.branches.filter(branch => branch.atomId === atomId && branch.hits === 0).map(branch => branch.branch);
+
+export const formatCoveragePercent = (percent: number | null): string => (percent === null ? 'n/a' : `${percent}%`);
@@ -0,0 +1,122 @@
+// src/services/RuleDebugger.test.ts
+// Covers the recorded timeline of a run and how stepping and breakpoints move through it
+// Positions are frame indexes; the comment above the rule lists the frames it records
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import {
+  continueToBreakpoint,
+  getCallStack,
+  isAtEnd,
+  recordExecution,
+  startPosition,
+  stepBack,
+  stepInto,
+  stepOut,
+  stepOver
+} from './RuleDebugger';
+
+const atom = (id: string, type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const ruleWith = (rootAtom: AtomInstance): Rule => ({
+  id: 'rule_debug',
+  name: 'Debug',
+  description: '',
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+//  0 enter atom_1   placeholder
+//  1 enter atom_2     loop over items
+//  2 enter atom_3       if item > 1 (item 1)
+//  3 exit  atom_3
+//  4 enter atom_3       if item > 1 (item 2)
+//  5 enter atom_4         calculate_score
+//  6 exit  atom_4
+//  7 exit  atom_3
+//  8 exit  atom_2
+//  9 enter atom_5     send_email
+// 10 exit  atom_5
+// 11 exit  atom_1
+const rule = ruleWith(atom('atom_1', 'placeholder', {}, [
+  atom('atom_2', 'loop', { iterateOver: 'items' }, [
+    atom('atom_3', 'if_then_else', { condition: 'item > 1' }, [
+      atom('atom_4', 'calculate_score', { weights: { bonus: 2 } })
+    ])
+  ]),
+  atom('atom_5', 'send_email', { templateId: 'welcome' })
+]));
+
+const recording = recordExecution(rule, { items: [1, 2], bonus: 5 });
+const none = new Set<string>();
+
+describe('recordExecution', () => {
+  it('records an enter and an exit frame for every evaluation', () => {
+    expect(recording.frames.map(frame => `${frame.kind} ${frame.atomId}`)).toEqual([
+      'enter atom_1', 'enter atom_2', 'enter atom_3', 'exit atom_3', 'enter atom_3', 'enter atom_4',
+      'exit atom_4', 'exit atom_3', 'exit atom_2', 'enter atom_5', 'exit atom_5', 'exit atom_1'
+    ]);
+    expect(recording.result.status).toBe('success');
+  });
+
+  it('keeps the state each frame was recorded in', () => {
+    const [, , first, , second, score, scored] = recording.frames;
+    expect([first.scope, second.scope]).toEqual([{ item: 1, index: 0 }, { item: 2, index: 1 }]);
+    expect(first.callId).not.toBe(second.callId);
+    expect([score.variables, scored.variables]).toEqual([{}, { score: 10 }]);
+    expect(scored).toMatchObject({ output: 10, passed: true, parentCallId: second.callId, depth: 3 });
+    expect(recording.frames[10].actionCount).toBe(1);
+    expect(recording.actions.map(action => action.atomId)).toEqual(['atom_5']);
+  });
+
+  it('records one error frame, for the atom that raised the error', () => {
+    const failing = recordExecution(ruleWith(atom('atom_1', 'placeholder', {}, [atom('atom_2', 'loop', { iterateOver: 'name' })])), { name: 'Ada' });
+    expect(failing.frames.map(frame => `${frame.kind} ${frame.atomId}`)).toEqual(['enter atom_1', 'enter atom_2', 'error atom_2']);
+    expect(failing.frames[2].error).toBe('Atom atom_2: "name" is not an array');
+    expect(failing.result.status).toBe('error');
+  });
+});
+
+describe('stepping', () => {
+  it('steps one frame at a time within the recording', () => {
+    expect(stepInto(recording, 4)).toBe(5);
+    expect(stepInto(recording, 11)).toBe(11);
+    expect(stepBack(0)).toBe(0);
+    expect(isAtEnd(recording, 11)).toBe(true);
+  });
+
+  it('steps over an atom to its exit unless a breakpoint is on the way', () => {
+    expect(stepOver(recording, 1, none)).toBe(8);
+    expect(stepOver(recording, 1, new Set(['atom_4']))).toBe(5);
+    expect(stepOver(recording, 3, none)).toBe(4);
+  });
+
+  it('steps out to the exit of the enclosing atom', () => {
+    expect(stepOut(recording, 5, none)).toBe(7);
+    expect(stepOut(recording, 6, none)).toBe(7);
+    expect(stepOut(recording, 0, none)).toBe(11);
+  });
+
+  it('starts at the first breakpoint and continues from one to the next', () => {
+    const breakpoints = new Set(['atom_3']);
+    expect(startPosition(recording, none)).toBe(0);
+    expect(startPosition(recording, breakpoints)).toBe(2);
+    expect(continueToBreakpoint(recording, 2, breakpoints)).toBe(4);
+    expect(continueToBreakpoint(recording, 4, breakpoints)).toBe(11);
+  });
+
+  it('lists the atoms being evaluated, outermost first', () => {
+    const ids = (position: number) => getCallStack(recording, position).map(frame => frame.atomId);
+    expect(ids(5)).toEqual(['atom_1', 'atom_2', 'atom_3', 'atom_4']);
+    expect(ids(6)).toEqual(['atom_1', 'atom_2', 'atom_3', 'atom_4']);
+    expect(ids(7)).toEqual(['atom_1', 'atom_2', 'atom_3']);
+    expect(ids(9)).toEqual(['atom_1', 'atom_5']);
+  });
+});
@@ -0,0 +1,164 @@
+// src/services/RuleDebugger.ts
+// Step-through debugging for the local interpreter
+// A run is recorded once as a timeline of atom enter/exit frames; stepping and breakpoints move through that timeline
+
+import { ActionRecord, AtomInstance, Rule, TestResult } from '../types/RuleTypes';
+import { ExecutionSnapshot, InterpreterOptions, interpretRule } from './RuleInterpreter';
+
+export type DebugFrameKind = 'enter' | 'exit' | 'error';
+
+export interface DebugFrame {
+  kind: DebugFrameKind;
+  atomId: string;
+  callId: number; // Identifies one evaluation of an atom; loops evaluate the same atom many times
+  parentCallId: number | null;
+  depth: number;
+  parameters: Record<string, any>; // Resolved parameter values the atom ran with
+  output?: any; // Set on exit frames
+  passed?: boolean; // Set on exit frames
+  error?: string; // Set on error frames
+  variables: Record<string, any>; // Copy of the computed variables at this point
+  scope: Record<string, any>; // Loop variables in effect, inner loops shadowing outer ones
+  delayMs: number; // Offset accumulated from enclosing delay atoms
+  actionCount: number; // Actions emitted so far; they are the first actionCount entries of the recording's actions
+}
+
+// The atom a debug session is paused on, as shown on the canvas
+export interface DebugHighlight {
+  atomId: string;
+  kind: DebugFrameKind;
+}
+
+export interface DebugRecording {
+  input: any;
+  frames: DebugFrame[];
+  actions: ActionRecord[];
+  result: TestResult;
+}
+
+// Values are copied at every frame so later steps can't change what an earlier frame shows
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const recordExecution = (rule: Rule, input: any, options: InterpreterOptions = {}): DebugRecording => {
+  const frames: DebugFrame[] = [];
+  const callStack: number[] = [];
+  let actions: ActionRecord[] = [];
+  let nextCallId = 0;
+  // An error is re-thrown through every enclosing atom; only the atom that raised it gets an error frame
+  let reportedError: unknown = undefined;
+
+  const frame = (kind: DebugFrameKind, atom: AtomInstance, snapshot: ExecutionSnapshot, callId: number): DebugFrame => {
+    actions = snapshot.actions;
+    return {
+      kind,
+      atomId: atom.id,
+      callId,
+      parentCallId: callStack.length > 0 ? callStack[callStack.length - 1] : null,
+      depth: snapshot.depth,
+      parameters: copy(snapshot.step.input ?? {}),
+      variables: copy(snapshot.variables),
+      scope: copy(Object.assign({}, ...snapshot.scopes)),
+      delayMs: snapshot.delayMs,
+      actionCount: snapshot.actions.length
+    };
+  };
+
+  const result = interpretRule(rule, input, {
+    ...options,
+    observer: {
+      enter: (atom, snapshot) => {
+        const callId = nextCallId++;
+        frames.push(frame('enter', atom, snapshot, callId));
+        callStack.push(callId);
+      },
+      exit: (atom, snapshot, outcome, error) => {
+        const callId = callStack.pop()!;
+        if (error !== undefined) {
+          if (error === reportedError) return;
+          reportedError = error;
+          frames.push({ ...frame('error', atom, snapshot, callId), error: errorMessage(error) });
+          return;
+        }
+        frames.push({ ...frame('exit', atom, snapshot, callId), output: copy(outcome?.value), passed: outcome?.passed });
+      }
+    }
+  });
+
+  return { input, frames, actions: copy(actions), result };
+};
+
+// Stepping; every function takes the current frame index and returns the next one
+
+const lastIndex = (recording: DebugRecording) => Math.max(0, recording.frames.length - 1);
+
+const isBreakpoint = (frame: DebugFrame, breakpoints: ReadonlySet<string>) =>
+  frame.kind === 'enter' && breakpoints.has(frame.atomId);
+
+// First frame after `from` that satisfies `stop` or sits on a breakpoint, or the last frame
+const advance = (
+  recording: DebugRecording,
+  from: number,
+  breakpoints: ReadonlySet<string>,
+  stop: (frame: DebugFrame) => boolean = () => false
+): number => {
+  for (let index = from + 1; index < recording.frames.length; index++) {
+    const frame = recording.frames[index];
+    if (stop(frame) || isBreakpoint(frame, breakpoints)) return index;
+  }
+  return lastIndex(recording);
+};
+
+// Where a session starts: the first breakpoint, or the root atom when there are none
+export const startPosition = (recording: DebugRecording, breakpoints: ReadonlySet<string>): number =>
+  breakpoints.size > 0 ? advance(recording, -1, breakpoints) : 0;
+
+export const stepInto = (recording: DebugRecording, position: number): number =>
+  Math.min(position + 1, lastIndex(recording));
+
+export const stepBack = (position: number): number => Math.max(0, position - 1);
+
+// Runs the current atom's children without stopping, unless a breakpoint is hit on the way
+export const stepOver = (recording: DebugRecording, position: number, breakpoints: ReadonlySet<string>): number => {
+  const current = recording.frames[position];
+  if (!current || current.kind !== 'enter') return stepInto(recording, position);
+  return advance(recording, position, breakpoints, frame => frame.callId === current.callId);
+};
+
+// Runs until the atom that contains the current one finishes
+export const stepOut = (recording: DebugRecording, position: number, breakpoints: ReadonlySet<string>): number => {
+  const current = recording.frames[position];
+  if (!current) return position;
+  const parentCallId = current.kind === 'enter' ? current.parentCallId : findParentCall(recording, position);
+  if (parentCallId === null) return lastIndex(recording);
+  return advance(recording, position, breakpoints, frame => frame.callId === parentCallId && frame.kind !== 'enter');
+};
+
+export const continueToBreakpoint = (recording: DebugRecording, position: number, breakpoints: ReadonlySet<string>): number =>
+  advance(recording, position, breakpoints);
+
+// Exit and error frames are recorded after the call has left the stack, so look up its enter frame
+const findParentCall = (recording: DebugRecording, position: number): number | null => {
+  const { callId } = recording.frames[position];
+  const enter = recording.frames.find(frame => frame.callId === callId && frame.kind === 'enter');
+  return enter ? enter.parentCallId : null;
+};
+
+// Enter frames of the atoms being evaluated at `position`, outermost first
+export const getCallStack = (recording: DebugRecording, position: number): DebugFrame[] => {
+  const stack: DebugFrame[] = [];
+  recording.frames.slice(0, position + 1).forEach((frame, index) => {
+    if (frame.kind === 'enter') {
+      stack.push(frame);
+    } else if (index < position) {
+      // The frame at `position` is still shown as part of the stack it belongs to
+      const open = stack.findIndex(entry => entry.callId === frame.callId);
+      if (open !== -1) stack.splice(open);
+    }
+  });
+  return stack;
+};
+
+export const isAtEnd = (recording: DebugRecording, position: number): boolean =>
+  position >= lastIndex(recording);
@@ -0,0 +1,91 @@
+// src/services/RuleDiagram.test.ts
+// Covers the SVG drawn for a rule: one group per atom, one curve per connection, and the text in each node
+// Diagrams are read back with the XML reader, so they must be well-formed documents
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { renderRuleDiagram } from './RuleDiagram';
+import { XmlElement, escapeXml, parseXml } from '../utils/xml';
+
+const atom = (id: string, type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = [], label?: string): AtomInstance => ({
+  id,
+  type,
+  ...(label ? { label } : {}),
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const rule: Rule = {
+  id: 'rule_diagram',
+  name: 'Seniors & <VIPs>',
+  description: 'Offers for older customers\nSecond line is left out',
+  rootAtom: atom('atom_1', 'age_range', { maxAge: 120, minAge: 65 }, [
+    atom('atom_2', 'send_email', { priority: 'high', templateId: 'senior' }, [], 'Email "seniors"'),
+    atom('atom_3', 'legacy_check', {})
+  ]),
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+};
+
+const elements = (root: XmlElement, name: string): XmlElement[] =>
+  root.children.flatMap(child => [...(child.name === name ? [child] : []), ...elements(child, name)]);
+
+const texts = (root: XmlElement) => elements(root, 'text').map(element => element.text);
+
+describe('renderRuleDiagram', () => {
+  const diagram = renderRuleDiagram(rule);
+  const svg = parseXml(diagram.svg);
+
+  it('draws a titled group per atom and a curve per connection', () => {
+    expect(svg.attributes).toMatchObject({ width: String(diagram.width), height: String(diagram.height) });
+    expect(elements(svg, 'title').map(title => title.text)).toEqual([
+      'Seniors & <VIPs>',
+      'Age Range (atom_1)',
+      'Send Email (atom_2)',
+      'legacy_check (atom_3)'
+    ]);
+    expect(elements(svg, 'path')).toHaveLength(2);
+  });
+
+  it('writes the first line of the description, labels and parameters in definition order', () => {
+    expect(texts(svg)).toEqual(expect.arrayContaining([
+      'Offers for older customers',
+      'Email "seniors"',
+      'minAge: 65',
+      'maxAge: 120',
+      'templateId: senior',
+      'priority: High',
+      'legacy_check'
+    ]));
+    const lines = texts(svg);
+    expect(lines.indexOf('minAge: 65')).toBeLessThan(lines.indexOf('maxAge: 120'));
+  });
+
+  it('lists parameters only when asked to and shortens long lists', () => {
+    expect(texts(parseXml(renderRuleDiagram(rule, { showParameters: false }).svg))).not.toContain('minAge: 65');
+
+    const busy = atom('atom_1', 'custom_event', Object.fromEntries(['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(name => [name, name])));
+    const lines = texts(parseXml(renderRuleDiagram({ ...rule, rootAtom: busy }).svg));
+    expect(lines).toContain('+2 more');
+    expect(lines).not.toContain('f: f');
+  });
+
+  it('lays the tree out left to right when asked to', () => {
+    const wide = renderRuleDiagram(rule, { direction: 'left-right' });
+    expect(wide.width).toBeGreaterThan(diagram.width);
+    expect(wide.height).toBeLessThan(diagram.height);
+  });
+
+  it('says when there are no atoms and can leave the background transparent', () => {
+    const empty = renderRuleDiagram({ ...rule, rootAtom: null }, { background: null });
+    expect(texts(parseXml(empty.svg))).toContain('No atoms defined');
+    expect(elements(parseXml(empty.svg), 'rect')).toEqual([]);
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and drops characters XML cannot hold', () => {
+    expect(escapeXml('a < b & "c"\u0007\tend')).toBe('a &lt; b &amp; &quot;c&quot;\tend');
+  });
+});
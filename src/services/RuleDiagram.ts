@@ -0,0 +1,199 @@
+// src/services/RuleDiagram.ts
+// Standalone SVG diagrams of a rule's atom tree, and PNG rasterization of them for pasting into documents
+// Nodes use the canvas category colours and tree layout; connections use the canvas curves
+
+import { AtomDefinition, AtomInstance, ParameterValue, Rule } from '../types/RuleTypes';
+import { getAtomDefinition } from './AtomRegistry';
+import { getCategoryColor } from '../utils/categoryColors';
+import { LayoutDirection, LayoutSize, computeTreeLayout, getConnectionAnchors, getConnectionPath } from '../utils/treeLayout';
+import { escapeXml } from '../utils/xml';
+
+export interface DiagramOptions {
+  direction?: LayoutDirection;
+  showParameters?: boolean; // Lists parameter values under each atom; defaults to true
+  background?: string | null; // null leaves the background transparent
+}
+
+export interface RuleDiagram {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const FONT_FAMILY = "Inter, system-ui, -apple-system, 'Segoe UI', sans-serif";
+const MONO_FAMILY = "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace";
+
+const MARGIN = 24;
+const NODE_WIDTH = 240;
+const HEADER_HEIGHT = 30;
+const BODY_PADDING = 10;
+const LABEL_LINE = 18;
+const PARAMETER_LINE = 16;
+const MAX_PARAMETERS = 6;
+const TITLE_HEIGHT = 28;
+const DESCRIPTION_HEIGHT = 18;
+const CONNECTION_COLOR = '#d1d5db';
+
+// Text is never measured, so lines are cut by an average glyph width
+const fitText = (text: string, width: number, fontSize: number, glyphWidth = 0.6): string => {
+  const maxChars = Math.max(1, Math.floor(width / (fontSize * glyphWidth)));
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxChars ? `${singleLine.slice(0, maxChars - 1)}…` : singleLine;
+};
+
+const formatParameterValue = (definition: AtomDefinition | undefined, name: string, value: ParameterValue): string => {
+  const option = definition?.parameters?.find(parameter => parameter.name === name)?.options?.find(item => item.value === value);
+  if (option) return option.label;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Set parameters in the order the atom definition lists them, then any it doesn't know about
+const summarizeParameters = (atom: AtomInstance, definition: AtomDefinition | undefined): string[] => {
+  const declared = definition?.parameters?.map(parameter => parameter.name) ?? [];
+  const names = [...declared, ...Object.keys(atom.parameters).filter(name => !declared.includes(name))];
+  const lines = names
+    .filter(name => atom.parameters[name] !== undefined && atom.parameters[name] !== '')
+    .map(name => `${name}: ${formatParameterValue(definition, name, atom.parameters[name])}`);
+  return lines.length > MAX_PARAMETERS
+    ? [...lines.slice(0, MAX_PARAMETERS - 1), `+${lines.length - MAX_PARAMETERS + 1} more`]
+    : lines;
+};
+
+interface DiagramNode {
+  atom: AtomInstance;
+  definition: AtomDefinition | undefined;
+  parameters: string[];
+  size: LayoutSize;
+}
+
+const measureNode = (atom: AtomInstance, showParameters: boolean): DiagramNode => {
+  const definition = getAtomDefinition(atom.type);
+  const parameters = showParameters ? summarizeParameters(atom, definition) : [];
+  // Atoms with nothing else to show list their type
+  const bodyLines = (atom.label ? LABEL_LINE : 0) + Math.max(parameters.length, atom.label ? 0 : 1) * PARAMETER_LINE;
+  return {
+    atom,
+    definition,
+    parameters,
+    size: { width: NODE_WIDTH, height: HEADER_HEIGHT + BODY_PADDING * 2 + bodyLines }
+  };
+};
+
+const renderNode = ({ atom, definition, parameters, size }: DiagramNode, x: number, y: number): string => {
+  const colors = getCategoryColor(definition?.category);
+  const textWidth = size.width - BODY_PADDING * 2;
+  const name = definition?.name ?? atom.type;
+  const category = definition?.category ?? 'unknown';
+
+  const body: string[] = [];
+  let line = y + HEADER_HEIGHT + BODY_PADDING;
+  if (atom.label) {
+    body.push(`<text x="${x + BODY_PADDING}" y="${line + 13}" font-size="13" fill="#374151">${escapeXml(fitText(atom.label, textWidth, 13, 0.55))}</text>`);
+    line += LABEL_LINE;
+  }
+  const details = parameters.length > 0 || atom.label ? parameters : [atom.type];
+  details.forEach(detail => {
+    body.push(`<text x="${x + BODY_PADDING}" y="${line + 12}" font-size="11" font-family="${MONO_FAMILY}" fill="#4b5563">${escapeXml(fitText(detail, textWidth, 11))}</text>`);
+    line += PARAMETER_LINE;
+  });
+
+  return [
+    `<g>`,
+    `<title>${escapeXml(`${name} (${atom.id})`)}</title>`,
+    `<rect x="${x}" y="${y}" width="${size.width}" height="${size.height}" rx="8" fill="#ffffff"/>`,
+    // Rounded on top only: the lower half of the header is squared off by a second rect
+    `<rect x="${x}" y="${y}" width="${size.width}" height="${HEADER_HEIGHT}" rx="8" fill="${colors.fill}"/>`,
+    `<rect x="${x}" y="${y + HEADER_HEIGHT / 2}" width="${size.width}" height="${HEADER_HEIGHT / 2}" fill="${colors.fill}"/>`,
+    `<circle cx="${x + 14}" cy="${y + HEADER_HEIGHT / 2}" r="3" fill="#ffffff" opacity="0.8"/>`,
+    `<text x="${x + 24}" y="${y + 19}" font-size="12" font-weight="600" fill="#ffffff">${escapeXml(fitText(name, size.width - 100, 12, 0.58))}</text>`,
+    `<text x="${x + size.width - BODY_PADDING}" y="${y + 19}" font-size="10" text-anchor="end" fill="#ffffff" opacity="0.85">${escapeXml(category)}</text>`,
+    ...body,
+    `<rect x="${x}" y="${y}" width="${size.width}" height="${size.height}" rx="8" fill="none" stroke="#d1d5db" stroke-width="1.5"/>`,
+    `</g>`
+  ].join('\n');
+};
+
+export const renderRuleDiagram = (rule: Rule, options: DiagramOptions = {}): RuleDiagram => {
+  const { direction = 'top-down', showParameters = true, background = '#ffffff' } = options;
+
+  const headerHeight = TITLE_HEIGHT + (rule.description ? DESCRIPTION_HEIGHT : 0);
+  const nodes = new Map<string, DiagramNode>();
+  const measure = (atom: AtomInstance) => {
+    nodes.set(atom.id, measureNode(atom, showParameters));
+    atom.children.forEach(measure);
+  };
+  if (rule.rootAtom) measure(rule.rootAtom);
+
+  const sizes = Object.fromEntries(Array.from(nodes, ([id, node]) => [id, node.size]));
+  const layout = rule.rootAtom
+    ? computeTreeLayout(rule.rootAtom, { direction, sizes, origin: { x: MARGIN, y: MARGIN + headerHeight } })
+    : null;
+
+  const treeWidth = layout ? layout.bounds.width : NODE_WIDTH;
+  const treeHeight = layout ? layout.bounds.height : PARAMETER_LINE;
+  const width = Math.ceil(Math.max(treeWidth, fitText(rule.name, Infinity, 18).length * 18 * 0.6) + MARGIN * 2);
+  const height = Math.ceil(treeHeight + headerHeight + MARGIN * 2);
+
+  const connections: string[] = [];
+  const atoms: string[] = [];
+  if (rule.rootAtom && layout) {
+    const boundsOf = (atom: AtomInstance) => ({ ...layout.positions[atom.id], ...nodes.get(atom.id)!.size });
+    const visit = (atom: AtomInstance) => {
+      const { x, y } = layout.positions[atom.id];
+      atoms.push(renderNode(nodes.get(atom.id)!, x, y));
+      atom.children.forEach(child => {
+        const { start, end } = getConnectionAnchors(boundsOf(atom), boundsOf(child), direction);
+        connections.push(
+          `<path d="${getConnectionPath(start, end, direction)}" fill="none" stroke="${CONNECTION_COLOR}" stroke-width="2"/>`,
+          `<circle cx="${start.x}" cy="${start.y}" r="3" fill="${CONNECTION_COLOR}"/>`,
+          `<circle cx="${end.x}" cy="${end.y}" r="3" fill="${CONNECTION_COLOR}"/>`
+        );
+        visit(child);
+      });
+    };
+    visit(rule.rootAtom);
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<title>${escapeXml(rule.name)}</title>`,
+    ...(background ? [`<rect width="${width}" height="${height}" fill="${background}"/>`] : []),
+    `<text x="${MARGIN}" y="${MARGIN + 18}" font-size="18" font-weight="700" fill="#111827">${escapeXml(rule.name)}</text>`,
+    ...(rule.description
+      ? [`<text x="${MARGIN}" y="${MARGIN + TITLE_HEIGHT + 12}" font-size="12" fill="#6b7280">${escapeXml(fitText(rule.description.split('\n')[0], width - MARGIN * 2, 12, 0.55))}</text>`]
+      : []),
+    ...(rule.rootAtom
+      ? [`<g>`, ...connections, `</g>`, `<g>`, ...atoms, `</g>`]
+      : [`<text x="${MARGIN}" y="${MARGIN + headerHeight + 12}" font-size="12" font-style="italic" fill="#9ca3af">No atoms defined</text>`]),
+    `</svg>`
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+// Browsers refuse canvases much larger than this on either side
+const MAX_CANVAS_SIDE = 16384;
+
+// Draws the SVG onto a canvas at `scale` times its size, for sharp images on high-density screens
+export const rasterizeDiagram = (diagram: RuleDiagram, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const ratio = Math.min(scale, MAX_CANVAS_SIDE / Math.max(diagram.width, diagram.height));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(diagram.width * ratio);
+      canvas.height = Math.round(diagram.height * ratio);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas rendering is not available'));
+        return;
+      }
+      context.scale(ratio, ratio);
+      context.drawImage(image, 0, 0, diagram.width, diagram.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the diagram as PNG'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the diagram'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`;
+  });
@@ -0,0 +1,166 @@
+// src/services/RuleEngine.test.ts
+// Covers saving through the API, queueing while it is unreachable and pushing the queue when it returns
+// fetch is replaced by a small in-memory API that can go offline or refuse writes
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Rule } from '../types/RuleTypes';
+import { ApiError, RuleEngineService } from './RuleEngine';
+import { MemoryRuleStorage } from './RuleStorage';
+import { bumpVersion } from './RuleVersioning';
+
+// Rules the API holds, keyed by id. Saving bumps the stored version like the real API does.
+const api = {
+  online: true,
+  refuse: null as number | null,
+  rules: new Map<string, Rule>()
+};
+
+const respond = (status: number, body: unknown = null) =>
+  new Response(JSON.stringify(body), { status, statusText: status === 200 ? 'OK' : 'Refused' });
+
+const fakeFetch = async (url: string, options: RequestInit = {}): Promise<Response> => {
+  if (!api.online) throw new TypeError('Failed to fetch');
+  const path = new URL(url).pathname.replace(/^\/api\/v1/, '');
+
+  if (path === '/rules' && options.method === 'POST') {
+    if (api.refuse) return respond(api.refuse);
+    const rule: Rule = JSON.parse(String(options.body));
+    const stored = api.rules.get(rule.id);
+    const version = stored ? bumpVersion(stored.metadata.version) : '1.0.0';
+    api.rules.set(rule.id, { ...rule, metadata: { ...rule.metadata, version } });
+    return respond(200, { id: rule.id, version });
+  }
+
+  const rule = api.rules.get(path.replace('/rules/', ''));
+  return rule ? respond(200, rule) : respond(404);
+};
+
+const rule = (id: string, name: string, version = '1.0.0'): Rule => ({
+  id,
+  name,
+  description: '',
+  rootAtom: null,
+  metadata: { version, created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+// Lets syncs started in the background by a successful request finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let storage: MemoryRuleStorage;
+let engine: RuleEngineService;
+
+beforeEach(() => {
+  api.online = true;
+  api.refuse = null;
+  api.rules = new Map([['rule_1', rule('rule_1', 'Adults')]]);
+  storage = new MemoryRuleStorage();
+  engine = new RuleEngineService(storage);
+  vi.stubGlobal('fetch', fakeFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('saveRule', () => {
+  it('sends the rule and remembers the version the API gave it', async () => {
+    expect(await engine.saveRule(rule('rule_1', 'Grown-ups'))).toEqual({ id: 'rule_1', version: '1.0.1' });
+    expect(await storage.get('syncState', 'rule_1')).toMatchObject({ serverVersion: '1.0.1' });
+    expect(api.rules.get('rule_1')!.name).toBe('Grown-ups');
+  });
+
+  it('queues the rule on top of the last synced version while the API is unreachable', async () => {
+    await engine.loadRule('rule_1');
+    api.online = false;
+    expect(await engine.saveRule(rule('rule_1', 'Offline edit'))).toEqual({ id: 'rule_1', version: '1.0.0' });
+    expect(await engine.getPendingWrites()).toMatchObject([{ ruleId: 'rule_1', baseVersion: '1.0.0' }]);
+    expect((await engine.loadRule('rule_1')).name).toBe('Offline edit');
+  });
+
+  it('drops the version snapshot when the API refuses the rule', async () => {
+    api.refuse = 400;
+    await expect(engine.saveRule(rule('rule_1', 'Invalid'))).rejects.toBeInstanceOf(ApiError);
+    expect(await storage.get('versions', 'rule_1')).toEqual([]);
+    expect(await engine.getPendingWrites()).toEqual([]);
+  });
+});
+
+describe('syncPendingWrites', () => {
+  it('pushes queued writes once the API is back', async () => {
+    api.online = false;
+    await engine.saveRule(rule('rule_2', 'Created offline'));
+    api.online = true;
+    expect(await engine.syncPendingWrites()).toEqual({ synced: ['rule_2'], conflicts: [], failed: [], pending: 0 });
+    expect(await engine.getPendingWrites()).toEqual([]);
+    expect(api.rules.get('rule_2')!.name).toBe('Created offline');
+  });
+
+  it('keeps the rest of the queue when the API drops again', async () => {
+    api.online = false;
+    await engine.saveRule(rule('rule_2', 'Second'));
+    await engine.saveRule(rule('rule_3', 'Third'));
+    expect(await engine.syncPendingWrites()).toEqual({ synced: [], conflicts: [], failed: [], pending: 2 });
+  });
+
+  it('records a conflict when the rule changed on the server since the local edits started', async () => {
+    await engine.loadRule('rule_1');
+    api.online = false;
+    await engine.saveRule(rule('rule_1', 'Local edit'));
+    api.rules.set('rule_1', rule('rule_1', 'Remote edit', '1.0.1'));
+    api.online = true;
+
+    const report = await engine.syncPendingWrites();
+    expect(report.conflicts).toMatchObject([{ ruleId: 'rule_1', baseVersion: '1.0.0', local: { name: 'Local edit' }, remote: { name: 'Remote edit' } }]);
+    expect(await engine.getPendingWrites()).toEqual([]);
+    expect(api.rules.get('rule_1')!.name).toBe('Remote edit');
+  });
+
+  it('sends the local copy on top of the remote version when the conflict keeps it', async () => {
+    await engine.loadRule('rule_1');
+    api.online = false;
+    await engine.saveRule(rule('rule_1', 'Local edit'));
+    api.rules.set('rule_1', rule('rule_1', 'Remote edit', '1.0.1'));
+    api.online = true;
+    await engine.syncPendingWrites();
+
+    await engine.resolveConflict('rule_1', 'local');
+    await settle();
+    expect(await engine.listConflicts()).toEqual([]);
+    expect(api.rules.get('rule_1')).toMatchObject({ name: 'Local edit', metadata: { version: '1.0.2' } });
+    await expect(engine.resolveConflict('rule_1', 'local')).rejects.toThrow("No conflict recorded for rule 'rule_1'");
+  });
+
+  it('sets refused writes aside so later ones still go through', async () => {
+    api.online = false;
+    await engine.saveRule(rule('rule_2', 'Refused'));
+    await engine.saveRule(rule('rule_3', 'Accepted'));
+    api.online = true;
+
+    // The API refuses only the first write it receives
+    let refusals = 1;
+    vi.stubGlobal('fetch', async (url: string, options: RequestInit = {}) =>
+      options.method === 'POST' && refusals-- > 0 ? respond(422) : fakeFetch(url, options));
+
+    const report = await engine.syncPendingWrites();
+    expect(report.synced).toEqual(['rule_3']);
+    expect(report.failed).toMatchObject([{ ruleId: 'rule_2', status: 422, message: 'API Error: 422 Refused' }]);
+    expect(await engine.listFailedWrites()).toHaveLength(1);
+    expect(await engine.getPendingWrites()).toEqual([]);
+  });
+
+  it('retries or discards refused writes', async () => {
+    api.online = false;
+    await engine.saveRule(rule('rule_2', 'Refused'));
+    await engine.saveRule(rule('rule_3', 'Refused too'));
+    api.online = true;
+    api.refuse = 400;
+    expect((await engine.syncPendingWrites()).failed).toHaveLength(2);
+
+    api.refuse = null;
+    expect(await engine.retryFailedWrite('rule_2')).toMatchObject({ synced: ['rule_2'], failed: [] });
+    await engine.discardFailedWrite('rule_3');
+    expect(await engine.listFailedWrites()).toEqual([]);
+    expect(api.rules.has('rule_3')).toBe(false);
+    await expect(engine.retryFailedWrite('rule_3')).rejects.toThrow("No failed write recorded for rule 'rule_3'");
+  });
+});
@@ -2,34 +2,89 @@
 // Service layer for rule validation, execution, and management
 // Connects Visual Rule Builder to Hades backend APIs
 
-import { Rule, ValidationResult, TestResult, AtomInstance } from '../types/RuleTypes';
+import {
+  Rule,
+  ValidationResult,
+  LegacyValidationResult,
+  ValidationIssue,
+  TestResult,
+  AtomInstance,
+  AtomDefinition,
+  PendingRuleWrite,
+  FailedRuleWrite,
+  RuleConflict,
+  RuleSyncReport,
+  RuleSyncState,
+  RuleStatus
+} from '../types/RuleTypes';
+import { ruleInterpreter } from './RuleInterpreter';
+import { ruleVersioning, RuleVersioningService, CreateVersionOptions } from './RuleVersioning';
+import { RuleStorageAdapter, createDefaultRuleStorage } from './RuleStorage';
+import { getAtomDefinition } from './AtomRegistry';
+import { validateAtomParameters, formatParameterError, suggestParameterFix } from './ParameterValidation';
+import { createIssue, normalizeValidationResult } from './ValidationIssues';
+import { ExpressionContext, analyzeExpression, enterAtomScope } from './ExpressionTypeChecker';
+import { checkFieldReference, getInputSchemaErrors, getLookupContext, getRuleExpressionContext } from './InputSchema';
+import { countAtoms } from '../utils/atomTree';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080/api/v1';
-class RuleEngineService {
+
+export class ApiError extends Error {
+  constructor(public status: number, statusText: string) {
+    super(`API Error: ${status} ${statusText}`);
+    this.name = 'ApiError';
+  }
+}
+
+// fetch rejects only when no response arrived; only these failures queue writes for later
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(`Network Error: ${message}`);
+    this.name = 'NetworkError';
+  }
+}
+
+export class RuleEngineService {
+  private syncing: Promise<RuleSyncReport> | null = null;
+
+  constructor(
+    private storage: RuleStorageAdapter = createDefaultRuleStorage(),
+    private versioning: RuleVersioningService = new RuleVersioningService(storage)
+  ) {}
+
   private async makeRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        // Add auth headers when ready
-        // 'Authorization': `Bearer ${getAuthToken()}`
-      },
-      ...options
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          // Add auth headers when ready
+          // 'Authorization': `Bearer ${getAuthToken()}`
+        },
+        ...options
+      });
+    } catch (error) {
+      throw new NetworkError(error instanceof Error ? error.message : String(error));
+    }
 
     if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      throw new ApiError(response.status, response.statusText);
     }
 
+    // The API is reachable again; push anything queued while offline
+    this.scheduleSync();
     return response.json();
   }
 
   // Rule validation
   async validateRule(rule: Rule): Promise<ValidationResult> {
     try {
-      return await this.makeRequest<ValidationResult>('/rules/validate', {
+      const result = await this.makeRequest<ValidationResult | LegacyValidationResult>('/rules/validate', {
         method: 'POST',
         body: JSON.stringify(rule)
       });
+      // Older backends return plain strings; convert them to structured issues
+      return normalizeValidationResult(result, rule);
     } catch (error) {
       // Fallback client-side validation
       return this.clientSideValidation(rule);
@@ -38,77 +93,336 @@ class RuleEngineService {
 
   // Rule execution/testing
   async executeRule(rule: Rule, testData: any): Promise<TestResult> {
-    const startTime = Date.now();
-    
     try {
       return await this.makeRequest<TestResult>('/rules/execute', {
         method: 'POST',
         body: JSON.stringify({ rule, input: testData })
       });
     } catch (error) {
-      // Mock execution for demo purposes
-      return this.mockExecution(rule, testData, startTime);
+      // Fallback local execution
+      return ruleInterpreter.execute(rule, testData);
     }
   }
 
-  // Save rule
-  async saveRule(rule: Rule): Promise<{ id: string; version: string }> {
+  // Save rule; every save is also recorded as a local version snapshot and cached locally.
+  // Writes are queued only while the API is unreachable; an ApiError means the API refused the rule,
+  // so its version is discarded again and the error re-thrown.
+  async saveRule(rule: Rule, options: CreateVersionOptions = {}): Promise<{ id: string; version: string }> {
+    const ruleId = rule.id || `rule_${Date.now()}`;
+    const saved = await this.versioning.createVersion({ ...rule, id: ruleId }, options);
+
+    // Earlier offline edits must reach the API first so their conflict check still applies
+    if (await this.storage.get<PendingRuleWrite>('pendingWrites', ruleId)) {
+      await this.storage.put('rules', ruleId, saved.snapshot);
+      await this.enqueueWrite(saved.snapshot);
+      this.scheduleSync();
+      return { id: ruleId, version: saved.version };
+    }
+
     try {
-      return await this.makeRequest<{ id: string; version: string }>('/rules', {
+      const result = await this.makeRequest<{ id: string; version: string }>('/rules', {
         method: 'POST',
-        body: JSON.stringify(rule)
+        body: JSON.stringify(saved.snapshot)
       });
+      await this.recordSynced(saved.snapshot, result);
+      return result;
     } catch (error) {
-      // Mock save for demo
+      if (!(error instanceof NetworkError)) {
+        await this.versioning.discardVersion(ruleId, saved.id);
+        throw error;
+      }
+      // Offline: keep the write queued until the API is reachable again
+      await this.storage.put('rules', ruleId, saved.snapshot);
+      await this.enqueueWrite(saved.snapshot);
       return {
-        id: rule.id || `rule_${Date.now()}`,
-        version: '1.0.0'
+        id: ruleId,
+        version: saved.version
       };
     }
   }
 
-  // Load rule
+  // Load rule; queued local edits win over the server copy until they are synced
   async loadRule(ruleId: string): Promise<Rule> {
-    return await this.makeRequest<Rule>(`/rules/${ruleId}`);
+    const pending = await this.storage.get<PendingRuleWrite>('pendingWrites', ruleId);
+    if (pending) return pending.rule;
+
+    try {
+      const rule = await this.makeRequest<Rule>(`/rules/${ruleId}`);
+      await this.cacheRemoteRule(rule);
+      return rule;
+    } catch (error) {
+      const local = await this.storage.get<Rule>('rules', ruleId);
+      if (local) return local;
+      throw error;
+    }
   }
 
   // List rules
   async listRules(): Promise<Rule[]> {
+    const pending = await this.storage.getAll<PendingRuleWrite>('pendingWrites');
+    const pendingById = new Map(pending.map(write => [write.ruleId, write.rule]));
+
     try {
-      return await this.makeRequest<Rule[]>('/rules');
+      const remote = await this.makeRequest<Rule[]>('/rules');
+      await Promise.all(remote.filter(rule => !pendingById.has(rule.id)).map(rule => this.cacheRemoteRule(rule)));
+
+      const remoteIds = new Set(remote.map(rule => rule.id));
+      return [
+        ...remote.map(rule => pendingById.get(rule.id) ?? rule),
+        ...pending.filter(write => !remoteIds.has(write.ruleId)).map(write => write.rule)
+      ];
     } catch (error) {
-      return []; // Return empty array for demo
+      return this.storage.getAll<Rule>('rules');
     }
   }
 
+  // Copy a rule under a new id as a fresh draft
+  async cloneRule(ruleId: string, options: CreateVersionOptions = {}): Promise<Rule> {
+    const source = await this.loadRule(ruleId);
+    const now = new Date().toISOString();
+    const copy: Rule = {
+      ...JSON.parse(JSON.stringify(source)),
+      id: `rule_${Date.now()}`,
+      name: `Copy of ${source.name}`,
+      metadata: {
+        ...source.metadata,
+        version: '1.0.0',
+        created: now,
+        modified: now,
+        author: options.author || source.metadata.author,
+        status: 'draft'
+      }
+    };
+
+    const saved = await this.saveRule(copy, { ...options, message: options.message || `Cloned from ${source.name}` });
+    return { ...copy, id: saved.id, metadata: { ...copy.metadata, version: saved.version } };
+  }
+
+  // Move rules through the draft/active/archived lifecycle; each change is saved as a new version
+  async setRuleStatus(ruleIds: string[], status: RuleStatus, options: CreateVersionOptions = {}): Promise<Rule[]> {
+    const updated: Rule[] = [];
+    for (const ruleId of ruleIds) {
+      const rule = await this.loadRule(ruleId);
+      if ((rule.metadata.status ?? 'draft') === status) {
+        updated.push(rule);
+        continue;
+      }
+
+      const next: Rule = {
+        ...rule,
+        metadata: { ...rule.metadata, status, modified: new Date().toISOString() }
+      };
+      const saved = await this.saveRule(next, { ...options, message: options.message || `Status changed to ${status}` });
+      updated.push({ ...next, id: saved.id, metadata: { ...next.metadata, version: saved.version } });
+    }
+    return updated;
+  }
+
+  // Offline sync
+
+  async getPendingWrites(): Promise<PendingRuleWrite[]> {
+    return this.storage.getAll<PendingRuleWrite>('pendingWrites');
+  }
+
+  async listConflicts(): Promise<RuleConflict[]> {
+    return this.storage.getAll<RuleConflict>('conflicts');
+  }
+
+  async listFailedWrites(): Promise<FailedRuleWrite[]> {
+    return this.storage.getAll<FailedRuleWrite>('failedWrites');
+  }
+
+  // Put a refused write back in the queue, e.g. after the server-side problem was fixed
+  async retryFailedWrite(ruleId: string): Promise<RuleSyncReport> {
+    const failed = await this.storage.get<FailedRuleWrite>('failedWrites', ruleId);
+    if (!failed) {
+      throw new Error(`No failed write recorded for rule '${ruleId}'`);
+    }
+    const { status: _status, message: _message, failedAt: _failedAt, ...write } = failed;
+    await this.storage.delete('failedWrites', ruleId);
+    await this.storage.put<PendingRuleWrite>('pendingWrites', ruleId, { ...write, queuedAt: new Date().toISOString() });
+    return this.syncPendingWrites();
+  }
+
+  async discardFailedWrite(ruleId: string): Promise<void> {
+    await this.storage.delete('failedWrites', ruleId);
+  }
+
+  // Push queued writes in order; a write whose base version no longer matches the server becomes a conflict
+  syncPendingWrites(): Promise<RuleSyncReport> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Settle a conflict by keeping one side; keeping the local copy re-queues it on top of the remote version
+  async resolveConflict(ruleId: string, keep: 'local' | 'remote'): Promise<Rule> {
+    const conflict = await this.storage.get<RuleConflict>('conflicts', ruleId);
+    if (!conflict) {
+      throw new Error(`No conflict recorded for rule '${ruleId}'`);
+    }
+    await this.storage.delete('conflicts', ruleId);
+
+    if (keep === 'remote') {
+      await this.cacheRemoteRule(conflict.remote);
+      return conflict.remote;
+    }
+
+    await this.storage.put<PendingRuleWrite>('pendingWrites', ruleId, {
+      ruleId,
+      rule: conflict.local,
+      baseVersion: conflict.remote.metadata.version,
+      queuedAt: new Date().toISOString()
+    });
+    await this.syncPendingWrites();
+    return conflict.local;
+  }
+
+  private async runSync(): Promise<RuleSyncReport> {
+    const writes = (await this.getPendingWrites()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    const report: RuleSyncReport = { synced: [], conflicts: [], failed: [], pending: 0 };
+
+    for (let i = 0; i < writes.length; i++) {
+      const write = writes[i];
+      try {
+        const remote = await this.fetchRemoteRule(write.ruleId);
+        if (remote && remote.metadata.version !== write.baseVersion) {
+          const conflict: RuleConflict = {
+            ruleId: write.ruleId,
+            local: write.rule,
+            remote,
+            baseVersion: write.baseVersion,
+            detectedAt: new Date().toISOString()
+          };
+          await this.storage.put('conflicts', write.ruleId, conflict);
+          await this.storage.delete('pendingWrites', write.ruleId);
+          report.conflicts.push(conflict);
+          continue;
+        }
+
+        const result = await this.makeRequest<{ id: string; version: string }>('/rules', {
+          method: 'POST',
+          body: JSON.stringify(write.rule)
+        });
+        await this.storage.delete('pendingWrites', write.ruleId);
+        await this.recordSynced(write.rule, result);
+        report.synced.push(result.id);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          // Refused for good, e.g. 400 or 409; set it aside so later writes still go through
+          const failed: FailedRuleWrite = {
+            ...write,
+            status: error.status,
+            message: error.message,
+            failedAt: new Date().toISOString()
+          };
+          await this.storage.put('failedWrites', write.ruleId, failed);
+          await this.storage.delete('pendingWrites', write.ruleId);
+          report.failed.push(failed);
+          continue;
+        }
+        // Still unreachable; leave the rest queued for the next successful request
+        report.pending = writes.length - i;
+        break;
+      }
+    }
+
+    return report;
+  }
+
+  private scheduleSync() {
+    if (this.syncing) return;
+    this.getPendingWrites()
+      .then(writes => {
+        if (writes.length > 0) return this.syncPendingWrites();
+      })
+      .catch(() => undefined);
+  }
+
+  // Queue a write, coalescing with an earlier one for the same rule but keeping its base version
+  private async enqueueWrite(rule: Rule) {
+    const existing = await this.storage.get<PendingRuleWrite>('pendingWrites', rule.id);
+    const syncState = await this.storage.get<RuleSyncState>('syncState', rule.id);
+
+    await this.storage.put<PendingRuleWrite>('pendingWrites', rule.id, {
+      ruleId: rule.id,
+      rule,
+      baseVersion: existing ? existing.baseVersion : syncState?.serverVersion,
+      queuedAt: existing?.queuedAt ?? new Date().toISOString()
+    });
+  }
+
+  private async fetchRemoteRule(ruleId: string): Promise<Rule | undefined> {
+    try {
+      return await this.makeRequest<Rule>(`/rules/${ruleId}`);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  private async cacheRemoteRule(rule: Rule) {
+    await this.storage.put('rules', rule.id, rule);
+    await this.storage.put<RuleSyncState>('syncState', rule.id, {
+      ruleId: rule.id,
+      serverVersion: rule.metadata.version,
+      syncedAt: new Date().toISOString()
+    });
+  }
+
+  // The API may assign its own id and version to rules created offline
+  private async recordSynced(rule: Rule, result: { id: string; version: string }) {
+    if (result.id !== rule.id) {
+      await this.storage.delete('rules', rule.id);
+      await this.storage.delete('syncState', rule.id);
+    }
+    await this.cacheRemoteRule({
+      ...rule,
+      id: result.id,
+      metadata: { ...rule.metadata, version: result.version }
+    });
+  }
+
   // Client-side validation fallback
   private clientSideValidation(rule: Rule): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const suggestions: ValidationIssue[] = [];
 
     // Basic validation rules
     if (!rule.name.trim()) {
-      errors.push('Rule name is required');
+      errors.push(createIssue('error', 'rule_name_required', 'Rule name is required', {
+        fix: { kind: 'set_rule_name', label: 'Name the rule "Untitled Rule"', value: 'Untitled Rule' }
+      }));
     }
 
     if (!rule.rootAtom) {
-      errors.push('Rule must have at least one atom');
-      suggestions.push('Drag an atom from the palette to start building your rule');
+      errors.push(createIssue('error', 'empty_rule', 'Rule must have at least one atom'));
+      suggestions.push(createIssue('suggestion', 'empty_rule', 'Drag an atom from the palette to start building your rule'));
       return { isValid: false, errors, warnings, suggestions };
     }
 
+    // A malformed input schema is reported once and ignored for field checks
+    const schemaErrors = rule.inputSchema ? getInputSchemaErrors(rule.inputSchema) : [];
+    schemaErrors.forEach(message => {
+      errors.push(createIssue('error', 'invalid_schema', `Input schema: ${message}`));
+    });
+    const inputSchema = schemaErrors.length === 0 ? rule.inputSchema : undefined;
+
     // Validate atom tree
-    this.validateAtomTree(rule.rootAtom, errors, warnings, suggestions);
+    this.validateAtomTree(rule.rootAtom, [], errors, warnings, suggestions, getRuleExpressionContext({ ...rule, inputSchema }));
 
     // Performance suggestions
-    const atomCount = this.countAtoms(rule.rootAtom);
+    const atomCount = countAtoms(rule.rootAtom);
     if (atomCount > 20) {
-      suggestions.push('Consider breaking this rule into smaller, more manageable rules for better performance');
+      suggestions.push(createIssue('suggestion', 'rule_too_large', 'Consider breaking this rule into smaller, more manageable rules for better performance'));
     }
 
     if (atomCount > 50) {
-      warnings.push('This rule is very complex and may have performance issues');
+      warnings.push(createIssue('warning', 'rule_too_complex', 'This rule is very complex and may have performance issues'));
     }
 
     return {
@@ -119,36 +433,122 @@ class RuleEngineService {
     };
   }
 
-  private validateAtomTree(atom: AtomInstance, errors: string[], warnings: string[], suggestions: string[]): void {
-    // Check for missing required parameters
+  private validateAtomTree(
+    atom: AtomInstance,
+    parentPath: string[],
+    errors: ValidationIssue[],
+    warnings: ValidationIssue[],
+    suggestions: ValidationIssue[],
+    scope: ExpressionContext = {}
+  ): void {
+    const atomPath = [...parentPath, atom.id];
+    const location = { atomId: atom.id, atomPath };
+    const definition = atom.type ? getAtomDefinition(atom.type) : undefined;
+
     if (!atom.type) {
-      errors.push(`Atom ${atom.id} is missing type`);
-    }
+      errors.push(createIssue('error', 'missing_type', `Atom ${atom.id} is missing type`, {
+        ...location,
+        fix: { kind: 'remove_atom', label: `Remove atom ${atom.id}`, atomId: atom.id }
+      }));
+    } else if (!definition) {
+      errors.push(createIssue('error', 'unknown_atom_type', `Atom ${atom.id} has unknown type "${atom.type}"`, {
+        ...location,
+        fix: { kind: 'remove_atom', label: `Remove atom ${atom.id}`, atomId: atom.id }
+      }));
+    } else {
+      // Check parameters against the schema declared in the registry
+      const parameterErrors = validateAtomParameters(atom, definition);
+      parameterErrors.forEach(error => {
+        errors.push(createIssue('error', error.code, formatParameterError(error), {
+          ...location,
+          parameter: error.parameter,
+          fix: suggestParameterFix(definition, error, atom.parameters[error.parameter])
+        }));
+      });
 
-    // Check for empty parameter values that might be required
-    const parameterCount = Object.keys(atom.parameters).length;
-    if (parameterCount === 0) {
-      warnings.push(`Atom ${atom.id} (${atom.type}) has no configured parameters`);
+      // Type-check expression parameters that passed the basic parameter checks
+      definition.parameters?.forEach(param => {
+        const source = atom.parameters[param.name];
+        if (!param.expression || typeof source !== 'string' || source.trim() === '') return;
+        if (parameterErrors.some(error => error.parameter === param.name)) return;
+
+        analyzeExpression(source, scope, param.expression).diagnostics.forEach(diagnostic => {
+          const column = diagnostic.start + 1;
+          const issue = createIssue(diagnostic.severity, 'invalid_expression',
+            `Atom ${atom.id}: parameter "${param.name}" at column ${column} - ${diagnostic.message}`, {
+              ...location,
+              parameter: param.name,
+              column
+            });
+          (diagnostic.severity === 'error' ? errors : warnings).push(issue);
+        });
+      });
+
+      this.validateFieldReferences(atom, definition, scope, location, errors);
+
+      if (atom.type === 'placeholder') {
+        warnings.push(createIssue('warning', 'placeholder_atom', `Atom ${atom.id} is a placeholder for unknown type "${atom.parameters.originalType}" and will not run its own logic`, {
+          ...location,
+          fix: { kind: 'remove_atom', label: `Remove atom ${atom.id}`, atomId: atom.id }
+        }));
+      }
+
+      const hasDeclaredParameters = (definition.parameters?.length ?? 0) > 0;
+      if (hasDeclaredParameters && Object.keys(atom.parameters).length === 0 && parameterErrors.length === 0) {
+        warnings.push(createIssue('warning', 'default_parameters', `Atom ${atom.id} (${atom.type}) has no configured parameters and relies on defaults`, location));
+      }
     }
 
     // Check for circular references
     if (this.hasCircularReference(atom)) {
-      errors.push(`Circular reference detected in atom ${atom.id}`);
+      errors.push(createIssue('error', 'circular_reference', `Circular reference detected in atom ${atom.id}`, location));
     }
 
-    // Validate children recursively
+    // Validate children recursively; loops bring `item` and `index` into scope
+    const childScope = enterAtomScope(scope, atom);
     atom.children.forEach(child => {
-      this.validateAtomTree(child, errors, warnings, suggestions);
+      this.validateAtomTree(child, atomPath, errors, warnings, suggestions, childScope);
     });
 
     // Performance suggestions
     if (atom.children.length > 10) {
-      suggestions.push(`Consider simplifying atom ${atom.id} - it has many children which may impact performance`);
+      suggestions.push(createIssue('suggestion', 'too_many_children', `Consider simplifying atom ${atom.id} - it has many children which may impact performance`, location));
     }
   }
 
-  private countAtoms(atom: AtomInstance): number {
-    return 1 + atom.children.reduce((count, child) => count + this.countAtoms(child), 0);
+  // Field parameters must name fields the input schema declares or earlier atoms produce
+  private validateFieldReferences(
+    atom: AtomInstance,
+    definition: AtomDefinition,
+    scope: ExpressionContext,
+    location: { atomId: string; atomPath: string[] },
+    errors: ValidationIssue[]
+  ): void {
+    definition.parameters?.forEach(param => {
+      const value = atom.parameters[param.name];
+      if (!param.fieldReference || value === undefined || value === '') return;
+
+      const source = String(atom.parameters.source ?? '');
+      const context = param.fieldReference === 'lookup' ? getLookupContext(source, scope.schema) : scope;
+      if (!context) {
+        errors.push(createIssue('error', 'unknown_field', `Atom ${atom.id}: source "${source}" is not declared in the input schema`, {
+          ...location,
+          parameter: 'source'
+        }));
+        return;
+      }
+
+      const paths = Array.isArray(value) ? value.map(String) : [String(value)];
+      paths.forEach(path => {
+        const [diagnostic] = checkFieldReference(path, context);
+        if (!diagnostic) return;
+        const where = param.fieldReference === 'lookup' ? ` (in source "${source}")` : '';
+        errors.push(createIssue('error', 'unknown_field', `Atom ${atom.id}: parameter "${param.name}" - ${diagnostic.message}${where}`, {
+          ...location,
+          parameter: param.name
+        }));
+      });
+    });
   }
 
   private hasCircularReference(atom: AtomInstance, visited: Set<string> = new Set()): boolean {
@@ -166,64 +566,22 @@ class RuleEngineService {
     
     return false;
   }
-
-  // Mock execution for demo purposes
-  private mockExecution(rule: Rule, testData: any, startTime: number): TestResult {
-    const executionTime = Date.now() - startTime + Math.random() * 100; // Add some realistic timing
-    
-    // Simulate successful execution
-    if (Math.random() > 0.1) { // 90% success rate
-      return {
-        status: 'success',
-        output: {
-          result: true,
-          message: 'Rule executed successfully',
-          matchedConditions: ['age_range', 'geography'],
-          actions: ['send_email'],
-          context: testData
-        },
-        executionTime,
-        executionTrace: [
-          {
-            atomId: 'atom_1',
-            action: 'evaluate_condition',
-            timestamp: 10,
-            input: testData,
-            output: true
-          },
-          {
-            atomId: 'atom_2',
-            action: 'execute_action',
-            timestamp: 45,
-            input: { triggered: true },
-            output: { sent: true }
-          }
-        ],
-        metrics: {
-          memoryUsage: Math.floor(Math.random() * 1000) + 500,
-          cpuTime: Math.floor(executionTime * 0.8),
-          atomsExecuted: rule.rootAtom ? this.countAtoms(rule.rootAtom) : 0,
-          cacheHits: Math.floor(Math.random() * 5),
-          cacheMisses: Math.floor(Math.random() * 2)
-        }
-      };
-    } else {
-      // Simulate error
-      return {
-        status: 'error',
-        output: null,
-        error: 'Mock error: Parameter validation failed',
-        executionTime
-      };
-    }
-  }
 }
 
 // Singleton instance
-export const ruleEngineService = new RuleEngineService();
+export const ruleEngineService = new RuleEngineService(ruleVersioning.storage, ruleVersioning);
 
 // Export functions for backwards compatibility
 export const validateRule = (rule: Rule) => ruleEngineService.validateRule(rule);
 export const executeRule = (rule: Rule, testData: any) => ruleEngineService.executeRule(rule, testData);
-export const saveRule = (rule: Rule) => ruleEngineService.saveRule(rule);
-export const loadRule = (ruleId: string) => ruleEngineService.loadRule(ruleId);
\ No newline at end of file
+export const saveRule = (rule: Rule, options?: CreateVersionOptions) => ruleEngineService.saveRule(rule, options);
+export const loadRule = (ruleId: string) => ruleEngineService.loadRule(ruleId);
+export const listRules = () => ruleEngineService.listRules();
+export const cloneRule = (ruleId: string, options?: CreateVersionOptions) => ruleEngineService.cloneRule(ruleId, options);
+export const setRuleStatus = (ruleIds: string[], status: RuleStatus, options?: CreateVersionOptions) =>
+  ruleEngineService.setRuleStatus(ruleIds, status, options);
+export const syncPendingWrites = () => ruleEngineService.syncPendingWrites();
+export const resolveRuleConflict = (ruleId: string, keep: 'local' | 'remote') =>
+  ruleEngineService.resolveConflict(ruleId, keep);
+export const retryFailedWrite = (ruleId: string) => ruleEngineService.retryFailedWrite(ruleId);
+export const discardFailedWrite = (ruleId: string) => ruleEngineService.discardFailedWrite(ruleId);
\ No newline at end of file
@@ -0,0 +1,411 @@
+// src/services/RuleImport.ts
+// Reads rules exported as JSON, YAML or Markdown, and DMN decision tables, back into the builder
+// Checks the Rule/AtomInstance schema, swaps unknown atom types for placeholders and re-ids duplicate atoms
+
+import {
+  Rule,
+  RuleStatus,
+  AtomInstance,
+  DmnNames,
+  ParameterValue,
+  RuleImportFormat,
+  RuleImportResult,
+  RuleInputSchema,
+  ValidationIssue
+} from '../types/RuleTypes';
+import { getAtomDefinition } from './AtomRegistry';
+import { getInputSchemaErrors } from './InputSchema';
+import { createIssue, getAllIssues } from './ValidationIssues';
+import { dmnToRule } from './DmnConverter';
+import { parseYaml } from '../utils/ruleYaml';
+
+const EMBEDDED_RULE_PATTERN = /<!--\s*kairos-rule\s+([\s\S]*?)\s*-->/;
+const RULE_STATUSES: RuleStatus[] = ['draft', 'active', 'archived'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Written by the Markdown exporter so the document can be imported without loss.
+// '>' only occurs inside JSON strings, so escaping it keeps '-->' out of the comment body.
+export const embedRuleComment = (rule: Rule): string =>
+  `<!-- kairos-rule ${JSON.stringify(rule).replace(/>/g, '\\u003e')} -->`;
+
+export const detectImportFormat = (content: string, fileName?: string): RuleImportFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'yaml' || extension === 'yml') return 'yaml';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'dmn') return 'dmn';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'json';
+  if (trimmed.startsWith('<')) return 'dmn';
+  if (trimmed.startsWith('# ') || EMBEDDED_RULE_PATTERN.test(content)) return 'markdown';
+  return 'yaml';
+};
+
+const isAtomCounter = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+class ImportContext {
+  issues: ValidationIssue[] = [];
+  private seenIds = new Set<string>();
+  private idCounter: number;
+  readonly now = new Date().toISOString();
+
+  constructor(raw: unknown) {
+    this.idCounter = highestAtomNumber(raw);
+  }
+
+  error(message: string, atomId?: string) {
+    this.issues.push(createIssue('error', 'invalid_schema', message, atomId ? { atomId } : {}));
+  }
+
+  warn(code: 'invalid_schema' | 'duplicate_atom_id' | 'placeholder_atom', message: string, atomId?: string) {
+    this.issues.push(createIssue('warning', code, message, atomId ? { atomId } : {}));
+  }
+
+  freshId(): string {
+    let id: string;
+    do {
+      id = `atom_${++this.idCounter}`;
+    } while (this.seenIds.has(id));
+    return id;
+  }
+
+  // Returns the id to use for an atom, replacing duplicates
+  claimId(rawId: unknown, path: string): string {
+    if (typeof rawId !== 'string' || rawId === '') {
+      const id = this.freshId();
+      this.warn('invalid_schema', `${path} has no id; assigned ${id}`, id);
+      this.seenIds.add(id);
+      return id;
+    }
+
+    if (this.seenIds.has(rawId)) {
+      const id = this.freshId();
+      this.warn('duplicate_atom_id', `Duplicate atom id "${rawId}" at ${path} was renamed to ${id}`, id);
+      this.seenIds.add(id);
+      return id;
+    }
+
+    this.seenIds.add(rawId);
+    return rawId;
+  }
+}
+
+// Highest n among atom_<n> ids (and a rule's atomCounter) anywhere in the raw data,
+// so generated ids neither collide nor reuse the id of a deleted atom
+const highestAtomNumber = (raw: unknown): number => {
+  let max = 0;
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isPlainObject(value)) {
+      const match = typeof value.id === 'string' ? /^atom_(\d+)$/.exec(value.id) : null;
+      if (match) max = Math.max(max, Number(match[1]));
+      if (isAtomCounter(value.atomCounter)) max = Math.max(max, value.atomCounter);
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(raw);
+  return max;
+};
+
+const normalizeAtom = (raw: unknown, path: string, context: ImportContext): AtomInstance | null => {
+  if (!isPlainObject(raw)) {
+    context.error(`${path} must be an atom object`);
+    return null;
+  }
+
+  const id = context.claimId(raw.id, path);
+
+  if (typeof raw.type !== 'string' || raw.type === '') {
+    context.error(`Atom ${id} at ${path} is missing its type`, id);
+    return null;
+  }
+
+  // Older YAML exports wrote empty collections as bare keys, which read back as null
+  const parameters = raw.parameters ?? {};
+  if (!isPlainObject(parameters)) {
+    context.error(`Atom ${id}: parameters must be an object`, id);
+    return null;
+  }
+  const rawChildren = raw.children ?? [];
+  if (!Array.isArray(rawChildren)) {
+    context.error(`Atom ${id}: children must be a list`, id);
+    return null;
+  }
+
+  let position = { x: 0, y: 0 };
+  if (isPlainObject(raw.position) && typeof raw.position.x === 'number' && typeof raw.position.y === 'number') {
+    position = { x: raw.position.x, y: raw.position.y };
+  } else if (raw.position !== undefined) {
+    context.warn('invalid_schema', `Atom ${id}: invalid position was reset to (0, 0)`, id);
+  }
+
+  const metadata = isPlainObject(raw.metadata) ? raw.metadata : {};
+  const atom: AtomInstance = {
+    id,
+    type: raw.type,
+    ...(typeof raw.label === 'string' ? { label: raw.label } : {}),
+    position,
+    parameters: parameters as Record<string, ParameterValue>,
+    children: rawChildren
+      .map((child, index) => normalizeAtom(child, `${path}.children[${index}]`, context))
+      .filter(Boolean) as AtomInstance[],
+    metadata: {
+      created: typeof metadata.created === 'string' ? metadata.created : context.now,
+      modified: typeof metadata.modified === 'string' ? metadata.modified : context.now,
+      ...(typeof metadata.version === 'string' ? { version: metadata.version } : {})
+    }
+  };
+
+  if (!getAtomDefinition(atom.type)) {
+    context.warn('placeholder_atom', `Atom ${id} has unknown type "${atom.type}" and was imported as a placeholder`, id);
+    return {
+      ...atom,
+      type: 'placeholder',
+      parameters: { originalType: atom.type, originalParameters: atom.parameters }
+    };
+  }
+
+  return atom;
+};
+
+const isStringMap = (value: unknown): value is Record<string, string> =>
+  isPlainObject(value) && Object.values(value).every(item => typeof item === 'string');
+
+// DMN labels and output names are only kept for later exports, so malformed ones are dropped with a warning
+const normalizeDmnNames = (raw: unknown, context: ImportContext): DmnNames | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const names: DmnNames = {};
+  if (isPlainObject(raw)) {
+    if (isStringMap(raw.inputLabels)) names.inputLabels = raw.inputLabels;
+    if (isStringMap(raw.outputNames)) names.outputNames = raw.outputNames;
+  }
+  const kept = Object.keys(names).length;
+  if (!isPlainObject(raw) || kept !== Object.keys(raw).length) {
+    context.warn('invalid_schema', 'DMN labels and output names in the metadata are malformed; the unreadable ones were dropped');
+  }
+  return kept > 0 ? names : undefined;
+};
+
+const normalizeRule = (raw: unknown, context: ImportContext): Rule | null => {
+  if (!isPlainObject(raw)) {
+    context.error('File does not contain a rule object');
+    return null;
+  }
+
+  if (raw.id !== undefined && raw.id !== null && typeof raw.id !== 'string') {
+    context.error('Rule id must be a string');
+  }
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = 'Imported Rule';
+    context.warn('invalid_schema', `Rule has no name; using "${name}"`);
+  }
+
+  const metadata = isPlainObject(raw.metadata) ? raw.metadata : {};
+  const tags = metadata.tags ?? [];
+  if (!Array.isArray(tags)) {
+    context.error('Rule tags must be a list');
+  }
+  let status: RuleStatus | undefined;
+  if (metadata.status !== undefined && metadata.status !== null) {
+    if (RULE_STATUSES.includes(metadata.status)) {
+      status = metadata.status;
+    } else {
+      context.warn('invalid_schema', `Unknown rule status "${metadata.status}" was dropped`);
+    }
+  }
+
+  const dmn = normalizeDmnNames(metadata.dmn, context);
+
+  let rootAtom: AtomInstance | null = null;
+  if (raw.rootAtom !== undefined && raw.rootAtom !== null) {
+    rootAtom = normalizeAtom(raw.rootAtom, 'rootAtom', context);
+  }
+
+  let inputSchema: RuleInputSchema | undefined;
+  if (raw.inputSchema !== undefined && raw.inputSchema !== null) {
+    const schemaErrors = getInputSchemaErrors(raw.inputSchema);
+    if (schemaErrors.length === 0) {
+      inputSchema = raw.inputSchema;
+    } else {
+      context.warn('invalid_schema', `Input schema was dropped: ${schemaErrors.join('; ')}`);
+    }
+  }
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : '',
+    name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    rootAtom,
+    ...(inputSchema ? { inputSchema } : {}),
+    metadata: {
+      version: typeof metadata.version === 'string' ? metadata.version : '1.0.0',
+      created: typeof metadata.created === 'string' ? metadata.created : context.now,
+      modified: typeof metadata.modified === 'string' ? metadata.modified : context.now,
+      tags: Array.isArray(tags) ? tags.map(String) : [],
+      ...(typeof metadata.author === 'string' ? { author: metadata.author } : {}),
+      ...(status ? { status } : {}),
+      ...(isAtomCounter(metadata.atomCounter) ? { atomCounter: metadata.atomCounter } : {}),
+      ...(dmn ? { dmn } : {})
+    }
+  };
+};
+
+// Schema-check a single atom subtree, e.g. one pasted from the clipboard
+export const importAtomSubtree = (raw: unknown): { atom: AtomInstance | null; issues: ValidationIssue[] } => {
+  const context = new ImportContext(raw);
+  const atom = normalizeAtom(raw, 'atom', context);
+  const hasErrors = context.issues.some(issue => issue.severity === 'error');
+  return { atom: hasErrors ? null : atom, issues: context.issues };
+};
+
+const parseMarkdownValue = (text: string): ParameterValue => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const parseMarkdownDate = (text: string | undefined): string | undefined => {
+  if (!text) return undefined;
+  const time = Date.parse(text);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// Best-effort reading of Markdown exports that predate the embedded rule comment.
+// The outline carries types, labels and parameters but no ids or positions.
+const parseMarkdownOutline = (content: string): Record<string, any> => {
+  const lines = content.split(/\r?\n/);
+  const name = lines.find(line => line.startsWith('# Rule: '))?.slice('# Rule: '.length).trim();
+  const titleIndex = lines.findIndex(line => line.startsWith('# Rule: '));
+  const metadataIndex = lines.findIndex(line => line.trim() === '## Metadata');
+  const structureIndex = lines.findIndex(line => line.trim() === '## Rule Structure');
+
+  const description = titleIndex >= 0 && metadataIndex > titleIndex
+    ? lines.slice(titleIndex + 1, metadataIndex).join('\n').trim()
+    : '';
+
+  const field = (label: string) =>
+    lines.find(line => line.startsWith(`- **${label}:**`))?.slice(`- **${label}:**`.length).trim();
+
+  // Atoms sit at even indents; their Parameters/Children headings two spaces deeper
+  const atomsByIndent = new Map<number, Record<string, any>>();
+  const sectionByIndent = new Map<number, 'parameters' | 'children'>();
+  let rootAtom: Record<string, any> | null = null;
+  let order = 0;
+
+  // The structure runs until the next section, e.g. Test Coverage
+  const nextSectionIndex = structureIndex === -1
+    ? -1
+    : lines.findIndex((line, index) => index > structureIndex && line.startsWith('## '));
+  const structureLines = lines.slice(structureIndex + 1, nextSectionIndex === -1 ? undefined : nextSectionIndex);
+
+  structureLines.forEach(line => {
+    const match = /^( *)- (.*)$/.exec(line);
+    if (!match) return;
+    const indent = match[1].length;
+    const text = match[2].trim();
+
+    const atomMatch = /^\*\*(.+?)\*\*(?: \((.*)\))?$/.exec(text);
+    if (atomMatch && (indent === 0 || sectionByIndent.get(indent - 2) === 'children')) {
+      const atom: Record<string, any> = {
+        type: atomMatch[1],
+        position: { x: 100 + (indent / 4) * 300, y: 100 + order++ * 150 },
+        parameters: {},
+        children: []
+      };
+      if (atomMatch[2]) atom.label = atomMatch[2];
+
+      if (indent === 0) {
+        rootAtom = atom;
+      } else {
+        atomsByIndent.get(indent - 4)?.children.push(atom);
+      }
+      atomsByIndent.set(indent, atom);
+      sectionByIndent.delete(indent + 2);
+      return;
+    }
+
+    if (text === 'Parameters:' || text === 'Children:') {
+      sectionByIndent.set(indent, text === 'Parameters:' ? 'parameters' : 'children');
+      return;
+    }
+
+    const owner = atomsByIndent.get(indent - 4);
+    const separator = text.indexOf(': ');
+    if (owner && sectionByIndent.get(indent - 2) === 'parameters' && separator > 0) {
+      owner.parameters[text.slice(0, separator)] = parseMarkdownValue(text.slice(separator + 2));
+    }
+  });
+
+  return {
+    name,
+    description,
+    rootAtom,
+    metadata: {
+      version: field('Version'),
+      created: parseMarkdownDate(field('Created')),
+      modified: parseMarkdownDate(field('Modified')),
+      tags: field('Tags')?.split(',').map(tag => tag.trim()).filter(Boolean) ?? [],
+      author: field('Author')
+    }
+  };
+};
+
+const parseContent = (content: string, format: RuleImportFormat, context: ImportContext): unknown => {
+  switch (format) {
+    case 'json':
+      return JSON.parse(content);
+
+    case 'yaml':
+      return parseYaml(content);
+
+    case 'markdown': {
+      const embedded = EMBEDDED_RULE_PATTERN.exec(content);
+      if (embedded) return JSON.parse(embedded[1]);
+
+      context.warn('invalid_schema', 'Markdown file has no embedded rule data; atom ids and positions were regenerated');
+      return parseMarkdownOutline(content);
+    }
+
+    case 'dmn': {
+      const { rule, validation } = dmnToRule(content);
+      context.issues.push(...getAllIssues(validation));
+      return rule;
+    }
+  }
+};
+
+export const importRule = (content: string, fileName?: string): RuleImportResult => {
+  const format = detectImportFormat(content, fileName);
+  const parsingContext = new ImportContext(null);
+
+  let raw: unknown;
+  try {
+    raw = parseContent(content, format, parsingContext);
+  } catch (error) {
+    return {
+      rule: null,
+      format,
+      issues: [createIssue('error', 'parse_error', `Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`)]
+    };
+  }
+
+  // The table could not be converted; its issues say why
+  if (raw === null && parsingContext.issues.some(issue => issue.severity === 'error')) {
+    return { rule: null, format, issues: parsingContext.issues };
+  }
+
+  const context = new ImportContext(raw);
+  context.issues.push(...parsingContext.issues);
+  const rule = normalizeRule(raw, context);
+  const hasErrors = context.issues.some(issue => issue.severity === 'error');
+
+  return { rule: hasErrors ? null : rule, format, issues: context.issues };
+};
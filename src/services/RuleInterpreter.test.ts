@@ -0,0 +1,130 @@
+// src/services/RuleInterpreter.test.ts
+// Covers how the interpreter walks the atom tree: parameters, scopes, delays, limits, traces and observers
+// Individual atom semantics are covered in AtomExecutors.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { getAtomDefinition } from './AtomRegistry';
+import { interpretRule, resolveParameters } from './RuleInterpreter';
+
+const NOW = Date.parse('2024-03-10T12:00:00.000Z');
+
+let nextId = 1;
+const atom = (type: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id: `atom_${nextId++}`,
+  type,
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const ruleWith = (rootAtom: AtomInstance | null): Rule => ({
+  id: 'rule_interpreter',
+  name: 'Interpreter',
+  description: '',
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+const run = (root: AtomInstance | null, input: any, maxSteps?: number) => interpretRule(ruleWith(root), input, { now: () => NOW, maxSteps });
+
+describe('resolveParameters', () => {
+  const definition = getAtomDefinition('send_email')!;
+
+  it('fills defaults and skips empty text', () => {
+    const email = atom('send_email', { templateId: 'welcome', subject: '' });
+    expect(resolveParameters(email, definition)).toEqual({ templateId: 'welcome', priority: 'normal' });
+  });
+
+  it('decodes text typed into object, array and number parameters', () => {
+    expect(resolveParameters(atom('send_email', { variables: '{"name": "Ada"}' }), definition).variables).toEqual({ name: 'Ada' });
+    expect(resolveParameters(atom('geography', { countries: 'US, ca,,' }), getAtomDefinition('geography')!).countries).toEqual(['US', 'ca']);
+    expect(resolveParameters(atom('age_range', { minAge: '21' }), getAtomDefinition('age_range')!).minAge).toBe(21);
+  });
+
+  it('names the atom and parameter when JSON does not parse', () => {
+    const email = atom('send_email', { variables: '{name}' });
+    expect(() => resolveParameters(email, definition)).toThrow(`Atom ${email.id}: parameter "variables" is not valid JSON`);
+  });
+});
+
+describe('interpretRule', () => {
+  it('returns the actions, matched conditions and variables of the run', () => {
+    const root = atom('age_range', { minAge: 18, maxAge: 65 }, [
+      atom('calculate_score', { weights: { visits: 2 } }),
+      atom('send_email', { templateId: 'welcome' })
+    ]);
+    const result = run(root, { age: 30, visits: 4 });
+    expect(result.status).toBe('success');
+    expect(result.output).toEqual({
+      result: true,
+      matchedConditions: [root.id],
+      actions: [{ atomId: root.children[1].id, type: 'send_email', parameters: { templateId: 'welcome', priority: 'normal' }, delayMs: 0 }],
+      variables: { score: 8 }
+    });
+  });
+
+  it('records steps in execution order', () => {
+    const root = atom('if_then_else', { condition: 'true' }, [
+      atom('send_email', { templateId: 'welcome' }, [atom('custom_event', { eventName: 'sent' })])
+    ]);
+    const result = run(root, {});
+    expect(result.executionTrace!.map(step => step.action)).toEqual(['control_flow', 'execute_action', 'evaluate_data']);
+    expect(result.metrics).toMatchObject({ atomsExecuted: 3 });
+  });
+
+  it('resolves loop items before variables and input, and stamps actions with the item', () => {
+    const event = atom('custom_event', { eventName: 'order' });
+    const root = atom('loop', { iterateOver: 'orders' }, [atom('if_then_else', { condition: 'item.total > 10' }, [event])]);
+    const result = run(root, { orders: [{ total: 5 }, { total: 50 }], item: { total: 99 } });
+    expect(result.output.actions).toEqual([
+      { atomId: event.id, type: 'custom_event', parameters: { eventName: 'order' }, delayMs: 0, item: { total: 50 } }
+    ]);
+  });
+
+  it('adds delays to the actions under them only', () => {
+    const later = atom('custom_event', { eventName: 'later' });
+    const now = atom('custom_event', { eventName: 'now' });
+    const root = atom('placeholder', {}, [atom('delay', { duration: 2, unit: 'days' }, [later]), now]);
+    const delays = run(root, {}).output.actions.map((action: { atomId: string; delayMs: number }) => [action.atomId, action.delayMs]);
+    expect(delays).toEqual([[later.id, 2 * 24 * 60 * 60 * 1000], [now.id, 0]]);
+  });
+
+  it('times out once the step limit is reached', () => {
+    const root = atom('loop', { iterateOver: 'items' }, [atom('custom_event', { eventName: 'tick' })]);
+    const result = run(root, { items: [1, 2, 3, 4] }, 3);
+    expect(result).toMatchObject({ status: 'timeout', output: null, error: 'Execution exceeded 3 atom evaluations' });
+  });
+
+  it('reports rules without atoms and atoms of unknown type', () => {
+    expect(run(null, {})).toMatchObject({ status: 'error', error: 'Rule has no atoms to execute' });
+    const unknown = atom('teleport', {});
+    expect(run(unknown, {})).toMatchObject({ status: 'error', error: `Atom ${unknown.id}: unknown atom type "teleport"` });
+  });
+
+  it('wraps input that is not an object', () => {
+    const root = atom('if_then_else', { condition: 'value == 3' }, [atom('custom_event', { eventName: 'three' })]);
+    expect(run(root, 3).output.actions).toHaveLength(1);
+  });
+
+  it('tells observers about every atom it enters and leaves, including failures', () => {
+    const failing = atom('if_then_else', { condition: 'missing > 1' });
+    const root = atom('calculate_score', { weights: {} }, [failing]);
+    const events: string[] = [];
+    const result = interpretRule(ruleWith(root), {}, {
+      now: () => NOW,
+      observer: {
+        enter: (entered, snapshot) => events.push(`enter ${entered.id} at depth ${snapshot.depth}`),
+        exit: (left, _snapshot, outcome, error) => events.push(`exit ${left.id} ${outcome ? 'ok' : error ? 'failed' : ''}`)
+      }
+    });
+    expect(result.status).toBe('error');
+    expect(events).toEqual([
+      `enter ${root.id} at depth 0`,
+      `enter ${failing.id} at depth 1`,
+      `exit ${failing.id} failed`,
+      `exit ${root.id} failed`
+    ]);
+  });
+});
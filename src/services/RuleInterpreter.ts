@@ -0,0 +1,314 @@
+// src/services/RuleInterpreter.ts
+// Local interpreter that executes a rule's atom tree against test input
+// Used when the Hades execution API is unreachable and for offline testing
+
+import {
+  Rule,
+  AtomInstance,
+  AtomDefinition,
+  AtomCategory,
+  AtomChildResults,
+  AtomExecutionContext,
+  AtomOutcome,
+  ActionRecord,
+  ExecutionStep,
+  TestResult
+} from '../types/RuleTypes';
+import { getAtomDefinition, getAtomExecutor } from './AtomRegistry';
+import { toNumber } from './AtomExecutors';
+import { readPath } from '../utils/objectPath';
+
+export interface InterpreterOptions {
+  now?: () => number; // Clock in epoch ms, used for timings and time-based atoms
+  maxSteps?: number; // Upper bound on atom evaluations before the run times out
+  observer?: ExecutionObserver; // Notified around every atom evaluation, e.g. by the debugger
+}
+
+// Live view of the run at an atom boundary; observers must copy anything they keep
+export interface ExecutionSnapshot {
+  step: ExecutionStep;
+  depth: number; // 0 for the root atom
+  variables: Record<string, any>;
+  scopes: Record<string, any>[]; // Loop scopes, innermost last
+  actions: ActionRecord[];
+  delayMs: number;
+}
+
+export interface ExecutionObserver {
+  enter?: (atom: AtomInstance, snapshot: ExecutionSnapshot) => void;
+  // Called for every atom the run leaves; `error` is set when the atom or one of its children threw
+  exit?: (atom: AtomInstance, snapshot: ExecutionSnapshot, outcome: AtomOutcome | null, error?: unknown) => void;
+}
+
+interface ExecutionState {
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  scopes: Record<string, any>[];
+  actions: ActionRecord[];
+  matchedConditions: string[];
+  trace: ExecutionStep[];
+  lookupCache: Map<string, any>;
+  cacheHits: number;
+  cacheMisses: number;
+  delayMs: number;
+  steps: number;
+  maxSteps: number;
+  depth: number;
+  startTime: number;
+  now: () => number;
+  observer?: ExecutionObserver;
+}
+
+class ExecutionLimitError extends Error {}
+
+const DEFAULT_MAX_STEPS = 10000;
+
+const TRACE_ACTIONS: Record<AtomCategory, string> = {
+  condition: 'evaluate_condition',
+  action: 'execute_action',
+  computation: 'compute',
+  flow: 'control_flow',
+  data: 'evaluate_data'
+};
+
+// Resolve a field against loop scopes, then computed variables, then the input
+const resolveField = (state: ExecutionState, path: string): any => {
+  for (let i = state.scopes.length - 1; i >= 0; i--) {
+    const value = readPath(state.scopes[i], path);
+    if (value !== undefined) return value;
+  }
+  const variable = readPath(state.variables, path);
+  if (variable !== undefined) return variable;
+  return readPath(state.input, path);
+};
+
+// Merge definition defaults with instance values and decode JSON typed parameters
+export const resolveParameters = (atom: AtomInstance, definition: AtomDefinition): Record<string, any> => {
+  const resolved: Record<string, any> = {};
+  definition.parameters?.forEach(param => {
+    if (param.defaultValue !== undefined) resolved[param.name] = param.defaultValue;
+  });
+  Object.entries(atom.parameters).forEach(([name, value]) => {
+    if (value === '' || value === undefined || value === null) return;
+    resolved[name] = value;
+  });
+  definition.parameters?.forEach(param => {
+    const value = resolved[param.name];
+    if (typeof value !== 'string') return;
+    if (param.type === 'object') {
+      try {
+        resolved[param.name] = JSON.parse(value);
+      } catch {
+        throw new Error(`Atom ${atom.id}: parameter "${param.name}" is not valid JSON`);
+      }
+    } else if (param.type === 'array') {
+      resolved[param.name] = value.split(',').map(item => item.trim()).filter(Boolean);
+    } else if (param.type === 'number' && toNumber(value) !== null) {
+      resolved[param.name] = Number(value);
+    }
+  });
+  return resolved;
+};
+
+class RuleInterpreterService {
+  // Execute a rule locally and return a deterministic TestResult
+  execute(rule: Rule, input: any, options: InterpreterOptions = {}): TestResult {
+    const now = options.now || Date.now;
+    const state: ExecutionState = {
+      input: input && typeof input === 'object' ? input : { value: input },
+      variables: {},
+      scopes: [],
+      actions: [],
+      matchedConditions: [],
+      trace: [],
+      lookupCache: new Map(),
+      cacheHits: 0,
+      cacheMisses: 0,
+      delayMs: 0,
+      steps: 0,
+      maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS,
+      depth: 0,
+      startTime: now(),
+      now,
+      observer: options.observer
+    };
+
+    if (!rule.rootAtom) {
+      return {
+        status: 'error',
+        output: null,
+        error: 'Rule has no atoms to execute',
+        executionTime: 0,
+        executionTrace: [],
+        metrics: this.buildMetrics(state, 0)
+      };
+    }
+
+    try {
+      const outcome = this.evaluateAtom(rule.rootAtom, state);
+      const executionTime = now() - state.startTime;
+      return {
+        status: 'success',
+        output: {
+          result: outcome.passed,
+          matchedConditions: state.matchedConditions,
+          actions: state.actions,
+          variables: state.variables
+        },
+        executionTime,
+        executionTrace: state.trace,
+        metrics: this.buildMetrics(state, executionTime)
+      };
+    } catch (error) {
+      const executionTime = now() - state.startTime;
+      return {
+        status: error instanceof ExecutionLimitError ? 'timeout' : 'error',
+        output: null,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime,
+        executionTrace: state.trace,
+        metrics: this.buildMetrics(state, executionTime)
+      };
+    }
+  }
+
+  private evaluateAtom(atom: AtomInstance, state: ExecutionState): AtomOutcome {
+    state.steps++;
+    if (state.steps > state.maxSteps) {
+      throw new ExecutionLimitError(`Execution exceeded ${state.maxSteps} atom evaluations`);
+    }
+
+    const definition = getAtomDefinition(atom.type);
+    if (!definition) {
+      throw new Error(`Atom ${atom.id}: unknown atom type "${atom.type}"`);
+    }
+    const executor = getAtomExecutor(atom.type);
+    if (!executor) {
+      throw new Error(`Atom ${atom.id}: no executor registered for atom type "${atom.type}"`);
+    }
+
+    const parameters = resolveParameters(atom, definition);
+    const startedAt = state.now();
+    const step: ExecutionStep = {
+      atomId: atom.id,
+      action: TRACE_ACTIONS[definition.category],
+      timestamp: startedAt - state.startTime,
+      input: parameters
+    };
+    // Record the step before children run so the trace stays in execution order
+    state.trace.push(step);
+
+    const { observer, depth } = state;
+    const snapshot = (): ExecutionSnapshot => ({
+      step,
+      depth,
+      variables: state.variables,
+      scopes: state.scopes,
+      actions: state.actions,
+      delayMs: state.delayMs
+    });
+    observer?.enter?.(atom, snapshot());
+
+    state.depth++;
+    let outcome: AtomOutcome;
+    try {
+      const result = executor(parameters, this.childResults(atom, state), this.createContext(atom, state));
+      step.output = result.value;
+      step.duration = state.now() - startedAt;
+      outcome = { atomId: atom.id, value: result.value, passed: result.passed ?? true };
+    } catch (error) {
+      observer?.exit?.(atom, snapshot(), null, error);
+      throw error;
+    } finally {
+      state.depth--;
+    }
+
+    observer?.exit?.(atom, snapshot(), outcome);
+    return outcome;
+  }
+
+  private createContext(atom: AtomInstance, state: ExecutionState): AtomExecutionContext {
+    return {
+      atom,
+      input: state.input,
+      variables: state.variables,
+      resolve: path => resolveField(state, path),
+      lookup: source => {
+        if (state.lookupCache.has(source)) {
+          state.cacheHits++;
+        } else {
+          state.cacheMisses++;
+          state.lookupCache.set(source, readPath(state.input, source) ?? {});
+        }
+        return state.lookupCache.get(source);
+      },
+      emitAction: parameters => {
+        const record: ActionRecord = {
+          atomId: atom.id,
+          type: atom.type,
+          parameters,
+          delayMs: state.delayMs
+        };
+        const scope = state.scopes[state.scopes.length - 1];
+        if (scope && scope.item !== undefined) {
+          record.item = scope.item;
+        }
+        state.actions.push(record);
+        return record;
+      },
+      markMatched: () => {
+        state.matchedConditions.push(atom.id);
+      },
+      defer: (delayMs, run) => {
+        state.delayMs += delayMs;
+        try {
+          return run();
+        } finally {
+          state.delayMs -= delayMs;
+        }
+      },
+      now: state.now
+    };
+  }
+
+  private childResults(atom: AtomInstance, state: ExecutionState): AtomChildResults {
+    const runChild = (index: number, scope?: Record<string, any>) => {
+      const child = atom.children[index];
+      if (!child) return undefined;
+      if (scope) state.scopes.push(scope);
+      try {
+        return this.evaluateAtom(child, state);
+      } finally {
+        if (scope) state.scopes.pop();
+      }
+    };
+
+    return {
+      count: atom.children.length,
+      run: runChild,
+      runAll: scope => atom.children.map((_, index) => runChild(index, scope) as AtomOutcome)
+    };
+  }
+
+  private buildMetrics(state: ExecutionState, executionTime: number) {
+    const footprint = JSON.stringify({
+      variables: state.variables,
+      actions: state.actions,
+      trace: state.trace
+    }).length;
+    return {
+      memoryUsage: Math.ceil(footprint / 1024),
+      cpuTime: executionTime,
+      atomsExecuted: state.trace.length,
+      cacheHits: state.cacheHits,
+      cacheMisses: state.cacheMisses
+    };
+  }
+}
+
+// Singleton instance
+export const ruleInterpreter = new RuleInterpreterService();
+
+// Convenience export mirroring the RuleEngine function style
+export const interpretRule = (rule: Rule, input: any, options?: InterpreterOptions) =>
+  ruleInterpreter.execute(rule, input, options);
@@ -0,0 +1,87 @@
+// src/services/RuleStorage.test.ts
+// Covers the adapters that don't need a browser: the in-memory store and localStorage over a fake Storage
+// IndexedDB is left to the browser; both adapters here share its contract
+
+import { describe, expect, it } from 'vitest';
+import { LocalStorageRuleStorage, MemoryRuleStorage, RuleStorageAdapter, createDefaultRuleStorage } from './RuleStorage';
+
+// Just enough of the Web Storage API, backed by a Map
+class FakeStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe.each([
+  ['MemoryRuleStorage', () => new MemoryRuleStorage()],
+  ['LocalStorageRuleStorage', () => new LocalStorageRuleStorage(new FakeStorage())]
+])('%s', (_name, create: () => RuleStorageAdapter) => {
+  it('keeps each store separate', async () => {
+    const storage = create();
+    await storage.put('rules', 'rule_1', { name: 'Adults' });
+    await storage.put('pendingWrites', 'rule_1', { ruleId: 'rule_1' });
+    expect(await storage.get('rules', 'rule_1')).toEqual({ name: 'Adults' });
+    expect(await storage.getAll('pendingWrites')).toEqual([{ ruleId: 'rule_1' }]);
+    expect(await storage.getAll('conflicts')).toEqual([]);
+  });
+
+  it('replaces and deletes values by key', async () => {
+    const storage = create();
+    await storage.put('rules', 'rule_1', { name: 'Adults' });
+    await storage.put('rules', 'rule_1', { name: 'Seniors' });
+    await storage.put('rules', 'rule_2', { name: 'Children' });
+    await storage.delete('rules', 'rule_2');
+    expect(await storage.getAll('rules')).toEqual([{ name: 'Seniors' }]);
+    expect(await storage.get('rules', 'rule_2')).toBeUndefined();
+  });
+
+  it('never shares objects with the caller', async () => {
+    const storage = create();
+    const rule = { name: 'Adults', tags: ['age'] };
+    await storage.put('rules', 'rule_1', rule);
+    rule.tags.push('edited');
+    const read = await storage.get<typeof rule>('rules', 'rule_1');
+    read!.tags.push('read');
+    expect(await storage.get('rules', 'rule_1')).toEqual({ name: 'Adults', tags: ['age'] });
+  });
+});
+
+describe('LocalStorageRuleStorage', () => {
+  it('only reads keys under its own prefix', async () => {
+    const backing = new FakeStorage();
+    backing.setItem('theme', 'dark');
+    await new LocalStorageRuleStorage(backing, 'other-app').put('rules', 'rule_9', { name: 'Theirs' });
+    const storage = new LocalStorageRuleStorage(backing);
+    await storage.put('rules', 'rule_1', { name: 'Ours' });
+    expect(await storage.getAll('rules')).toEqual([{ name: 'Ours' }]);
+    expect(backing.getItem('rule-builder:rules:rule_1')).toBe('{"name":"Ours"}');
+  });
+});
+
+describe('createDefaultRuleStorage', () => {
+  it('falls back to memory outside the browser', () => {
+    expect(createDefaultRuleStorage().name).toBe('memory');
+  });
+});
@@ -0,0 +1,142 @@
+// src/services/RuleStorage.ts
+// Storage adapters that keep rules, version history, queued writes and sync state on the client
+// IndexedDB or localStorage in the browser, with an in-memory adapter for tests and SSR
+
+export type RuleStoreName = 'rules' | 'pendingWrites' | 'syncState' | 'conflicts' | 'failedWrites' | 'versions';
+
+export interface RuleStorageAdapter {
+  readonly name: string;
+  get<T>(store: RuleStoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: RuleStoreName): Promise<T[]>;
+  put<T>(store: RuleStoreName, key: string, value: T): Promise<void>;
+  delete(store: RuleStoreName, key: string): Promise<void>;
+}
+
+const STORE_NAMES: RuleStoreName[] = ['rules', 'pendingWrites', 'syncState', 'conflicts', 'failedWrites', 'versions'];
+
+// Raised whenever a store is added so existing databases create it on upgrade
+const DATABASE_VERSION = 3;
+
+// Values are copied on the way in and out so callers never share references with the store
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryRuleStorage implements RuleStorageAdapter {
+  readonly name = 'memory';
+  private stores: Map<RuleStoreName, Map<string, unknown>> = new Map(
+    STORE_NAMES.map(store => [store, new Map()])
+  );
+
+  async get<T>(store: RuleStoreName, key: string): Promise<T | undefined> {
+    const value = this.stores.get(store)!.get(key);
+    return value === undefined ? undefined : copy(value as T);
+  }
+
+  async getAll<T>(store: RuleStoreName): Promise<T[]> {
+    return Array.from(this.stores.get(store)!.values(), value => copy(value as T));
+  }
+
+  async put<T>(store: RuleStoreName, key: string, value: T): Promise<void> {
+    this.stores.get(store)!.set(key, copy(value));
+  }
+
+  async delete(store: RuleStoreName, key: string): Promise<void> {
+    this.stores.get(store)!.delete(key);
+  }
+}
+
+export class LocalStorageRuleStorage implements RuleStorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private storage: Storage = window.localStorage, private prefix = 'rule-builder') {}
+
+  private key(store: RuleStoreName, key = '') {
+    return `${this.prefix}:${store}:${key}`;
+  }
+
+  async get<T>(store: RuleStoreName, key: string): Promise<T | undefined> {
+    const raw = this.storage.getItem(this.key(store, key));
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async getAll<T>(store: RuleStoreName): Promise<T[]> {
+    const prefix = this.key(store);
+    const values: T[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(prefix)) {
+        values.push(JSON.parse(this.storage.getItem(key)!) as T);
+      }
+    }
+    return values;
+  }
+
+  async put<T>(store: RuleStoreName, key: string, value: T): Promise<void> {
+    this.storage.setItem(this.key(store, key), JSON.stringify(value));
+  }
+
+  async delete(store: RuleStoreName, key: string): Promise<void> {
+    this.storage.removeItem(this.key(store, key));
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBRuleStorage implements RuleStorageAdapter {
+  readonly name = 'indexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private factory: IDBFactory = window.indexedDB, private databaseName = 'rule-builder') {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = this.factory.open(this.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        STORE_NAMES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async objectStore(store: RuleStoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(store, mode).objectStore(store);
+  }
+
+  async get<T>(store: RuleStoreName, key: string): Promise<T | undefined> {
+    return promisify((await this.objectStore(store, 'readonly')).get(key)) as Promise<T | undefined>;
+  }
+
+  async getAll<T>(store: RuleStoreName): Promise<T[]> {
+    return promisify((await this.objectStore(store, 'readonly')).getAll()) as Promise<T[]>;
+  }
+
+  async put<T>(store: RuleStoreName, key: string, value: T): Promise<void> {
+    await promisify((await this.objectStore(store, 'readwrite')).put(copy(value), key));
+  }
+
+  async delete(store: RuleStoreName, key: string): Promise<void> {
+    await promisify((await this.objectStore(store, 'readwrite')).delete(key));
+  }
+}
+
+// Best available adapter for the current environment
+export const createDefaultRuleStorage = (): RuleStorageAdapter => {
+  if (typeof window !== 'undefined') {
+    if (window.indexedDB) return new IndexedDBRuleStorage(window.indexedDB);
+    try {
+      if (window.localStorage) return new LocalStorageRuleStorage(window.localStorage);
+    } catch {
+      // Access to localStorage can throw in sandboxed iframes or private mode
+    }
+  }
+  return new MemoryRuleStorage();
+};
@@ -0,0 +1,134 @@
+// src/services/RuleTestRunner.test.ts
+// Runs the senior discount fixture through the Vitest adapter and checks the TAP and JUnit reporters
+// The fixture pair is what the exporter and the testing panel write, so this doubles as a usage example
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  RuleTestFailure,
+  RuleTestSuite,
+  TestFramework,
+  defineRuleTests,
+  formatJUnitReport,
+  formatTapReport,
+  loadRuleSuite,
+  runRuleSuite
+} from './RuleTestRunner';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const loadFixtureSuite = (): RuleTestSuite =>
+  loadRuleSuite(
+    { content: fixture('senior-discount.rule.json'), fileName: 'senior-discount.rule.json' },
+    fixture('senior-discount.scenarios.json')
+  );
+
+// Same rule, but the senior scenario now expects a discount the rule doesn't give
+const loadFailingSuite = (): RuleTestSuite => {
+  const suite = loadFixtureSuite();
+  const [senior, ...rest] = suite.scenarios;
+  return {
+    ...suite,
+    scenarios: [
+      { ...senior, expectedOutput: { actions: [{ parameters: { properties: { discount: 15 } } }] } },
+      ...rest
+    ]
+  };
+};
+
+// Records what the adapter registers instead of running it
+const recordTests = (suite: RuleTestSuite) => {
+  const tests: Array<{ name: string; body: () => void }> = [];
+  const names: string[] = [];
+  const framework: TestFramework = {
+    describe: (name, body) => {
+      names.push(name);
+      body();
+    },
+    it: (name, body) => tests.push({ name, body })
+  };
+  defineRuleTests(framework, suite);
+  return { names, tests };
+};
+
+// The fixture scenarios as real Vitest tests
+defineRuleTests({ describe, it }, loadFixtureSuite());
+
+describe('loadRuleSuite', () => {
+  it('imports the rule and every scenario', () => {
+    const suite = loadFixtureSuite();
+    expect(suite.errors).toEqual([]);
+    expect(suite.name).toBe('Senior discount');
+    expect(suite.scenarios.map(scenario => scenario.name)).toEqual([
+      'Senior customer gets the discount',
+      'Younger customer pays the standard price',
+      'Teenager runs without checks'
+    ]);
+  });
+
+  it('reports a scenario file that is not JSON as a load error', () => {
+    const suite = loadRuleSuite({ content: fixture('senior-discount.rule.json') }, '{ not json');
+    expect(suite.errors).toHaveLength(1);
+    expect(suite.errors[0]).toMatch(/^Scenario file is not valid JSON/);
+  });
+});
+
+describe('defineRuleTests', () => {
+  it('registers one test per scenario under the rule name', () => {
+    const { names, tests } = recordTests(loadFixtureSuite());
+    expect(names).toEqual(['Senior discount']);
+    expect(tests.map(test => test.name)).toHaveLength(3);
+    tests.forEach(test => expect(test.body).not.toThrow());
+  });
+
+  it('fails a scenario with the diff of the mismatched output', () => {
+    const { tests } = recordTests(loadFailingSuite());
+    expect(tests[0].body).toThrow(RuleTestFailure);
+    expect(tests[0].body).toThrow('$.actions[0].parameters.properties.discount: expected 15, got 10');
+  });
+
+  it('adds a failing test for load errors', () => {
+    const { tests } = recordTests(loadRuleSuite({ content: fixture('senior-discount.rule.json') }, '{}'));
+    expect(tests.map(test => test.name)).toEqual(['loads the rule and scenarios']);
+    expect(tests[0].body).toThrow('Scenario file must contain an array of scenarios');
+  });
+});
+
+describe('formatTapReport', () => {
+  it('reports passing, unchecked and failing scenarios', () => {
+    const report = formatTapReport([runRuleSuite(loadFailingSuite())]);
+    const lines = report.split('\n');
+    expect(lines.slice(0, 3)).toEqual(['TAP version 13', '1..3', '# Senior discount']);
+    expect(lines).toContain('not ok 1 - Senior discount › Senior customer gets the discount');
+    expect(lines).toContain('ok 2 - Senior discount › Younger customer pays the standard price');
+    expect(lines).toContain('ok 3 - Senior discount › Teenager runs without checks');
+    expect(lines).toContain('# no expected output or assertions; only checked that the rule runs');
+    expect(report).toContain('    - "  $.actions[0].parameters.properties.discount: expected 15, got 10"');
+  });
+
+  it('counts a load error as one failed test', () => {
+    const report = formatTapReport([runRuleSuite(loadRuleSuite({ content: '' }, '[]'))]);
+    expect(report).toMatch(/^1\.\.1$/m);
+    expect(report).toMatch(/^not ok 1 - .* › Load rule and scenarios$/m);
+  });
+});
+
+describe('formatJUnitReport', () => {
+  it('writes totals, failures and passing test cases', () => {
+    const report = formatJUnitReport([runRuleSuite(loadFailingSuite())]);
+    expect(report).toMatch(/<testsuites name="Rule scenarios" tests="3" failures="1" errors="0" /);
+    expect(report).toMatch(/<testsuite name="Senior discount" tests="3" failures="1" errors="0" skipped="0" /);
+    expect(report).toMatch(
+      /<testcase name="Younger customer pays the standard price" classname="Senior discount" time="[\d.]+"\/>/
+    );
+    expect(report).toContain('<failure message="Output contains the expected output: 1 difference"');
+    expect(report).toContain('type="AssertionFailure"');
+  });
+
+  it('reports load errors as an erroring test case', () => {
+    const report = formatJUnitReport([runRuleSuite(loadRuleSuite({ content: fixture('senior-discount.rule.json') }, '{}'))]);
+    expect(report).toMatch(/<testsuites name="Rule scenarios" tests="1" failures="0" errors="1" /);
+    expect(report).toContain('<testcase name="Load rule and scenarios" classname="Senior discount" time="0.000">');
+    expect(report).toContain('type="LoadError"');
+  });
+});
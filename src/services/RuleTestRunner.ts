@@ -0,0 +1,267 @@
+// src/services/RuleTestRunner.ts
+// Headless runner for exported rules and their test scenario files
+// Executes scenarios through the local interpreter and reports them as JUnit XML, TAP or Vitest tests
+
+import { Rule, ScenarioReport, TestResult, TestScenario, TestSuiteSummary } from '../types/RuleTypes';
+import { InterpreterOptions, interpretRule } from './RuleInterpreter';
+import { importRule } from './RuleImport';
+import { evaluateScenario, formatDiff, summarizeReports } from './AssertionEngine';
+import { escapeXml } from '../utils/xml';
+
+export interface RuleTestSuite {
+  name: string;
+  rule: Rule | null; // null when the rule file could not be imported
+  scenarios: TestScenario[];
+  errors: string[]; // Problems loading the rule or scenario file; the suite fails if any are present
+}
+
+export interface RuleTestCase {
+  scenario: TestScenario;
+  result: TestResult;
+  report: ScenarioReport;
+}
+
+export interface RuleSuiteResult {
+  suite: RuleTestSuite;
+  cases: RuleTestCase[];
+  summary: TestSuiteSummary;
+}
+
+export type RuleTestReportFormat = 'junit' | 'tap';
+
+// Only the parts of a test framework the adapter needs, so Vitest's describe/it can be passed in directly
+export interface TestFramework {
+  describe: (name: string, body: () => void) => void;
+  it: (name: string, body: () => void) => void;
+}
+
+export class RuleTestFailure extends Error {
+  constructor(message: string, public testCase: RuleTestCase | null) {
+    super(message);
+    this.name = 'RuleTestFailure';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const SCENARIO_FIELDS = ['expectedOutput', 'matchMode', 'tolerance', 'assertions'] as const;
+
+/**
+ * Reads a scenario file written by the testing panel's export: an array of scenarios, or an
+ * object with a `scenarios` array. Run state the panel stores alongside (results, ids) is dropped.
+ */
+export const parseScenarioFile = (content: string): { scenarios: TestScenario[]; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { scenarios: [], errors: [`Scenario file is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const list = Array.isArray(raw) ? raw : isPlainObject(raw) && Array.isArray(raw.scenarios) ? raw.scenarios : null;
+  if (!list) return { scenarios: [], errors: ['Scenario file must contain an array of scenarios'] };
+
+  const scenarios: TestScenario[] = [];
+  const errors: string[] = [];
+  list.forEach((item: unknown, index: number) => {
+    if (!isPlainObject(item) || !isPlainObject(item.input)) {
+      errors.push(`Scenario ${index + 1}: "input" must be an object`);
+      return;
+    }
+    const scenario: TestScenario = {
+      name: typeof item.name === 'string' && item.name.trim() ? item.name : `Scenario ${index + 1}`,
+      description: typeof item.description === 'string' ? item.description : '',
+      input: item.input
+    };
+    SCENARIO_FIELDS.forEach(field => {
+      if (item[field] !== undefined) (scenario as any)[field] = item[field];
+    });
+    scenarios.push(scenario);
+  });
+
+  return { scenarios, errors };
+};
+
+export const loadRuleSuite = (
+  rule: { content: string; fileName?: string },
+  scenarioContent: string
+): RuleTestSuite => {
+  const imported = importRule(rule.content, rule.fileName);
+  const { scenarios, errors } = parseScenarioFile(scenarioContent);
+  const importErrors = imported.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => `${rule.fileName ?? 'Rule'}: ${issue.message}`);
+
+  return {
+    name: imported.rule?.name ?? rule.fileName ?? 'Unnamed rule',
+    rule: imported.rule,
+    scenarios,
+    errors: [...importErrors, ...errors]
+  };
+};
+
+export const runRuleScenario = (rule: Rule, scenario: TestScenario, options: InterpreterOptions = {}): RuleTestCase => {
+  let result: TestResult;
+  try {
+    result = interpretRule(rule, scenario.input, options);
+  } catch (error) {
+    result = { status: 'error', output: null, error: String(error), executionTime: 0 };
+  }
+  return { scenario, result, report: evaluateScenario(scenario, result) };
+};
+
+export const runRuleSuite = (suite: RuleTestSuite, options: InterpreterOptions = {}): RuleSuiteResult => {
+  const cases = suite.rule ? suite.scenarios.map(scenario => runRuleScenario(suite.rule!, scenario, options)) : [];
+  return { suite, cases, summary: summarizeReports(cases) };
+};
+
+export const isFailingCase = (testCase: RuleTestCase) =>
+  testCase.report.verdict === 'failed' || testCase.report.verdict === 'error';
+
+export const isFailingSuite = (result: RuleSuiteResult) =>
+  result.suite.errors.length > 0 || result.cases.some(isFailingCase);
+
+// One line per failed check, with value diffs indented underneath
+export const describeFailure = (testCase: RuleTestCase): string =>
+  testCase.report.checks
+    .filter(check => !check.passed)
+    .flatMap(check => [
+      check.message ? `${check.label}: ${check.message}` : check.label,
+      ...(check.diffs ?? []).map(diff => `  ${formatDiff(diff)}`)
+    ])
+    .join('\n');
+
+// Reporters
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+const junitCase = (suiteName: string, testCase: RuleTestCase): string => {
+  const attributes = `name="${escapeXml(testCase.scenario.name)}" classname="${escapeXml(suiteName)}" time="${seconds(testCase.result.executionTime)}"`;
+  switch (testCase.report.verdict) {
+    case 'failed': {
+      const details = describeFailure(testCase);
+      return `    <testcase ${attributes}>\n      <failure message="${escapeXml(details.split('\n')[0])}" type="AssertionFailure">${escapeXml(details)}</failure>\n    </testcase>`;
+    }
+    case 'error': {
+      const message = testCase.result.error ?? `Execution ended with status ${testCase.result.status}`;
+      return `    <testcase ${attributes}>\n      <error message="${escapeXml(message)}" type="ExecutionError">${escapeXml(message)}</error>\n    </testcase>`;
+    }
+    default:
+      return `    <testcase ${attributes}/>`;
+  }
+};
+
+export const formatJUnitReport = (results: RuleSuiteResult[], name = 'Rule scenarios'): string => {
+  const suites = results.map(({ suite, cases, summary }) => {
+    // Load errors are reported as one erroring test case so CI shows them next to the scenarios
+    const loadErrors = suite.errors.length > 0
+      ? [`    <testcase name="Load rule and scenarios" classname="${escapeXml(suite.name)}" time="0.000">\n      <error message="${escapeXml(suite.errors[0])}" type="LoadError">${escapeXml(suite.errors.join('\n'))}</error>\n    </testcase>`]
+      : [];
+    const tests = cases.length + loadErrors.length;
+    const errors = summary.errors + loadErrors.length;
+    return [
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${tests}" failures="${summary.failed}" errors="${errors}" skipped="0" time="${seconds(summary.durationMs)}">`,
+      ...loadErrors,
+      ...cases.map(testCase => junitCase(suite.name, testCase)),
+      '  </testsuite>'
+    ].join('\n');
+  });
+
+  const totals = results.reduce((sum, { suite, cases, summary }) => ({
+    tests: sum.tests + cases.length + (suite.errors.length > 0 ? 1 : 0),
+    failures: sum.failures + summary.failed,
+    errors: sum.errors + summary.errors + (suite.errors.length > 0 ? 1 : 0),
+    durationMs: sum.durationMs + summary.durationMs
+  }), { tests: 0, failures: 0, errors: 0, durationMs: 0 });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" time="${seconds(totals.durationMs)}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+};
+
+// TAP descriptions end at a '#', which would start a directive
+const tapDescription = (text: string) => text.replace(/\s+/g, ' ').replace(/#/g, '\\#');
+
+// YAML diagnostics block; JSON strings are valid YAML scalars
+const tapDiagnostics = (fields: Record<string, string | string[]>): string[] => [
+  '  ---',
+  ...Object.entries(fields).flatMap(([key, value]) =>
+    Array.isArray(value)
+      ? [`  ${key}:`, ...value.map(line => `    - ${JSON.stringify(line)}`)]
+      : [`  ${key}: ${JSON.stringify(value)}`]
+  ),
+  '  ...'
+];
+
+export const formatTapReport = (results: RuleSuiteResult[]): string => {
+  const lines: string[] = [];
+  let count = 0;
+
+  results.forEach(({ suite, cases }) => {
+    lines.push(`# ${tapDescription(suite.name)}`);
+
+    if (suite.errors.length > 0) {
+      lines.push(`not ok ${++count} - ${tapDescription(`${suite.name} › Load rule and scenarios`)}`);
+      lines.push(...tapDiagnostics({ severity: 'fail', errors: suite.errors }));
+    }
+
+    cases.forEach(testCase => {
+      const description = tapDescription(`${suite.name} › ${testCase.scenario.name}`);
+      const { verdict } = testCase.report;
+      if (verdict === 'failed') {
+        lines.push(`not ok ${++count} - ${description}`);
+        lines.push(...tapDiagnostics({ severity: 'fail', failures: describeFailure(testCase).split('\n') }));
+      } else if (verdict === 'error') {
+        lines.push(`not ok ${++count} - ${description}`);
+        lines.push(...tapDiagnostics({
+          severity: 'fail',
+          message: testCase.result.error ?? `Execution ended with status ${testCase.result.status}`
+        }));
+      } else {
+        lines.push(`ok ${++count} - ${description}`);
+        if (verdict === 'unchecked') lines.push('# no expected output or assertions; only checked that the rule runs');
+      }
+    });
+  });
+
+  return ['TAP version 13', `1..${count}`, ...lines, ''].join('\n');
+};
+
+export const formatRuleTestReport = (results: RuleSuiteResult[], format: RuleTestReportFormat): string =>
+  format === 'junit' ? formatJUnitReport(results) : formatTapReport(results);
+
+/**
+ * Registers a suite with a test framework: one `describe` per rule and one `it` per scenario.
+ * In a Vitest file: `defineRuleTests({ describe, it }, loadRuleSuite(rule, scenarios))`.
+ */
+export const defineRuleTests = (
+  framework: TestFramework,
+  suite: RuleTestSuite,
+  options: InterpreterOptions = {}
+): void => {
+  framework.describe(suite.name, () => {
+    if (suite.errors.length > 0) {
+      framework.it('loads the rule and scenarios', () => {
+        throw new RuleTestFailure(suite.errors.join('\n'), null);
+      });
+    }
+    if (!suite.rule) return;
+
+    suite.scenarios.forEach(scenario => {
+      framework.it(scenario.name, () => {
+        const testCase = runRuleScenario(suite.rule!, scenario, options);
+        if (testCase.report.verdict === 'error') {
+          throw new RuleTestFailure(testCase.result.error ?? `Execution ended with status ${testCase.result.status}`, testCase);
+        }
+        if (testCase.report.verdict === 'failed') {
+          throw new RuleTestFailure(describeFailure(testCase), testCase);
+        }
+      });
+    });
+  });
+};
@@ -0,0 +1,102 @@
+// src/services/RuleVersioning.test.ts
+// Covers version numbering, chained writes, diffs between versions and rollback
+// History lives in an in-memory adapter so each test starts empty
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { RuleVersioningService, bumpVersion } from './RuleVersioning';
+import { MemoryRuleStorage } from './RuleStorage';
+
+const atom = (id: string, parameters: AtomInstance['parameters']): AtomInstance => ({
+  id,
+  type: 'age_range',
+  position: { x: 0, y: 0 },
+  parameters,
+  children: [],
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const rule = (minAge: number, version = '1.0.0'): Rule => ({
+  id: 'rule_1',
+  name: 'Adults',
+  description: '',
+  rootAtom: atom('atom_1', { minAge }),
+  metadata: { version, created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+const at = (iso: string) => ({ now: () => new Date(iso) });
+
+describe('bumpVersion', () => {
+  it.each([
+    ['1.2.3', '1.2.4'],
+    ['0.9.9', '0.9.10'],
+    ['v2', '1.0.0'],
+    [undefined, '1.0.0']
+  ])('bumps %j to %j', (version, bumped) => {
+    expect(bumpVersion(version)).toBe(bumped);
+  });
+});
+
+describe('RuleVersioningService', () => {
+  it('keeps the rule version for the first snapshot and bumps it afterwards', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    const first = await versioning.createVersion(rule(18, '2.1.0'), { author: 'ana', ...at('2024-02-01T00:00:00.000Z') });
+    const second = await versioning.createVersion(rule(21, '2.1.0'), { message: 'Raise the age' });
+    expect(first).toMatchObject({ id: 'rule_1@2.1.0', version: '2.1.0', author: 'ana', createdAt: '2024-02-01T00:00:00.000Z' });
+    expect(first.snapshot.metadata).toMatchObject({ version: '2.1.0', author: 'ana', modified: '2024-02-01T00:00:00.000Z' });
+    expect(second).toMatchObject({ id: 'rule_1@2.1.1', author: 'anonymous', message: 'Raise the age' });
+    expect((await versioning.listVersions('rule_1')).map(entry => entry.version)).toEqual(['2.1.1', '2.1.0']);
+  });
+
+  it('chains saves made at the same time so each one reads the version before it', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    const versions = await Promise.all([18, 19, 20].map(minAge => versioning.createVersion(rule(minAge))));
+    expect(versions.map(entry => entry.version)).toEqual(['1.0.0', '1.0.1', '1.0.2']);
+    expect((await versioning.getLatestVersion('rule_1'))!.snapshot.rootAtom!.parameters).toEqual({ minAge: 20 });
+  });
+
+  it('keeps chaining after a write fails', async () => {
+    const storage = new MemoryRuleStorage();
+    const versioning = new RuleVersioningService(storage);
+    const put = storage.put.bind(storage);
+    storage.put = () => Promise.reject(new Error('Quota exceeded'));
+    await expect(versioning.createVersion(rule(18))).rejects.toThrow('Quota exceeded');
+    storage.put = put;
+    expect((await versioning.createVersion(rule(18))).version).toBe('1.0.0');
+  });
+
+  it('refuses rules without an id', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    await expect(versioning.createVersion({ ...rule(18), id: '' })).rejects.toThrow('Cannot create a version for a rule without an id');
+  });
+
+  it('freezes snapshots so history cannot be edited in place', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    const entry = await versioning.createVersion(rule(18));
+    expect(Object.isFrozen(entry.snapshot.rootAtom!.parameters)).toBe(true);
+    const restored = await versioning.restoreRule('rule_1', entry.id);
+    restored.rootAtom!.parameters.minAge = 30;
+    expect((await versioning.getVersion('rule_1', entry.id))!.snapshot.rootAtom!.parameters).toEqual({ minAge: 18 });
+  });
+
+  it('diffs two versions', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    await versioning.createVersion(rule(18));
+    await versioning.createVersion({ ...rule(21), name: 'Older adults' });
+    const diff = await versioning.diffVersions('rule_1', 'rule_1@1.0.0', 'rule_1@1.0.1');
+    expect(diff.changedParameters).toEqual([{ atomId: 'atom_1', parameter: 'minAge', before: 18, after: 21 }]);
+    expect(diff.changedFields).toEqual([{ field: 'name', before: 'Adults', after: 'Older adults' }]);
+    await expect(versioning.diffVersions('rule_1', 'rule_1@1.0.0', 'rule_1@9.9.9'))
+      .rejects.toThrow("Version 'rule_1@9.9.9' not found for rule 'rule_1'");
+  });
+
+  it('rolls back by recording the old snapshot as the newest version', async () => {
+    const versioning = new RuleVersioningService(new MemoryRuleStorage());
+    await versioning.createVersion(rule(18));
+    await versioning.createVersion(rule(21));
+    const restored = await versioning.rollback('rule_1', 'rule_1@1.0.0');
+    expect(restored).toMatchObject({ version: '1.0.2', message: 'Rolled back to 1.0.0' });
+    expect(restored.snapshot.rootAtom!.parameters).toEqual({ minAge: 18 });
+    expect(await versioning.listVersions('rule_1')).toHaveLength(3);
+  });
+});
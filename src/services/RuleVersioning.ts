@@ -0,0 +1,144 @@
+// src/services/RuleVersioning.ts
+// Immutable version history for rules with structural diffs and rollback
+// Every save records a frozen snapshot in client storage; rollback restores an old snapshot as a new version
+
+import { Rule, RuleVersion, RuleDiff } from '../types/RuleTypes';
+import { diffRules } from '../utils/ruleDiff';
+import { RuleStorageAdapter, createDefaultRuleStorage } from './RuleStorage';
+
+export interface CreateVersionOptions {
+  author?: string;
+  message?: string;
+  now?: () => Date;
+}
+
+const DEFAULT_AUTHOR = 'anonymous';
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value as Record<string, unknown>).forEach(deepFreeze);
+  }
+  return value;
+};
+
+const cloneRule = (rule: Rule): Rule => JSON.parse(JSON.stringify(rule));
+
+// Bump the patch component; unparseable versions restart the sequence at 1.0.0
+export const bumpVersion = (version: string | undefined): string => {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version ?? '');
+  if (!match) return '1.0.0';
+  return `${match[1]}.${match[2]}.${Number(match[3]) + 1}`;
+};
+
+// History is kept per rule in the storage adapter's 'versions' store so it survives reloads
+export class RuleVersioningService {
+  // Writes are chained so two saves of the same rule never read the same latest version
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly storage: RuleStorageAdapter = createDefaultRuleStorage()) {}
+
+  // Record a snapshot of the rule; the first save keeps the rule's own version number
+  createVersion(rule: Rule, options: CreateVersionOptions = {}): Promise<RuleVersion> {
+    if (!rule.id) {
+      return Promise.reject(new Error('Cannot create a version for a rule without an id'));
+    }
+
+    const write = this.writes.then(async () => {
+      const history = await this.readHistory(rule.id);
+      const latest = history[history.length - 1];
+      const createdAt = (options.now?.() ?? new Date()).toISOString();
+      const version = latest ? bumpVersion(latest.version) : rule.metadata.version || '1.0.0';
+      const author = options.author || rule.metadata.author || DEFAULT_AUTHOR;
+
+      const snapshot = cloneRule(rule);
+      snapshot.metadata = { ...snapshot.metadata, version, author, modified: createdAt };
+
+      const entry: RuleVersion = {
+        id: `${rule.id}@${version}`,
+        ruleId: rule.id,
+        version,
+        author,
+        createdAt,
+        message: options.message,
+        snapshot
+      };
+
+      await this.storage.put<RuleVersion[]>('versions', rule.id, [...history, entry]);
+      return deepFreeze(entry);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Drop a version whose save the API refused, so history only holds rules that were saved or queued
+  discardVersion(ruleId: string, versionId: string): Promise<void> {
+    const write = this.writes.then(async () => {
+      const history = await this.readHistory(ruleId);
+      await this.storage.put<RuleVersion[]>('versions', ruleId, history.filter(entry => entry.id !== versionId));
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Newest first
+  async listVersions(ruleId: string): Promise<RuleVersion[]> {
+    return (await this.readHistory(ruleId)).reverse();
+  }
+
+  async getVersion(ruleId: string, versionId: string): Promise<RuleVersion | undefined> {
+    return (await this.readHistory(ruleId)).find(entry => entry.id === versionId);
+  }
+
+  async getLatestVersion(ruleId: string): Promise<RuleVersion | undefined> {
+    const versions = await this.readHistory(ruleId);
+    return versions[versions.length - 1];
+  }
+
+  async diffVersions(ruleId: string, fromVersionId: string, toVersionId: string): Promise<RuleDiff> {
+    const [from, to] = await Promise.all([
+      this.requireVersion(ruleId, fromVersionId),
+      this.requireVersion(ruleId, toVersionId)
+    ]);
+    return diffRules(from.snapshot, to.snapshot);
+  }
+
+  // Restore an earlier snapshot by recording it as the newest version; history is never rewritten.
+  // This only records the version locally; RuleEngine.saveRule also sends the restored rule to the API.
+  async rollback(ruleId: string, versionId: string, options: CreateVersionOptions = {}): Promise<RuleVersion> {
+    const target = await this.requireVersion(ruleId, versionId);
+    return this.createVersion(cloneRule(target.snapshot), {
+      ...options,
+      message: options.message || `Rolled back to ${target.version}`
+    });
+  }
+
+  // Returns an editable copy of a version's snapshot
+  async restoreRule(ruleId: string, versionId: string): Promise<Rule> {
+    return cloneRule((await this.requireVersion(ruleId, versionId)).snapshot);
+  }
+
+  private async readHistory(ruleId: string): Promise<RuleVersion[]> {
+    const versions = await this.storage.get<RuleVersion[]>('versions', ruleId);
+    return (versions ?? []).map(deepFreeze);
+  }
+
+  private async requireVersion(ruleId: string, versionId: string): Promise<RuleVersion> {
+    const entry = await this.getVersion(ruleId, versionId);
+    if (!entry) {
+      throw new Error(`Version '${versionId}' not found for rule '${ruleId}'`);
+    }
+    return entry;
+  }
+}
+
+// Export singleton instance
+export const ruleVersioning = new RuleVersioningService();
+
+// Export convenience functions
+export const createRuleVersion = (rule: Rule, options?: CreateVersionOptions) => ruleVersioning.createVersion(rule, options);
+export const listRuleVersions = (ruleId: string) => ruleVersioning.listVersions(ruleId);
+export const diffRuleVersions = (ruleId: string, fromVersionId: string, toVersionId: string) =>
+  ruleVersioning.diffVersions(ruleId, fromVersionId, toVersionId);
+export const rollbackRule = (ruleId: string, versionId: string, options?: CreateVersionOptions) =>
+  ruleVersioning.rollback(ruleId, versionId, options);
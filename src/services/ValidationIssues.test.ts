@@ -0,0 +1,136 @@
+// src/services/ValidationIssues.test.ts
+// Covers the structured issue model: reading legacy string results, sorting issues and applying fixes
+// Parameter fixes are checked here too, since they are what most issues carry
+
+import { describe, expect, it } from 'vitest';
+import { AtomDefinition, AtomInstance, ParameterValidationError, Rule } from '../types/RuleTypes';
+import { suggestParameterFix, validateAtomParameters } from './ParameterValidation';
+import {
+  applyValidationFix,
+  applyValidationFixes,
+  createIssue,
+  createValidationResult,
+  getFixableIssues,
+  getIssuesForAtom,
+  isLegacyValidationResult,
+  normalizeValidationResult
+} from './ValidationIssues';
+
+const atom = (id: string, parameters: AtomInstance['parameters'], children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type: 'discount',
+  position: { x: 0, y: 0 },
+  parameters,
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const rule: Rule = {
+  id: 'rule_1',
+  name: '',
+  description: '',
+  rootAtom: atom('atom_1', {}, [atom('atom_2', { percent: 80 }), atom('atom_3', {})]),
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+};
+
+describe('normalizeValidationResult', () => {
+  it('turns legacy messages into issues and attaches the atom they mention', () => {
+    const legacy = { isValid: false, errors: ['Atom atom_2 has no template'], warnings: ['Rule is large'], suggestions: [] };
+    expect(isLegacyValidationResult(legacy)).toBe(true);
+    expect(normalizeValidationResult(legacy, rule)).toEqual({
+      isValid: false,
+      errors: [{ severity: 'error', code: 'legacy', message: 'Atom atom_2 has no template', atomId: 'atom_2', atomPath: ['atom_1', 'atom_2'] }],
+      warnings: [{ severity: 'warning', code: 'legacy', message: 'Rule is large' }],
+      suggestions: []
+    });
+  });
+
+  it('fills in the path of structured issues that only name their atom', () => {
+    const result = createValidationResult([createIssue('warning', 'default_parameters', 'Uses defaults', { atomId: 'atom_3' })]);
+    expect(isLegacyValidationResult(result)).toBe(false);
+    expect(normalizeValidationResult(result, rule).warnings[0].atomPath).toEqual(['atom_1', 'atom_3']);
+  });
+});
+
+describe('createValidationResult', () => {
+  const fix = { kind: 'remove_atom' as const, label: 'Remove atom_3', atomId: 'atom_3' };
+  const result = createValidationResult([
+    createIssue('suggestion', 'default_parameters', 'Review atom_3', { atomId: 'atom_3', fix }),
+    createIssue('warning', 'too_many_children', 'Too many children', { atomId: 'atom_1' }),
+    createIssue('error', 'rule_name_required', 'Rule name is required')
+  ]);
+
+  it('sorts issues by severity and is valid only without errors', () => {
+    expect(result.isValid).toBe(false);
+    expect([result.errors.length, result.warnings.length, result.suggestions.length]).toEqual([1, 1, 1]);
+    expect(createValidationResult(result.warnings).isValid).toBe(true);
+  });
+
+  it('finds the issues of an atom and the ones that carry a fix', () => {
+    expect(getIssuesForAtom(result, 'atom_1').map(issue => issue.code)).toEqual(['too_many_children']);
+    expect(getFixableIssues(result).map(issue => issue.fix)).toEqual([fix]);
+    expect(getFixableIssues(null)).toEqual([]);
+  });
+});
+
+describe('applyValidationFix', () => {
+  it('sets parameters without touching the rest of the tree', () => {
+    const fixed = applyValidationFix(rule, { kind: 'set_parameter', label: '', atomId: 'atom_2', parameter: 'percent', value: 50 });
+    expect(fixed.rootAtom!.children[0].parameters).toEqual({ percent: 50 });
+    expect(fixed.rootAtom!.children[1]).toEqual(rule.rootAtom!.children[1]);
+    expect(rule.rootAtom!.children[0].parameters).toEqual({ percent: 80 });
+  });
+
+  it('applies fixes in order and ignores atoms that are gone', () => {
+    const fixed = applyValidationFixes(rule, [
+      { kind: 'set_rule_name', label: '', value: 'Discounts' },
+      { kind: 'remove_atom', label: '', atomId: 'atom_2' },
+      { kind: 'set_parameter', label: '', atomId: 'atom_2', parameter: 'percent', value: 50 }
+    ]);
+    expect(fixed.name).toBe('Discounts');
+    expect(fixed.rootAtom!.children.map(child => child.id)).toEqual(['atom_3']);
+  });
+});
+
+describe('suggestParameterFix', () => {
+  const definition: AtomDefinition = {
+    type: 'discount',
+    name: 'Discount',
+    description: '',
+    category: 'action',
+    complexity: 1,
+    parameters: [
+      { name: 'percent', type: 'number', min: 0, max: 50, defaultValue: 10 },
+      { name: 'code', type: 'string', maxLength: 8 },
+      { name: 'channel', type: 'select', required: true, options: [{ label: 'Email', value: 'email' }, { label: 'SMS', value: 'sms' }] },
+      { name: 'tiers', type: 'array', maxLength: 3 }
+    ]
+  };
+
+  const errorFor = (parameters: AtomInstance['parameters']): ParameterValidationError =>
+    validateAtomParameters(atom('atom_2', parameters), definition)[0];
+
+  it.each([
+    [{ percent: 80, channel: 'sms' }, 50, 'Set percent to 50'],
+    [{ percent: -5, channel: 'sms' }, 0, 'Set percent to 0'],
+    [{ percent: 'lots', channel: 'sms' }, 10, 'Reset percent to its default'],
+    [{ code: 'SPRING2024', channel: 'sms' }, 'SPRING20', 'Trim code to 8 characters'],
+    [{ channel: 'fax' }, 'email', 'Set channel to "email"'],
+    [{}, 'email', 'Set channel to "email"']
+  ])('fixes %j by setting %j', (parameters: AtomInstance['parameters'], value, label) => {
+    const error = errorFor(parameters);
+    expect(suggestParameterFix(definition, error, parameters[error.parameter])).toEqual({
+      kind: 'set_parameter',
+      label,
+      atomId: 'atom_2',
+      parameter: error.parameter,
+      value
+    });
+  });
+
+  it('offers nothing when no single value is the obvious fix', () => {
+    const tiers = ['a', 'b', 'c', 'd'];
+    expect(suggestParameterFix(definition, errorFor({ channel: 'sms', tiers: 'gold' }), 'gold')).toBeUndefined();
+    expect(suggestParameterFix(definition, errorFor({ channel: 'sms', tiers }), tiers)).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+// src/services/ValidationIssues.ts
+// Helpers for the structured validation issue model
+// Converts legacy string results and applies machine-applicable fixes to rules
+
+import {
+  Rule,
+  ValidationFix,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationResult,
+  ValidationSeverity,
+  LegacyValidationResult
+} from '../types/RuleTypes';
+import { findAtomPath, removeAtom, updateAtom, findAtomById } from '../utils/atomTree';
+
+export const createIssue = (
+  severity: ValidationSeverity,
+  code: ValidationIssueCode,
+  message: string,
+  details: Partial<Omit<ValidationIssue, 'severity' | 'code' | 'message'>> = {}
+): ValidationIssue => ({ severity, code, message, ...details });
+
+export const isLegacyValidationResult = (
+  result: ValidationResult | LegacyValidationResult
+): result is LegacyValidationResult =>
+  [...result.errors, ...result.warnings, ...result.suggestions].some(item => typeof item === 'string');
+
+// Convert a legacy message, attaching the atom it mentions when that atom exists in the rule
+const fromLegacyMessage = (message: string, severity: ValidationSeverity, rule?: Rule): ValidationIssue => {
+  const issue = createIssue(severity, 'legacy', message);
+  if (!rule?.rootAtom) return issue;
+
+  const candidates = message.match(/[A-Za-z0-9_-]+/g) || [];
+  for (const candidate of candidates) {
+    const atomPath = findAtomPath(rule.rootAtom, candidate);
+    if (atomPath) {
+      return { ...issue, atomId: candidate, atomPath };
+    }
+  }
+  return issue;
+};
+
+const normalizeItems = (
+  items: Array<string | ValidationIssue>,
+  severity: ValidationSeverity,
+  rule?: Rule
+): ValidationIssue[] =>
+  items.map(item => {
+    if (typeof item === 'string') return fromLegacyMessage(item, severity, rule);
+    if (item.atomId && !item.atomPath && rule?.rootAtom) {
+      return { ...item, atomPath: findAtomPath(rule.rootAtom, item.atomId) ?? undefined };
+    }
+    return item;
+  });
+
+// Accept either result shape from the backend and return structured issues
+export const normalizeValidationResult = (
+  result: ValidationResult | LegacyValidationResult,
+  rule?: Rule
+): ValidationResult => {
+  const errors = normalizeItems(result.errors, 'error', rule);
+  return {
+    isValid: result.isValid ?? errors.length === 0,
+    errors,
+    warnings: normalizeItems(result.warnings, 'warning', rule),
+    suggestions: normalizeItems(result.suggestions, 'suggestion', rule)
+  };
+};
+
+// Sorts issues into a result; valid when none of them is an error
+export const createValidationResult = (issues: ValidationIssue[]): ValidationResult => {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+    suggestions: issues.filter(issue => issue.severity === 'suggestion')
+  };
+};
+
+export const getAllIssues = (validation: ValidationResult | null | undefined): ValidationIssue[] =>
+  validation ? [...validation.errors, ...validation.warnings, ...validation.suggestions] : [];
+
+export const getIssuesForAtom = (
+  validation: ValidationResult | null | undefined,
+  atomId: string
+): ValidationIssue[] => getAllIssues(validation).filter(issue => issue.atomId === atomId);
+
+export const getFixableIssues = (validation: ValidationResult | null | undefined): ValidationIssue[] =>
+  getAllIssues(validation).filter(issue => issue.fix);
+
+// Apply a single fix and return the updated rule
+export const applyValidationFix = (rule: Rule, fix: ValidationFix): Rule => {
+  switch (fix.kind) {
+    case 'set_rule_name':
+      return { ...rule, name: fix.value };
+
+    case 'set_parameter': {
+      const atom = findAtomById(rule.rootAtom, fix.atomId);
+      if (!atom) return rule;
+      return {
+        ...rule,
+        rootAtom: updateAtom(rule.rootAtom, fix.atomId, {
+          parameters: { ...atom.parameters, [fix.parameter]: fix.value }
+        })
+      };
+    }
+
+    case 'remove_atom':
+      return { ...rule, rootAtom: removeAtom(rule.rootAtom, fix.atomId) };
+
+    default:
+      return rule;
+  }
+};
+
+export const applyValidationFixes = (rule: Rule, fixes: ValidationFix[]): Rule =>
+  fixes.reduce((current, fix) => applyValidationFix(current, fix), rule);
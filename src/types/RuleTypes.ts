@@ -19,6 +19,11 @@ export interface AtomParameter {
   maxLength?: number;
   placeholder?: string;
   step?: number;
+  // Parameter holds a condition expression; the value is the type it must evaluate to
+  expression?: 'boolean' | 'array';
+  // Parameter names input fields: 'path' resolves like an expression field path,
+  // 'lookup' names fields inside the record chosen by the atom's `source` parameter
+  fieldReference?: 'path' | 'lookup';
 }
 
 export interface AtomExample {
@@ -38,6 +43,7 @@ export interface AtomDefinition {
   tags?: string[];
   icon?: string;
   color?: string;
+  internal?: boolean; // Hidden from the palette, e.g. the placeholder for imported unknown types
 }
 
 export interface AtomInstance {
@@ -54,33 +60,210 @@ export interface AtomInstance {
   };
 }
 
+export type RuleStatus = 'draft' | 'active' | 'archived';
+
+// JSON Schema subset describing the input a rule is evaluated against
+export interface RuleInputSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, RuleInputSchema>;
+  required?: string[];
+  items?: RuleInputSchema;
+  enum?: Array<string | number | boolean | null>;
+  format?: string; // e.g. 'date-time' or 'email'
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
 export interface Rule {
   id: string;
   name: string;
   description: string;
   rootAtom: AtomInstance | null;
+  inputSchema?: RuleInputSchema; // Shape of the input the rule is evaluated against
   metadata: {
     version: string;
     created: string;
     modified: string;
     tags: string[];
     author?: string;
-    status?: 'draft' | 'active' | 'archived';
+    status?: RuleStatus; // Treated as 'draft' when absent
+    atomCounter?: number; // Highest atom_<n> ever issued, so ids of deleted atoms are never handed out again
+    dmn?: DmnNames; // Set by DMN imports so exports write the same labels and output names back
   };
 }
 
+// Describes an edit for the undo history; edits sharing a coalesceKey in quick succession merge into one step
+export interface RuleChange {
+  label: string;
+  coalesceKey?: string;
+}
+
+export type ParameterErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'below_min'
+  | 'above_max'
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_option';
+
+export interface ParameterValidationError {
+  atomId: string;
+  parameter: string;
+  code: ParameterErrorCode;
+  message: string;
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'suggestion';
+
+export type ValidationIssueCode =
+  | ParameterErrorCode
+  | 'rule_name_required'
+  | 'empty_rule'
+  | 'missing_type'
+  | 'unknown_atom_type'
+  | 'circular_reference'
+  | 'default_parameters'
+  | 'too_many_children'
+  | 'rule_too_large'
+  | 'rule_too_complex'
+  | 'placeholder_atom'
+  | 'parse_error'
+  | 'invalid_schema'
+  | 'duplicate_atom_id'
+  | 'invalid_expression'
+  | 'unknown_field'
+  | 'decision_table'
+  | 'legacy';
+
+// Machine-applicable fixes attached to issues
+export type ValidationFix =
+  | { kind: 'set_parameter'; label: string; atomId: string; parameter: string; value: ParameterValue }
+  | { kind: 'remove_atom'; label: string; atomId: string }
+  | { kind: 'set_rule_name'; label: string; value: string };
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;
+  message: string;
+  atomId?: string;
+  atomPath?: string[]; // Atom ids from the root down to atomId
+  parameter?: string;
+  column?: number; // 1-based position inside an expression parameter
+  fix?: ValidationFix;
+}
+
 export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  suggestions: ValidationIssue[];
+}
+
+// Shape returned by older Hades versions; converted with normalizeValidationResult
+export interface LegacyValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   suggestions: string[];
 }
 
+export type RuleImportFormat = 'json' | 'yaml' | 'markdown' | 'dmn';
+
+export interface RuleImportResult {
+  rule: Rule | null; // null when the file could not be read as a rule
+  format: RuleImportFormat;
+  issues: ValidationIssue[];
+}
+
 export interface TestScenario {
   name: string;
   description: string;
   input: Record<string, any>;
   expectedOutput?: any;
+  matchMode?: OutputMatchMode; // How expectedOutput is compared; defaults to 'partial'
+  tolerance?: number; // Largest numeric difference still treated as equal; defaults to 0
+  assertions?: OutputAssertion[];
+}
+
+// 'exact' requires deep equality; 'partial' only checks the fields present in expectedOutput
+export type OutputMatchMode = 'exact' | 'partial';
+
+export type AssertionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'exists'
+  | 'not_exists'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'length'
+  | 'matches';
+
+// Check against the part of the output selected by a JSONPath, e.g. $.actions[0].parameters.subject
+export interface OutputAssertion {
+  path: string;
+  operator: AssertionOperator;
+  expected?: any; // Unused by exists/not_exists; a regular expression source for matches
+}
+
+export type OutputDiffKind = 'missing' | 'unexpected' | 'changed';
+
+export interface OutputDiff {
+  path: string; // JSONPath of the differing value
+  kind: OutputDiffKind;
+  expected?: any;
+  actual?: any;
+}
+
+export interface AssertionCheck {
+  label: string;
+  passed: boolean;
+  message?: string; // Why the check failed
+  diffs?: OutputDiff[];
+}
+
+export type ScenarioVerdict = 'passed' | 'failed' | 'error' | 'unchecked';
+
+export interface ScenarioReport {
+  verdict: ScenarioVerdict; // 'unchecked' when the rule ran but nothing was asserted
+  checks: AssertionCheck[];
+}
+
+export interface TestSuiteSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  unchecked: number;
+  durationMs: number; // Sum of execution times
+}
+
+// Coverage of a rule by the execution traces of a test run
+
+export interface CoverageMeasure {
+  covered: number;
+  total: number;
+  percent: number | null; // null when there is nothing to cover
+}
+
+export interface BranchCoverage {
+  atomId: string;
+  branch: string; // e.g. 'then'/'else' for if_then_else, 'matched'/'not matched' for conditions
+  hits: number;
+}
+
+export interface RuleCoverage {
+  runs: number; // Traces the coverage was collected from
+  atomHits: Record<string, number>; // Evaluations per atom id, 0 for atoms no run reached
+  branches: BranchCoverage[];
+  atoms: CoverageMeasure;
+  branchTotals: CoverageMeasure;
 }
 
 export interface ExecutionStep {
@@ -107,4 +290,170 @@ export interface TestResult {
   executionTime: number;
   executionTrace?: ExecutionStep[];
   metrics?: TestMetrics;
-}
\ No newline at end of file
+}
+
+// Atom execution API used by the local interpreter and custom atom executors
+
+export interface ActionRecord {
+  atomId: string;
+  type: string;
+  parameters: Record<string, any>;
+  delayMs: number; // Offset accumulated from enclosing delay atoms
+  item?: any; // Current loop item when emitted inside a loop
+}
+
+export interface AtomOutcome {
+  atomId: string;
+  value: any;
+  passed: boolean;
+}
+
+export interface AtomChildResults {
+  count: number;
+  run: (index: number, scope?: Record<string, any>) => AtomOutcome | undefined;
+  runAll: (scope?: Record<string, any>) => AtomOutcome[];
+}
+
+export interface AtomExecutionContext {
+  atom: AtomInstance;
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  resolve: (path: string) => any;
+  lookup: (source: string) => any;
+  emitAction: (parameters: Record<string, any>) => ActionRecord;
+  markMatched: () => void;
+  defer: <T>(delayMs: number, run: () => T) => T;
+  now: () => number;
+}
+
+export interface AtomExecutorResult {
+  value: any;
+  passed?: boolean; // Defaults to true
+}
+
+export type AtomExecutor<P extends Record<string, any> = Record<string, any>> = (
+  parameters: P,
+  children: AtomChildResults,
+  context: AtomExecutionContext
+) => AtomExecutorResult;
+
+// Rule versioning
+
+export interface RuleVersion {
+  id: string;
+  ruleId: string;
+  version: string; // Semver, patch-bumped on every save
+  author: string;
+  createdAt: string;
+  message?: string;
+  snapshot: Rule; // Frozen copy of the rule as saved
+}
+
+export interface AtomLocation {
+  parentId: string | null;
+  index: number;
+}
+
+export interface AtomDiffEntry {
+  atomId: string;
+  type: string;
+  label?: string;
+}
+
+export interface AtomMove extends AtomDiffEntry {
+  from: AtomLocation;
+  to: AtomLocation;
+}
+
+// The same atom id now holds a different atom type, e.g. after an import replaced it
+export interface AtomTypeChange {
+  atomId: string;
+  label?: string;
+  before: string;
+  after: string;
+}
+
+export interface ParameterChange {
+  atomId: string;
+  parameter: string;
+  before?: ParameterValue;
+  after?: ParameterValue;
+}
+
+export interface RuleFieldChange {
+  field: 'name' | 'description';
+  before: string;
+  after: string;
+}
+
+export interface RuleDiff {
+  added: AtomDiffEntry[];
+  removed: AtomDiffEntry[];
+  moved: AtomMove[];
+  changedTypes: AtomTypeChange[];
+  changedParameters: ParameterChange[];
+  changedFields: RuleFieldChange[];
+}
+
+// Offline persistence and sync
+
+export interface PendingRuleWrite {
+  ruleId: string;
+  rule: Rule;
+  baseVersion?: string; // Server version the local edits started from; undefined for rules never synced
+  queuedAt: string;
+}
+
+export interface RuleSyncState {
+  ruleId: string;
+  serverVersion: string;
+  syncedAt: string;
+}
+
+export interface RuleConflict {
+  ruleId: string;
+  local: Rule;
+  remote: Rule;
+  baseVersion?: string;
+  detectedAt: string;
+}
+
+// A queued write the API refused, e.g. with 400 for an invalid rule; kept until retried or discarded
+export interface FailedRuleWrite extends PendingRuleWrite {
+  status: number;
+  message: string;
+  failedAt: string;
+}
+
+export interface RuleSyncReport {
+  synced: string[];
+  conflicts: RuleConflict[];
+  failed: FailedRuleWrite[];
+  pending: number; // Writes still queued, e.g. because the API dropped again mid-sync
+}
+
+// Decision tables: a chain of if_then_else atoms read as rows, the first matching row's actions run
+
+export interface DecisionTableInput {
+  expression: string; // Field path or expression every test in the column is applied to, e.g. user.age
+  label?: string;
+}
+
+export interface DecisionTableRow {
+  id?: string; // The row's if_then_else atom; unset for rows not yet in the tree
+  label?: string;
+  tests: string[]; // Unary test per input, e.g. >= 18, [1..5], "US", "CA"; '-' matches anything
+  actions: AtomInstance[]; // Run in order when the row matches; their children are ignored
+}
+
+// DMN names the atom tree has no place for
+export interface DmnNames {
+  inputLabels?: Record<string, string>; // Input expression -> <input label>
+  outputNames?: Record<string, string>; // Output column (<actionType>.<parameter path>) -> original <output name>
+}
+
+export interface DecisionTable {
+  inputs: DecisionTableInput[];
+  rows: DecisionTableRow[];
+  defaultActions: AtomInstance[]; // Else branch of the last row, run when no row matches
+}
@@ -0,0 +1,131 @@
+// src/utils/atomTree.test.ts
+// Covers the immutable tree helpers the canvas edits rules with
+// Every helper must leave the tree it was given untouched
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import {
+  addChildAtom,
+  canWrapAtoms,
+  cloneAtomSubtree,
+  flattenAtoms,
+  getNavigationTarget,
+  getSelectionRoots,
+  indexAtomTree,
+  removeAtoms,
+  wrapAtoms
+} from './atomTree';
+
+const atom = (id: string, children: AtomInstance[] = []): AtomInstance => ({
+  id,
+  type: 'custom_event',
+  position: { x: 10, y: 20 },
+  parameters: { eventName: id, properties: { source: 'canvas' } },
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+// atom_1 ─┬─ atom_2 ── atom_4
+//         └─ atom_3
+const tree = atom('atom_1', [atom('atom_2', [atom('atom_4')]), atom('atom_3')]);
+
+const ruleWith = (rootAtom: AtomInstance | null, atomCounter?: number): Pick<Rule, 'rootAtom' | 'metadata'> => ({
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [], atomCounter }
+});
+
+const ids = (root: AtomInstance | null) => flattenAtoms(root).map(entry => entry.id);
+
+describe('addChildAtom', () => {
+  it('appends by default and inserts at an index when given one', () => {
+    expect(addChildAtom(tree, 'atom_1', atom('atom_5'))!.children.map(child => child.id)).toEqual(['atom_2', 'atom_3', 'atom_5']);
+    expect(addChildAtom(tree, 'atom_1', atom('atom_5'), 1)!.children.map(child => child.id)).toEqual(['atom_2', 'atom_5', 'atom_3']);
+    expect(ids(addChildAtom(tree, 'atom_2', atom('atom_5'), 0))).toEqual(['atom_1', 'atom_2', 'atom_5', 'atom_4', 'atom_3']);
+    expect(ids(tree)).toEqual(['atom_1', 'atom_2', 'atom_4', 'atom_3']);
+  });
+});
+
+describe('cloneAtomSubtree', () => {
+  it('numbers the copy after the last id issued for the rule, in tree order', () => {
+    expect(ids(cloneAtomSubtree(tree.children[0], ruleWith(tree)))).toEqual(['atom_5', 'atom_6']);
+    // atom_9 was issued and then deleted, so it must not come back
+    expect(ids(cloneAtomSubtree(tree.children[0], ruleWith(tree, 9)))).toEqual(['atom_10', 'atom_11']);
+  });
+
+  it('offsets positions and copies parameters deeply', () => {
+    const copy = cloneAtomSubtree(tree.children[0], ruleWith(tree), { x: 40, y: 40 });
+    expect(copy.children[0].position).toEqual({ x: 50, y: 60 });
+    (copy.parameters.properties as Record<string, string>).source = 'pasted';
+    expect(tree.children[0].parameters.properties).toEqual({ source: 'canvas' });
+  });
+});
+
+describe('group operations', () => {
+  const loop = { ...atom('atom_9'), type: 'loop', parameters: { iterateOver: 'items' } };
+
+  it('treats selected atoms under a selected ancestor as part of it', () => {
+    expect(getSelectionRoots(tree, ['atom_4', 'atom_3', 'atom_2']).map(entry => entry.id)).toEqual(['atom_2', 'atom_3']);
+    expect(getSelectionRoots(null, ['atom_1'])).toEqual([]);
+  });
+
+  it('removes every selected atom with its subtree', () => {
+    expect(ids(removeAtoms(tree, ['atom_2', 'atom_4']))).toEqual(['atom_1', 'atom_3']);
+    expect(removeAtoms(tree, ['atom_1'])).toBeNull();
+  });
+
+  it('only wraps selections that share a parent', () => {
+    expect(canWrapAtoms(tree, ['atom_2', 'atom_3'])).toBe(true);
+    expect(canWrapAtoms(tree, ['atom_1', 'atom_4'])).toBe(true);
+    expect(canWrapAtoms(tree, ['atom_3', 'atom_4'])).toBe(false);
+    expect(canWrapAtoms(tree, [])).toBe(false);
+    expect(wrapAtoms(tree, ['atom_3', 'atom_4'], loop)).toBeNull();
+  });
+
+  it('puts the wrapper where the first selected atom was', () => {
+    const wrapped = wrapAtoms(addChildAtom(tree, 'atom_1', atom('atom_5')), ['atom_5', 'atom_3'], loop)!;
+    expect(wrapped.children.map(child => child.id)).toEqual(['atom_2', 'atom_9']);
+    expect(wrapped.children[1].children.map(child => child.id)).toEqual(['atom_3', 'atom_5']);
+  });
+
+  it('makes the wrapper the new root when the root is selected', () => {
+    const wrapped = wrapAtoms(tree, ['atom_1', 'atom_2'], loop)!;
+    expect(wrapped.id).toBe('atom_9');
+    expect(wrapped.children).toEqual([tree]);
+  });
+});
+
+describe('keyboard navigation', () => {
+  const index = indexAtomTree(tree);
+  const from = (atomId: string, key: string, direction: 'top-down' | 'left-right' = 'top-down') =>
+    getNavigationTarget(tree, index, atomId, key, direction);
+
+  it('indexes each atom the way the ARIA tree describes it', () => {
+    expect(index.get('atom_1')).toEqual({ parentId: null, childIds: ['atom_2', 'atom_3'], level: 1, position: 1, setSize: 1 });
+    expect(index.get('atom_3')).toEqual({ parentId: 'atom_1', childIds: [], level: 2, position: 2, setSize: 2 });
+  });
+
+  it.each([
+    ['atom_2', 'ArrowUp', 'atom_1'],
+    ['atom_2', 'ArrowDown', 'atom_4'],
+    ['atom_2', 'ArrowRight', 'atom_3'],
+    ['atom_3', 'ArrowLeft', 'atom_2'],
+    ['atom_4', 'Home', 'atom_1'],
+    ['atom_1', 'End', 'atom_3']
+  ])('moves from %s with %s to %s in a top-down layout', (atomId, key, target) => {
+    expect(from(atomId, key)).toBe(target);
+  });
+
+  it('turns the arrows with a left-right layout', () => {
+    expect(from('atom_2', 'ArrowLeft', 'left-right')).toBe('atom_1');
+    expect(from('atom_2', 'ArrowRight', 'left-right')).toBe('atom_4');
+    expect(from('atom_2', 'ArrowDown', 'left-right')).toBe('atom_3');
+  });
+
+  it('stays put at the edges of the tree and ignores other keys', () => {
+    expect(from('atom_1', 'ArrowUp')).toBeNull();
+    expect(from('atom_3', 'ArrowDown')).toBeNull();
+    expect(from('atom_3', 'ArrowRight')).toBeNull();
+    expect(from('atom_1', 'Enter')).toBeUndefined();
+    expect(from('atom_7', 'ArrowUp')).toBeUndefined();
+  });
+});
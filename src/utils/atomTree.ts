@@ -0,0 +1,266 @@
+// src/utils/atomTree.ts
+// Immutable helpers for reading and updating AtomInstance trees
+// Shared by the canvas, validation fixes and rule services
+
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { LayoutDirection } from './treeLayout';
+
+export const findAtomById = (atom: AtomInstance | null, id: string): AtomInstance | null => {
+  if (!atom) return null;
+  if (atom.id === id) return atom;
+
+  for (const child of atom.children) {
+    const found = findAtomById(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Ids from the root down to (and including) the target atom, or null if absent
+export const findAtomPath = (atom: AtomInstance | null, id: string): string[] | null => {
+  if (!atom) return null;
+  if (atom.id === id) return [atom.id];
+
+  for (const child of atom.children) {
+    const path = findAtomPath(child, id);
+    if (path) return [atom.id, ...path];
+  }
+  return null;
+};
+
+export const findParentAtom = (root: AtomInstance | null, id: string): AtomInstance | null => {
+  const path = findAtomPath(root, id);
+  if (!path || path.length < 2) return null;
+  return findAtomById(root, path[path.length - 2]);
+};
+
+// Appends by default; pass an index to insert among the existing children
+export const addChildAtom = (
+  root: AtomInstance | null,
+  parentId: string,
+  newAtom: AtomInstance,
+  index?: number
+): AtomInstance | null => {
+  if (!root) return newAtom;
+
+  if (root.id === parentId) {
+    const children = [...root.children];
+    children.splice(index ?? children.length, 0, newAtom);
+    return {
+      ...root,
+      children,
+      metadata: { ...root.metadata, modified: new Date().toISOString() }
+    };
+  }
+
+  return {
+    ...root,
+    children: root.children.map(child => addChildAtom(child, parentId, newAtom, index)).filter(Boolean) as AtomInstance[]
+  };
+};
+
+export const updateAtom = (root: AtomInstance | null, atomId: string, updates: Partial<AtomInstance>): AtomInstance | null => {
+  if (!root) return null;
+
+  if (root.id === atomId) {
+    return {
+      ...root,
+      ...updates,
+      metadata: { ...root.metadata, modified: new Date().toISOString() }
+    };
+  }
+
+  return {
+    ...root,
+    children: root.children.map(child => updateAtom(child, atomId, updates)).filter(Boolean) as AtomInstance[]
+  };
+};
+
+export const removeAtom = (root: AtomInstance | null, atomId: string): AtomInstance | null => {
+  if (!root) return null;
+  if (root.id === atomId) return null;
+
+  return {
+    ...root,
+    children: root.children
+      .map(child => removeAtom(child, atomId))
+      .filter(Boolean) as AtomInstance[]
+  };
+};
+
+// Selected atoms without a selected ancestor, in tree order. Group operations work on
+// these so a selected subtree is never handled twice.
+export const getSelectionRoots = (root: AtomInstance | null, ids: string[]): AtomInstance[] => {
+  const selected = new Set(ids);
+  const roots: AtomInstance[] = [];
+
+  const visit = (atom: AtomInstance) => {
+    if (selected.has(atom.id)) {
+      roots.push(atom);
+      return;
+    }
+    atom.children.forEach(visit);
+  };
+  if (root) visit(root);
+
+  return roots;
+};
+
+export const removeAtoms = (root: AtomInstance | null, atomIds: string[]): AtomInstance | null =>
+  atomIds.reduce<AtomInstance | null>((current, atomId) => removeAtom(current, atomId), root);
+
+// A selection can be wrapped when it is the root alone or its atoms share a parent
+export const canWrapAtoms = (root: AtomInstance | null, atomIds: string[]): boolean => {
+  const selection = getSelectionRoots(root, atomIds);
+  if (!root || selection.length === 0) return false;
+  if (selection[0].id === root.id) return true;
+
+  const parentId = findParentAtom(root, selection[0].id)?.id;
+  return selection.every(atom => findParentAtom(root, atom.id)?.id === parentId);
+};
+
+// Replaces the selection with `wrapper`, which takes the selected atoms as its children.
+// Returns null when the selection can't be wrapped.
+export const wrapAtoms = (root: AtomInstance | null, atomIds: string[], wrapper: AtomInstance): AtomInstance | null => {
+  if (!root || !canWrapAtoms(root, atomIds)) return null;
+
+  const selection = getSelectionRoots(root, atomIds);
+  if (selection[0].id === root.id) {
+    return { ...wrapper, children: [root] };
+  }
+
+  const parent = findParentAtom(root, selection[0].id);
+  if (!parent) return null;
+
+  const selectedIds = new Set(selection.map(atom => atom.id));
+  const index = parent.children.findIndex(child => selectedIds.has(child.id));
+  const children = parent.children.filter(child => !selectedIds.has(child.id));
+  children.splice(index, 0, { ...wrapper, children: selection });
+
+  return updateAtom(root, parent.id, { children });
+};
+
+// Depth-first, pre-order traversal
+export const walkAtoms = (
+  atom: AtomInstance | null,
+  visit: (atom: AtomInstance, depth: number, parent: AtomInstance | null) => void,
+  depth: number = 0,
+  parent: AtomInstance | null = null
+): void => {
+  if (!atom) return;
+  visit(atom, depth, parent);
+  atom.children.forEach(child => walkAtoms(child, visit, depth + 1, atom));
+};
+
+export const flattenAtoms = (atom: AtomInstance | null): AtomInstance[] => {
+  const atoms: AtomInstance[] = [];
+  walkAtoms(atom, current => atoms.push(current));
+  return atoms;
+};
+
+// Each atom's parent, children and position among its siblings, keyed by id
+export interface AtomTreeEntry {
+  parentId: string | null;
+  childIds: string[];
+  level: number; // 1 for the root, as in aria-level
+  position: number; // 1-based, as in aria-posinset
+  setSize: number;
+}
+
+export const indexAtomTree = (root: AtomInstance | null): Map<string, AtomTreeEntry> => {
+  const index = new Map<string, AtomTreeEntry>();
+  walkAtoms(root, (atom, depth, parent) => {
+    const siblings = parent ? parent.children : [atom];
+    index.set(atom.id, {
+      parentId: parent?.id ?? null,
+      childIds: atom.children.map(child => child.id),
+      level: depth + 1,
+      position: siblings.findIndex(sibling => sibling.id === atom.id) + 1,
+      setSize: siblings.length
+    });
+  });
+  return index;
+};
+
+// Atom an arrow, Home or End key moves to from `atomId`. Arrows follow the tree along the layout
+// direction: towards the parent, into the first child, or across siblings. Returns null when there
+// is no atom that way and undefined for keys that don't navigate.
+export const getNavigationTarget = (
+  root: AtomInstance | null,
+  index: Map<string, AtomTreeEntry>,
+  atomId: string,
+  key: string,
+  direction: LayoutDirection
+): string | null | undefined => {
+  const entry = index.get(atomId);
+  if (!entry) return undefined;
+
+  const topDown = direction === 'top-down';
+  const siblingIds = entry.parentId ? index.get(entry.parentId)?.childIds ?? [] : [atomId];
+  const siblingIndex = siblingIds.indexOf(atomId);
+
+  switch (key) {
+    case topDown ? 'ArrowUp' : 'ArrowLeft':
+      return entry.parentId;
+    case topDown ? 'ArrowDown' : 'ArrowRight':
+      return entry.childIds[0] ?? null;
+    case topDown ? 'ArrowLeft' : 'ArrowUp':
+      return siblingIds[siblingIndex - 1] ?? null;
+    case topDown ? 'ArrowRight' : 'ArrowDown':
+      return siblingIds[siblingIndex + 1] ?? null;
+    case 'Home':
+      return root?.id ?? null;
+    case 'End':
+      return flattenAtoms(root).pop()?.id ?? null;
+    default:
+      return undefined;
+  }
+};
+
+export const countAtoms = (atom: AtomInstance | null): number => flattenAtoms(atom).length;
+
+// Highest n among the tree's atom_<n> ids, 0 when there are none
+export const highestAtomNumber = (root: AtomInstance | null): number => {
+  let max = 0;
+  walkAtoms(root, atom => {
+    const match = /^atom_(\d+)$/.exec(atom.id);
+    if (match) max = Math.max(max, Number(match[1]));
+  });
+  return max;
+};
+
+// Highest n issued for the rule so far, including atoms that were deleted since.
+// Breakpoints, coverage and diffs are keyed by atom id, so a deleted atom's id must not come back.
+export const lastAtomNumber = (rule: Pick<Rule, 'rootAtom' | 'metadata'>): number =>
+  Math.max(rule.metadata.atomCounter ?? 0, highestAtomNumber(rule.rootAtom));
+
+// Copy of `next` whose counter also covers every id issued in `prev`
+export const carryAtomCounter = (prev: Rule, next: Rule): Rule => {
+  const atomCounter = Math.max(lastAtomNumber(prev), lastAtomNumber(next));
+  if (atomCounter === (next.metadata.atomCounter ?? 0)) return next;
+  return { ...next, metadata: { ...next.metadata, atomCounter } };
+};
+
+// Next id of the form atom_<n> that was never issued for the rule
+export const nextAtomId = (rule: Pick<Rule, 'rootAtom' | 'metadata'>): string => `atom_${lastAtomNumber(rule) + 1}`;
+
+// Deep copy of a subtree with fresh ids that continue after the last id issued for `rule`
+export const cloneAtomSubtree = (
+  atom: AtomInstance,
+  rule: Pick<Rule, 'rootAtom' | 'metadata'>,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): AtomInstance => {
+  let counter = lastAtomNumber(rule);
+  const now = new Date().toISOString();
+
+  const clone = (source: AtomInstance): AtomInstance => ({
+    ...source,
+    id: `atom_${++counter}`,
+    position: { x: source.position.x + offset.x, y: source.position.y + offset.y },
+    parameters: JSON.parse(JSON.stringify(source.parameters)),
+    children: source.children.map(clone),
+    metadata: { ...source.metadata, created: now, modified: now }
+  });
+
+  return clone(atom);
+};
@@ -0,0 +1,47 @@
+// src/utils/canvasViewport.ts
+// Zoom and pan math for the rule canvas
+// Screen coordinates are canvas coordinates scaled by zoom and offset by pan
+
+import { LayoutBounds, LayoutPoint, LayoutSize } from './treeLayout';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 3;
+
+export interface CanvasViewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export const clampZoom = (zoom: number): number => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// Pan that puts a canvas point in the middle of the viewport at the given zoom
+export const centerViewportOn = (point: LayoutPoint, viewport: LayoutSize, zoom: number): CanvasViewport => ({
+  zoom,
+  panX: viewport.width / 2 - point.x * zoom,
+  panY: viewport.height / 2 - point.y * zoom
+});
+
+// Zoom and pan that frame the bounds with some padding, clamped to the zoom limits
+export const fitBoundsToViewport = (bounds: LayoutBounds, viewport: LayoutSize, padding = 40): CanvasViewport => {
+  const availableWidth = Math.max(1, viewport.width - padding * 2);
+  const availableHeight = Math.max(1, viewport.height - padding * 2);
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(1, bounds.width),
+    availableHeight / Math.max(1, bounds.height)
+  ));
+
+  return centerViewportOn(
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+    viewport,
+    zoom
+  );
+};
+
+// The part of the canvas currently visible, in canvas coordinates
+export const getVisibleBounds = ({ zoom, panX, panY }: CanvasViewport, viewport: LayoutSize): LayoutBounds => ({
+  x: -panX / zoom,
+  y: -panY / zoom,
+  width: viewport.width / zoom,
+  height: viewport.height / zoom
+});
@@ -0,0 +1,33 @@
+// src/utils/categoryColors.ts
+// Colour scheme of each atom category, shared by the palette, canvas nodes and exported diagrams
+// Tailwind classes for the UI, with the matching hex values for SVG output where classes don't apply
+
+import { AtomCategory } from '../types/RuleTypes';
+
+export interface CategoryColors {
+  badge: string; // Palette category pill
+  header: string; // Canvas node header
+  fill: string; // Header colour as hex (500 shade)
+  tint: string; // Light background as hex (100 shade)
+  text: string; // Dark text as hex (800 shade)
+}
+
+const CATEGORY_COLORS: Record<AtomCategory, CategoryColors> = {
+  condition: { badge: 'bg-blue-100 text-blue-800 border-blue-200', header: 'bg-blue-500', fill: '#3b82f6', tint: '#dbeafe', text: '#1e40af' },
+  action: { badge: 'bg-green-100 text-green-800 border-green-200', header: 'bg-green-500', fill: '#22c55e', tint: '#dcfce7', text: '#166534' },
+  computation: { badge: 'bg-purple-100 text-purple-800 border-purple-200', header: 'bg-purple-500', fill: '#a855f7', tint: '#f3e8ff', text: '#6b21a8' },
+  flow: { badge: 'bg-orange-100 text-orange-800 border-orange-200', header: 'bg-orange-500', fill: '#f97316', tint: '#ffedd5', text: '#9a3412' },
+  data: { badge: 'bg-indigo-100 text-indigo-800 border-indigo-200', header: 'bg-indigo-500', fill: '#6366f1', tint: '#e0e7ff', text: '#3730a3' }
+};
+
+// Atoms of unknown types have no category
+const UNCATEGORIZED: CategoryColors = {
+  badge: 'bg-gray-100 text-gray-800 border-gray-200',
+  header: 'bg-gray-500',
+  fill: '#6b7280',
+  tint: '#f3f4f6',
+  text: '#1f2937'
+};
+
+export const getCategoryColor = (category: string | undefined): CategoryColors =>
+  CATEGORY_COLORS[category as AtomCategory] ?? UNCATEGORIZED;
@@ -0,0 +1,16 @@
+// src/utils/objectPath.ts
+// Helpers for reading values out of nested input objects by path
+// Paths use dots and brackets, e.g. "user.orders[0].total"
+
+export const splitPath = (path: string): string[] =>
+  path.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+
+export const readPath = (source: any, path: string): any => {
+  if (!path) return undefined;
+  let current = source;
+  for (const segment of splitPath(path)) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+};
@@ -0,0 +1,58 @@
+// src/utils/ruleDiff.test.ts
+// Covers how atoms matched by id are reported as added, removed, moved or changed
+// Sibling insertions shift indexes but must not read as moves
+
+import { describe, expect, it } from 'vitest';
+import { AtomInstance, Rule } from '../types/RuleTypes';
+import { diffRules, isEmptyDiff } from './ruleDiff';
+
+const atom = (id: string, children: AtomInstance[] = [], type = 'custom_event'): AtomInstance => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  parameters: { eventName: id },
+  children,
+  metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z' }
+});
+
+const ruleWith = (rootAtom: AtomInstance | null): Rule => ({
+  id: 'rule_1',
+  name: 'Events',
+  description: '',
+  rootAtom,
+  metadata: { version: '1.0.0', created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [] }
+});
+
+const before = ruleWith(atom('atom_1', [atom('atom_2'), atom('atom_3'), atom('atom_4', [atom('atom_5')])]));
+
+describe('diffRules', () => {
+  it('finds nothing between a rule and itself', () => {
+    expect(isEmptyDiff(diffRules(before, before))).toBe(true);
+  });
+
+  it('reports an inserted sibling as added without moving the others', () => {
+    const after = ruleWith(atom('atom_1', [atom('atom_6'), atom('atom_2'), atom('atom_3'), atom('atom_4', [atom('atom_5')])]));
+    const diff = diffRules(before, after);
+    expect(diff.added).toEqual([{ atomId: 'atom_6', type: 'custom_event', label: undefined }]);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it('reports reordered siblings and atoms that changed parent as moved', () => {
+    const after = ruleWith(atom('atom_1', [atom('atom_3'), atom('atom_2'), atom('atom_4'), atom('atom_5')]));
+    expect(diffRules(before, after).moved.map(({ atomId, from, to }) => [atomId, from, to])).toEqual([
+      ['atom_2', { parentId: 'atom_1', index: 0 }, { parentId: 'atom_1', index: 1 }],
+      ['atom_5', { parentId: 'atom_4', index: 0 }, { parentId: 'atom_1', index: 3 }]
+    ]);
+  });
+
+  it('reports removed atoms, type and parameter changes', () => {
+    const changed = { ...atom('atom_3', [], 'send_email'), parameters: { templateId: 'welcome' } };
+    const diff = diffRules(before, ruleWith(atom('atom_1', [atom('atom_2'), changed])));
+    expect(diff.removed.map(entry => entry.atomId)).toEqual(['atom_4', 'atom_5']);
+    expect(diff.changedTypes).toEqual([{ atomId: 'atom_3', label: undefined, before: 'custom_event', after: 'send_email' }]);
+    expect(diff.changedParameters).toEqual([
+      { atomId: 'atom_3', parameter: 'eventName', before: 'atom_3', after: undefined },
+      { atomId: 'atom_3', parameter: 'templateId', before: undefined, after: 'welcome' }
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+// src/utils/ruleDiff.ts
+// Structural diff between two versions of a rule
+// Atoms are matched by id, so moves are reported separately from additions and removals
+
+import {
+  Rule,
+  AtomInstance,
+  AtomDiffEntry,
+  AtomLocation,
+  ParameterChange,
+  RuleDiff,
+  RuleFieldChange
+} from '../types/RuleTypes';
+import { walkAtoms } from './atomTree';
+
+interface IndexedAtom {
+  atom: AtomInstance;
+  location: AtomLocation;
+}
+
+const indexAtoms = (root: AtomInstance | null): Map<string, IndexedAtom> => {
+  const index = new Map<string, IndexedAtom>();
+  walkAtoms(root, (atom, _depth, parent) => {
+    index.set(atom.id, {
+      atom,
+      location: {
+        parentId: parent?.id ?? null,
+        index: parent ? parent.children.indexOf(atom) : 0
+      }
+    });
+  });
+  return index;
+};
+
+const toEntry = (atom: AtomInstance): AtomDiffEntry => ({ atomId: atom.id, type: atom.type, label: atom.label });
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffParameters = (before: AtomInstance, after: AtomInstance): ParameterChange[] => {
+  const names = new Set([...Object.keys(before.parameters), ...Object.keys(after.parameters)]);
+  return Array.from(names)
+    .filter(name => !sameValue(before.parameters[name], after.parameters[name]))
+    .map(name => ({
+      atomId: after.id,
+      parameter: name,
+      before: before.parameters[name],
+      after: after.parameters[name]
+    }));
+};
+
+// Ids of `after` on a longest common subsequence of both lists
+const longestCommonSubsequence = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      common.add(after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+};
+
+// Atoms that kept their parent but changed order relative to the siblings that also stayed.
+// Inserting or deleting a sibling shifts indexes without reordering anything, so it reports no moves.
+const findReordered = (beforeAtoms: Map<string, IndexedAtom>, afterAtoms: Map<string, IndexedAtom>): Set<string> => {
+  const reordered = new Set<string>();
+  afterAtoms.forEach(({ atom: parent }, parentId) => {
+    const previous = beforeAtoms.get(parentId);
+    if (!previous) return;
+
+    const stayed = (id: string) =>
+      beforeAtoms.get(id)?.location.parentId === parentId && afterAtoms.get(id)?.location.parentId === parentId;
+    const beforeOrder = previous.atom.children.map(child => child.id).filter(stayed);
+    const afterOrder = parent.children.map(child => child.id).filter(stayed);
+    const kept = longestCommonSubsequence(beforeOrder, afterOrder);
+    afterOrder.forEach(id => {
+      if (!kept.has(id)) reordered.add(id);
+    });
+  });
+  return reordered;
+};
+
+export const diffRules = (before: Rule, after: Rule): RuleDiff => {
+  const beforeAtoms = indexAtoms(before.rootAtom);
+  const afterAtoms = indexAtoms(after.rootAtom);
+  const reordered = findReordered(beforeAtoms, afterAtoms);
+  const diff: RuleDiff = { added: [], removed: [], moved: [], changedTypes: [], changedParameters: [], changedFields: [] };
+
+  afterAtoms.forEach(({ atom, location }, id) => {
+    const previous = beforeAtoms.get(id);
+    if (!previous) {
+      diff.added.push(toEntry(atom));
+      return;
+    }
+
+    if (previous.location.parentId !== location.parentId || reordered.has(id)) {
+      diff.moved.push({ ...toEntry(atom), from: previous.location, to: location });
+    }
+    if (previous.atom.type !== atom.type) {
+      diff.changedTypes.push({ atomId: id, label: atom.label, before: previous.atom.type, after: atom.type });
+    }
+    diff.changedParameters.push(...diffParameters(previous.atom, atom));
+  });
+
+  beforeAtoms.forEach(({ atom }, id) => {
+    if (!afterAtoms.has(id)) diff.removed.push(toEntry(atom));
+  });
+
+  (['name', 'description'] as RuleFieldChange['field'][]).forEach(field => {
+    if (before[field] !== after[field]) {
+      diff.changedFields.push({ field, before: before[field], after: after[field] });
+    }
+  });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: RuleDiff): boolean =>
+  diff.added.length === 0 &&
+  diff.removed.length === 0 &&
+  diff.moved.length === 0 &&
+  diff.changedTypes.length === 0 &&
+  diff.changedParameters.length === 0 &&
+  diff.changedFields.length === 0;
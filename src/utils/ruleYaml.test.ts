@@ -0,0 +1,189 @@
+// src/utils/ruleYaml.test.ts
+// Round trips rules and awkward scalars through the printer and reader, and pins the printed layout
+// Layout matters as much as values here: exports are committed and diffed by rule authors
+
+import { describe, expect, it } from 'vitest';
+import { Rule } from '../types/RuleTypes';
+import { YamlParseError, parseYaml, stringifyYaml } from './ruleYaml';
+
+const roundTrip = (value: object) => parseYaml(stringifyYaml(value));
+
+const rule: Rule = {
+  id: 'rule_1',
+  name: 'Senior discount',
+  description: 'Gives customers over 65 a discount.\nApplies to every store.\n',
+  rootAtom: {
+    id: 'atom_1',
+    type: 'if_then_else',
+    label: 'Is senior',
+    position: { x: 0, y: 0 },
+    parameters: { condition: 'user.age >= 65' },
+    children: [{
+      id: 'atom_2',
+      type: 'custom_event',
+      position: { x: 0, y: 120 },
+      parameters: { eventName: 'senior_discount', properties: { type: 'percent', amount: 10, id: 'promo-7' } },
+      children: [],
+      metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-02T00:00:00.000Z' }
+    }],
+    metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-02T00:00:00.000Z', version: '1.0' }
+  },
+  metadata: {
+    version: '1.0.0',
+    created: '2024-01-01T00:00:00.000Z',
+    modified: '2024-01-02T00:00:00.000Z',
+    tags: ['pricing', 'yes', ''],
+    status: 'active',
+    atomCounter: 2
+  }
+};
+
+describe('stringifyYaml', () => {
+  it('round trips a rule', () => {
+    expect(roundTrip(rule)).toEqual(rule);
+  });
+
+  it('writes rule and atom keys in reading order', () => {
+    const keysAt = (indent: number) => stringifyYaml(rule)
+      .split('\n')
+      .filter(line => line.startsWith(' '.repeat(indent)) && /^\w+:/.test(line.slice(indent)))
+      .map(line => line.slice(indent).split(':')[0]);
+    expect(keysAt(0)).toEqual(['id', 'name', 'description', 'rootAtom', 'metadata']);
+    // The root atom's fields, then the rule metadata's, which has no ranked keys and is alphabetical
+    expect(keysAt(2)).toEqual([
+      'id', 'type', 'label', 'position', 'parameters', 'children', 'metadata',
+      'atomCounter', 'created', 'modified', 'status', 'tags', 'version'
+    ]);
+  });
+
+  it('keeps user data such as parameters in alphabetical order', () => {
+    expect(stringifyYaml(rule)).toContain([
+      '        properties:',
+      '          amount: 10',
+      '          id: promo-7',
+      '          type: percent'
+    ].join('\n'));
+  });
+
+  it('quotes strings that would read back as something else', () => {
+    const values = { bool: 'true', legacy: 'yes', number: '1.0', nil: 'null', empty: '', colon: 'a: b', dash: '- x', hex: '0x1f' };
+    const text = stringifyYaml(values);
+    expect(text).toContain("legacy: 'yes'");
+    expect(text).toContain("number: '1.0'");
+    expect(text).toContain("empty: ''");
+    expect(parseYaml(text)).toEqual(values);
+  });
+
+  it('writes control characters with double-quote escapes', () => {
+    const values = { tab: 'a\tb', bell: 'ring\u0007', newline: 'a\rb' };
+    expect(stringifyYaml(values)).toContain('bell: "ring\\x07"');
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it.each([
+    ['no final line break', 'first\nsecond', '|-'],
+    ['one final line break', 'first\nsecond\n', '|'],
+    ['kept final line breaks', 'first\nsecond\n\n\n', '|+'],
+    ['leading spaces', '  indented\nplain\n', '|2'],
+    ['empty lines inside', 'first\n\n\nlast\n', '|']
+  ])('writes multiline text with %s as a literal block', (_name, text, indicator) => {
+    const yaml = stringifyYaml({ text });
+    expect(yaml.startsWith(`text: ${indicator}\n`)).toBe(true);
+    expect(parseYaml(yaml)).toEqual({ text });
+  });
+
+  it('keeps the exact line breaks of a |+ block at the end of the file', () => {
+    const yaml = stringifyYaml({ text: 'kept\n\n' });
+    expect(yaml).toBe('text: |+\n  kept\n\n');
+    expect(parseYaml(yaml)).toEqual({ text: 'kept\n\n' });
+  });
+
+  it('writes empty collections and special numbers inline', () => {
+    const values = { list: [], map: {}, inf: Infinity, negative: -Infinity, zero: -0 };
+    expect(stringifyYaml(values)).toBe('inf: .inf\nlist: []\nmap: {}\nnegative: -.inf\nzero: -0\n');
+    expect(Object.is((roundTrip(values) as any).zero, -0)).toBe(true);
+  });
+
+  it('writes nested blocks inside sequences beside the dash', () => {
+    expect(stringifyYaml({ items: [{ a: 1, b: [1, 2] }] })).toBe('items:\n  - a: 1\n    b:\n      - 1\n      - 2\n');
+  });
+});
+
+describe('anchors', () => {
+  const shared = { x: 10, y: 20 };
+  const value = { first: shared, second: shared, third: { x: 10, y: 20 } };
+
+  it('writes shared objects in full when anchors are off', () => {
+    expect(stringifyYaml(value)).not.toMatch(/[&*]ref/);
+  });
+
+  it('anchors other objects only when they are shared by reference', () => {
+    const text = stringifyYaml(value, { anchors: true });
+    // `y` is quoted because YAML 1.1 readers take it for a boolean
+    expect(text).toBe("first: &ref1\n  x: 10\n  'y': 20\nsecond: *ref1\nthird:\n  x: 10\n  'y': 20\n");
+    expect(parseYaml(text)).toEqual(value);
+  });
+
+  it('anchors equal parameters and copied atom subtrees', () => {
+    const [action] = rule.rootAtom!.children;
+    // The action pasted again as the else branch, with the same parameters but a new id
+    const copy = { ...JSON.parse(JSON.stringify(action)), id: 'atom_3' };
+    const duplicated: Rule = {
+      ...rule,
+      rootAtom: { ...rule.rootAtom!, children: [action, copy, JSON.parse(JSON.stringify(copy))] }
+    };
+    const text = stringifyYaml(duplicated, { anchors: true });
+    expect(text).toContain('      parameters: &ref1\n');
+    expect(text).toContain('      parameters: *ref1\n');
+    expect(text).toContain('    - &ref2\n      id: atom_3\n');
+    expect(text).toContain('    - *ref2\n');
+    expect(text.match(/[&*]ref/g)).toHaveLength(4);
+    expect(parseYaml(text)).toEqual(duplicated);
+  });
+
+  it('refuses circular structures', () => {
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+    expect(() => stringifyYaml(circular)).toThrow('Cannot write a circular structure as YAML');
+    expect(() => stringifyYaml(circular, { anchors: true })).toThrow('Cannot write a circular structure as YAML');
+  });
+});
+
+describe('parseYaml', () => {
+  it('reads hand-written YAML with comments, flow collections and folded text', () => {
+    const text = [
+      '# Exported by hand',
+      'name: "Senior \\u00e9vent"',
+      'tags: [pricing, "a, b"]',
+      'position: {x: 1, y: -2.5}',
+      'summary: >',
+      '  folded',
+      '  text',
+      'count: !!str 12',
+      'enabled: True',
+      'missing: ~',
+      ''
+    ].join('\n');
+    expect(parseYaml(text)).toEqual({
+      name: 'Senior évent',
+      tags: ['pricing', 'a, b'],
+      position: { x: 1, y: -2.5 },
+      summary: 'folded text\n',
+      count: '12',
+      enabled: true,
+      missing: null
+    });
+  });
+
+  it.each([
+    ['a: 1\na: 2\n', 2, 'Duplicate key "a"'],
+    ['a:\n\t- 1\n', 2, 'Tabs are not allowed for indentation'],
+    ['list: [1, 2\n', 2, 'Unterminated "["'],
+    ['a: *missing\n', 1, 'Unknown alias *missing'],
+    ['a: 1\n---\nb: 2\n', 2, 'Only one YAML document per file is supported'],
+    ['a: "unclosed\n', 1, 'Unterminated quoted string']
+  ])('rejects %j on line %i', (text, line, message) => {
+    expect(() => parseYaml(text)).toThrow(YamlParseError);
+    expect(() => parseYaml(text)).toThrow(`Line ${line}: ${message}`);
+  });
+});
@@ -0,0 +1,856 @@
+// src/utils/ruleYaml.ts
+// YAML 1.2 printer used by the rule exporter and the matching reader used by the importer
+// Output is block style with a stable key order, literal blocks for multiline text and optional anchors for repeated objects
+
+export interface YamlStringifyOptions {
+  keyOrder?: string[]; // Keys written first, in this order; the others follow alphabetically
+  orderedKeys?: string[]; // keyOrder applies to the root map and to maps reached from it through these keys only
+  anchors?: boolean; // Write repeated mappings and sequences once and refer back to them; off by default
+  anchorKeys?: string[]; // With anchors, values under these keys repeat when equal; others only when shared by reference
+}
+
+// Rule and atom fields in reading order, so exports diff cleanly however the objects were built
+export const RULE_KEY_ORDER = [
+  'id',
+  'name',
+  'type',
+  'label',
+  'description',
+  'position',
+  'parameters',
+  'inputSchema',
+  'rootAtom',
+  'children',
+  'metadata'
+];
+
+// The rule, its metadata and its atoms; user data such as parameters keeps plain alphabetical order
+export const RULE_ORDERED_KEYS = ['rootAtom', 'children', 'metadata'];
+
+// Copied atom subtrees and the parameters atoms share; positions and timestamps are equal too often to be worth an anchor
+export const RULE_ANCHOR_KEYS = ['children', 'parameters'];
+
+const INDENT = '  ';
+
+type YamlCollection = unknown[] | Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCollection = (value: unknown): value is YamlCollection => Array.isArray(value) || isPlainObject(value);
+
+const isEmptyCollection = (value: YamlCollection) =>
+  Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+
+// c-printable from the YAML spec, minus the line break that block scalars handle themselves
+const isPrintable = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code === 0x09 || code === 0x0a || code === 0x85
+    || (code >= 0x20 && code <= 0x7e)
+    || (code >= 0xa0 && code <= 0xd7ff)
+    || (code >= 0xe000 && code <= 0xfffd && code !== 0xfeff)
+    || code >= 0x10000;
+};
+
+const NULL_PATTERN = /^(?:null|Null|NULL|~)?$/;
+const BOOLEAN_PATTERN = /^(?:true|True|TRUE|false|False|FALSE)$/;
+const INTEGER_PATTERN = /^[-+]?[0-9]+$/;
+const OCTAL_PATTERN = /^0o[0-7]+$/;
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+const FLOAT_PATTERN = /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/;
+const INFINITY_PATTERN = /^[-+]?\.(?:inf|Inf|INF)$/;
+const NAN_PATTERN = /^\.(?:nan|NaN|NAN)$/;
+// YAML 1.1 readers still take these for booleans, so they are quoted too
+const LEGACY_BOOLEAN_PATTERN = /^(?:y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF)$/;
+
+// Plain scalars resolved with the YAML 1.2 core schema
+const resolvePlain = (text: string): unknown => {
+  if (NULL_PATTERN.test(text)) return null;
+  if (BOOLEAN_PATTERN.test(text)) return text.toLowerCase() === 'true';
+  if (INTEGER_PATTERN.test(text) || FLOAT_PATTERN.test(text)) return Number(text);
+  if (OCTAL_PATTERN.test(text)) return parseInt(text.slice(2), 8);
+  if (HEX_PATTERN.test(text)) return parseInt(text.slice(2), 16);
+  if (INFINITY_PATTERN.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (NAN_PATTERN.test(text)) return NaN;
+  return text;
+};
+
+// Whether text can be written without quotes and still read back as the same string
+const isPlainSafe = (text: string): boolean =>
+  text !== ''
+  && text === text.trim()
+  && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(text)
+  && !/^[-+]?\.?[0-9]/.test(text)
+  && !/:(?:\s|$)|\s#/.test(text)
+  && resolvePlain(text) === text
+  && !LEGACY_BOOLEAN_PATTERN.test(text)
+  && Array.from(text).every(char => char !== '\n' && char !== '\t' && isPrintable(char));
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '"': '\\"',
+  '\n': '\\n',
+  '\t': '\\t',
+  '\r': '\\r',
+  '\0': '\\0'
+};
+
+const doubleQuote = (text: string): string => {
+  const body = Array.from(text).map(char => {
+    if (DOUBLE_QUOTE_ESCAPES[char]) return DOUBLE_QUOTE_ESCAPES[char];
+    if (isPrintable(char)) return char;
+    const code = char.codePointAt(0)!;
+    return code <= 0xff ? `\\x${code.toString(16).padStart(2, '0')}` : `\\u${code.toString(16).padStart(4, '0')}`;
+  });
+  return `"${body.join('')}"`;
+};
+
+const quote = (text: string): string =>
+  Array.from(text).every(char => char !== '\n' && isPrintable(char)) ? `'${text.replace(/'/g, "''")}'` : doubleQuote(text);
+
+const formatKey = (key: string) => (isPlainSafe(key) ? key : quote(key));
+
+const formatNumber = (value: number): string => {
+  if (Number.isNaN(value)) return '.nan';
+  if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+  return Object.is(value, -0) ? '-0' : String(value);
+};
+
+// Multiline text is written as a literal block; the chomping indicator keeps its trailing line breaks exact
+const formatBlockScalar = (text: string, indent: number): string | null => {
+  if (!text.includes('\n') || !/\S/.test(text)) return null;
+  if (!Array.from(text).every(char => char === '\n' || char === '\t' || isPrintable(char))) return null;
+
+  const trailing = /\n*$/.exec(text)![0].length;
+  const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+  const lines = (trailing > 0 ? text.slice(0, -1) : text).split('\n');
+  const firstContent = lines.findIndex(line => line.trim() !== '');
+  // Leading spaces would otherwise be taken for indentation
+  const explicitIndent = lines[firstContent].startsWith(' ') || lines.slice(0, firstContent).some(line => line !== '');
+  const pad = INDENT.repeat(indent);
+  const body = lines.map(line => (line === '' ? '\n' : `${pad}${line}\n`)).join('');
+  return ` |${explicitIndent ? INDENT.length : ''}${chomping}\n${body}`;
+};
+
+// Collections under anchor keys are identified by their structure, all others by reference
+type AnchorId = object | string;
+
+class YamlWriter {
+  private ancestors = new Set<object>();
+  private repeated = new Set<AnchorId>(); // Collections written in more than one place
+  private anchorNames = new Map<AnchorId, string>();
+  private structures = new Map<object, string>();
+  private priority: Map<string, number>;
+  private orderedKeys: Set<string>;
+  private anchorKeys: Set<string>;
+
+  constructor(private options: YamlStringifyOptions) {
+    this.priority = new Map((options.keyOrder ?? RULE_KEY_ORDER).map((key, index) => [key, index]));
+    this.orderedKeys = new Set(options.orderedKeys ?? RULE_ORDERED_KEYS);
+    this.anchorKeys = new Set(options.anchorKeys ?? RULE_ANCHOR_KEYS);
+  }
+
+  write(value: unknown): string {
+    if (this.options.anchors) this.findRepeats(value, undefined, new Set());
+    if (isCollection(value) && !isEmptyCollection(value)) return this.writeBlock(value, 0, true);
+    return `${this.writeNode(value, 0, true).slice(1)}`;
+  }
+
+  // `ordered` maps put keyOrder keys first; every other map is purely alphabetical
+  private entries(value: Record<string, unknown>, ordered: boolean): [string, unknown][] {
+    const rank = (key: string) => (ordered ? this.priority.get(key) ?? Infinity : 0);
+    return Object.entries(value)
+      .filter(([, item]) => item !== undefined && typeof item !== 'function')
+      .sort(([a], [b]) => rank(a) - rank(b) || (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  // Canonical text of a collection's contents, independent of key order
+  private structureOf(value: unknown): string {
+    if (!isCollection(value)) return typeof value === 'number' ? formatNumber(value) : JSON.stringify(value) ?? 'null';
+    const known = this.structures.get(value);
+    if (known !== undefined) return known;
+    if (this.ancestors.has(value)) throw new Error('Cannot write a circular structure as YAML');
+    this.ancestors.add(value);
+    const structure = Array.isArray(value)
+      ? `[${value.map(item => this.structureOf(item)).join(',')}]`
+      : `{${this.entries(value, false).map(([key, item]) => `${JSON.stringify(key)}:${this.structureOf(item)}`).join(',')}}`;
+    this.ancestors.delete(value);
+    this.structures.set(value, structure);
+    return structure;
+  }
+
+  // Sequence items count as being under their sequence's key, so each atom in `children` can be anchored
+  private anchorId(value: YamlCollection, key: string | undefined): AnchorId {
+    return key !== undefined && this.anchorKeys.has(key) ? this.structureOf(value) : value;
+  }
+
+  // A repeat is not searched again: it is written as an alias, so anything inside it is written once
+  private findRepeats(value: unknown, key: string | undefined, seen: Set<AnchorId>): void {
+    if (!isCollection(value) || isEmptyCollection(value)) return;
+    const id = this.anchorId(value, key);
+    if (seen.has(id)) {
+      this.repeated.add(id);
+      return;
+    }
+    seen.add(id);
+    if (Array.isArray(value)) value.forEach(item => this.findRepeats(item, key, seen));
+    else Object.entries(value).forEach(([childKey, child]) => this.findRepeats(child, childKey, seen));
+  }
+
+  private isOrdered(parentOrdered: boolean, key: string): boolean {
+    return parentOrdered && this.orderedKeys.has(key);
+  }
+
+  // Text that follows `key:` or `-`: a value on the same line, or a block on the lines below
+  private writeNode(value: unknown, indent: number, ordered: boolean, key?: string): string {
+    if (value === null || value === undefined) return ' null\n';
+    if (typeof value === 'boolean') return ` ${value}\n`;
+    if (typeof value === 'number') return ` ${formatNumber(value)}\n`;
+    if (typeof value === 'string') {
+      const block = formatBlockScalar(value, indent + 1);
+      if (block) return block;
+      return ` ${isPlainSafe(value) ? value : quote(value)}\n`;
+    }
+    if (!isCollection(value)) return ` ${quote(String(value))}\n`;
+    if (isEmptyCollection(value)) return Array.isArray(value) ? ' []\n' : ' {}\n';
+
+    const id = this.options.anchors ? this.anchorId(value, key) : value;
+    if (this.repeated.has(id) && !this.ancestors.has(value)) {
+      const existing = this.anchorNames.get(id);
+      if (existing) return ` *${existing}\n`;
+      const name = `ref${this.anchorNames.size + 1}`;
+      this.anchorNames.set(id, name);
+      return ` &${name}\n${this.writeBlock(value, indent + 1, ordered, key)}`;
+    }
+    return `\n${this.writeBlock(value, indent + 1, ordered, key)}`;
+  }
+
+  // Sequence items share their sequence's ordering, so the atoms under `children` are ordered like the root atom
+  private writeBlock(value: YamlCollection, indent: number, ordered: boolean, key?: string): string {
+    if (this.ancestors.has(value)) throw new Error('Cannot write a circular structure as YAML');
+    this.ancestors.add(value);
+
+    const pad = INDENT.repeat(indent);
+    const text = Array.isArray(value)
+      ? value.map(item => {
+        const node = this.writeNode(item, indent, ordered, key);
+        // A nested block starts beside the dash: `- key: value`
+        return node.startsWith('\n') ? `${pad}- ${node.slice(1 + pad.length + INDENT.length)}` : `${pad}-${node}`;
+      }).join('')
+      : this.entries(value, ordered)
+        .map(([itemKey, item]) => `${pad}${formatKey(itemKey)}:${this.writeNode(item, indent, this.isOrdered(ordered, itemKey), itemKey)}`)
+        .join('');
+
+    this.ancestors.delete(value);
+    return text;
+  }
+}
+
+export const stringifyYaml = (value: object, options: YamlStringifyOptions = {}): string =>
+  new YamlWriter(options).write(value);
+
+export class YamlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlParseError';
+  }
+}
+
+interface NodeProperties {
+  anchor?: string;
+  tag?: string;
+}
+
+const DOUBLE_QUOTE_UNESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029'
+};
+
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+const FLOW_INDICATORS = ',[]{}';
+
+class YamlReader {
+  private position = 0;
+  private anchors = new Map<string, unknown>();
+
+  constructor(private source: string) {}
+
+  parseDocument(): unknown {
+    this.skipToContent();
+    while (this.peek() === '%' && this.column() === 0) {
+      this.skipLine();
+      this.skipToContent();
+    }
+
+    let value: unknown = null;
+    if (this.isMarker('---')) {
+      this.position += 3;
+      this.skipSpaces();
+      if (!this.atLineEnd()) value = this.parseInline(-1);
+    }
+    this.skipToContent();
+    if (!this.atEnd() && !this.isMarker('---') && !this.isMarker('...')) value = this.parseBlockNode(-1);
+
+    this.skipToContent();
+    if (this.isMarker('...')) {
+      this.position += 3;
+      this.skipToContent();
+    }
+    if (this.isMarker('---')) this.fail('Only one YAML document per file is supported');
+    if (!this.atEnd()) this.fail(this.column() > 0 ? 'Unexpected indentation' : `Unexpected content "${this.restOfLine()}"`);
+    return value;
+  }
+
+  // Position helpers
+
+  private fail(message: string, at = this.position): never {
+    throw new YamlParseError(message, this.source.slice(0, at).split('\n').length);
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.position + offset] ?? '';
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.source.length;
+  }
+
+  private column(at = this.position): number {
+    return at - (this.source.lastIndexOf('\n', at - 1) + 1);
+  }
+
+  private restOfLine(): string {
+    const end = this.source.indexOf('\n', this.position);
+    return this.source.slice(this.position, end === -1 ? undefined : end);
+  }
+
+  private isMarker(marker: '---' | '...'): boolean {
+    return this.column() === 0
+      && this.source.startsWith(marker, this.position)
+      && /^(?:[ \t\n]|$)/.test(this.peek(3));
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.position++;
+  }
+
+  private skipLine(): void {
+    const end = this.source.indexOf('\n', this.position);
+    this.position = end === -1 ? this.source.length : end;
+  }
+
+  // At a comment, a line break or the end of input, after optional spaces
+  private atLineEnd(): boolean {
+    this.skipSpaces();
+    return this.atEnd() || this.peek() === '\n' || this.peek() === '#';
+  }
+
+  private finishLine(): void {
+    if (!this.atLineEnd()) this.fail(`Unexpected text after value: "${this.restOfLine()}"`);
+  }
+
+  // Moves to the first character of the next line with content, skipping blank lines and comments
+  private skipToContent(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() === '#') this.skipLine();
+      if (this.peek() !== '\n') return;
+      this.position++;
+      const lineStart = this.position;
+      while (this.peek() === ' ') this.position++;
+      if (this.peek() === '\t') {
+        this.skipSpaces();
+        if (!this.atEnd() && this.peek() !== '\n' && this.peek() !== '#') {
+          this.fail('Tabs are not allowed for indentation', lineStart);
+        }
+      }
+    }
+  }
+
+  private isSequenceEntry(): boolean {
+    return this.peek() === '-' && /^(?:[ \t\n]|$)/.test(this.peek(1));
+  }
+
+  // Whether the current line starts with `key:`; quoted keys may contain colons
+  private isMappingEntry(): boolean {
+    const start = this.position;
+    try {
+      const first = this.peek();
+      if (first === '"' || first === "'") {
+        this.parseQuoted();
+      } else {
+        if ('[]{}&*!|>%@`#'.includes(first)) return false;
+        const text = this.restOfLine();
+        const colon = /:(?:[ \t]|$)/.exec(text.replace(/[ \t]#.*$/, ''));
+        return colon !== null;
+      }
+      this.skipSpaces();
+      return this.peek() === ':' && /^(?:[ \t\n]|$)/.test(this.peek(1));
+    } catch {
+      return false;
+    } finally {
+      this.position = start;
+    }
+  }
+
+  // Node properties: `&anchor` and `!tag`, in either order
+  private parseProperties(): NodeProperties {
+    const properties: NodeProperties = {};
+    for (;;) {
+      const marker = this.peek();
+      if (marker !== '&' && marker !== '!') return properties;
+      const start = ++this.position;
+      while (!this.atEnd() && !/[ \t\n]/.test(this.peek()) && !FLOW_INDICATORS.includes(this.peek())) this.position++;
+      const name = this.source.slice(start, this.position);
+      if (marker === '&') {
+        if (!name) this.fail('Anchor needs a name');
+        properties.anchor = name;
+      } else {
+        properties.tag = `!${name}`;
+      }
+      this.skipSpaces();
+    }
+  }
+
+  private applyProperties(value: unknown, properties: NodeProperties, plain?: string): unknown {
+    const tagged = properties.tag ? this.applyTag(value, properties.tag, plain) : value;
+    if (properties.anchor) this.anchors.set(properties.anchor, tagged);
+    return tagged;
+  }
+
+  private applyTag(value: unknown, tag: string, plain?: string): unknown {
+    const text = plain ?? (typeof value === 'string' ? value : undefined);
+    switch (tag) {
+      case '!':
+      case '!!str':
+        return plain ?? (value === null ? '' : value);
+      case '!!int':
+      case '!!float': {
+        const number = text !== undefined ? resolvePlain(text) : value;
+        if (typeof number !== 'number') this.fail(`Value tagged ${tag} is not a number`);
+        return number;
+      }
+      case '!!bool':
+        if (typeof (text !== undefined ? resolvePlain(text) : value) !== 'boolean') this.fail('Value tagged !!bool is not a boolean');
+        return text !== undefined ? resolvePlain(text) : value;
+      case '!!null':
+        return null;
+      case '!!seq':
+        if (!Array.isArray(value)) this.fail('Value tagged !!seq is not a sequence');
+        return value;
+      case '!!map':
+        if (!isPlainObject(value)) this.fail('Value tagged !!map is not a mapping');
+        return value;
+      default:
+        return this.fail(`Unsupported tag ${tag}`);
+    }
+  }
+
+  // Block structure
+
+  // Node that starts at the current position, the first content on its line
+  private parseBlockNode(parentIndent: number): unknown {
+    const properties = this.parseProperties();
+    if ((properties.anchor || properties.tag) && this.atLineEnd()) {
+      this.skipToContent();
+      const nested = !this.atEnd() && this.column() > parentIndent && !this.isMarker('---') && !this.isMarker('...');
+      return this.applyProperties(nested ? this.parseBlockNode(parentIndent) : null, properties);
+    }
+
+    const indent = this.column();
+    if (this.isSequenceEntry()) return this.applyProperties(this.parseBlockSequence(indent), properties);
+    if (this.isMappingEntry()) {
+      if (properties.anchor || properties.tag) this.fail('Anchors and tags on mapping keys are not supported');
+      return this.parseBlockMapping(indent);
+    }
+    return this.parseInline(parentIndent, properties);
+  }
+
+  private parseBlockSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (;;) {
+      this.position++; // The dash
+      items.push(this.parseEntryValue(indent));
+
+      this.skipToContent();
+      if (this.atEnd() || this.isMarker('---') || this.isMarker('...') || this.column() < indent) break;
+      if (this.column() > indent) this.fail('Unexpected indentation');
+      if (!this.isSequenceEntry()) break; // A key of the mapping that holds this sequence
+    }
+    return items;
+  }
+
+  private parseBlockMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (;;) {
+      const keyStart = this.position;
+      const key = this.parseKey();
+      if (Object.prototype.hasOwnProperty.call(result, key)) this.fail(`Duplicate key "${key}"`, keyStart);
+      result[key] = this.parseEntryValue(indent, true);
+
+      this.skipToContent();
+      if (this.atEnd() || this.isMarker('---') || this.isMarker('...') || this.column() < indent) break;
+      if (this.column() > indent) this.fail('Unexpected indentation');
+      if (this.isSequenceEntry()) this.fail('Expected a mapping key but found a "-" list item');
+      if (!this.isMappingEntry()) this.fail(`Expected "key: value" but found ${this.restOfLine()}`);
+    }
+    return result;
+  }
+
+  private parseKey(): string {
+    let key: string;
+    if (this.peek() === '"' || this.peek() === "'") {
+      key = this.parseQuoted();
+      this.skipSpaces();
+    } else {
+      const start = this.position;
+      while (!(this.peek() === ':' && /^(?:[ \t\n]|$)/.test(this.peek(1)))) {
+        if (this.atEnd() || this.peek() === '\n') this.fail('Expected ":" after the key');
+        this.position++;
+      }
+      key = this.source.slice(start, this.position).trim();
+    }
+    if (this.peek() !== ':') this.fail('Expected ":" after the key');
+    this.position++;
+    return key;
+  }
+
+  // Value after `key:` or `-`: on the same line, or a more indented block below
+  // A sequence may sit at the same indentation as the key that holds it
+  private parseEntryValue(indent: number, isMappingValue = false): unknown {
+    if (this.atLineEnd()) {
+      this.skipToContent();
+      if (this.atEnd() || this.isMarker('---') || this.isMarker('...')) return null;
+      if (this.column() > indent) return this.parseBlockNode(indent);
+      if (isMappingValue && this.column() === indent && this.isSequenceEntry()) return this.parseBlockSequence(indent);
+      return null;
+    }
+    if (!isMappingValue) return this.parseBlockNode(indent); // `- key: value` and `- - item` start beside the dash
+
+    const properties = this.parseProperties();
+    if ((properties.anchor || properties.tag) && this.atLineEnd()) {
+      return this.applyProperties(this.parseEntryValue(indent, true), properties);
+    }
+    return this.parseInline(indent, properties);
+  }
+
+  // Scalars, flow collections and aliases; they may continue on more indented lines
+  private parseInline(parentIndent: number, properties: NodeProperties = {}): unknown {
+    const first = this.peek();
+    if (first === '*') {
+      if (properties.anchor || properties.tag) this.fail('An alias cannot have an anchor or tag');
+      const start = ++this.position;
+      while (!this.atEnd() && !/[ \t\n]/.test(this.peek()) && !FLOW_INDICATORS.includes(this.peek())) this.position++;
+      const value = this.resolveAlias(this.source.slice(start, this.position), start);
+      this.finishLine();
+      return value;
+    }
+    if (first === '|' || first === '>') return this.applyProperties(this.parseBlockScalar(parentIndent), properties);
+    if (first === '[' || first === '{') {
+      const value = this.parseFlowNode();
+      this.finishLine();
+      return this.applyProperties(value, properties);
+    }
+    if (first === '"' || first === "'") {
+      const value = this.parseQuoted();
+      this.finishLine();
+      return this.applyProperties(value, properties);
+    }
+    const plain = this.parsePlain(parentIndent);
+    return this.applyProperties(properties.tag ? plain : resolvePlain(plain), properties, plain);
+  }
+
+  private resolveAlias(name: string, at: number): unknown {
+    if (!this.anchors.has(name)) this.fail(`Unknown alias *${name}`, at);
+    return this.anchors.get(name);
+  }
+
+  // Plain text up to a comment; more indented lines below fold into it
+  private parsePlain(parentIndent: number): string {
+    const readLine = () => {
+      const text = this.restOfLine().replace(/[ \t]+#.*$/, '').trim();
+      if (/:(?:[ \t]|$)/.test(text)) this.fail('A mapping cannot start on the same line as its key or list item');
+      this.skipLine();
+      return text;
+    };
+
+    let text = readLine();
+    for (;;) {
+      const lineEnd = this.position;
+      let breaks = 0;
+      let lineStart = lineEnd;
+      // Look ahead past blank lines without consuming anything that belongs to the next node
+      while (this.source[lineStart] === '\n') {
+        breaks++;
+        let cursor = lineStart + 1;
+        while (this.source[cursor] === ' ' || this.source[cursor] === '\t') cursor++;
+        if (this.source[cursor] !== '\n') {
+          lineStart = cursor;
+          break;
+        }
+        lineStart = cursor;
+      }
+      if (breaks === 0 || lineStart >= this.source.length) break;
+      this.position = lineStart;
+      if (this.column() <= parentIndent || this.peek() === '#' || this.isMarker('---') || this.isMarker('...')) {
+        this.position = lineEnd;
+        break;
+      }
+      const next = readLine();
+      text += breaks > 1 ? '\n'.repeat(breaks - 1) + next : ` ${next}`;
+    }
+    return text;
+  }
+
+  // `|` keeps line breaks, `>` folds them; `-`/`+` strip or keep trailing ones; a digit fixes the indentation
+  private parseBlockScalar(parentIndent: number): string {
+    const folded = this.peek() === '>';
+    this.position++;
+    let chomping = '';
+    let explicitIndent = 0;
+    while (/[-+1-9]/.test(this.peek())) {
+      const char = this.peek();
+      if (char === '-' || char === '+') chomping = char;
+      else explicitIndent = Number(char);
+      this.position++;
+    }
+    this.finishLine();
+    this.skipLine();
+
+    const base = Math.max(parentIndent, 0);
+    let contentIndent = explicitIndent ? base + explicitIndent : -1;
+    const lines: string[] = [];
+    while (!this.atEnd()) {
+      this.position++; // The line break
+      // The document's final line break ends the last line; no empty line follows it
+      if (this.atEnd()) break;
+      const lineStart = this.position;
+      const line = this.restOfLine();
+      const spaces = line.length - line.trimStart().length;
+      const blank = line.trim() === '';
+      if (contentIndent === -1 && !blank) contentIndent = Math.max(spaces, parentIndent + 1);
+      if (this.isMarker('---') || this.isMarker('...') || (!blank && spaces < contentIndent)) {
+        this.position = lineStart - 1;
+        break;
+      }
+      lines.push(blank && spaces <= Math.max(contentIndent, 0) ? '' : line.slice(Math.max(contentIndent, 0)));
+      this.skipLine();
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+
+    let text = folded ? foldLines(lines) : lines.join('\n');
+    if (chomping === '+') text += '\n'.repeat(lines.length > 0 ? trailing + 1 : trailing);
+    else if (chomping === '' && lines.length > 0) text += '\n';
+    return text;
+  }
+
+  // Flow style: `[a, b]` and `{key: value}`, which may span lines
+
+  private skipFlowSpace(): void {
+    for (;;) {
+      while (/[ \t\n]/.test(this.peek()) && !this.atEnd()) this.position++;
+      if (this.peek() !== '#') return;
+      this.skipLine();
+    }
+  }
+
+  private parseFlowNode(): unknown {
+    this.skipFlowSpace();
+    const properties = this.parseProperties();
+    const first = this.peek();
+    let value: unknown;
+    if (first === '*') {
+      const start = ++this.position;
+      while (!this.atEnd() && !/[ \t\n]/.test(this.peek()) && !FLOW_INDICATORS.includes(this.peek())) this.position++;
+      return this.resolveAlias(this.source.slice(start, this.position), start);
+    }
+    if (first === '[') value = this.parseFlowSequence();
+    else if (first === '{') value = this.parseFlowMapping();
+    else if (first === '"' || first === "'") value = this.parseQuoted();
+    else {
+      const plain = this.parseFlowPlain();
+      return this.applyProperties(properties.tag ? plain : resolvePlain(plain), properties, plain);
+    }
+    return this.applyProperties(value, properties);
+  }
+
+  private parseFlowPlain(): string {
+    const start = this.position;
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === '\n' || FLOW_INDICATORS.includes(char)) break;
+      if (char === ':' && /^(?:[ \t\n,[\]{}]|$)/.test(this.peek(1))) break;
+      if (char === '#' && /[ \t]/.test(this.source[this.position - 1])) break;
+      this.position++;
+    }
+    return this.source.slice(start, this.position).trim();
+  }
+
+  private parseFlowSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.position++;
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.peek() === ']') break;
+      const item = this.parseFlowNode();
+      this.skipFlowSpace();
+      // `[key: value]` is a list holding a single-pair mapping
+      if (this.peek() === ':') {
+        this.position++;
+        this.skipFlowSpace();
+        const value = this.peek() === ',' || this.peek() === ']' ? null : this.parseFlowNode();
+        items.push({ [String(item)]: value });
+        this.skipFlowSpace();
+      } else {
+        items.push(item);
+      }
+      if (this.peek() === ',') {
+        this.position++;
+        continue;
+      }
+      if (this.peek() !== ']') this.fail(this.atEnd() ? 'Unterminated "["' : 'Expected "," or "]"');
+      break;
+    }
+    this.position++;
+    return items;
+  }
+
+  private parseFlowMapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.position++;
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.peek() === '}') break;
+      const keyStart = this.position;
+      const key = this.peek() === '"' || this.peek() === "'" ? this.parseQuoted() : this.parseFlowPlain();
+      if (Object.prototype.hasOwnProperty.call(result, key)) this.fail(`Duplicate key "${key}"`, keyStart);
+      this.skipFlowSpace();
+      let value: unknown = null;
+      if (this.peek() === ':') {
+        this.position++;
+        this.skipFlowSpace();
+        if (this.peek() !== ',' && this.peek() !== '}') value = this.parseFlowNode();
+        this.skipFlowSpace();
+      }
+      result[key] = value;
+      if (this.peek() === ',') {
+        this.position++;
+        continue;
+      }
+      if (this.peek() !== '}') this.fail(this.atEnd() ? 'Unterminated "{"' : 'Expected "," or "}"');
+      break;
+    }
+    this.position++;
+    return result;
+  }
+
+  // Quoted scalars; line breaks inside them fold to spaces, blank lines to newlines
+  private parseQuoted(): string {
+    const quoteChar = this.peek();
+    const start = this.position++;
+    let text = '';
+    let kept = 0; // Length of text that trailing-space trimming must not remove
+
+    for (;;) {
+      if (this.atEnd()) this.fail('Unterminated quoted string', start);
+      const char = this.peek();
+
+      if (char === quoteChar) {
+        if (quoteChar === "'" && this.peek(1) === "'") {
+          text += "'";
+          kept = text.length;
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        return text;
+      }
+
+      if (char === '\n') {
+        text = text.slice(0, kept) + text.slice(kept).replace(/[ \t]+$/, '');
+        let breaks = 0;
+        while (this.peek() === '\n') {
+          breaks++;
+          this.position++;
+          this.skipSpaces();
+        }
+        text += breaks > 1 ? '\n'.repeat(breaks - 1) : ' ';
+        continue;
+      }
+
+      if (char === '\\' && quoteChar === '"') {
+        const escape = this.peek(1);
+        if (escape === '\n') {
+          this.position += 2;
+          this.skipSpaces();
+          continue;
+        }
+        const length = HEX_ESCAPE_LENGTHS[escape];
+        if (length) {
+          const hex = this.source.slice(this.position + 2, this.position + 2 + length);
+          if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) this.fail(`Invalid escape \\${escape}${hex}`);
+          text += String.fromCodePoint(parseInt(hex, 16));
+          this.position += 2 + length;
+        } else {
+          if (!(escape in DOUBLE_QUOTE_UNESCAPES)) this.fail(`Invalid escape \\${escape}`);
+          text += DOUBLE_QUOTE_UNESCAPES[escape];
+          this.position += 2;
+        }
+        kept = text.length;
+        continue;
+      }
+
+      text += char;
+      this.position++;
+    }
+  }
+}
+
+// Folded block scalars: single breaks between plain lines become spaces; more indented lines keep theirs
+const foldLines = (lines: string[]): string => {
+  let text = '';
+  let emptyLines = 0;
+  let previousIndented = false;
+  let started = false;
+  lines.forEach(line => {
+    if (line === '') {
+      emptyLines++;
+      return;
+    }
+    const indented = /^[ \t]/.test(line);
+    if (!started) text += '\n'.repeat(emptyLines) + line;
+    else if (indented || previousIndented) text += '\n'.repeat(emptyLines + 1) + line;
+    else text += emptyLines > 0 ? '\n'.repeat(emptyLines) + line : ` ${line}`;
+    started = true;
+    emptyLines = 0;
+    previousIndented = indented;
+  });
+  return text;
+};
+
+export const parseYaml = (text: string): unknown => {
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  return new YamlReader(source).parseDocument();
+};
@@ -0,0 +1,242 @@
+// src/utils/treeLayout.ts
+// Tidy tree layout for the rule canvas
+// Positions atoms top-down or left-right from their rendered sizes so subtrees never overlap
+
+import { AtomInstance } from '../types/RuleTypes';
+
+export type LayoutDirection = 'top-down' | 'left-right';
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+export interface LayoutBounds extends LayoutPoint, LayoutSize {}
+
+export interface TreeLayoutOptions {
+  direction?: LayoutDirection;
+  // Gap between a parent's level and its children's level
+  levelGap?: number;
+  // Gap between neighbouring subtrees on the same level
+  siblingGap?: number;
+  // Top-left corner of the laid out tree
+  origin?: LayoutPoint;
+  // Measured node sizes by atom id; unmeasured atoms use defaultSize
+  sizes?: Record<string, LayoutSize>;
+  defaultSize?: LayoutSize;
+}
+
+export interface TreeLayout {
+  direction: LayoutDirection;
+  positions: Record<string, LayoutPoint>;
+  bounds: LayoutBounds;
+}
+
+export interface LayoutConnection {
+  parentId: string;
+  childId: string;
+  start: LayoutPoint;
+  end: LayoutPoint;
+}
+
+// Roughly the size of a collapsed AtomNode at 100% zoom
+export const DEFAULT_NODE_SIZE: LayoutSize = { width: 220, height: 96 };
+
+interface LayoutNode {
+  atom: AtomInstance;
+  size: LayoutSize;
+  depth: number;
+  // Extent of the whole subtree across the tree (width when top-down, height when left-right)
+  breadth: number;
+  children: LayoutNode[];
+}
+
+const buildLayoutNode = (
+  atom: AtomInstance,
+  depth: number,
+  sizeOf: (atom: AtomInstance) => LayoutSize,
+  crossSize: (size: LayoutSize) => number,
+  siblingGap: number
+): LayoutNode => {
+  const size = sizeOf(atom);
+  const children = atom.children.map(child => buildLayoutNode(child, depth + 1, sizeOf, crossSize, siblingGap));
+  const childrenBreadth = children.reduce((total, child) => total + child.breadth, 0)
+    + Math.max(0, children.length - 1) * siblingGap;
+
+  return { atom, size, depth, breadth: Math.max(crossSize(size), childrenBreadth), children };
+};
+
+/**
+ * Lays the tree out level by level. Each subtree gets a band as wide as its
+ * widest level, children are packed left to right inside the band and every
+ * parent is centred between its first and last child. Levels share one depth so siblings line up
+ * even when their nodes differ in size.
+ */
+export const computeTreeLayout = (root: AtomInstance, options: TreeLayoutOptions = {}): TreeLayout => {
+  const {
+    direction = 'top-down',
+    levelGap = 64,
+    siblingGap = 32,
+    origin = { x: 0, y: 0 },
+    sizes = {},
+    defaultSize = DEFAULT_NODE_SIZE
+  } = options;
+
+  const topDown = direction === 'top-down';
+  const crossSize = (size: LayoutSize) => (topDown ? size.width : size.height);
+  const mainSize = (size: LayoutSize) => (topDown ? size.height : size.width);
+  const sizeOf = (atom: AtomInstance) => sizes[atom.id] ?? defaultSize;
+
+  const tree = buildLayoutNode(root, 0, sizeOf, crossSize, siblingGap);
+
+  // Level offsets along the main axis, sized by the deepest node on each level
+  const levelExtents: number[] = [];
+  const collectLevels = (node: LayoutNode) => {
+    levelExtents[node.depth] = Math.max(levelExtents[node.depth] ?? 0, mainSize(node.size));
+    node.children.forEach(collectLevels);
+  };
+  collectLevels(tree);
+
+  const levelOffsets: number[] = [];
+  levelExtents.reduce((offset, extent, depth) => {
+    levelOffsets[depth] = offset;
+    return offset + extent + levelGap;
+  }, 0);
+
+  const positions: Record<string, LayoutPoint> = {};
+  let maxX = origin.x;
+  let maxY = origin.y;
+
+  const crossOf = (position: LayoutPoint) => (topDown ? position.x - origin.x : position.y - origin.y);
+
+  // Children are placed first so the parent can centre on the span between its first and last child
+  const place = (node: LayoutNode, bandStart: number) => {
+    const childrenBreadth = node.children.reduce((total, child) => total + child.breadth, 0)
+      + Math.max(0, node.children.length - 1) * siblingGap;
+    let childStart = bandStart + (node.breadth - childrenBreadth) / 2;
+    node.children.forEach(child => {
+      place(child, childStart);
+      childStart += child.breadth + siblingGap;
+    });
+
+    const nodeCross = crossSize(node.size);
+    let cross = bandStart + (node.breadth - nodeCross) / 2;
+    if (node.children.length > 0) {
+      const first = node.children[0];
+      const last = node.children[node.children.length - 1];
+      const childrenCentre = (
+        crossOf(positions[first.atom.id]) + crossSize(first.size) / 2
+        + crossOf(positions[last.atom.id]) + crossSize(last.size) / 2
+      ) / 2;
+      // Stay inside the band so a wide parent never overlaps a neighbouring subtree
+      cross = Math.min(Math.max(childrenCentre - nodeCross / 2, bandStart), bandStart + node.breadth - nodeCross);
+    }
+
+    const main = levelOffsets[node.depth];
+    const position = topDown
+      ? { x: origin.x + cross, y: origin.y + main }
+      : { x: origin.x + main, y: origin.y + cross };
+
+    positions[node.atom.id] = position;
+    maxX = Math.max(maxX, position.x + node.size.width);
+    maxY = Math.max(maxY, position.y + node.size.height);
+  };
+  place(tree, 0);
+
+  return {
+    direction,
+    positions,
+    bounds: { x: origin.x, y: origin.y, width: maxX - origin.x, height: maxY - origin.y }
+  };
+};
+
+// Writes layout positions into the tree, keeping atoms whose position did not change
+export const applyTreeLayout = (root: AtomInstance, layout: TreeLayout): AtomInstance => {
+  const position = layout.positions[root.id];
+  const children = root.children.map(child => applyTreeLayout(child, layout));
+  const moved = position && (position.x !== root.position.x || position.y !== root.position.y);
+  const childrenChanged = children.some((child, index) => child !== root.children[index]);
+
+  if (!moved && !childrenChanged) return root;
+  return { ...root, position: moved ? position : root.position, children };
+};
+
+export const layoutAtomTree = (root: AtomInstance, options?: TreeLayoutOptions): AtomInstance =>
+  applyTreeLayout(root, computeTreeLayout(root, options));
+
+// Parent edge to child edge, facing each other along the layout direction
+export const getConnectionAnchors = (
+  parent: LayoutBounds,
+  child: LayoutBounds,
+  direction: LayoutDirection
+): { start: LayoutPoint; end: LayoutPoint } =>
+  direction === 'top-down'
+    ? {
+        start: { x: parent.x + parent.width / 2, y: parent.y + parent.height },
+        end: { x: child.x + child.width / 2, y: child.y }
+      }
+    : {
+        start: { x: parent.x + parent.width, y: parent.y + parent.height / 2 },
+        end: { x: child.x, y: child.y + child.height / 2 }
+      };
+
+// Cubic bezier with both control points halfway along the main axis, so the
+// curve leaves the parent and enters the child perpendicular to their edges
+export const getConnectionPath = (start: LayoutPoint, end: LayoutPoint, direction: LayoutDirection): string =>
+  direction === 'top-down'
+    ? `M ${start.x} ${start.y} C ${start.x} ${(start.y + end.y) / 2}, ${end.x} ${(start.y + end.y) / 2}, ${end.x} ${end.y}`
+    : `M ${start.x} ${start.y} C ${(start.x + end.x) / 2} ${start.y}, ${(start.x + end.x) / 2} ${end.y}, ${end.x} ${end.y}`;
+
+// Connections from the atoms' current positions, so lines follow manual moves as well as layouts
+export const getTreeConnections = (
+  root: AtomInstance,
+  direction: LayoutDirection,
+  sizes: Record<string, LayoutSize> = {},
+  defaultSize: LayoutSize = DEFAULT_NODE_SIZE
+): LayoutConnection[] => {
+  const boundsOf = (atom: AtomInstance): LayoutBounds => ({ ...atom.position, ...(sizes[atom.id] ?? defaultSize) });
+  const connections: LayoutConnection[] = [];
+
+  const visit = (atom: AtomInstance) => {
+    atom.children.forEach(child => {
+      connections.push({
+        parentId: atom.id,
+        childId: child.id,
+        ...getConnectionAnchors(boundsOf(atom), boundsOf(child), direction)
+      });
+      visit(child);
+    });
+  };
+  visit(root);
+
+  return connections;
+};
+
+// Bounding box of every atom at its current position
+export const getTreeBounds = (
+  root: AtomInstance,
+  sizes: Record<string, LayoutSize> = {},
+  defaultSize: LayoutSize = DEFAULT_NODE_SIZE
+): LayoutBounds => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const visit = (atom: AtomInstance) => {
+    const size = sizes[atom.id] ?? defaultSize;
+    minX = Math.min(minX, atom.position.x);
+    minY = Math.min(minY, atom.position.y);
+    maxX = Math.max(maxX, atom.position.x + size.width);
+    maxY = Math.max(maxY, atom.position.y + size.height);
+    atom.children.forEach(visit);
+  };
+  visit(root);
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
@@ -0,0 +1,127 @@
+// src/utils/xml.ts
+// Escaping for text written into XML documents, and a small reader for the XML files rules are imported from
+// The reader works without a DOM so imports also run headless; it keeps elements and text and drops namespaces
+
+// Control characters other than tab and newlines are not allowed in XML 1.0
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+export const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export interface XmlElement {
+  name: string; // Local name, without its namespace prefix
+  attributes: Record<string, string>; // Keyed by local name as well
+  children: XmlElement[];
+  text: string; // Text directly inside the element, with entities decoded
+  line: number;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const END_TAG = /<\/([^\s>]+)\s*>/y;
+
+export const parseXml = (source: string): XmlElement => {
+  const lineAt = (offset: number) => source.slice(0, offset).split('\n').length;
+  const stack: Array<{ element: XmlElement; qualifiedName: string }> = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) throw new XmlParseError(`Unterminated ${what}`, lineAt(position));
+    const body = source.slice(position, end);
+    position = end + terminator.length;
+    return body;
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    const text = source.slice(position, tagStart === -1 ? undefined : tagStart);
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.text += decodeEntities(text);
+    } else if (text.trim() !== '') {
+      throw new XmlParseError('Text outside the root element', lineAt(position));
+    }
+    if (tagStart === -1) break;
+    position = tagStart;
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += '<![CDATA['.length;
+      const data = skipPast(']]>', 'CDATA section');
+      if (stack.length === 0) throw new XmlParseError('CDATA outside the root element', lineAt(tagStart));
+      stack[stack.length - 1].element.text += data;
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', position)) {
+      const declaration = skipPast('>', 'declaration');
+      if (declaration.includes('[')) throw new XmlParseError('Document type definitions are not supported', lineAt(tagStart));
+    } else if (source.startsWith('</', position)) {
+      END_TAG.lastIndex = position;
+      const match = END_TAG.exec(source);
+      if (!match) throw new XmlParseError('Malformed closing tag', lineAt(position));
+      const open = stack.pop();
+      if (!open || open.qualifiedName !== match[1]) {
+        throw new XmlParseError(`Unexpected </${match[1]}>${open ? `; <${open.qualifiedName}> is still open` : ''}`, lineAt(position));
+      }
+      position = END_TAG.lastIndex;
+    } else {
+      START_TAG.lastIndex = position;
+      const match = START_TAG.exec(source);
+      if (!match) throw new XmlParseError('Malformed tag', lineAt(position));
+      const attributes: Record<string, string> = {};
+      for (const attribute of match[2].matchAll(ATTRIBUTE)) {
+        attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      const element: XmlElement = { name: localName(match[1]), attributes, children: [], text: '', line: lineAt(position) };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].element.children.push(element);
+      } else if (root) {
+        throw new XmlParseError('A document has only one root element', element.line);
+      } else {
+        root = element;
+      }
+      if (!match[3]) stack.push({ element, qualifiedName: match[1] });
+      position = START_TAG.lastIndex;
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new XmlParseError(`<${open.qualifiedName}> is never closed`, open.element.line);
+  }
+  if (!root) throw new XmlParseError('The document has no root element', 1);
+  return root;
+};
+
+export const getXmlChildren = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter(child => child.name === name);
+
+export const getXmlChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  element.children.find(child => child.name === name);
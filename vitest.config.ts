@@ -0,0 +1,18 @@
+// File: vitest.config.ts
+// Unit test configuration for Vitest
+// Kept apart from vite.config.ts so tests don't load the build-only plugins
+
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src')
+    }
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})